@@ -1,6 +1,22 @@
 import { ethers } from "ethers";
 import EventEmitter from "events";
 
+/**
+ * Indexer events that are pushed to stream subscribers, mapped to the
+ * storage collection (and subgraph entity) they belong to
+ */
+export const STREAMED_EVENTS = {
+  loanCreated: "loanCreateds",
+  loanAccepted: "loanAccepteds",
+  loanRepaid: "loanRepaids",
+  loanLiquidated: "loanLiquidateds",
+  loanCancelled: "loanOfferCancelleds",
+  loanRemoved: "loanOfferRemoveds",
+  partialRepayment: "partialRepayments",
+  collateralAdded: "collateralAddeds",
+  collateralRemoved: "collateralRemoveds",
+};
+
 /**
  * EventIndexer - Indexes blockchain events from DomaLend contract
  * Maintains in-memory cache of all loan events and provides query methods
@@ -25,6 +41,9 @@ export class EventIndexer extends EventEmitter {
       loanLiquidateds: [],
       loanOfferCancelleds: [],
       loanOfferRemoveds: [],
+      partialRepayments: [],
+      collateralAddeds: [],
+      collateralRemoveds: [],
       domaRankOracleSets: [],
     };
 
@@ -133,6 +152,9 @@ export class EventIndexer extends EventEmitter {
         loanLiquidatedEvents,
         loanCancelledEvents,
         loanRemovedEvents,
+        partialRepaymentEvents,
+        collateralAddedEvents,
+        collateralRemovedEvents,
         domaOracleSetEvents,
       ] = await Promise.all([
         this.contract.queryFilter("LoanCreated", fromBlock, toBlock),
@@ -141,6 +163,9 @@ export class EventIndexer extends EventEmitter {
         this.contract.queryFilter("LoanLiquidated", fromBlock, toBlock),
         this.contract.queryFilter("LoanOfferCancelled", fromBlock, toBlock),
         this.contract.queryFilter("LoanOfferRemoved", fromBlock, toBlock),
+        this.contract.queryFilter("PartialRepayment", fromBlock, toBlock),
+        this.contract.queryFilter("CollateralAdded", fromBlock, toBlock),
+        this.contract.queryFilter("CollateralRemoved", fromBlock, toBlock),
         this.contract.queryFilter("DomaRankOracleSet", fromBlock, toBlock),
       ]);
 
@@ -169,6 +194,18 @@ export class EventIndexer extends EventEmitter {
         await this.processLoanRemovedEvent(event);
       }
 
+      for (const event of partialRepaymentEvents) {
+        await this.processPartialRepaymentEvent(event);
+      }
+
+      for (const event of collateralAddedEvents) {
+        await this.processCollateralAddedEvent(event);
+      }
+
+      for (const event of collateralRemovedEvents) {
+        await this.processCollateralRemovedEvent(event);
+      }
+
       for (const event of domaOracleSetEvents) {
         await this.processDomaOracleSetEvent(event);
       }
@@ -233,6 +270,9 @@ export class EventIndexer extends EventEmitter {
         loanLiquidatedEvents,
         loanCancelledEvents,
         loanRemovedEvents,
+        partialRepaymentEvents,
+        collateralAddedEvents,
+        collateralRemovedEvents,
       ] = await Promise.all([
         this.contract.queryFilter("LoanCreated", fromBlock, toBlock),
         this.contract.queryFilter("LoanAccepted", fromBlock, toBlock),
@@ -240,6 +280,9 @@ export class EventIndexer extends EventEmitter {
         this.contract.queryFilter("LoanLiquidated", fromBlock, toBlock),
         this.contract.queryFilter("LoanOfferCancelled", fromBlock, toBlock),
         this.contract.queryFilter("LoanOfferRemoved", fromBlock, toBlock),
+        this.contract.queryFilter("PartialRepayment", fromBlock, toBlock),
+        this.contract.queryFilter("CollateralAdded", fromBlock, toBlock),
+        this.contract.queryFilter("CollateralRemoved", fromBlock, toBlock),
       ]);
 
       let newEvents = 0;
@@ -274,6 +317,21 @@ export class EventIndexer extends EventEmitter {
         newEvents++;
       }
 
+      for (const event of partialRepaymentEvents) {
+        await this.processPartialRepaymentEvent(event);
+        newEvents++;
+      }
+
+      for (const event of collateralAddedEvents) {
+        await this.processCollateralAddedEvent(event);
+        newEvents++;
+      }
+
+      for (const event of collateralRemovedEvents) {
+        await this.processCollateralRemovedEvent(event);
+        newEvents++;
+      }
+
       if (newEvents > 0) {
         console.log(`✓ Processed ${newEvents} new events`);
         this.emit("newEvents", { count: newEvents, toBlock });
@@ -313,6 +371,7 @@ export class EventIndexer extends EventEmitter {
       maxPriceStaleness: args.maxPriceStaleness.toString(),
       blockNumber: event.blockNumber.toString(),
       blockTimestamp: block.timestamp.toString(),
+      logIndex: logIndex.toString(),
       transactionHash: txHash,
       // Historical price data (will be fetched from oracle if available)
       priceUSD: "0",
@@ -354,6 +413,9 @@ export class EventIndexer extends EventEmitter {
       borrower: args.borrower.toLowerCase(),
       timestamp: block.timestamp.toString(),
       initialCollateralRatio: args.initialCollateralRatio?.toString() || "0",
+      blockNumber: event.blockNumber.toString(),
+      logIndex: logIndex.toString(),
+      transactionHash: txHash,
     };
 
     const existing = this.storage.loanAccepteds.find(
@@ -381,6 +443,9 @@ export class EventIndexer extends EventEmitter {
       borrower: args.borrower.toLowerCase(),
       repaymentAmount: args.repaymentAmount.toString(),
       timestamp: block.timestamp.toString(),
+      blockNumber: event.blockNumber.toString(),
+      logIndex: logIndex.toString(),
+      transactionHash: txHash,
     };
 
     const existing = this.storage.loanRepaids.find(
@@ -409,6 +474,9 @@ export class EventIndexer extends EventEmitter {
       collateralClaimedByLender: args.collateralClaimedByLender.toString(),
       liquidatorReward: args.liquidatorReward.toString(),
       timestamp: block.timestamp.toString(),
+      blockNumber: event.blockNumber.toString(),
+      logIndex: logIndex.toString(),
+      transactionHash: txHash,
     };
 
     const existing = this.storage.loanLiquidateds.find(
@@ -435,6 +503,9 @@ export class EventIndexer extends EventEmitter {
       loanId: args.loanId.toString(),
       lender: args.lender.toLowerCase(),
       timestamp: block.timestamp.toString(),
+      blockNumber: event.blockNumber.toString(),
+      logIndex: logIndex.toString(),
+      transactionHash: txHash,
     };
 
     const existing = this.storage.loanOfferCancelleds.find(
@@ -450,6 +521,7 @@ export class EventIndexer extends EventEmitter {
    * Process LoanOfferRemoved event
    */
   async processLoanRemovedEvent(event) {
+    const block = await event.getBlock();
     const args = event.args;
 
     const txHash = event.transactionHash || event.log?.transactionHash;
@@ -459,6 +531,10 @@ export class EventIndexer extends EventEmitter {
       id: txHash + "-" + logIndex,
       loanId: args.loanId.toString(),
       reason: args.reason,
+      timestamp: block.timestamp.toString(),
+      blockNumber: event.blockNumber.toString(),
+      logIndex: logIndex.toString(),
+      transactionHash: txHash,
     };
 
     const existing = this.storage.loanOfferRemoveds.find(
@@ -470,6 +546,100 @@ export class EventIndexer extends EventEmitter {
     }
   }
 
+  /**
+   * Process PartialRepayment event
+   */
+  async processPartialRepaymentEvent(event) {
+    const block = await event.getBlock();
+    const args = event.args;
+
+    const txHash = event.transactionHash || event.log?.transactionHash;
+    const logIndex = event.index !== undefined ? event.index : event.log?.index;
+
+    const partialRepayment = {
+      id: txHash + "-" + logIndex,
+      loanId: args.loanId.toString(),
+      borrower: args.borrower.toLowerCase(),
+      repaymentAmount: args.repaymentAmount.toString(),
+      totalRepaidAmount: args.totalRepaidAmount.toString(),
+      remainingAmount: args.remainingAmount.toString(),
+      timestamp: block.timestamp.toString(),
+      blockNumber: event.blockNumber.toString(),
+      logIndex: logIndex.toString(),
+      transactionHash: txHash,
+    };
+
+    const existing = this.storage.partialRepayments.find(
+      (e) => e.id === partialRepayment.id
+    );
+    if (!existing) {
+      this.storage.partialRepayments.push(partialRepayment);
+      this.emit("partialRepayment", partialRepayment);
+    }
+  }
+
+  /**
+   * Process CollateralAdded event
+   */
+  async processCollateralAddedEvent(event) {
+    const block = await event.getBlock();
+    const args = event.args;
+
+    const txHash = event.transactionHash || event.log?.transactionHash;
+    const logIndex = event.index !== undefined ? event.index : event.log?.index;
+
+    const collateralAdded = {
+      id: txHash + "-" + logIndex,
+      loanId: args.loanId.toString(),
+      borrower: args.borrower.toLowerCase(),
+      amount: args.amount.toString(),
+      newCollateralRatio: args.newCollateralRatio.toString(),
+      timestamp: block.timestamp.toString(),
+      blockNumber: event.blockNumber.toString(),
+      logIndex: logIndex.toString(),
+      transactionHash: txHash,
+    };
+
+    const existing = this.storage.collateralAddeds.find(
+      (e) => e.id === collateralAdded.id
+    );
+    if (!existing) {
+      this.storage.collateralAddeds.push(collateralAdded);
+      this.emit("collateralAdded", collateralAdded);
+    }
+  }
+
+  /**
+   * Process CollateralRemoved event
+   */
+  async processCollateralRemovedEvent(event) {
+    const block = await event.getBlock();
+    const args = event.args;
+
+    const txHash = event.transactionHash || event.log?.transactionHash;
+    const logIndex = event.index !== undefined ? event.index : event.log?.index;
+
+    const collateralRemoved = {
+      id: txHash + "-" + logIndex,
+      loanId: args.loanId.toString(),
+      borrower: args.borrower.toLowerCase(),
+      amount: args.amount.toString(),
+      newCollateralRatio: args.newCollateralRatio.toString(),
+      timestamp: block.timestamp.toString(),
+      blockNumber: event.blockNumber.toString(),
+      logIndex: logIndex.toString(),
+      transactionHash: txHash,
+    };
+
+    const existing = this.storage.collateralRemoveds.find(
+      (e) => e.id === collateralRemoved.id
+    );
+    if (!existing) {
+      this.storage.collateralRemoveds.push(collateralRemoved);
+      this.emit("collateralRemoved", collateralRemoved);
+    }
+  }
+
   /**
    * Process DomaRankOracleSet event
    */
@@ -555,6 +725,49 @@ export class EventIndexer extends EventEmitter {
     return this.storage.loanOfferRemoveds.slice(skip, skip + first);
   }
 
+  getPartialRepaymentEvents(options = {}) {
+    const { first = 100, skip = 0 } = options;
+    return this.storage.partialRepayments
+      .sort((a, b) => Number(BigInt(b.timestamp) - BigInt(a.timestamp)))
+      .slice(skip, skip + first);
+  }
+
+  getCollateralAddedEvents(options = {}) {
+    const { first = 100, skip = 0 } = options;
+    return this.storage.collateralAddeds
+      .sort((a, b) => Number(BigInt(b.timestamp) - BigInt(a.timestamp)))
+      .slice(skip, skip + first);
+  }
+
+  getCollateralRemovedEvents(options = {}) {
+    const { first = 100, skip = 0 } = options;
+    return this.storage.collateralRemoveds
+      .sort((a, b) => Number(BigInt(b.timestamp) - BigInt(a.timestamp)))
+      .slice(skip, skip + first);
+  }
+
+  /**
+   * Every stored loan event at or after fromBlock, in chain order.
+   * Used by the event stream to replay what a reconnecting client missed.
+   */
+  getEventsSinceBlock(fromBlock = 0) {
+    const events = [];
+
+    for (const collection of Object.values(STREAMED_EVENTS)) {
+      for (const event of this.storage[collection]) {
+        if (event.blockNumber && Number(event.blockNumber) >= fromBlock) {
+          events.push({ collection, event });
+        }
+      }
+    }
+
+    return events.sort(
+      (a, b) =>
+        Number(a.event.blockNumber) - Number(b.event.blockNumber) ||
+        Number(a.event.logIndex || 0) - Number(b.event.logIndex || 0)
+    );
+  }
+
   getProtocolStats() {
     return {
       totalLoansCreated: this.stats.totalLoansCreated,
@@ -1,6 +1,6 @@
 import express from "express";
 import cors from "cors";
-import { EventIndexer } from "./EventIndexer.js";
+import { EventIndexer, STREAMED_EVENTS } from "./EventIndexer.js";
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
@@ -8,6 +8,11 @@ import { fileURLToPath } from "url";
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Keeps idle event streams from being closed by proxies
+const STREAM_HEARTBEAT_INTERVAL = 15000;
+// Reconnect delay suggested to EventSource clients
+const STREAM_RETRY_MS = 3000;
+
 /**
  * IndexerServer - Express server that exposes indexed data via REST/GraphQL endpoints
  * Compatible with existing frontend subgraph queries
@@ -22,6 +27,8 @@ export class IndexerServer {
 
     this.app = express();
     this.indexer = config.indexer;
+    // Every open event stream adds its own set of listeners
+    this.indexer.setMaxListeners(0);
 
     this.setupMiddleware();
     this.setupRoutes();
@@ -153,6 +160,33 @@ export class IndexerServer {
       res.json({ loanOfferRemoveds: events });
     });
 
+    // Get partial repayment events
+    this.app.get("/api/loans/partial-repayments", (req, res) => {
+      const first = parseInt(req.query.first) || 100;
+      const skip = parseInt(req.query.skip) || 0;
+
+      const events = this.indexer.getPartialRepaymentEvents({ first, skip });
+      res.json({ partialRepayments: events });
+    });
+
+    // Get collateral added events
+    this.app.get("/api/loans/collateral-added", (req, res) => {
+      const first = parseInt(req.query.first) || 100;
+      const skip = parseInt(req.query.skip) || 0;
+
+      const events = this.indexer.getCollateralAddedEvents({ first, skip });
+      res.json({ collateralAddeds: events });
+    });
+
+    // Get collateral removed events
+    this.app.get("/api/loans/collateral-removed", (req, res) => {
+      const first = parseInt(req.query.first) || 100;
+      const skip = parseInt(req.query.skip) || 0;
+
+      const events = this.indexer.getCollateralRemovedEvents({ first, skip });
+      res.json({ collateralRemoveds: events });
+    });
+
     // Get protocol stats
     this.app.get("/api/stats", (req, res) => {
       const stats = this.indexer.getProtocolStats();
@@ -174,12 +208,84 @@ export class IndexerServer {
           skip,
         }),
         loanOfferRemoveds: this.indexer.getLoanRemovedEvents({ first, skip }),
+        partialRepayments: this.indexer.getPartialRepaymentEvents({
+          first,
+          skip,
+        }),
+        collateralAddeds: this.indexer.getCollateralAddedEvents({
+          first,
+          skip,
+        }),
+        collateralRemoveds: this.indexer.getCollateralRemovedEvents({
+          first,
+          skip,
+        }),
         protocolStats_collection: [this.indexer.getProtocolStats()],
       };
 
       res.json(data);
     });
 
+    // Server-Sent Events stream of newly indexed loan events.
+    // Each message is named after its entity collection and carries the
+    // block number as its id, so clients resume with ?fromBlock=<id> (or the
+    // Last-Event-ID header) and receive everything from that block onwards.
+    this.app.get("/api/events/stream", (req, res) => {
+      const cursor = req.get("Last-Event-ID") ?? req.query.fromBlock;
+      const fromBlock = cursor !== undefined ? parseInt(cursor) : NaN;
+
+      res.set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+      res.flushHeaders();
+      res.write(`retry: ${STREAM_RETRY_MS}\n\n`);
+
+      const send = (eventName, id, data) => {
+        res.write(
+          `id: ${id}\nevent: ${eventName}\ndata: ${JSON.stringify(data)}\n\n`
+        );
+      };
+
+      // Replay what the client missed while disconnected
+      if (!Number.isNaN(fromBlock)) {
+        for (const { collection, event } of this.indexer.getEventsSinceBlock(
+          fromBlock
+        )) {
+          send(collection, event.blockNumber, event);
+        }
+      }
+
+      const listeners = Object.entries(STREAMED_EVENTS).map(
+        ([indexerEvent, collection]) => {
+          const listener = (event) =>
+            send(collection, event.blockNumber, event);
+          this.indexer.on(indexerEvent, listener);
+          return [indexerEvent, listener];
+        }
+      );
+
+      // Lets clients advance their cursor past blocks without loan events
+      const onNewEvents = ({ toBlock }) =>
+        send("checkpoint", toBlock + 1, { block: toBlock });
+      this.indexer.on("newEvents", onNewEvents);
+
+      const heartbeat = setInterval(
+        () => res.write(": heartbeat\n\n"),
+        STREAM_HEARTBEAT_INTERVAL
+      );
+
+      req.on("close", () => {
+        clearInterval(heartbeat);
+        for (const [indexerEvent, listener] of listeners) {
+          this.indexer.off(indexerEvent, listener);
+        }
+        this.indexer.off("newEvents", onNewEvents);
+      });
+    });
+
     // Add custom routes if provided (before 404 handler)
     if (
       this.config.customRoutes &&
@@ -221,16 +327,26 @@ export class IndexerServer {
         };
       }
 
-      const firstMatch = queryString.match(/first:\s*(\d+)/);
-      const skipMatch = queryString.match(/skip:\s*(\d+)/);
-      const orderByMatch = queryString.match(/orderBy:\s*(\w+)/);
-      const orderDirectionMatch = queryString.match(/orderDirection:\s*(\w+)/);
+      // Arguments may be literals or $variables (e.g. first: $first)
+      const readArgument = (name) => {
+        const match = queryString.match(
+          new RegExp(`[(,\\s]${name}:\\s*(\\$?\\w+)`)
+        );
+        if (!match) return undefined;
+        const value = match[1];
+        return value.startsWith("$") ? variables?.[value.slice(1)] : value;
+      };
+
+      const first = readArgument("first");
+      const skip = readArgument("skip");
+      const orderBy = readArgument("orderBy");
+      const orderDirection = readArgument("orderDirection");
 
       return {
-        first: firstMatch ? parseInt(firstMatch[1]) : 100,
-        skip: skipMatch ? parseInt(skipMatch[1]) : 0,
-        orderBy: orderByMatch ? orderByMatch[1] : "blockTimestamp",
-        orderDirection: orderDirectionMatch ? orderDirectionMatch[1] : "desc",
+        first: first !== undefined ? parseInt(first) : 100,
+        skip: skip !== undefined ? parseInt(skip) : 0,
+        orderBy: orderBy || "blockTimestamp",
+        orderDirection: orderDirection || "desc",
       };
     };
 
@@ -264,6 +380,21 @@ export class IndexerServer {
         this.indexer.getLoanRemovedEvents(options);
     }
 
+    if (query.includes("partialRepayments")) {
+      result.data.partialRepayments =
+        this.indexer.getPartialRepaymentEvents(options);
+    }
+
+    if (query.includes("collateralAddeds")) {
+      result.data.collateralAddeds =
+        this.indexer.getCollateralAddedEvents(options);
+    }
+
+    if (query.includes("collateralRemoveds")) {
+      result.data.collateralRemoveds =
+        this.indexer.getCollateralRemovedEvents(options);
+    }
+
     if (
       query.includes("protocolStats_collection") ||
       query.includes("protocolStatsCollection")
@@ -287,6 +418,9 @@ export class IndexerServer {
         console.log(`Health: http://localhost:${this.config.port}/health`);
         console.log(`GraphQL: http://localhost:${this.config.port}/graphql`);
         console.log(`REST API: http://localhost:${this.config.port}/api/*`);
+        console.log(
+          `Event stream: http://localhost:${this.config.port}/api/events/stream`
+        );
         console.log(`${"=".repeat(60)}\n`);
         resolve();
       });
@@ -1,4 +1,6 @@
 import type { NextConfig } from "next";
+// Fails `next dev` / `next build` early on an invalid network profile
+import "./src/config/networks";
 
 const nextConfig: NextConfig = {
   webpack: config => {
@@ -0,0 +1,33 @@
+/**
+ * Tests for the exact/unlimited approval preference
+ */
+
+import { ethers } from "ethers";
+import {
+  approvalAmountFor,
+  isUnlimitedAllowance,
+  readApprovalMode,
+  writeApprovalMode,
+} from "@/lib/approvalMode";
+
+describe("approval mode", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("approves the exact amount by default", () => {
+    expect(readApprovalMode()).toBe("exact");
+    expect(approvalAmountFor(BigInt(250))).toBe(BigInt(250));
+  });
+
+  it("approves the maximum once unlimited is chosen", () => {
+    writeApprovalMode("unlimited");
+    expect(readApprovalMode()).toBe("unlimited");
+    expect(approvalAmountFor(BigInt(250))).toBe(ethers.MaxUint256);
+  });
+
+  it("treats a partly spent maximum allowance as unlimited", () => {
+    expect(isUnlimitedAllowance(ethers.MaxUint256 - BigInt(1000))).toBe(true);
+    expect(isUnlimitedAllowance(BigInt(10) ** BigInt(30))).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for running loan actions one after another
+ */
+
+import { ethers } from "ethers";
+import {
+  runBatch,
+  summarizeBatch,
+  sumCollateralByToken,
+} from "@/lib/batchExecutor";
+import { TransactionError } from "@/lib/transactionErrors";
+
+const COLLATERAL = "0x4444444444444444444444444444444444444444";
+const OTHER_COLLATERAL = "0x5555555555555555555555555555555555555555";
+
+describe("runBatch", () => {
+  it("keeps going after a failed item and reports each outcome", async () => {
+    const results = await runBatch([1, 2, 3], async (item) => {
+      if (item === 2) throw new Error("Loan offer not pending");
+      return `0x${item}`;
+    });
+
+    expect(results.map((result) => result.status)).toEqual([
+      "succeeded",
+      "failed",
+      "succeeded",
+    ]);
+    expect(results[0].hash).toBe("0x1");
+    expect(summarizeBatch(results)).toEqual({
+      succeeded: 2,
+      pending: 0,
+      failed: 1,
+      skipped: 0,
+    });
+  });
+
+  it("skips the rest once the wallet prompt is rejected", async () => {
+    const execute = jest.fn(async (item: number) => {
+      if (item === 1) {
+        throw ethers.makeError("user rejected action", "ACTION_REJECTED", {
+          action: "sendTransaction",
+          reason: "rejected",
+        });
+      }
+      return "0x0";
+    });
+
+    const results = await runBatch([0, 1, 2], execute);
+
+    expect(results.map((result) => result.status)).toEqual([
+      "succeeded",
+      "failed",
+      "skipped",
+    ]);
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it("marks unconfirmed items pending and honours a stop request", async () => {
+    let stop = false;
+    const updates: string[][] = [];
+
+    const results = await runBatch(
+      [0, 1],
+      async () => {
+        stop = true;
+        throw new TransactionError("TRANSACTION_PENDING", "Still waiting");
+      },
+      {
+        shouldStop: () => stop,
+        onUpdate: (current) =>
+          updates.push(current.map((result) => result.status)),
+      }
+    );
+
+    expect(results.map((result) => result.status)).toEqual([
+      "pending",
+      "skipped",
+    ]);
+    expect(updates[0]).toEqual(["running", "queued"]);
+  });
+});
+
+describe("sumCollateralByToken", () => {
+  it("adds up collateral per token regardless of address case", () => {
+    expect(
+      sumCollateralByToken([
+        { collateralAddress: COLLATERAL, collateralAmount: BigInt(100) },
+        { collateralAddress: OTHER_COLLATERAL, collateralAmount: BigInt(5) },
+        {
+          collateralAddress: COLLATERAL.toUpperCase().replace("0X", "0x"),
+          collateralAmount: BigInt(50),
+        },
+      ])
+    ).toEqual([
+      { collateralAddress: COLLATERAL, required: BigInt(150) },
+      { collateralAddress: OTHER_COLLATERAL, required: BigInt(5) },
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for the typed DomaLend contract bindings
+ */
+
+import { ethers } from "ethers";
+import { DREAMLEND_ABI, LoanStatus } from "@/lib/contracts";
+import { connectDomaLend, decodeLoan } from "@/lib/contractBindings";
+
+const LENDER = "0x1111111111111111111111111111111111111111";
+const BORROWER = "0x2222222222222222222222222222222222222222";
+const TOKEN = "0x3333333333333333333333333333333333333333";
+const COLLATERAL = "0x4444444444444444444444444444444444444444";
+
+const domaLend = new ethers.Interface(DREAMLEND_ABI);
+
+// A runner answering every eth_call with `result`
+const fakeRunner = (result: string): ethers.ContractRunner => ({
+  provider: null,
+  call: async () => result,
+});
+
+describe("connectDomaLend", () => {
+  it("decodes getLoan() into a Loan", async () => {
+    const struct = [
+      BigInt(7),
+      LENDER,
+      BORROWER,
+      TOKEN,
+      ethers.parseEther("100"),
+      BigInt(500),
+      BigInt(30 * 24 * 60 * 60),
+      COLLATERAL,
+      ethers.parseEther("150"),
+      BigInt(1700000000),
+      LoanStatus.Active,
+      BigInt(15000),
+      BigInt(12000),
+      BigInt(3600),
+      BigInt(0),
+    ];
+    const contract = connectDomaLend(
+      fakeRunner(domaLend.encodeFunctionResult("getLoan", [struct]))
+    );
+
+    const loan = decodeLoan(await contract.getLoan(BigInt(7)));
+
+    expect(loan).toEqual({
+      id: BigInt(7),
+      lender: LENDER,
+      borrower: BORROWER,
+      tokenAddress: TOKEN,
+      amount: ethers.parseEther("100"),
+      interestRate: BigInt(500),
+      duration: BigInt(30 * 24 * 60 * 60),
+      collateralAddress: COLLATERAL,
+      collateralAmount: ethers.parseEther("150"),
+      startTime: BigInt(1700000000),
+      status: LoanStatus.Active,
+      minCollateralRatioBPS: BigInt(15000),
+      liquidationThresholdBPS: BigInt(12000),
+      maxPriceStaleness: BigInt(3600),
+      repaidAmount: BigInt(0),
+    });
+  });
+
+  it("returns several outputs by name", async () => {
+    const contract = connectDomaLend(
+      fakeRunner(
+        domaLend.encodeFunctionResult("getLoanHealthFactor", [
+          BigInt(16000),
+          true,
+        ])
+      )
+    );
+
+    const health = await contract.getLoanHealthFactor(BigInt(7));
+
+    expect(health.currentRatio).toBe(BigInt(16000));
+    expect(health.priceStale).toBe(true);
+  });
+
+  it("narrows event filters by their indexed arguments", async () => {
+    const filter = connectDomaLend(null).filters.LoanAccepted(BigInt(7));
+
+    const topics = await filter.getTopicFilter();
+
+    expect(topics[0]).toBe(domaLend.getEvent("LoanAccepted")!.topicHash);
+    expect(topics[1]).toBe(ethers.zeroPadValue(ethers.toBeHex(7), 32));
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for estimating the network fee of a transaction flow
+ */
+
+import { ethers } from "ethers";
+import { estimateFees, FALLBACK_GAS_LIMITS } from "@/lib/feeEstimate";
+
+const BORROWER = "0x1111111111111111111111111111111111111111";
+
+const fakeProvider = (feeData: Partial<ethers.FeeData>, balance: bigint) =>
+  ({
+    getFeeData: async () => ({
+      gasPrice: null,
+      maxFeePerGas: null,
+      maxPriorityFeePerGas: null,
+      ...feeData,
+    }),
+    getBalance: async () => balance,
+  }) as unknown as ethers.Provider;
+
+describe("estimateFees", () => {
+  it("prices every step at the max fee per gas", async () => {
+    const estimate = await estimateFees(
+      fakeProvider(
+        { maxFeePerGas: ethers.parseUnits("2", "gwei"), gasPrice: BigInt(1) },
+        ethers.parseEther("1")
+      ),
+      BORROWER,
+      [
+        { step: "approving", estimateGas: async () => BigInt(46_000) },
+        { step: "accepting", estimateGas: async () => BigInt(210_000) },
+      ]
+    );
+
+    expect(estimate.totalGas).toBe(BigInt(256_000));
+    expect(estimate.feePerGas).toBe(ethers.parseUnits("2", "gwei"));
+    expect(estimate.totalCost).toBe(
+      BigInt(256_000) * ethers.parseUnits("2", "gwei")
+    );
+    expect(estimate.isInsufficient).toBe(false);
+  });
+
+  it("counts a step that cannot be estimated at its fallback limit", async () => {
+    const estimate = await estimateFees(
+      fakeProvider({ gasPrice: BigInt(1) }, ethers.parseEther("1")),
+      BORROWER,
+      [
+        { step: "approving", estimateGas: async () => BigInt(46_000) },
+        {
+          step: "accepting",
+          estimateGas: async () => {
+            throw new Error("ERC20: insufficient allowance");
+          },
+        },
+      ]
+    );
+
+    expect(estimate.steps[1]).toEqual({
+      step: "accepting",
+      gasLimit: FALLBACK_GAS_LIMITS.accepting,
+      isFallback: true,
+    });
+    expect(estimate.totalGas).toBe(
+      BigInt(46_000) + FALLBACK_GAS_LIMITS.accepting
+    );
+  });
+
+  it("flags a balance that cannot cover the whole sequence", async () => {
+    const estimate = await estimateFees(
+      fakeProvider({ gasPrice: ethers.parseUnits("1", "gwei") }, BigInt(1000)),
+      BORROWER,
+      [{ step: "repaying", estimateGas: async () => BigInt(100_000) }]
+    );
+
+    expect(estimate.balance).toBe(BigInt(1000));
+    expect(estimate.isInsufficient).toBe(true);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for the event-sourced loan reducer
+ * Replays recorded indexer responses and compares against getLoan() snapshots
+ */
+
+import {
+  applyLoanEvent,
+  collectLoanEvents,
+  eventKey,
+  processLoanEvents,
+  reconcileEvents,
+  reduceLoanEvents,
+  LoanEventCollections,
+} from "@/lib/loanEvents";
+import { LoanStatus } from "@/lib/contracts";
+import fixture from "./fixtures/loanEvents.json";
+
+const recorded = fixture.events as LoanEventCollections;
+const onChain = fixture.onChain as Record<
+  string,
+  {
+    borrower: string;
+    startTime: string;
+    status: number;
+    collateralAmount: string;
+    repaidAmount: string;
+  }
+>;
+
+const reverse = <T>(items: T[] = []) => [...items].reverse();
+
+describe("Loan event reducer", () => {
+  describe("replaying recorded events", () => {
+    const loans = processLoanEvents(recorded);
+
+    test("produces one loan per LoanCreated event", () => {
+      expect(loans.map((loan) => loan.id.toString())).toEqual(
+        recorded.loanCreateds.map((event) => event.loanId)
+      );
+    });
+
+    test.each(Object.keys(onChain))("loan %s matches getLoan()", (loanId) => {
+      const loan = loans.find((l) => l.id === BigInt(loanId));
+      const expected = onChain[loanId];
+
+      expect(loan).toBeDefined();
+      expect(loan!.status).toBe(expected.status);
+      expect(loan!.borrower).toBe(expected.borrower);
+      expect(loan!.startTime).toBe(BigInt(expected.startTime));
+      expect(loan!.collateralAmount).toBe(BigInt(expected.collateralAmount));
+      expect(loan!.repaidAmount).toBe(BigInt(expected.repaidAmount));
+    });
+
+    test("result does not depend on collection order", () => {
+      const shuffled: LoanEventCollections = {
+        loanCreateds: recorded.loanCreateds,
+        loanAccepteds: reverse(recorded.loanAccepteds),
+        partialRepayments: reverse(recorded.partialRepayments),
+        collateralAddeds: reverse(recorded.collateralAddeds),
+        collateralRemoveds: reverse(recorded.collateralRemoveds),
+        loanRepaids: reverse(recorded.loanRepaids),
+        loanLiquidateds: reverse(recorded.loanLiquidateds),
+        loanOfferCancelleds: reverse(recorded.loanOfferCancelleds),
+        loanOfferRemoveds: reverse(recorded.loanOfferRemoveds),
+      };
+
+      expect(processLoanEvents(shuffled)).toEqual(loans);
+    });
+
+    test("is idempotent when pages overlap", () => {
+      const doubled: LoanEventCollections = {
+        ...recorded,
+        partialRepayments: [
+          ...(recorded.partialRepayments || []),
+          ...(recorded.partialRepayments || []),
+        ],
+        collateralAddeds: [
+          ...(recorded.collateralAddeds || []),
+          ...(recorded.collateralAddeds || []),
+        ],
+      };
+
+      expect(processLoanEvents(doubled)).toEqual(loans);
+    });
+  });
+
+  describe("ordering", () => {
+    test("sorts by block number, then log index", () => {
+      const events = collectLoanEvents(recorded);
+      const positions = events
+        .filter((e) => e.event.blockNumber !== undefined)
+        .map((e) => [Number(e.event.blockNumber), Number(e.event.logIndex)]);
+
+      const sorted = [...positions].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+      expect(positions).toEqual(sorted);
+    });
+
+    test("applies LoanRepaid before the final PartialRepayment in the same tx", () => {
+      const loanOne = collectLoanEvents(recorded).filter(
+        (e) => e.event.loanId === "1"
+      );
+      expect(loanOne.slice(-2).map((e) => e.type)).toEqual([
+        "LoanRepaid",
+        "PartialRepayment",
+      ]);
+    });
+  });
+
+  describe("transitions", () => {
+    const created = recorded.loanCreateds.find((e) => e.loanId === "5")!;
+    const pending = reduceLoanEvents([
+      { type: "LoanCreated", event: created },
+    ]).get("5")!;
+
+    test("ignores events for loans that were never created", () => {
+      const loans = reduceLoanEvents(
+        collectLoanEvents({ ...recorded, loanCreateds: [] })
+      );
+      expect(loans.size).toBe(0);
+    });
+
+    test("does not reopen a settled loan", () => {
+      const cancelled = applyLoanEvent(pending, {
+        type: "LoanOfferCancelled",
+        event: {
+          id: "0xabc-1",
+          loanId: "5",
+          lender: pending.lender,
+          timestamp: "1",
+        },
+      });
+      const accepted = applyLoanEvent(cancelled, {
+        type: "LoanAccepted",
+        event: {
+          id: "0xabc-2",
+          loanId: "5",
+          borrower: "0x0000000000000000000000000000000000000001",
+          timestamp: "2",
+          initialCollateralRatio: "0",
+        },
+      });
+
+      expect(cancelled.status).toBe(LoanStatus.Cancelled);
+      expect(accepted).toBe(cancelled);
+    });
+
+    describe("LoanOfferRemoved ahead of the outcome in the same tx", () => {
+      const tx = "0x" + "ab".repeat(32);
+      const position = (logIndex: number) => ({
+        id: `${tx}-${logIndex}`,
+        timestamp: "1759300300",
+        blockNumber: "11480200",
+        logIndex: String(logIndex),
+        transactionHash: tx,
+      });
+      const removed = {
+        ...position(1),
+        loanId: "5",
+        reason: "Loan accepted or cancelled",
+      };
+
+      test("leaves an accepted loan active", () => {
+        const loan = reduceLoanEvents(
+          collectLoanEvents({
+            loanCreateds: [created],
+            loanOfferRemoveds: [removed],
+            loanAccepteds: [
+              {
+                ...position(2),
+                loanId: "5",
+                borrower: "0x0000000000000000000000000000000000000001",
+                initialCollateralRatio: "15000",
+              },
+            ],
+          })
+        ).get("5")!;
+
+        expect(loan.status).toBe(LoanStatus.Active);
+        expect(loan.borrower).toBe(
+          "0x0000000000000000000000000000000000000001"
+        );
+      });
+
+      test("cancels a cancelled offer", () => {
+        const loan = reduceLoanEvents(
+          collectLoanEvents({
+            loanCreateds: [created],
+            loanOfferRemoveds: [removed],
+            loanOfferCancelleds: [
+              { ...position(2), loanId: "5", lender: pending.lender },
+            ],
+          })
+        ).get("5")!;
+
+        expect(loan.status).toBe(LoanStatus.Cancelled);
+      });
+    });
+  });
+
+  describe("reorgs", () => {
+    const event = (logIndex: number, blockNumber: number) => ({
+      id: `0xTX-${logIndex}`,
+      loanId: String(logIndex),
+      transactionHash: "0xTX",
+      logIndex: String(logIndex),
+      blockNumber: String(blockNumber),
+    });
+
+    test("keys events by transaction hash and log index", () => {
+      expect(eventKey(event(3, 10))).toBe("0xtx-3");
+      expect(eventKey({ id: "0xAB-7" })).toBe("0xab-7");
+    });
+
+    test("records the block of the latest change on each loan", () => {
+      const loans = processLoanEvents(recorded);
+      for (const loan of loans) {
+        const blocks = collectLoanEvents(recorded)
+          .filter((e) => e.event.loanId === loan.id.toString())
+          .map((e) => BigInt(e.event.blockNumber ?? 0));
+        expect(blocks).toContain(loan.lastEventBlock);
+      }
+    });
+
+    test("drops events a refresh no longer contains", () => {
+      const previous = [event(3, 12), event(2, 11), event(1, 10)];
+      const { items, dropped } = reconcileEvents(
+        previous,
+        [event(4, 12), event(1, 10)],
+        12n
+      );
+
+      expect(items.map(eventKey)).toEqual(["0xtx-4", "0xtx-1"]);
+      expect(dropped.map(eventKey)).toEqual(["0xtx-3", "0xtx-2"]);
+    });
+
+    test("drops a reorged-out event at the tip", () => {
+      const { items, dropped } = reconcileEvents(
+        [event(3, 12), event(1, 10)],
+        [event(1, 10)],
+        12n
+      );
+
+      expect(items.map(eventKey)).toEqual(["0xtx-1"]);
+      expect(dropped.map(eventKey)).toEqual(["0xtx-3"]);
+    });
+
+    test("keeps events streamed in past the refresh's head", () => {
+      const streamed = event(5, 20);
+      const { items, dropped } = reconcileEvents(
+        [streamed, event(1, 10)],
+        [event(1, 10)],
+        15n
+      );
+
+      expect(items).toEqual([streamed, event(1, 10)]);
+      expect(dropped).toEqual([]);
+    });
+
+    test("drops every missing event when the head is unknown", () => {
+      const { items, dropped } = reconcileEvents(
+        [event(5, 20), event(1, 10)],
+        [event(1, 10)],
+        null
+      );
+
+      expect(items.map(eventKey)).toEqual(["0xtx-1"]);
+      expect(dropped.map(eventKey)).toEqual(["0xtx-5"]);
+    });
+  });
+});
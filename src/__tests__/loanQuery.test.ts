@@ -0,0 +1,148 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for /api/loans query parsing, filtering and BigInt encoding
+ */
+
+import {
+  applyLoanQuery,
+  deserializeLoan,
+  parseLoanQuery,
+  serializeLoan,
+  toApiLoans,
+  toLoanSearchParams,
+  ApiLoan,
+  LoanQueryError,
+  DEFAULT_LOAN_LIMIT,
+} from "@/lib/loanQuery";
+import { LoanStatus } from "@/lib/contracts";
+import type { ProcessedLoan } from "@/hooks/useSubgraphQuery";
+
+const LENDER = "0x1111111111111111111111111111111111111111";
+const BORROWER = "0x2222222222222222222222222222222222222222";
+const TOKEN = "0x3333333333333333333333333333333333333333";
+const DOMAIN_TOKEN = "0x4444444444444444444444444444444444444444";
+const COLLATERAL = "0x5555555555555555555555555555555555555555";
+
+const makeLoan = (
+  id: number,
+  overrides: Partial<ProcessedLoan> = {}
+): ProcessedLoan => ({
+  id: BigInt(id),
+  lender: LENDER,
+  borrower: "0x0000000000000000000000000000000000000000",
+  tokenAddress: TOKEN,
+  amount: 1000000000000000000n * BigInt(id),
+  interestRate: 500n,
+  duration: 86400n,
+  collateralAddress: COLLATERAL,
+  collateralAmount: 2000000000000000000n,
+  startTime: 0n,
+  createdAt: BigInt(1700000000 + id),
+  status: LoanStatus.Pending,
+  minCollateralRatioBPS: 15000n,
+  liquidationThresholdBPS: 12000n,
+  maxPriceStaleness: 3600n,
+  repaidAmount: 0n,
+  lastEventBlock: BigInt(100 + id),
+  ...overrides,
+});
+
+const loans: ApiLoan[] = toApiLoans(
+  [
+    makeLoan(1),
+    makeLoan(2, { status: LoanStatus.Active, borrower: BORROWER }),
+    makeLoan(3, { collateralAddress: DOMAIN_TOKEN }),
+    makeLoan(4, { status: LoanStatus.Repaid, borrower: BORROWER }),
+  ],
+  [DOMAIN_TOKEN.toUpperCase().replace("0X", "0x")]
+);
+
+const query = (search: string) => parseLoanQuery(new URLSearchParams(search));
+
+describe("Loan query", () => {
+  describe("parsing", () => {
+    test("applies defaults", () => {
+      expect(query("")).toMatchObject({
+        sort: "createdAt",
+        order: "desc",
+        limit: DEFAULT_LOAN_LIMIT,
+        offset: 0,
+      });
+    });
+
+    test("accepts statuses by number or name", () => {
+      expect(query("status=0,active").status).toEqual([
+        LoanStatus.Pending,
+        LoanStatus.Active,
+      ]);
+    });
+
+    test.each([
+      "status=7",
+      "lender=0x123",
+      "sort=borrower",
+      "order=up",
+      "limit=100000",
+      "offset=-1",
+      "domaBacked=yes",
+    ])("rejects %s", (search) => {
+      expect(() => query(search)).toThrow(LoanQueryError);
+    });
+
+    test("round-trips through search params", () => {
+      const parsed = query(
+        `status=1,2&account=${BORROWER}&domaBacked=false&sort=amount&order=asc&limit=10&offset=20`
+      );
+      expect(query(toLoanSearchParams(parsed).toString())).toEqual(parsed);
+    });
+  });
+
+  describe("filtering and pagination", () => {
+    const ids = (search: string) =>
+      applyLoanQuery(loans, query(search)).loans.map((loan) => loan.id);
+
+    test("sorts newest first by default", () => {
+      expect(ids("")).toEqual([4n, 3n, 2n, 1n]);
+    });
+
+    test("filters by status and account", () => {
+      expect(ids("status=pending")).toEqual([3n, 1n]);
+      expect(ids(`borrower=${BORROWER}&order=asc`)).toEqual([2n, 4n]);
+    });
+
+    test("flags Doma-backed collateral case-insensitively", () => {
+      expect(ids("domaBacked=true")).toEqual([3n]);
+    });
+
+    test("reports the total before slicing", () => {
+      const result = applyLoanQuery(loans, query("limit=1&offset=1"));
+      expect(result.total).toBe(4);
+      expect(result.loans.map((loan) => loan.id)).toEqual([3n]);
+    });
+
+    test("breaks ties by id so pages never overlap", () => {
+      const tied = toApiLoans(
+        [1, 2, 3].map((id) => makeLoan(id, { interestRate: 500n })),
+        []
+      );
+      const page = (offset: number) =>
+        applyLoanQuery(
+          tied,
+          query(`sort=interestRate&limit=2&offset=${offset}`)
+        ).loans.map((loan) => loan.id);
+      expect([...page(0), ...page(2)]).toEqual([3n, 2n, 1n]);
+    });
+  });
+
+  describe("BigInt encoding", () => {
+    test("sends bigints as base-10 strings and restores them", () => {
+      const loan = loans[3];
+      const wire = JSON.parse(JSON.stringify(serializeLoan(loan)));
+
+      expect(wire.amount).toBe("4000000000000000000");
+      expect(wire.status).toBe(LoanStatus.Repaid);
+      expect(deserializeLoan(wire)).toEqual(loan);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for batching contract reads through Multicall3 or JSON-RPC batches
+ */
+
+import { ethers } from "ethers";
+import { ERC20_ABI } from "@/lib/contracts";
+import {
+  AGGREGATOR_ABI,
+  MULTICALL3_ABI,
+  MULTICALL3_ADDRESS,
+  MulticallUtil,
+} from "@/lib/multicall";
+
+const OWNER = "0x1111111111111111111111111111111111111111";
+const TOKEN_A = "0x2222222222222222222222222222222222222222";
+const TOKEN_B = "0x3333333333333333333333333333333333333333";
+const FEED = "0x4444444444444444444444444444444444444444";
+
+const erc20 = new ethers.Interface(ERC20_ABI);
+const multicall3 = new ethers.Interface(MULTICALL3_ABI);
+const aggregator = new ethers.Interface(AGGREGATOR_ABI);
+
+const revertData = (reason: string) =>
+  ethers.concat([
+    "0x08c379a0",
+    ethers.AbiCoder.defaultAbiCoder().encode(["string"], [reason]),
+  ]);
+
+// A provider with or without Multicall3 that records every eth_call
+const fakeProvider = (
+  hasMulticall3: boolean,
+  answer: (to: string, data: string) => string
+) => {
+  const calls: string[] = [];
+  const provider = {
+    getCode: async () => (hasMulticall3 ? "0x6080" : "0x"),
+    call: async ({ to, data }: { to: string; data: string }) => {
+      calls.push(to);
+      if (to !== MULTICALL3_ADDRESS) return answer(to, data);
+
+      const [batch] = multicall3.decodeFunctionData("aggregate3", data);
+      return multicall3.encodeFunctionResult("aggregate3", [
+        batch.map(([target, , callData]: [string, boolean, string]) => {
+          try {
+            return [true, answer(target, callData)];
+          } catch (error) {
+            return [false, (error as { data: string }).data];
+          }
+        }),
+      ]);
+    },
+  } as unknown as ethers.JsonRpcProvider;
+  return { provider, calls };
+};
+
+// TOKEN_A holds 100, TOKEN_B reverts
+const balances = (to: string) => {
+  if (to === TOKEN_B) {
+    throw Object.assign(new Error("execution reverted"), {
+      data: revertData("no balance"),
+    });
+  }
+  return erc20.encodeFunctionResult("balanceOf", [BigInt(100)]);
+};
+
+describe("MulticallUtil", () => {
+  it("sends every read in one aggregate3 call", async () => {
+    const { provider, calls } = fakeProvider(true, balances);
+
+    const results = await new MulticallUtil(provider).batchFetchBalances([
+      { tokenAddress: TOKEN_A, owner: OWNER },
+      { tokenAddress: TOKEN_B, owner: OWNER },
+      { tokenAddress: TOKEN_A, owner: OWNER },
+    ]);
+
+    expect(calls).toEqual([MULTICALL3_ADDRESS]);
+    expect(results).toEqual([
+      { success: true, value: BigInt(100) },
+      { success: false, error: "reverted: no balance" },
+      { success: true, value: BigInt(100) },
+    ]);
+  });
+
+  it("falls back to plain eth_calls without Multicall3", async () => {
+    const { provider, calls } = fakeProvider(false, balances);
+
+    const results = await new MulticallUtil(provider).batchFetchBalances([
+      { tokenAddress: TOKEN_A, owner: OWNER },
+      { tokenAddress: TOKEN_B, owner: OWNER },
+    ]);
+
+    expect(calls).toEqual([TOKEN_A, TOKEN_B]);
+    expect(results[0]).toEqual({ success: true, value: BigInt(100) });
+    expect(results[1].success).toBe(false);
+  });
+
+  it("reads price feeds from the aggregated results", async () => {
+    const updatedAt = Math.floor(Date.now() / 1000);
+    const { provider } = fakeProvider(true, (_to, data) =>
+      aggregator.getFunction("decimals")!.selector === data.slice(0, 10)
+        ? aggregator.encodeFunctionResult("decimals", [8])
+        : aggregator.encodeFunctionResult("latestRoundData", [
+            1,
+            BigInt(250_000_000),
+            updatedAt,
+            updatedAt,
+            1,
+          ])
+    );
+
+    const [price] = await new MulticallUtil(provider).batchFetchPriceFeeds([
+      { tokenAddress: TOKEN_A, priceFeedAddress: FEED },
+    ]);
+
+    expect(price).toEqual({
+      tokenAddress: TOKEN_A,
+      priceFeedAddress: FEED,
+      price: BigInt(250_000_000),
+      decimals: 8,
+      updatedAt,
+      success: true,
+      priceUSD: "2.5000",
+    });
+  });
+});
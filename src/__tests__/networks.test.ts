@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for the network registry
+ */
+
+import {
+  ANVIL_CHAIN_ID,
+  DOMA_TESTNET_CHAIN_ID,
+  NETWORKS,
+  NetworkConfigError,
+  explorerTxUrl,
+  resolveNetwork,
+  validateNetworkConfig,
+} from "@/config/networks";
+
+describe("network registry", () => {
+  it("has a valid profile for every chain", () => {
+    for (const config of Object.values(NETWORKS)) {
+      expect(validateNetworkConfig(config)).toEqual([]);
+    }
+  });
+
+  it("applies overrides on top of the profile", () => {
+    const config = resolveNetwork(ANVIL_CHAIN_ID, {
+      rpcUrl: "http://127.0.0.1:9545",
+      domaLend: "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0",
+    });
+
+    expect(config.rpcUrl).toBe("http://127.0.0.1:9545");
+    expect(config.contracts.domaLend).toBe(
+      "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0"
+    );
+    expect(config.contracts.domaRankOracle).toBe(
+      NETWORKS[ANVIL_CHAIN_ID].contracts.domaRankOracle
+    );
+  });
+
+  it("rejects an unknown chain or an invalid override", () => {
+    expect(() => resolveNetwork(1)).toThrow(NetworkConfigError);
+    expect(() =>
+      resolveNetwork(DOMA_TESTNET_CHAIN_ID, { domaLend: "0x1234" })
+    ).toThrow(/domaLend address "0x1234"/);
+    expect(() =>
+      resolveNetwork(DOMA_TESTNET_CHAIN_ID, { subgraph: "localhost:3001" })
+    ).toThrow(/subgraph endpoint/);
+  });
+
+  it("builds explorer links only where there is an explorer", () => {
+    expect(explorerTxUrl("0xabc", NETWORKS[DOMA_TESTNET_CHAIN_ID])).toBe(
+      "https://explorer.testnet.doma.xyz/tx/0xabc"
+    );
+    expect(explorerTxUrl("0xabc", NETWORKS[ANVIL_CHAIN_ID])).toBeNull();
+  });
+});
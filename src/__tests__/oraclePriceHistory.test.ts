@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for building oracle price series from TokenValueUpdated logs
+ */
+
+import { ethers } from "ethers";
+import {
+  OraclePriceUpdate,
+  blocksSince,
+  loanPriceMarkers,
+  priceAt,
+  toPriceSeries,
+} from "@/lib/oraclePriceHistory";
+
+const DOMAIN_TOKEN = "0x1111111111111111111111111111111111111111";
+const OTHER_TOKEN = "0x2222222222222222222222222222222222222222";
+
+const update = (
+  overrides: Partial<OraclePriceUpdate> & { usd: string }
+): OraclePriceUpdate => ({
+  tokenAddress: DOMAIN_TOKEN,
+  newPrice: ethers.parseUnits(overrides.usd, 18),
+  timestamp: 1_700_000_000n,
+  blockNumber: 100,
+  transactionHash: `0x${"ab".repeat(32)}`,
+  logIndex: 0,
+  ...overrides,
+});
+
+describe("toPriceSeries", () => {
+  it("groups updates per token in chain order and drops repeated logs", () => {
+    const late = update({
+      usd: "12.5",
+      timestamp: 1_700_000_600n,
+      blockNumber: 200,
+      transactionHash: `0x${"cd".repeat(32)}`,
+    });
+    const series = toPriceSeries([
+      late,
+      update({ usd: "10" }),
+      update({ usd: "3", tokenAddress: OTHER_TOKEN, logIndex: 1 }),
+      late,
+    ]);
+
+    expect(series.get(DOMAIN_TOKEN)?.map((point) => point.price)).toEqual([
+      10, 12.5,
+    ]);
+    expect(series.get(DOMAIN_TOKEN)?.[1].timestamp).toBe(1_700_000_600);
+    expect(series.get(OTHER_TOKEN)?.map((point) => point.price)).toEqual([3]);
+  });
+});
+
+describe("loan markers", () => {
+  const points = toPriceSeries([
+    update({ usd: "10", timestamp: 1_000n, blockNumber: 1 }),
+    update({ usd: "8", timestamp: 2_000n, blockNumber: 2, logIndex: 1 }),
+  ]).get(DOMAIN_TOKEN)!;
+
+  it("finds the price in force at a moment", () => {
+    expect(priceAt(points, 500)).toBeNull();
+    expect(priceAt(points, 1_000)).toBe(10);
+    expect(priceAt(points, 1_999)).toBe(10);
+    expect(priceAt(points, 5_000)).toBe(8);
+  });
+
+  it("marks creation and acceptance, leaving out what has not happened", () => {
+    expect(
+      loanPriceMarkers({ createdAt: 1_500n, startTime: 2_500n }, points)
+    ).toEqual([
+      { label: "Created", timestamp: 1_500, price: 10 },
+      { label: "Accepted", timestamp: 2_500, price: 8 },
+    ]);
+    expect(
+      loanPriceMarkers({ createdAt: 1_500n, startTime: 0n }, points)
+    ).toEqual([{ label: "Created", timestamp: 1_500, price: 10 }]);
+  });
+});
+
+describe("blocksSince", () => {
+  // Two-second blocks
+  const latest = { number: 1_000_000, timestamp: 2_000_000 };
+  const reference = { number: 990_000, timestamp: 1_980_000 };
+
+  it("reaches back to a moment at the average block time, with a margin", () => {
+    const blocks = blocksSince(latest.timestamp - 1_000_000, latest, reference);
+    expect(blocks).toBeGreaterThanOrEqual(500_000);
+    expect(blocks).toBeLessThanOrEqual(550_000);
+  });
+
+  it("never reaches past the first block", () => {
+    expect(blocksSince(0, latest, reference)).toBe(latest.number);
+    expect(blocksSince(1, latest, latest)).toBe(latest.number);
+  });
+});
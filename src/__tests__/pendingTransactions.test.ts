@@ -0,0 +1,67 @@
+/**
+ * Tests for persisting pending transactions across reloads
+ */
+
+import {
+  addPendingTransaction,
+  isOwnPendingTransaction,
+  readPendingTransactions,
+  removePendingTransaction,
+  replacePendingTransaction,
+} from "@/lib/pendingTransactions";
+
+const FROM = "0x1111111111111111111111111111111111111111";
+const HASH = "0x" + "a".repeat(64);
+const SPED_UP_HASH = "0x" + "b".repeat(64);
+
+describe("pending transactions", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("stores the intent with amounts as strings", () => {
+    addPendingTransaction(
+      { hash: HASH, from: FROM, nonce: 7 },
+      {
+        action: "repaying",
+        loanId: BigInt(12),
+        amounts: { totalRepayment: BigInt("1000000000000000000000") },
+      }
+    );
+
+    expect(readPendingTransactions()).toEqual([
+      expect.objectContaining({
+        hash: HASH,
+        nonce: 7,
+        action: "repaying",
+        loanId: "12",
+        tokenAddress: null,
+        amounts: { totalRepayment: "1000000000000000000000" },
+      }),
+    ]);
+    expect(isOwnPendingTransaction(HASH)).toBe(true);
+  });
+
+  it("follows replacements and forgets settled transactions", () => {
+    addPendingTransaction(
+      { hash: HASH, from: FROM, nonce: 1 },
+      { action: "cancelling", loanId: BigInt(3) }
+    );
+    replacePendingTransaction(HASH, SPED_UP_HASH);
+
+    expect(readPendingTransactions().map((tx) => tx.hash)).toEqual([
+      SPED_UP_HASH,
+    ]);
+    expect(isOwnPendingTransaction(SPED_UP_HASH)).toBe(true);
+
+    expect(removePendingTransaction(SPED_UP_HASH)?.loanId).toBe("3");
+    expect(removePendingTransaction(SPED_UP_HASH)).toBeNull();
+    expect(readPendingTransactions()).toEqual([]);
+    expect(window.localStorage.length).toBe(0);
+  });
+
+  it("ignores unreadable storage", () => {
+    window.localStorage.setItem("domalend:pending-transactions", "{oops");
+    expect(readPendingTransactions()).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for EIP-2612 permit domain matching and signing
+ */
+
+import { ethers } from "ethers";
+import { matchPermitDomain, signPermit } from "@/lib/permit";
+
+const TOKEN = "0x2222222222222222222222222222222222222222";
+const SPENDER = "0x3333333333333333333333333333333333333333";
+
+const base = {
+  name: "USD Coin",
+  chainId: BigInt(97476),
+  verifyingContract: TOKEN,
+};
+
+describe("matchPermitDomain", () => {
+  it("finds the version the token's separator was built with", () => {
+    const separator = ethers.TypedDataEncoder.hashDomain({
+      ...base,
+      version: "2",
+    });
+
+    expect(matchPermitDomain(separator, base, ["1", "2"])).toEqual({
+      ...base,
+      version: "2",
+    });
+  });
+
+  it("rejects a separator for another chain", () => {
+    const separator = ethers.TypedDataEncoder.hashDomain({
+      ...base,
+      chainId: BigInt(1),
+      version: "1",
+    });
+
+    expect(matchPermitDomain(separator, base, ["1", "2"])).toBeNull();
+  });
+});
+
+describe("signPermit", () => {
+  it("produces a signature that recovers to the owner", async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const domain = { ...base, version: "1" };
+
+    const permit = await signPermit(wallet, domain, {
+      spender: SPENDER,
+      value: BigInt(500),
+      nonce: BigInt(3),
+    });
+
+    const recovered = ethers.verifyTypedData(
+      domain,
+      {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      {
+        owner: wallet.address,
+        spender: SPENDER,
+        value: permit.value,
+        nonce: BigInt(3),
+        deadline: permit.deadline,
+      },
+      { v: permit.v, r: permit.r, s: permit.s }
+    );
+    expect(recovered).toBe(wallet.address);
+    expect(permit.deadline).toBeGreaterThan(
+      BigInt(Math.floor(Date.now() / 1000))
+    );
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for reading spot and TWAP prices from Uniswap V3 pools
+ */
+
+import { ethers } from "ethers";
+import { ERC20_ABI } from "@/lib/contracts";
+import { MulticallUtil } from "@/lib/multicall";
+import {
+  UNISWAP_V3_POOL_ABI,
+  meanTick,
+  orientPrice,
+  readPoolPrices,
+  sqrtPriceX96ToPrice,
+} from "@/lib/poolPrice";
+
+const POOL = "0x1111111111111111111111111111111111111111";
+// Lower address, so token0 of the pool
+const USDC = "0x2222222222222222222222222222222222222222";
+const DOMAIN_TOKEN = "0x3333333333333333333333333333333333333333";
+
+const pool = new ethers.Interface(UNISWAP_V3_POOL_ABI);
+const erc20 = new ethers.Interface(ERC20_ABI);
+
+// sqrt(price) * 2^96 for a raw token1-per-token0 price
+const toSqrtPriceX96 = (rawPrice: number) =>
+  BigInt(Math.round(Math.sqrt(rawPrice) * 2 ** 96));
+
+describe("pool price math", () => {
+  it("adjusts the slot0 price for token decimals", () => {
+    // 1 USDC (6 decimals) buys 0.25 of an 18-decimal token
+    const sqrtPriceX96 = toSqrtPriceX96(0.25 * 10 ** 12);
+
+    expect(sqrtPriceX96ToPrice(sqrtPriceX96, 6, 18)).toBeCloseTo(0.25, 9);
+  });
+
+  it("rounds negative mean ticks down", () => {
+    expect(meanTick(BigInt(0), BigInt(-7), 2)).toBe(-4);
+    expect(meanTick(BigInt(0), BigInt(7), 2)).toBe(3);
+    expect(meanTick(BigInt(100), BigInt(-100), 100)).toBe(-2);
+  });
+
+  it("prices whichever side of the pool the token is on", () => {
+    expect(orientPrice(0.25, USDC, USDC, DOMAIN_TOKEN)).toBe(0.25);
+    expect(orientPrice(0.25, DOMAIN_TOKEN, USDC, DOMAIN_TOKEN)).toBe(4);
+    expect(orientPrice(0.25, POOL, USDC, DOMAIN_TOKEN)).toBeNull();
+  });
+});
+
+describe("readPoolPrices", () => {
+  const window = 1800;
+
+  const fakeReader = (observe: () => string) =>
+    new MulticallUtil({
+      getCode: async () => "0x",
+      call: async ({ to, data }: { to: string; data: string }) => {
+        if (to === USDC) return erc20.encodeFunctionResult("decimals", [6]);
+        if (to === DOMAIN_TOKEN) {
+          return erc20.encodeFunctionResult("decimals", [18]);
+        }
+        switch (pool.parseTransaction({ data })!.name) {
+          case "slot0":
+            // 4 USDC per domain token, token0 being USDC
+            return pool.encodeFunctionResult("slot0", [
+              toSqrtPriceX96(0.25 * 10 ** 12),
+              0,
+              0,
+              1,
+              1,
+              0,
+              true,
+            ]);
+          case "token0":
+            return pool.encodeFunctionResult("token0", [USDC]);
+          case "token1":
+            return pool.encodeFunctionResult("token1", [DOMAIN_TOKEN]);
+          default:
+            return observe();
+        }
+      },
+    } as unknown as ethers.JsonRpcProvider);
+
+  it("reads the spot price and TWAP of the domain token", async () => {
+    // A constant tick of 262000 over the window: about 4.2 USDC per token
+    const tick = 262_000;
+    const reader = fakeReader(() =>
+      pool.encodeFunctionResult("observe", [
+        [BigInt(0), BigInt(tick * window)],
+        [BigInt(0), BigInt(0)],
+      ])
+    );
+
+    const prices = await readPoolPrices(
+      [{ tokenAddress: DOMAIN_TOKEN, poolAddress: POOL }],
+      { twapWindow: window, reader }
+    );
+    const price = prices.get(DOMAIN_TOKEN.toLowerCase())!;
+
+    expect(price.quoteTokenAddress).toBe(USDC);
+    expect(price.spotPrice).toBeCloseTo(4, 6);
+    expect(price.twapPrice).toBeCloseTo(1 / (1.0001 ** tick * 10 ** -12), 6);
+    expect(price.twapWindow).toBe(window);
+  });
+
+  it("keeps the spot price when the pool cannot cover the window", async () => {
+    const reader = fakeReader(() => {
+      throw new Error("execution reverted: OLD");
+    });
+
+    const prices = await readPoolPrices(
+      [{ tokenAddress: DOMAIN_TOKEN, poolAddress: POOL }],
+      { twapWindow: window, reader }
+    );
+    const price = prices.get(DOMAIN_TOKEN.toLowerCase())!;
+
+    expect(price.spotPrice).toBeCloseTo(4, 6);
+    expect(price.twapPrice).toBeNull();
+  });
+});
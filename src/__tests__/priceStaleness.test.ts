@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for judging price staleness against each loan's maxPriceStaleness
+ */
+
+import { LoanStatus } from "@/lib/contracts";
+import type { PriceData } from "@/lib/multicall";
+import { getLoanPriceStaleness } from "@/lib/priceStaleness";
+
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const COLLATERAL = "0x2222222222222222222222222222222222222222";
+const NOW = 1_700_000_000;
+
+const loan = (status: LoanStatus, maxPriceStaleness: number) => ({
+  tokenAddress: TOKEN,
+  collateralAddress: COLLATERAL,
+  status,
+  maxPriceStaleness: BigInt(maxPriceStaleness),
+});
+
+const feed = (
+  tokenAddress: string,
+  age: number,
+  success = true
+): PriceData => ({
+  tokenAddress,
+  priceFeedAddress: tokenAddress,
+  price: BigInt(100_000_000),
+  decimals: 8,
+  updatedAt: NOW - age,
+  success,
+  priceUSD: "1.0000",
+});
+
+describe("getLoanPriceStaleness", () => {
+  it("uses each loan's own limit", () => {
+    const token = feed(TOKEN, 600);
+    const collateral = feed(COLLATERAL, 2400);
+
+    const strict = getLoanPriceStaleness(
+      loan(LoanStatus.Active, 1800),
+      token,
+      collateral,
+      NOW
+    );
+    const lenient = getLoanPriceStaleness(
+      loan(LoanStatus.Active, 3600),
+      token,
+      collateral,
+      NOW
+    );
+
+    expect(strict.isStale).toBe(true);
+    expect(strict.staleTokens).toEqual([COLLATERAL]);
+    expect(strict.blockedActions).toEqual(["liquidate", "removeCollateral"]);
+    expect(lenient.isStale).toBe(false);
+    expect(lenient.blockedActions).toEqual([]);
+    // The older feed sets when the loan goes stale
+    expect(lenient.staleAt).toBe(NOW - 2400 + 3600);
+  });
+
+  it("blocks accepting a stale pending offer", () => {
+    const staleness = getLoanPriceStaleness(
+      loan(LoanStatus.Pending, 60),
+      feed(TOKEN, 120),
+      feed(COLLATERAL, 30),
+      NOW
+    );
+
+    expect(staleness.blockedActions).toEqual(["accept"]);
+  });
+
+  it("is not enforced when a token has no price feed", () => {
+    const staleness = getLoanPriceStaleness(
+      loan(LoanStatus.Active, 60),
+      feed(TOKEN, 3600),
+      undefined,
+      NOW
+    );
+
+    expect(staleness.isEnforced).toBe(false);
+    expect(staleness.isStale).toBe(false);
+  });
+
+  it("does not guess when a feed could not be read", () => {
+    const staleness = getLoanPriceStaleness(
+      loan(LoanStatus.Active, 60),
+      feed(TOKEN, 3600),
+      feed(COLLATERAL, 0, false),
+      NOW
+    );
+
+    expect(staleness.isEnforced).toBe(true);
+    expect(staleness.isStale).toBe(false);
+    expect(staleness.staleAt).toBeNull();
+  });
+});
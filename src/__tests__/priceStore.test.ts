@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for the shared price store: batching, reference-counted polling and
+ * stable snapshots
+ */
+
+import { PriceData } from "@/lib/multicall";
+import { PriceFetchers, PriceStore } from "@/lib/priceStore";
+
+const WETH = "0x1111111111111111111111111111111111111111";
+const USDC = "0x2222222222222222222222222222222222222222";
+
+const feedPrice = (tokenAddress: string, price: bigint): PriceData => ({
+  tokenAddress,
+  priceFeedAddress: "0x3333333333333333333333333333333333333333",
+  price,
+  decimals: 8,
+  updatedAt: 1_700_000_000,
+  success: true,
+  priceUSD: (Number(price) / 1e8).toFixed(4),
+});
+
+const createStore = (price = () => 2000n * 10n ** 8n) => {
+  const feed = jest.fn(async (addresses: string[]) => {
+    return new Map(
+      addresses.map((address) => [address, feedPrice(address, price())])
+    );
+  });
+  const token = jest.fn(async () => new Map());
+  const fetchers: PriceFetchers = { token, feed };
+  return { store: new PriceStore(fetchers), feed };
+};
+
+// Lets the batch timer fire and the read it starts settle
+const flush = async (ms: number) => {
+  await jest.advanceTimersByTimeAsync(ms);
+};
+
+describe("PriceStore", () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it("reads every subscriber's tokens in one batch", async () => {
+    const { store, feed } = createStore();
+
+    store.subscribe("feed", [WETH], () => {});
+    store.subscribe("feed", [WETH, USDC], () => {});
+    await flush(100);
+
+    expect(feed).toHaveBeenCalledTimes(1);
+    expect(feed.mock.calls[0][0].sort()).toEqual([WETH, USDC].sort());
+    expect(store.selector("feed", [USDC])().prices.get(USDC)?.priceUSD).toBe(
+      "2000.0000"
+    );
+  });
+
+  it("polls while a token is held and stops once the last holder leaves", async () => {
+    const { store, feed } = createStore();
+
+    const unsubscribeA = store.subscribe("feed", [WETH], () => {}, 1000);
+    const unsubscribeB = store.subscribe("feed", [WETH], () => {}, 5000);
+    await flush(100);
+    expect(feed).toHaveBeenCalledTimes(1);
+
+    // The shortest interval wins
+    await flush(1000);
+    expect(feed).toHaveBeenCalledTimes(2);
+
+    unsubscribeA();
+    await flush(5000);
+    expect(feed).toHaveBeenCalledTimes(3);
+
+    unsubscribeB();
+    await flush(20_000);
+    expect(feed).toHaveBeenCalledTimes(3);
+  });
+
+  it("shares one follow-up read between refreshes made during a read", async () => {
+    const { store, feed } = createStore();
+    store.subscribe("feed", [WETH], () => {}, 0);
+
+    const first = store.refresh();
+    const second = store.refresh();
+    const third = store.refresh();
+    expect(second).toBe(third);
+    await Promise.all([first, second, third]);
+
+    expect(feed).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps the snapshot when a read returns the same prices", async () => {
+    let price = 2000n * 10n ** 8n;
+    const { store } = createStore(() => price);
+    const listener = jest.fn();
+    store.subscribe("feed", [WETH], listener, 0);
+    const getSnapshot = store.selector("feed", [WETH]);
+
+    await flush(100);
+    const first = getSnapshot();
+    expect(getSnapshot()).toBe(first);
+
+    await store.refresh();
+    const second = getSnapshot();
+    // Same reading, only the read time moved on
+    expect(second.prices.get(WETH)).toBe(first.prices.get(WETH));
+
+    price = 2100n * 10n ** 8n;
+    await store.refresh();
+    expect(getSnapshot().prices.get(WETH)).not.toBe(second.prices.get(WETH));
+    expect(listener).toHaveBeenCalled();
+  });
+});
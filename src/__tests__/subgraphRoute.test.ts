@@ -0,0 +1,182 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for the /api/subgraph proxy: the persisted query allowlist and the
+ * paging variable checks
+ */
+
+import { NextRequest } from "next/server";
+import {
+  hashQuery,
+  MAX_PAGE_SIZE,
+  MAX_SKIP,
+  PERSISTED_QUERY_VERSION,
+  SubgraphRequestBody,
+} from "@/lib/graphql/persistedQueries";
+import { LOAN_CREATEDS_PAGE_QUERY } from "@/lib/graphql/queries";
+
+jest.mock("../lib/indexerFreshness", () => ({
+  getIndexerFreshness: async () => ({
+    reachable: true,
+    lastProcessedBlock: 100,
+    headBlock: 102,
+    lagBlocks: 2,
+    checkedAt: 0,
+  }),
+}));
+
+type Route = typeof import("@/app/api/subgraph/route");
+
+const ALLOWED_QUERY = LOAN_CREATEDS_PAGE_QUERY.query;
+const AD_HOC_QUERY = "query AdHoc { loanCreateds { id } }";
+
+// The override is read as the route loads, so each setting gets a fresh copy
+const loadRoute = (allowArbitraryQueries: boolean): Route => {
+  const previous = process.env.SUBGRAPH_ALLOW_ARBITRARY_QUERIES;
+  process.env.SUBGRAPH_ALLOW_ARBITRARY_QUERIES = String(allowArbitraryQueries);
+  let route: Route | undefined;
+  jest.isolateModules(() => {
+    route = require("../app/api/subgraph/route");
+  });
+  process.env.SUBGRAPH_ALLOW_ARBITRARY_QUERIES = previous;
+  return route!;
+};
+
+const post = (route: Route, body: SubgraphRequestBody) =>
+  route.POST(
+    new NextRequest("http://localhost/api/subgraph", {
+      method: "POST",
+      body: JSON.stringify(body),
+    })
+  );
+
+// What the indexer was asked, one entry per forwarded request
+let forwarded: { query: string; variables: unknown }[];
+
+beforeEach(() => {
+  forwarded = [];
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(global, "fetch").mockImplementation(async (_url, init) => {
+    forwarded.push(JSON.parse(String(init?.body)));
+    return Response.json({ data: { loanCreateds: [] } });
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("/api/subgraph", () => {
+  const route = loadRoute(false);
+
+  test("rejects a query outside the allowlist", async () => {
+    const response = await post(route, { query: AD_HOC_QUERY });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({
+      code: "QUERY_NOT_ALLOWLISTED",
+    });
+    expect(forwarded).toEqual([]);
+  });
+
+  test("rejects an unknown hash", async () => {
+    const response = await post(route, {
+      extensions: {
+        persistedQuery: {
+          version: PERSISTED_QUERY_VERSION,
+          sha256Hash: await hashQuery(AD_HOC_QUERY),
+        },
+      },
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      code: "PERSISTED_QUERY_NOT_FOUND",
+    });
+    expect(forwarded).toEqual([]);
+  });
+
+  test("forwards the document of an allowlisted hash", async () => {
+    const variables = { first: 100, skip: 200 };
+    const response = await post(route, {
+      variables,
+      extensions: {
+        persistedQuery: {
+          version: PERSISTED_QUERY_VERSION,
+          sha256Hash: await hashQuery(ALLOWED_QUERY),
+        },
+      },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("X-Indexer-Lag-Blocks")).toBe("2");
+    expect(await response.json()).toMatchObject({
+      data: { loanCreateds: [] },
+      extensions: { indexer: { lagBlocks: 2 } },
+    });
+    expect(forwarded).toEqual([
+      expect.objectContaining({ query: ALLOWED_QUERY, variables }),
+    ]);
+  });
+
+  test("forwards allowlisted query text", async () => {
+    const response = await post(route, {
+      query: ALLOWED_QUERY,
+      variables: { first: 10, skip: 0 },
+    });
+
+    expect(response.status).toBe(200);
+    expect(forwarded).toEqual([
+      expect.objectContaining({ query: ALLOWED_QUERY }),
+    ]);
+  });
+
+  test.each([
+    ["first", -1],
+    ["first", MAX_PAGE_SIZE + 1],
+    ["first", 1.5],
+    ["first", "10"],
+    ["skip", -1],
+    ["skip", MAX_SKIP + 1],
+    ["skip", 2.5],
+    ["skip", "100"],
+  ])("rejects %s = %p", async (name, value) => {
+    const response = await post(route, {
+      query: ALLOWED_QUERY,
+      variables: { first: 10, skip: 0, [name]: value },
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      code: "VARIABLE_OUT_OF_RANGE",
+    });
+    expect(forwarded).toEqual([]);
+  });
+});
+
+describe("/api/subgraph with SUBGRAPH_ALLOW_ARBITRARY_QUERIES", () => {
+  const route = loadRoute(true);
+
+  test("forwards a query outside the allowlist", async () => {
+    const response = await post(route, { query: AD_HOC_QUERY });
+
+    expect(response.status).toBe(200);
+    expect(forwarded).toEqual([
+      expect.objectContaining({ query: AD_HOC_QUERY }),
+    ]);
+  });
+
+  test("still rejects an unknown hash", async () => {
+    const response = await post(route, {
+      extensions: {
+        persistedQuery: {
+          version: PERSISTED_QUERY_VERSION,
+          sha256Hash: await hashQuery(AD_HOC_QUERY),
+        },
+      },
+    });
+
+    expect(response.status).toBe(400);
+    expect(forwarded).toEqual([]);
+  });
+});
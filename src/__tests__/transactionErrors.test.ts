@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for decoding DomaLend revert reasons into typed transaction errors
+ */
+
+import { ethers } from "ethers";
+import {
+  decodeTransactionError,
+  TransactionError,
+  TRANSACTION_ERRORS,
+} from "@/lib/transactionErrors";
+
+const SPENDER = "0x1111111111111111111111111111111111111111";
+
+const callException = (reason: string | null, data: string | null = null) =>
+  ethers.makeError("execution reverted", "CALL_EXCEPTION", {
+    action: "call",
+    data,
+    reason,
+    transaction: { to: null, data: "0x" },
+    invocation: null,
+    revert: null,
+  });
+
+describe("decodeTransactionError", () => {
+  it("maps a contract require reason to its code", () => {
+    const error = decodeTransactionError(
+      callException("Oracle prices are too stale to accept loan"),
+      "Failed to accept loan offer",
+      { simulated: true }
+    );
+
+    expect(error).toBeInstanceOf(TransactionError);
+    expect(error.code).toBe("STALE_PRICES");
+    expect(error.reason).toBe("Oracle prices are too stale to accept loan");
+    expect(error.simulated).toBe(true);
+    expect(error.suggestion).toBe(TRANSACTION_ERRORS.STALE_PRICES.suggestion);
+  });
+
+  it("decodes custom errors from the revert data", () => {
+    const iface = new ethers.Interface([
+      "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+    ]);
+    const data = iface.encodeErrorResult("ERC20InsufficientAllowance", [
+      SPENDER,
+      0,
+      100,
+    ]);
+
+    const error = decodeTransactionError(callException(null, data));
+
+    expect(error.code).toBe("INSUFFICIENT_ALLOWANCE");
+    expect(error.reason).toBe("ERC20InsufficientAllowance");
+  });
+
+  it("finds reasons that wallets only put in their message", () => {
+    const error = decodeTransactionError(
+      new Error(
+        'Internal JSON-RPC error: "execution reverted: Only borrower can remove collateral"'
+      )
+    );
+
+    expect(error.code).toBe("NOT_BORROWER");
+    expect(error.message).toBe("Only borrower can remove collateral");
+  });
+
+  it("recognises user rejections", () => {
+    const rejected = ethers.makeError(
+      "user rejected action",
+      "ACTION_REJECTED",
+      {
+        action: "sendTransaction",
+        reason: "rejected",
+      }
+    );
+
+    expect(decodeTransactionError(rejected).code).toBe("USER_REJECTED");
+  });
+
+  it("keeps the original message for unknown errors", () => {
+    const error = decodeTransactionError(new Error("nonce too low"));
+
+    expect(error.code).toBe("UNKNOWN");
+    expect(error.message).toBe("nonce too low");
+    expect(decodeTransactionError(error)).toBe(error);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for the transaction state machine and receipt waiting
+ */
+
+import { ethers } from "ethers";
+import {
+  initialTransactionState,
+  transactionReducer,
+  waitForTransaction,
+  TransactionEvent,
+  TransactionState,
+} from "@/lib/transactionMachine";
+import { TransactionError } from "@/lib/transactionErrors";
+
+const HASH = "0x" + "a".repeat(64);
+const SPED_UP_HASH = "0x" + "b".repeat(64);
+
+const run = (events: TransactionEvent[], state = initialTransactionState) =>
+  events.reduce<TransactionState>(transactionReducer, state);
+
+// Stand-in TransactionResponse with a scripted wait()
+const fakeTransaction = (
+  hash: string,
+  wait: (confirms: number, timeout: number) => Promise<unknown>
+) => ({ hash, wait }) as unknown as ethers.TransactionResponse;
+
+const fakeReceipt = (hash: string, confirmations: number) => ({
+  hash,
+  confirmations: async () => confirmations,
+});
+
+describe("transactionReducer", () => {
+  it("walks an approval and a call through to success", () => {
+    const state = run([
+      { type: "START", step: "approving" },
+      { type: "SUBMITTED", hash: HASH },
+      { type: "CONFIRMED", step: "approved" },
+      { type: "NEXT_STEP", step: "creating" },
+      { type: "SUBMITTED", hash: SPED_UP_HASH },
+      { type: "CONFIRMATION", confirmations: 1 },
+    ]);
+
+    expect(state.isLoading).toBe(true);
+    expect(state.isSuccess).toBe(false);
+    expect(state.step).toBe("creating");
+    expect(state.confirmations).toBe(1);
+
+    const done = transactionReducer(state, {
+      type: "CONFIRMED",
+      step: "success",
+    });
+    expect(done.isLoading).toBe(false);
+    expect(done.isSuccess).toBe(true);
+    expect(done.hash).toBe(SPED_UP_HASH);
+    expect(done.approvalMethod).toBe("approve");
+    expect(done.history.map((entry) => [entry.step, entry.status])).toEqual([
+      ["approving", "started"],
+      ["approving", "submitted"],
+      ["approving", "confirmed"],
+      ["creating", "started"],
+      ["creating", "submitted"],
+      ["creating", "confirmed"],
+    ]);
+  });
+
+  it("holds a flow for its fee review before sending", () => {
+    const reviewing = run([
+      { type: "START", step: "cancelling" },
+      { type: "AWAIT_REVIEW" },
+    ]);
+    expect(reviewing.isReviewing).toBe(true);
+    expect(reviewing.isLoading).toBe(false);
+    expect(reviewing.step).toBe("cancelling");
+
+    const sending = transactionReducer(reviewing, { type: "REVIEWED" });
+    expect(sending.isReviewing).toBe(false);
+    expect(sending.isLoading).toBe(true);
+    expect(sending.history).toEqual(reviewing.history);
+  });
+
+  it("records a signed permit as the approval", () => {
+    const state = run([
+      { type: "START", step: "approving" },
+      { type: "PERMIT_SIGNED" },
+      { type: "SUBMITTED", hash: HASH },
+      { type: "CONFIRMED", step: "approved" },
+      { type: "NEXT_STEP", step: "accepting" },
+      { type: "SUBMITTED", hash: SPED_UP_HASH },
+      { type: "CONFIRMED", step: "success" },
+    ]);
+
+    expect(state.isSuccess).toBe(true);
+    expect(state.approvalMethod).toBe("permit");
+    expect(state.history.map((entry) => [entry.step, entry.status])).toEqual([
+      ["approving", "started"],
+      ["approving", "signed"],
+      ["approving", "submitted"],
+      ["approving", "confirmed"],
+      ["accepting", "started"],
+      ["accepting", "submitted"],
+      ["accepting", "confirmed"],
+    ]);
+  });
+
+  it("follows a replacement and records failures", () => {
+    const state = run([
+      { type: "START", step: "repaying" },
+      { type: "SUBMITTED", hash: HASH },
+      { type: "REPLACED", hash: SPED_UP_HASH },
+      {
+        type: "FAILED",
+        error: new TransactionError("NOT_BORROWER", "Only borrower can repay"),
+      },
+    ]);
+
+    expect(state.isError).toBe(true);
+    expect(state.step).toBe("error");
+    expect(state.hash).toBe(SPED_UP_HASH);
+    expect(state.errorCode).toBe("NOT_BORROWER");
+    expect(state.history.map((entry) => entry.status)).toEqual([
+      "started",
+      "submitted",
+      "replaced",
+      "failed",
+    ]);
+  });
+
+  it("unlocks on timeout and settles from the background watch", () => {
+    const pending = run([
+      { type: "START", step: "cancelling" },
+      { type: "SUBMITTED", hash: HASH },
+      { type: "TIMEOUT" },
+    ]);
+    expect(pending.isLoading).toBe(false);
+    expect(pending.isPending).toBe(true);
+
+    const settled = transactionReducer(pending, {
+      type: "CONFIRMED",
+      step: "success",
+      hash: HASH,
+    });
+    expect(settled.isPending).toBe(false);
+    expect(settled.isSuccess).toBe(true);
+  });
+
+  it("ignores a background result once another transaction started", () => {
+    const next = run([
+      { type: "START", step: "cancelling" },
+      { type: "SUBMITTED", hash: HASH },
+      { type: "TIMEOUT" },
+      { type: "START", step: "liquidating" },
+    ]);
+
+    expect(
+      transactionReducer(next, {
+        type: "CONFIRMED",
+        step: "success",
+        hash: HASH,
+      })
+    ).toBe(next);
+  });
+});
+
+describe("waitForTransaction", () => {
+  it("reports confirmations until enough are reached", async () => {
+    let block = 0;
+    const tx = fakeTransaction(HASH, async (confirms) => {
+      block = Math.max(block + 1, confirms);
+      return fakeReceipt(HASH, block);
+    });
+    const seen: number[] = [];
+
+    const receipt = await waitForTransaction(tx, {
+      confirmations: 3,
+      onConfirmation: (confirmations) => seen.push(confirmations),
+    });
+
+    expect(receipt.hash).toBe(HASH);
+    expect(seen).toEqual([1, 2, 3]);
+  });
+
+  it("switches to a sped-up replacement", async () => {
+    const replacement = fakeTransaction(SPED_UP_HASH, async () =>
+      fakeReceipt(SPED_UP_HASH, 2)
+    );
+    const tx = fakeTransaction(HASH, async () => {
+      throw ethers.makeError(
+        "transaction was replaced",
+        "TRANSACTION_REPLACED",
+        {
+          cancelled: false,
+          reason: "repriced",
+          replacement,
+          hash: SPED_UP_HASH,
+          receipt: null as unknown as ethers.TransactionReceipt,
+        }
+      );
+    });
+    const onReplaced = jest.fn();
+
+    const receipt = await waitForTransaction(tx, {
+      confirmations: 2,
+      onReplaced,
+    });
+
+    expect(receipt.hash).toBe(SPED_UP_HASH);
+    expect(onReplaced).toHaveBeenCalledWith(replacement);
+  });
+
+  it("rejects cancelled transactions", async () => {
+    const tx = fakeTransaction(HASH, async () => {
+      throw ethers.makeError(
+        "transaction was replaced",
+        "TRANSACTION_REPLACED",
+        {
+          cancelled: true,
+          reason: "cancelled",
+          replacement: tx,
+          hash: SPED_UP_HASH,
+          receipt: null as unknown as ethers.TransactionReceipt,
+        }
+      );
+    });
+
+    await expect(waitForTransaction(tx)).rejects.toMatchObject({
+      code: "TRANSACTION_REPLACED",
+    });
+  });
+
+  it("passes the remaining time to each wait", async () => {
+    const timeouts: number[] = [];
+    const tx = fakeTransaction(HASH, async (confirms, timeout) => {
+      timeouts.push(timeout);
+      return fakeReceipt(HASH, confirms);
+    });
+
+    await waitForTransaction(tx, { confirmations: 2, timeout: 60_000 });
+
+    expect(timeouts).toHaveLength(2);
+    timeouts.forEach((timeout) => {
+      expect(timeout).toBeGreaterThan(0);
+      expect(timeout).toBeLessThanOrEqual(60_000);
+    });
+  });
+});
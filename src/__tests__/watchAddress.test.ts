@@ -0,0 +1,51 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for reading and carrying the watch-only address
+ */
+
+import {
+  isWatchingOther,
+  parseWatchAddress,
+  withWatchAddress,
+} from "@/lib/watchAddress";
+
+const WATCHED = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+const OTHER = "0x1111111111111111111111111111111111111111";
+
+describe("parseWatchAddress", () => {
+  it("checksums a valid address", () => {
+    expect(parseWatchAddress(` ${WATCHED.toLowerCase()} `)).toBe(WATCHED);
+  });
+
+  it("ignores a missing or malformed address", () => {
+    expect(parseWatchAddress(null)).toBeNull();
+    expect(parseWatchAddress("")).toBeNull();
+    expect(parseWatchAddress("0x1234")).toBeNull();
+    expect(parseWatchAddress("vitalik.eth")).toBeNull();
+  });
+});
+
+describe("isWatchingOther", () => {
+  it("is watch-only for an address other than the connected wallet", () => {
+    expect(isWatchingOther(WATCHED, undefined)).toBe(true);
+    expect(isWatchingOther(WATCHED, OTHER)).toBe(true);
+  });
+
+  it("is the normal view for the connected wallet or no address", () => {
+    expect(isWatchingOther(WATCHED, WATCHED.toLowerCase())).toBe(false);
+    expect(isWatchingOther(null, OTHER)).toBe(false);
+  });
+});
+
+describe("withWatchAddress", () => {
+  it("carries the watched address onto a link", () => {
+    expect(withWatchAddress("/my-loans/7", WATCHED)).toBe(
+      `/my-loans/7?address=${WATCHED}`
+    );
+    expect(withWatchAddress("/my-loans?tab=lent", WATCHED)).toBe(
+      `/my-loans?tab=lent&address=${WATCHED}`
+    );
+    expect(withWatchAddress("/my-loans/7", null)).toBe("/my-loans/7");
+  });
+});
@@ -0,0 +1,285 @@
+"use client";
+
+import React, { useState } from "react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useP2PLending } from "@/hooks/useP2PLending";
+import {
+  useAllowances,
+  useApprovalMode,
+  TokenAllowance,
+} from "@/hooks/useAllowances";
+import { isUnlimitedAllowance } from "@/lib/approvalMode";
+import { decodeTransactionError } from "@/lib/transactionErrors";
+import {
+  fromBaseUnit,
+  getTokenDisplayPrecision,
+  toBaseUnit,
+} from "@/lib/decimals";
+import { DREAMLEND_CONTRACT_ADDRESS } from "@/lib/contracts";
+import { AlertCircle, Loader2, RefreshCw, ShieldCheck } from "lucide-react";
+
+export default function AllowancesPage() {
+  const { address, isConnected, approveToken, resetTransactionState } =
+    useP2PLending();
+  const { allowances, isLoading, error, refetch } = useAllowances(address);
+  const [approvalMode, setApprovalMode] = useApprovalMode();
+
+  // Exact amounts typed per token, and the token being updated
+  const [exactAmounts, setExactAmounts] = useState<Record<string, string>>({});
+  const [busyToken, setBusyToken] = useState<string | null>(null);
+
+  const updateAllowance = async (entry: TokenAllowance, amount: bigint) => {
+    const { token } = entry;
+    setBusyToken(token.address);
+    try {
+      await approveToken(token.address, amount);
+      toast.success(
+        amount === BigInt(0)
+          ? `Revoked DomaLend's ${token.symbol} allowance`
+          : `Set DomaLend's ${token.symbol} allowance to ${fromBaseUnit(amount, token.decimals)}`
+      );
+      setExactAmounts((prev) => ({ ...prev, [token.address]: "" }));
+      await refetch();
+    } catch (err: unknown) {
+      const txError = decodeTransactionError(err);
+      if (txError.code === "TRANSACTION_PENDING") {
+        toast.info(`${token.symbol} approval is still pending`, {
+          description: "The allowance updates once it confirms.",
+        });
+      } else if (txError.code !== "USER_REJECTED") {
+        toast.error(`Failed to update ${token.symbol} allowance`, {
+          description: txError.message,
+        });
+      }
+    } finally {
+      setBusyToken(null);
+      resetTransactionState();
+    }
+  };
+
+  const renderAllowance = ({ token, allowance }: TokenAllowance) => {
+    if (allowance === null) {
+      return <span className="text-muted-foreground">Unavailable</span>;
+    }
+    if (allowance === BigInt(0)) {
+      return <span className="text-muted-foreground">None</span>;
+    }
+    if (isUnlimitedAllowance(allowance)) {
+      return <Badge variant="destructive">Unlimited</Badge>;
+    }
+    return (
+      <span className="font-mono">
+        {fromBaseUnit(
+          allowance,
+          token.decimals,
+          getTokenDisplayPrecision(token.symbol)
+        )}
+      </span>
+    );
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Token Allowances</CardTitle>
+            <CardDescription>
+              Connect your wallet to review what DomaLend may spend
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Please connect your wallet to Doma testnet to view your
+                allowances.
+              </AlertDescription>
+            </Alert>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold">Token Allowances</h1>
+          <p className="text-gray-600 mt-2">
+            Tokens the DomaLend contract may move from your wallet
+          </p>
+          <p className="text-sm text-gray-500 font-mono mt-1">
+            {DREAMLEND_CONTRACT_ADDRESS}
+          </p>
+        </div>
+        <Button
+          onClick={refetch}
+          variant="outline"
+          disabled={isLoading}
+          className="btn-premium"
+        >
+          {isLoading ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          Refresh
+        </Button>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="pt-6 flex items-center justify-between gap-6">
+          <div className="flex items-start gap-3">
+            <ShieldCheck className="h-5 w-5 mt-0.5 text-primary" />
+            <div>
+              <Label htmlFor="unlimited-approvals" className="font-medium">
+                Unlimited approvals
+              </Label>
+              <p className="text-sm text-muted-foreground mt-1">
+                {approvalMode === "unlimited"
+                  ? "Future loans approve an unlimited amount, so later loans with the same token skip the approval."
+                  : "Future loans approve exactly what each transaction needs."}{" "}
+                Tokens that support permit are approved by signature either way.
+              </p>
+            </div>
+          </div>
+          <Switch
+            id="unlimited-approvals"
+            checked={approvalMode === "unlimited"}
+            onCheckedChange={(checked) =>
+              setApprovalMode(checked ? "unlimited" : "exact")
+            }
+          />
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading && allowances.length === 0 ? (
+            <div className="space-y-3">
+              {[0, 1, 2].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Token</TableHead>
+                  <TableHead>Balance</TableHead>
+                  <TableHead>Allowance</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {allowances.map((entry) => {
+                  const { token, allowance, balance } = entry;
+                  const exactAmount = exactAmounts[token.address] ?? "";
+                  const isBusy = busyToken === token.address;
+                  return (
+                    <TableRow key={token.address}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{token.symbol}</span>
+                          {token.isDomainToken && (
+                            <Badge variant="secondary">Domain</Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {token.name}
+                        </p>
+                      </TableCell>
+                      <TableCell className="font-mono">
+                        {balance === null
+                          ? "-"
+                          : fromBaseUnit(
+                              balance,
+                              token.decimals,
+                              getTokenDisplayPrecision(token.symbol)
+                            )}
+                      </TableCell>
+                      <TableCell>{renderAllowance(entry)}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center justify-end gap-2">
+                          <Input
+                            type="number"
+                            min="0"
+                            placeholder="Exact amount"
+                            value={exactAmount}
+                            onChange={(e) =>
+                              setExactAmounts((prev) => ({
+                                ...prev,
+                                [token.address]: e.target.value,
+                              }))
+                            }
+                            className="w-36"
+                            disabled={busyToken !== null}
+                          />
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busyToken !== null || !exactAmount}
+                            onClick={() =>
+                              updateAllowance(
+                                entry,
+                                toBaseUnit(exactAmount, token.decimals)
+                              )
+                            }
+                          >
+                            Set
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            disabled={busyToken !== null || !allowance}
+                            onClick={() => updateAllowance(entry, BigInt(0))}
+                          >
+                            {isBusy && (
+                              <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                            )}
+                            Revoke
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
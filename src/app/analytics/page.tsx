@@ -14,12 +14,14 @@ import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useP2PLending } from "@/hooks/useP2PLending";
+import { ACTIVE_CHAIN, LoanStatus } from "@/lib/contracts";
 import {
-  DREAMLEND_CONTRACT_ADDRESS,
-  DREAMLEND_ABI,
-  DOMA_TESTNET_CONFIG,
-  LoanStatus,
-} from "@/lib/contracts";
+  connectDomaLend,
+  DomaLendAbi,
+  EventName,
+  TypedEventFilter,
+  TypedEventLog,
+} from "@/lib/contractBindings";
 import {
   BarChart,
   Bar,
@@ -88,22 +90,6 @@ interface EventLog {
   transactionHash: string;
 }
 
-interface ContractLog extends ethers.Log {
-  args: {
-    loanId: ethers.BigNumberish;
-    lender?: string;
-    borrower?: string;
-    liquidator?: string;
-    tokenAddress?: string;
-    amount?: ethers.BigNumberish;
-    interestRate?: ethers.BigNumberish;
-    duration?: ethers.BigNumberish;
-    collateralAddress?: string;
-    collateralAmount?: ethers.BigNumberish;
-    timestamp?: ethers.BigNumberish;
-  };
-}
-
 export default function AnalyticsPage() {
   const { isConnected } = useP2PLending();
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData | null>(
@@ -115,9 +101,7 @@ export default function AnalyticsPage() {
 
   // Create ethers provider for reading blockchain data
   const getProvider = () => {
-    return new ethers.JsonRpcProvider(
-      DOMA_TESTNET_CONFIG.rpcUrls.default.http[0]
-    );
+    return new ethers.JsonRpcProvider(ACTIVE_CHAIN.rpcUrls.default.http[0]);
   };
 
   const fetchAnalyticsData = useCallback(async () => {
@@ -126,11 +110,7 @@ export default function AnalyticsPage() {
 
     try {
       const provider = getProvider();
-      const contract = new ethers.Contract(
-        DREAMLEND_CONTRACT_ADDRESS,
-        DREAMLEND_ABI,
-        provider
-      );
+      const contract = connectDomaLend(provider);
 
       // Get current block number
       const currentBlock = await provider.getBlockNumber();
@@ -145,10 +125,10 @@ export default function AnalyticsPage() {
       const loanLiquidatedFilter = contract.filters.LoanLiquidated();
 
       // Function to fetch events in chunks
-      const fetchEventsInChunks = async (
-        filter: ReturnType<typeof contract.filters.LoanCreated>
+      const fetchEventsInChunks = async <N extends EventName<DomaLendAbi>>(
+        filter: TypedEventFilter<DomaLendAbi, N>
       ) => {
-        const allLogs = [];
+        const allLogs: TypedEventLog<DomaLendAbi, N>[] = [];
         for (
           let fromBlock = startBlock;
           fromBlock <= currentBlock;
@@ -212,57 +192,45 @@ export default function AnalyticsPage() {
         fetchEventsInChunks(loanLiquidatedFilter),
       ]);
 
-      // Process event data - cast logs to ContractLog to access args
-      const loanCreatedEvents: EventLog[] = loanCreatedLogs.map((log) => {
-        const contractLog = log as ContractLog;
-        return {
-          loanId: BigInt(contractLog.args.loanId.toString()),
-          lender: contractLog.args.lender,
-          tokenAddress: contractLog.args.tokenAddress,
-          amount: BigInt(contractLog.args.amount!.toString()),
-          interestRate: BigInt(contractLog.args.interestRate!.toString()),
-          duration: BigInt(contractLog.args.duration!.toString()),
-          collateralAddress: contractLog.args.collateralAddress,
-          collateralAmount: BigInt(
-            contractLog.args.collateralAmount!.toString()
-          ),
-          blockNumber: BigInt(contractLog.blockNumber.toString()),
-          transactionHash: contractLog.transactionHash,
-        };
-      });
-
-      const loanAcceptedEvents: EventLog[] = loanAcceptedLogs.map((log) => {
-        const contractLog = log as ContractLog;
-        return {
-          loanId: BigInt(contractLog.args.loanId.toString()),
-          borrower: contractLog.args.borrower,
-          timestamp: BigInt(contractLog.args.timestamp!.toString()),
-          blockNumber: BigInt(contractLog.blockNumber.toString()),
-          transactionHash: contractLog.transactionHash,
-        };
-      });
-
-      const loanRepaidEvents: EventLog[] = loanRepaidLogs.map((log) => {
-        const contractLog = log as ContractLog;
-        return {
-          loanId: BigInt(contractLog.args.loanId.toString()),
-          borrower: contractLog.args.borrower,
-          timestamp: BigInt(contractLog.args.timestamp!.toString()),
-          blockNumber: BigInt(contractLog.blockNumber.toString()),
-          transactionHash: contractLog.transactionHash,
-        };
-      });
-
-      const loanLiquidatedEvents: EventLog[] = loanLiquidatedLogs.map((log) => {
-        const contractLog = log as ContractLog;
-        return {
-          loanId: BigInt(contractLog.args.loanId.toString()),
-          borrower: contractLog.args.liquidator,
-          timestamp: BigInt(contractLog.args.timestamp!.toString()),
-          blockNumber: BigInt(contractLog.blockNumber.toString()),
-          transactionHash: contractLog.transactionHash,
-        };
-      });
+      // Process event data
+      const loanCreatedEvents: EventLog[] = loanCreatedLogs.map((log) => ({
+        loanId: log.args.loanId,
+        lender: log.args.lender,
+        tokenAddress: log.args.tokenAddress,
+        amount: log.args.amount,
+        interestRate: log.args.interestRate,
+        duration: log.args.duration,
+        collateralAddress: log.args.collateralAddress,
+        collateralAmount: log.args.collateralAmount,
+        blockNumber: BigInt(log.blockNumber),
+        transactionHash: log.transactionHash,
+      }));
+
+      const loanAcceptedEvents: EventLog[] = loanAcceptedLogs.map((log) => ({
+        loanId: log.args.loanId,
+        borrower: log.args.borrower,
+        timestamp: log.args.timestamp,
+        blockNumber: BigInt(log.blockNumber),
+        transactionHash: log.transactionHash,
+      }));
+
+      const loanRepaidEvents: EventLog[] = loanRepaidLogs.map((log) => ({
+        loanId: log.args.loanId,
+        borrower: log.args.borrower,
+        timestamp: log.args.timestamp,
+        blockNumber: BigInt(log.blockNumber),
+        transactionHash: log.transactionHash,
+      }));
+
+      const loanLiquidatedEvents: EventLog[] = loanLiquidatedLogs.map(
+        (log) => ({
+          loanId: log.args.loanId,
+          borrower: log.args.liquidator,
+          timestamp: log.args.timestamp,
+          blockNumber: BigInt(log.blockNumber),
+          transactionHash: log.transactionHash,
+        })
+      );
 
       // Get detailed loan information for TVL calculation
       const allLoanIds = [...new Set(loanCreatedEvents.map((e) => e.loanId))];
@@ -1,16 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { ethers } from "ethers";
-import {
-  DREAMLEND_CONTRACT_ADDRESS,
-  DREAMLEND_ABI,
-  DOMA_TESTNET_CONFIG,
-} from "@/lib/contracts";
+import { ACTIVE_CHAIN } from "@/lib/contracts";
+import { connectDomaLend, decodeLoan } from "@/lib/contractBindings";
 
 // Create an ethers provider for reading from the blockchain
 const getProvider = () => {
-  return new ethers.JsonRpcProvider(
-    DOMA_TESTNET_CONFIG.rpcUrls.default.http[0]
-  );
+  return new ethers.JsonRpcProvider(ACTIVE_CHAIN.rpcUrls.default.http[0]);
 };
 
 export async function POST(request: NextRequest) {
@@ -25,15 +20,10 @@ export async function POST(request: NextRequest) {
     }
 
     // Create contract instance
-    const provider = getProvider();
-    const contract = new ethers.Contract(
-      DREAMLEND_CONTRACT_ADDRESS,
-      DREAMLEND_ABI,
-      provider
-    );
+    const contract = connectDomaLend(getProvider());
 
     // Call the contract to get loan details
-    const loan = await contract.getLoan(BigInt(loanId));
+    const loan = decodeLoan(await contract.getLoan(BigInt(loanId)));
 
     // Convert BigInt values to strings for JSON serialization
     const serializedLoan = {
@@ -47,7 +37,7 @@ export async function POST(request: NextRequest) {
       collateralAddress: loan.collateralAddress,
       collateralAmount: loan.collateralAmount.toString(),
       startTime: loan.startTime.toString(),
-      status: Number(loan.status), // Convert status enum to number
+      status: loan.status,
     };
 
     return NextResponse.json(serializedLoan);
@@ -0,0 +1,109 @@
+// app/api/loans/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { fetchIndexedLoans, IndexerRequestError } from "@/lib/indexerLoans";
+import { getIndexerFreshness } from "@/lib/indexerFreshness";
+import {
+  applyLoanQuery,
+  parseLoanQuery,
+  serializeLoan,
+  toApiLoans,
+  LoanQueryError,
+  ApiLoan,
+  LoansResponse,
+} from "@/lib/loanQuery";
+import { getAllSupportedTokensAsync } from "@/config/tokens";
+
+// Shared caches may serve a response for a few seconds and keep serving it
+// while they revalidate; browsers always revalidate.
+const CACHE_CONTROL =
+  "public, max-age=0, s-maxage=5, stale-while-revalidate=30";
+
+// The loan list assembled at the indexer's last processed block. Filter and
+// page requests made before the indexer moves on reuse it rather than
+// rescanning every event collection.
+let assembled: { block: number; loans: Promise<ApiLoan[]> } | null = null;
+
+const assembleLoans = async (): Promise<ApiLoan[]> => {
+  const [loans, tokens] = await Promise.all([
+    fetchIndexedLoans(),
+    getAllSupportedTokensAsync(),
+  ]);
+  return toApiLoans(
+    loans,
+    tokens.filter((t) => t.isDomainToken).map((t) => t.address)
+  );
+};
+
+const getLoans = async (): Promise<ApiLoan[]> => {
+  const { lastProcessedBlock: block } = await getIndexerFreshness();
+  // Without a block there is nothing to tell a stale list by
+  if (block === null) return assembleLoans();
+
+  if (assembled?.block !== block) {
+    const loans = assembleLoans();
+    assembled = { block, loans };
+    // A failed scan is retried by the next request
+    loans.catch(() => {
+      if (assembled?.loans === loans) assembled = null;
+    });
+  }
+  return assembled.loans;
+};
+
+/**
+ * Processed loans, filtered, sorted and paginated.
+ *
+ * Query parameters (all optional):
+ *   status      comma-separated numbers or names (0,1 or pending,active)
+ *   lender, borrower, account (lender or borrower)
+ *   token, collateral   loan and collateral token addresses
+ *   domaBacked  true | false
+ *   sort        id | createdAt | amount | interestRate | duration | collateralAmount
+ *   order       asc | desc (default desc)
+ *   limit, offset
+ *
+ * Bigint fields are encoded as base-10 strings; see lib/loanQuery.ts.
+ */
+export async function GET(req: NextRequest) {
+  let query;
+  try {
+    query = parseLoanQuery(req.nextUrl.searchParams);
+  } catch (error) {
+    if (error instanceof LoanQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  try {
+    const result = applyLoanQuery(await getLoans(), query);
+
+    const body: LoansResponse = {
+      loans: result.loans.map(serializeLoan),
+      total: result.total,
+      limit: query.limit,
+      offset: query.offset,
+    };
+
+    return NextResponse.json(body, {
+      headers: { "Cache-Control": CACHE_CONTROL },
+    });
+  } catch (error) {
+    console.error("❌ Loans API error:", error);
+
+    if (error instanceof IndexerRequestError) {
+      return NextResponse.json(
+        { error: "Failed to fetch from indexer", details: error.message },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: "Internal Server Error",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,31 +1,151 @@
 // app/api/subgraph/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import {
+  getPersistedQueryAllowlist,
+  hashQuery,
+  getOperationName,
+  GraphQLVariables,
+  PersistedQuery,
+  SubgraphRequestBody,
+  SubgraphErrorCode,
+  MAX_PAGE_SIZE,
+  MAX_SKIP,
+} from "@/lib/graphql/persistedQueries";
+import { getIndexerFreshness } from "@/lib/indexerFreshness";
+import { ACTIVE_NETWORK } from "@/config/networks";
 
 // Use local indexer instead of remote subgraph
-const SUBGRAPH_URL =
-  process.env.NEXT_PUBLIC_SUBGRAPH_URL || "http://localhost:3001/graphql";
+const SUBGRAPH_URL = ACTIVE_NETWORK.api.subgraph;
+
+// Escape hatch for local debugging against the indexer with ad-hoc queries
+const ALLOW_ARBITRARY_QUERIES =
+  process.env.SUBGRAPH_ALLOW_ARBITRARY_QUERIES === "true";
+
+const rejectRequest = (
+  code: SubgraphErrorCode,
+  error: string,
+  status: number
+) =>
+  NextResponse.json(
+    {
+      error,
+      code,
+      errors: [{ message: error, extensions: { code } }],
+    },
+    { status }
+  );
+
+// Paging variables, when given, must be integers between 0 and these
+const PAGE_VARIABLE_LIMITS = { first: MAX_PAGE_SIZE, skip: MAX_SKIP };
+
+const isPlainObject = (value: unknown): value is GraphQLVariables =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Resolve the document to run from a hash, a full query text, or both
+const resolveQuery = async (
+  body: SubgraphRequestBody
+): Promise<PersistedQuery | NextResponse> => {
+  const allowlist = await getPersistedQueryAllowlist();
+  const sha256Hash = body.extensions?.persistedQuery?.sha256Hash;
+
+  if (sha256Hash) {
+    const persisted = allowlist.get(sha256Hash);
+    if (!persisted) {
+      return rejectRequest(
+        "PERSISTED_QUERY_NOT_FOUND",
+        "PersistedQueryNotFound",
+        400
+      );
+    }
+    if (body.query && (await hashQuery(body.query)) !== sha256Hash) {
+      return rejectRequest(
+        "PERSISTED_QUERY_HASH_MISMATCH",
+        "Query text does not match the persisted query hash",
+        400
+      );
+    }
+    return persisted;
+  }
+
+  if (!body.query || typeof body.query !== "string") {
+    return rejectRequest(
+      "BAD_REQUEST",
+      "Query or persisted query hash is required",
+      400
+    );
+  }
+
+  const persisted = allowlist.get(await hashQuery(body.query));
+  if (persisted) return persisted;
+
+  if (ALLOW_ARBITRARY_QUERIES) {
+    return { query: body.query, operationName: getOperationName(body.query) };
+  }
+
+  return rejectRequest(
+    "QUERY_NOT_ALLOWLISTED",
+    "Query is not in the persisted query allowlist",
+    403
+  );
+};
 
 export async function POST(req: NextRequest) {
   try {
-    const { query } = await req.json();
+    const body: SubgraphRequestBody = await req.json();
+    const variables = body.variables ?? {};
+
+    if (!isPlainObject(variables)) {
+      return rejectRequest("BAD_REQUEST", "Variables must be an object", 400);
+    }
+
+    for (const [name, max] of Object.entries(PAGE_VARIABLE_LIMITS)) {
+      const value = variables[name];
+      if (
+        value !== undefined &&
+        (typeof value !== "number" ||
+          !Number.isInteger(value) ||
+          value < 0 ||
+          value > max)
+      ) {
+        return rejectRequest(
+          "VARIABLE_OUT_OF_RANGE",
+          `Variable "${name}" must be an integer between 0 and ${max}`,
+          400
+        );
+      }
+    }
 
-    if (!query) {
-      return NextResponse.json({ error: "Query is required" }, { status: 400 });
+    const resolved = await resolveQuery(body);
+    if (resolved instanceof NextResponse) return resolved;
+
+    const { query, operationName } = resolved;
+    if (body.operationName && body.operationName !== operationName) {
+      return rejectRequest(
+        "OPERATION_NAME_MISMATCH",
+        `Operation "${body.operationName}" does not match the requested query`,
+        400
+      );
     }
 
     console.log(
       "🔍 Proxying GraphQL query to:",
       SUBGRAPH_URL,
-      "\nQuery:",
-      query.substring(0, 100) + "..."
+      "\nOperation:",
+      operationName || "(anonymous)",
+      "\nVariables:",
+      JSON.stringify(variables)
     );
 
-    const response = await fetch(SUBGRAPH_URL, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ query }),
-      cache: "no-store", // Disable caching for real-time data
-    });
+    // Measured alongside the query so the response says how fresh it is
+    const [response, freshness] = await Promise.all([
+      fetch(SUBGRAPH_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query, variables, operationName }),
+        cache: "no-store", // Disable caching for real-time data
+      }),
+      getIndexerFreshness(),
+    ]);
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -42,7 +162,18 @@ export async function POST(req: NextRequest) {
       JSON.stringify(data).substring(0, 200) + "..."
     );
 
-    return NextResponse.json(data);
+    return NextResponse.json(
+      {
+        ...data,
+        extensions: { ...data.extensions, indexer: freshness },
+      },
+      {
+        headers:
+          freshness.lagBlocks !== null
+            ? { "X-Indexer-Lag-Blocks": String(freshness.lagBlocks) }
+            : undefined,
+      }
+    );
   } catch (error) {
     console.error("❌ API route error:", error);
     return NextResponse.json(
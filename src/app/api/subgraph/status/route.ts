@@ -0,0 +1,15 @@
+// app/api/subgraph/status/route.ts
+import { NextResponse } from "next/server";
+import { getIndexerFreshness } from "@/lib/indexerFreshness";
+
+// Measured on every request; never prerender
+export const dynamic = "force-dynamic";
+
+// How far the indexer trails the chain head, without running a query
+export async function GET() {
+  const indexer = await getIndexerFreshness();
+  return NextResponse.json(
+    { indexer },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -0,0 +1,65 @@
+// app/api/subgraph/stream/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ACTIVE_NETWORK } from "@/config/networks";
+
+// The stream is served by the same indexer as /api/subgraph
+const SUBGRAPH_URL = ACTIVE_NETWORK.api.subgraph;
+const STREAM_URL = new URL("/api/events/stream", SUBGRAPH_URL);
+
+// Never prerender or cache a live stream
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const upstreamUrl = new URL(STREAM_URL);
+  const fromBlock = req.nextUrl.searchParams.get("fromBlock");
+  if (fromBlock !== null) {
+    if (!/^\d+$/.test(fromBlock)) {
+      return NextResponse.json(
+        { error: "fromBlock must be a block number" },
+        { status: 400 }
+      );
+    }
+    upstreamUrl.searchParams.set("fromBlock", fromBlock);
+  }
+
+  const headers: Record<string, string> = { Accept: "text/event-stream" };
+  // Sent by EventSource on its own reconnects; newer than our query cursor
+  const lastEventId = req.headers.get("last-event-id");
+  if (lastEventId) headers["Last-Event-ID"] = lastEventId;
+
+  try {
+    const response = await fetch(upstreamUrl, {
+      headers,
+      cache: "no-store",
+      // Closes the upstream stream when the browser disconnects
+      signal: req.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      console.error("❌ Indexer event stream failed:", errorText);
+      return NextResponse.json(
+        { error: "Failed to open indexer event stream", details: errorText },
+        { status: response.ok ? 502 : response.status }
+      );
+    }
+
+    return new Response(response.body, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    console.error("❌ Event stream route error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal Server Error",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -57,9 +57,12 @@ export default function CreateLoanOfferPage() {
     createLoanOffer,
     transactionState,
     resetTransactionState,
+    feeEstimate,
+    refreshFeeEstimate,
+    confirmFees,
     isConnected,
     address,
-  } = useP2PLending();
+  } = useP2PLending({ reviewFees: true });
 
   // Refs to access TokenSelector refresh functions
   const loanTokenSelectorRef = useRef<TokenSelectorRef>(null);
@@ -1525,6 +1528,9 @@ export default function CreateLoanOfferPage() {
           isOpen={transactionState.step !== "idle"}
           onClose={resetTransactionState}
           transactionState={transactionState}
+          feeEstimate={feeEstimate}
+          onRefreshFees={refreshFeeEstimate}
+          onConfirmFees={confirmFees}
           onReset={handleReset}
           onCreateAnother={() => {
             // Modal will call onClose() first, so we just need to reset the form
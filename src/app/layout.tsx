@@ -5,6 +5,7 @@ import { Analytics } from "@vercel/analytics/next";
 import "./globals.css";
 import ContextProvider from "@/context";
 import Navigation from "@/components/Navigation";
+import { IndexerLagBanner } from "@/components/IndexerLagBanner";
 
 export default async function RootLayout({
   children,
@@ -34,6 +35,7 @@ export default async function RootLayout({
               <Navigation />
               <main className="relative z-10">
                 <div className="container mx-auto px-4 lg:px-6 py-6">
+                  <IndexerLagBanner className="mb-6" />
                   {children}
                 </div>
               </main>
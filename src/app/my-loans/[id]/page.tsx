@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useCallback, useEffect } from "react";
+import React, { useState, useCallback, useEffect, Suspense } from "react";
 import { useRouter } from "next/navigation";
 import {
   Card,
@@ -17,6 +17,7 @@ import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
 import { useP2PLending } from "@/hooks/useP2PLending";
 import { LoanStatus } from "@/lib/contracts";
+import { TRANSACTION_ERRORS } from "@/lib/transactionErrors";
 import {
   useAllLoansWithStatus,
   ProcessedLoan,
@@ -28,6 +29,15 @@ import {
 } from "@/hooks/useLivePriceComparison";
 import { LoanHealthManager } from "@/components/LoanHealthManager";
 import { PartialRepaymentManager } from "@/components/PartialRepaymentManager";
+import {
+  TransactionModal,
+  LOAN_ACTION_STEPS,
+} from "@/components/TransactionModal";
+import { WatchOnlyBanner } from "@/components/WatchOnlyBanner";
+import { PriceStalenessNotice } from "@/components/PriceStalenessNotice";
+import { LoanPriceHistory } from "@/components/LoanPriceHistory";
+import { useViewedAccount } from "@/hooks/useViewedAccount";
+import { withWatchAddress } from "@/lib/watchAddress";
 import {
   CheckCircle,
   AlertCircle,
@@ -87,7 +97,7 @@ interface LoanDetailsPageProps {
   }>;
 }
 
-export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
+function LoanDetailsContent({ params }: LoanDetailsPageProps) {
   const router = useRouter();
   const resolvedParams = React.use(params);
   const loanId = BigInt(resolvedParams.id);
@@ -116,14 +126,22 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
     liquidateLoan,
     cancelLoanOffer,
     transactionState,
-    isConnected,
+    resetTransactionState,
+    feeEstimate,
+    refreshFeeEstimate,
+    confirmFees,
     address,
     calculateTotalRepayment,
     calculateInterest,
     isLoanDefaulted,
     getLoanHealthFactor,
     getLoanRepaymentInfo,
-  } = useP2PLending();
+  } = useP2PLending({ reviewFees: true });
+
+  // Whose side of the loan is shown: a watched ?address= or the wallet
+  const { account, watchAddress, isWatchOnly, watch } =
+    useViewedAccount(address);
+  const myLoansHref = withWatchAddress("/my-loans", watchAddress);
 
   // Get token prices
   const { prices: tokenPricesMap } = useTokenPrices([]);
@@ -177,7 +195,6 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
   const [selectedAction, setSelectedAction] = useState<
     "repay" | "liquidate" | "cancel" | null
   >(null);
-  const [showStuckMessage, setShowStuckMessage] = useState(false);
 
   // Format loan details for display
   const formatLoanDetails = useCallback(
@@ -287,25 +304,6 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
     }
   }, [loanDetails?.id, loanDetails?.status]);
 
-  // Show stuck loading message after 10 seconds
-  useEffect(() => {
-    let timeoutId: NodeJS.Timeout;
-
-    if (isLoadingSubgraph || isLoadingPrices) {
-      timeoutId = setTimeout(() => {
-        setShowStuckMessage(true);
-      }, 10000); // 10 seconds
-    } else {
-      setShowStuckMessage(false);
-    }
-
-    return () => {
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
-    };
-  }, [isLoadingSubgraph, isLoadingPrices]);
-
   // Refresh all data
   const refreshAllData = () => {
     refreshPrices();
@@ -324,8 +322,6 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
       refreshAllData();
     } catch (error) {
       console.error("Failed to repay loan:", error);
-    } finally {
-      setSelectedAction(null);
     }
   };
 
@@ -340,8 +336,6 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
       refreshAllData();
     } catch (error) {
       console.error("Failed to liquidate loan:", error);
-    } finally {
-      setSelectedAction(null);
     }
   };
 
@@ -356,11 +350,14 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
       refreshAllData();
     } catch (error) {
       console.error("Failed to cancel loan offer:", error);
-    } finally {
-      setSelectedAction(null);
     }
   };
 
+  const closeTransaction = () => {
+    resetTransactionState();
+    setSelectedAction(null);
+  };
+
   // Copy to clipboard function
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -375,42 +372,6 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
   if (isLoadingSubgraph || isLoadingPrices || !loanDetails) {
     return (
       <div className="container mx-auto px-4 py-8">
-        {/* Stuck Loading Message */}
-        {showStuckMessage && (isLoadingSubgraph || isLoadingPrices) && (
-          <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
-            <Card className="w-96 mx-4">
-              <CardContent className="pt-6 text-center">
-                <div className="mb-4">
-                  <Loader2 className="h-12 w-12 text-primary mx-auto mb-4 animate-spin" />
-                  <h3 className="text-lg font-semibold mb-2">
-                    Taking longer than usual...
-                  </h3>
-                  <p className="text-muted-foreground text-sm mb-4">
-                    The page seems to be stuck loading. This might be due to
-                    network issues or the subgraph being slow.
-                  </p>
-                </div>
-                <div className="space-y-2">
-                  <Button
-                    onClick={() => window.location.reload()}
-                    className="w-full"
-                  >
-                    <RefreshCw className="mr-2 h-4 w-4" />
-                    Refresh Page
-                  </Button>
-                  <Button
-                    variant="outline"
-                    onClick={() => setShowStuckMessage(false)}
-                    className="w-full"
-                  >
-                    Continue Waiting
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-        )}
-
         <div className="space-y-6">
           <Skeleton className="h-8 w-64" />
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -440,7 +401,7 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Button onClick={() => router.push("/my-loans")}>
+            <Button onClick={() => router.push(myLoansHref)}>
               <ArrowLeft className="mr-2 h-4 w-4" />
               Back to My Loans
             </Button>
@@ -452,25 +413,27 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
 
   // Check if user is involved in this loan
   const isLender =
-    address && loanDetails.lender.toLowerCase() === address.toLowerCase();
+    account && loanDetails.lender.toLowerCase() === account.toLowerCase();
   const isBorrower =
-    address && loanDetails.borrower.toLowerCase() === address.toLowerCase();
+    account && loanDetails.borrower.toLowerCase() === account.toLowerCase();
   const userRole = isLender ? "lender" : isBorrower ? "borrower" : null;
 
-  if (!isConnected || !userRole) {
+  if (!account || !userRole) {
     return (
       <div className="container mx-auto px-4 py-8">
         <Card>
           <CardHeader>
             <CardTitle>Access Denied</CardTitle>
             <CardDescription>
-              {!isConnected
+              {!account
                 ? "Please connect your wallet to view loan details."
-                : "You are not authorized to view this loan."}
+                : isWatchOnly
+                  ? "The watched address is not a party to this loan."
+                  : "You are not authorized to view this loan."}
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Button onClick={() => router.push("/my-loans")}>
+            <Button onClick={() => router.push(myLoansHref)}>
               <ArrowLeft className="mr-2 h-4 w-4" />
               Back to My Loans
             </Button>
@@ -487,7 +450,7 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
         <div className="flex items-center space-x-4">
           <Button
             variant="ghost"
-            onClick={() => router.push("/my-loans")}
+            onClick={() => router.push(myLoansHref)}
             className="p-2"
           >
             <ArrowLeft className="h-4 w-4" />
@@ -534,21 +497,32 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
         </div>
       </div>
 
-      {/* Transaction Status */}
-      {transactionState.step !== "idle" && selectedAction && (
-        <Alert className="mb-6">
-          <Loader2 className="h-4 w-4 animate-spin" />
-          <AlertDescription>
-            {transactionState.step === "approving" && "Approving tokens..."}
-            {transactionState.step === "repaying" && "Processing repayment..."}
-            {transactionState.step === "liquidating" &&
-              "Processing liquidation..."}
-            {transactionState.step === "cancelling" &&
-              "Cancelling loan offer..."}
-          </AlertDescription>
-        </Alert>
+      {isWatchOnly && (
+        <WatchOnlyBanner
+          address={account}
+          onExit={() => watch(null)}
+          className="mb-6"
+        />
       )}
 
+      <TransactionModal
+        isOpen={transactionState.step !== "idle" && selectedAction !== null}
+        onClose={closeTransaction}
+        transactionState={transactionState}
+        feeEstimate={feeEstimate}
+        onRefreshFees={refreshFeeEstimate}
+        onConfirmFees={confirmFees}
+        onReset={closeTransaction}
+        onViewLoans={() => {
+          closeTransaction();
+          router.push(myLoansHref);
+        }}
+        title="Updating Loan"
+        successTitle="Loan Updated!"
+        successDescription="Your transaction has been confirmed. The loan details refresh with the change."
+        steps={selectedAction ? LOAN_ACTION_STEPS[selectedAction] : undefined}
+      />
+
       {/* Error/Success Alerts */}
       {transactionState.isError && (
         <Alert className="mb-6" variant="destructive">
@@ -557,6 +531,16 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
         </Alert>
       )}
 
+      {transactionState.isPending && (
+        <Alert className="mb-6">
+          <Clock className="h-4 w-4 text-amber-500" />
+          <AlertDescription>
+            {TRANSACTION_ERRORS.TRANSACTION_PENDING.suggestion} Hash:{" "}
+            {transactionState.hash?.slice(0, 10)}...
+          </AlertDescription>
+        </Alert>
+      )}
+
       {transactionState.isSuccess && (
         <Alert className="mb-6">
           <CheckCircle className="h-4 w-4 text-green-500" />
@@ -792,7 +776,7 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
                         variant="secondary"
                         className="bg-emerald-100 text-emerald-800 dark:bg-emerald-900/50 dark:text-emerald-200"
                       >
-                        You
+                        {isWatchOnly ? "Watched" : "You"}
                       </Badge>
                     )}
                   </div>
@@ -824,7 +808,7 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
                         variant="secondary"
                         className="bg-primary/10 text-primary border-primary/20"
                       >
-                        You
+                        {isWatchOnly ? "Watched" : "You"}
                       </Badge>
                     )}
                   </div>
@@ -993,6 +977,8 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
             </CardContent>
           </Card>
 
+          <LoanPriceHistory loan={loanDetails} className="luxury-shadow" />
+
           {/* Loan Management Tools for Active Borrowed Loans */}
           {userRole === "borrower" &&
             loanDetails.status === LoanStatus.Active && (
@@ -1007,6 +993,7 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
                   loan={loanDetails}
                   tokenInfo={loanDetails.tokenInfo}
                   onUpdate={refreshAllData}
+                  readOnly={isWatchOnly}
                 />
               </div>
             )}
@@ -1023,9 +1010,22 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
+              <PriceStalenessNotice
+                staleness={loanDetails.priceStaleness}
+                status={loanDetails.status}
+              />
+
+              {isWatchOnly && (
+                <p className="text-sm text-muted-foreground">
+                  Watch-only: connect this account&apos;s wallet to act on the
+                  loan.
+                </p>
+              )}
+
               {/* Borrower Actions */}
               {userRole === "borrower" &&
-                loanDetails.status === LoanStatus.Active && (
+                loanDetails.status === LoanStatus.Active &&
+                !isWatchOnly && (
                   <Button
                     onClick={handleRepayLoan}
                     disabled={transactionState.isLoading}
@@ -1043,7 +1043,8 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
 
               {/* Lender Actions */}
               {userRole === "lender" &&
-                loanDetails.status === LoanStatus.Pending && (
+                loanDetails.status === LoanStatus.Pending &&
+                !isWatchOnly && (
                   <Button
                     onClick={handleCancelLoan}
                     disabled={transactionState.isLoading}
@@ -1062,10 +1063,16 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
 
               {userRole === "lender" &&
                 loanDetails.status === LoanStatus.Active &&
-                loanDetails.isOverdue && (
+                loanDetails.isOverdue &&
+                !isWatchOnly && (
                   <Button
                     onClick={handleLiquidateLoan}
-                    disabled={transactionState.isLoading}
+                    disabled={
+                      transactionState.isLoading ||
+                      loanDetails.priceStaleness.blockedActions.includes(
+                        "liquidate"
+                      )
+                    }
                     variant="destructive"
                     className="w-full bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 shadow-lg hover:shadow-xl transition-all duration-200"
                   >
@@ -1082,7 +1089,7 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
               <Separator />
 
               <Button
-                onClick={() => router.push("/my-loans")}
+                onClick={() => router.push(myLoansHref)}
                 variant="outline"
                 className="w-full border-primary/20 text-primary hover:bg-primary/5 hover:border-primary/30 transition-all duration-200"
               >
@@ -1237,3 +1244,12 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
     </div>
   );
 }
+
+// useSearchParams() needs a Suspense boundary for the page to prerender
+export default function LoanDetailsPage(props: LoanDetailsPageProps) {
+  return (
+    <Suspense>
+      <LoanDetailsContent {...props} />
+    </Suspense>
+  );
+}
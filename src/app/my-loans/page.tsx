@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, Suspense } from "react";
 import Link from "next/link";
 import {
   Card,
@@ -13,6 +13,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Table,
   TableBody,
@@ -23,13 +24,29 @@ import {
 } from "@/components/ui/table";
 import { useP2PLending } from "@/hooks/useP2PLending";
 import { LoanStatus } from "@/lib/contracts";
-import { useAllLoansWithStatus, ProcessedLoan } from "@/hooks/useSubgraphQuery";
+import { TRANSACTION_ERRORS } from "@/lib/transactionErrors";
+import { ProcessedLoan } from "@/hooks/useSubgraphQuery";
+import { useLoans } from "@/hooks/useLoans";
 import {
   useLivePriceComparison,
   LoanWithPriceComparison,
 } from "@/hooks/useLivePriceComparison";
 import { LoanHealthManager } from "@/components/LoanHealthManager";
 import { PartialRepaymentManager } from "@/components/PartialRepaymentManager";
+import { DegradedModeBanner } from "@/components/DegradedModeBanner";
+import { LoanConfirmationBadge } from "@/components/LoanConfirmationBadge";
+import { PriceStalenessNotice } from "@/components/PriceStalenessNotice";
+import { BatchActionDialog } from "@/components/BatchActionDialog";
+import {
+  TransactionModal,
+  LOAN_ACTION_STEPS,
+} from "@/components/TransactionModal";
+import { useBatchExecutor } from "@/hooks/useBatchExecutor";
+import { useLoanConfirmations } from "@/hooks/useLoanConfirmations";
+import { useViewedAccount } from "@/hooks/useViewedAccount";
+import { WatchAddressForm } from "@/components/WatchAddressForm";
+import { WatchOnlyBanner } from "@/components/WatchOnlyBanner";
+import { withWatchAddress } from "@/lib/watchAddress";
 import {
   CheckCircle,
   AlertCircle,
@@ -77,18 +94,28 @@ interface LoanWithDetails extends LoanWithPriceComparison {
   repaidAmount: bigint;
 }
 
-export default function MyLoansPage() {
+function MyLoansContent() {
+  // The batch dialog is its own confirmation, so batched cancels skip the
+  // fee review that single actions get in the TransactionModal
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
   const {
     repayLoan,
     liquidateLoan,
     cancelLoanOffer,
     transactionState,
-    isConnected,
+    resetTransactionState,
+    feeEstimate,
+    refreshFeeEstimate,
+    confirmFees,
     address,
     calculateTotalRepayment,
     calculateInterest,
     isLoanDefaulted,
-  } = useP2PLending();
+  } = useP2PLending({ reviewFees: !isBatchOpen });
+
+  // Whose loans are shown: a watched ?address= or the connected wallet
+  const { account, watchAddress, isWatchOnly, watch } =
+    useViewedAccount(address);
 
   // Initialize token cache on mount (CRITICAL for domain token data)
   React.useEffect(() => {
@@ -118,16 +145,19 @@ export default function MyLoansPage() {
     return obj;
   }, [tokenPricesMap]);
 
-  // Use subgraph data instead of RPC calls
+  // The viewed account's loans, processed server-side from the indexer
   const {
     loans: allLoans,
     loading: isLoadingSubgraph,
     error: subgraphError,
-  } = useAllLoansWithStatus();
+    degradedReason,
+    indexerLagBlocks,
+  } = useLoans({ account }, { enabled: !!account });
+  const getLoanConfirmation = useLoanConfirmations();
 
   // Filter loans by user role AND exclude loans with unavailable domain tokens
   const lenderLoans = React.useMemo(() => {
-    if (!address) return [];
+    if (!account) return [];
 
     const supportedTokens = getAllSupportedTokens();
     const validTokenAddresses = new Set(
@@ -135,7 +165,7 @@ export default function MyLoansPage() {
     );
 
     return allLoans.filter((loan) => {
-      const isLender = loan.lender.toLowerCase() === address.toLowerCase();
+      const isLender = loan.lender.toLowerCase() === account.toLowerCase();
       if (!isLender) return false;
 
       // Check if both tokens are still available
@@ -154,10 +184,10 @@ export default function MyLoansPage() {
 
       return loanTokenValid && collateralTokenValid;
     });
-  }, [allLoans, address]);
+  }, [allLoans, account]);
 
   const borrowerLoans = React.useMemo(() => {
-    if (!address) return [];
+    if (!account) return [];
 
     const supportedTokens = getAllSupportedTokens();
     const validTokenAddresses = new Set(
@@ -165,7 +195,7 @@ export default function MyLoansPage() {
     );
 
     return allLoans.filter((loan) => {
-      const isBorrower = loan.borrower.toLowerCase() === address.toLowerCase();
+      const isBorrower = loan.borrower.toLowerCase() === account.toLowerCase();
       if (!isBorrower) return false;
 
       // Check if both tokens are still available
@@ -184,7 +214,7 @@ export default function MyLoansPage() {
 
       return loanTokenValid && collateralTokenValid;
     });
-  }, [allLoans, address]);
+  }, [allLoans, account]);
 
   // Get live price comparison data
   const {
@@ -209,26 +239,13 @@ export default function MyLoansPage() {
   const [actionType, setActionType] = useState<
     "repay" | "liquidate" | "cancel" | null
   >(null);
-  const [showStuckMessage, setShowStuckMessage] = useState(false);
 
-  // Show stuck loading message after 10 seconds
-  React.useEffect(() => {
-    let timeoutId: NodeJS.Timeout;
-
-    if (isLoadingSubgraph || isLoadingLenderPrices || isLoadingBorrowerPrices) {
-      timeoutId = setTimeout(() => {
-        setShowStuckMessage(true);
-      }, 10000); // 10 seconds
-    } else {
-      setShowStuckMessage(false);
-    }
+  // Pending offers picked for a batch cancel
+  const [selectedOfferIds, setSelectedOfferIds] = useState<Set<bigint>>(
+    new Set()
+  );
+  const batch = useBatchExecutor<LoanWithDetails>();
 
-    return () => {
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
-    };
-  }, [isLoadingSubgraph, isLoadingLenderPrices, isLoadingBorrowerPrices]);
   // Format loan details for display
   const formatLoanDetails = useCallback(
     (loan: LoanWithPriceComparison): LoanWithDetails => {
@@ -336,7 +353,6 @@ export default function MyLoansPage() {
       console.error("Failed to repay loan:", error);
     } finally {
       setSelectedLoanId(null);
-      setActionType(null);
     }
   };
 
@@ -356,7 +372,6 @@ export default function MyLoansPage() {
       console.error("Failed to liquidate loan:", error);
     } finally {
       setSelectedLoanId(null);
-      setActionType(null);
     }
   };
 
@@ -381,10 +396,47 @@ export default function MyLoansPage() {
       console.error("Failed to cancel loan offer:", error);
     } finally {
       setSelectedLoanId(null);
-      setActionType(null);
     }
   };
 
+  const cancellableOffers = React.useMemo(
+    () =>
+      lenderLoanDetails.filter((loan) => loan.status === LoanStatus.Pending),
+    [lenderLoanDetails]
+  );
+  const selectedOffers = cancellableOffers.filter((loan) =>
+    selectedOfferIds.has(loan.id)
+  );
+
+  const toggleOfferSelection = (loanId: bigint, selected: boolean) => {
+    setSelectedOfferIds((prev) => {
+      const next = new Set(prev);
+      if (selected) next.add(loanId);
+      else next.delete(loanId);
+      return next;
+    });
+  };
+
+  const handleBatchCancel = async () => {
+    await batch.run(selectedOffers, async (loan) => {
+      const hash = await cancelLoanOffer(loan.id);
+      toggleOfferSelection(loan.id, false);
+      return hash;
+    });
+    resetTransactionState();
+    refreshAllData();
+  };
+
+  const closeTransaction = () => {
+    resetTransactionState();
+    setActionType(null);
+  };
+
+  const closeBatch = () => {
+    setIsBatchOpen(false);
+    batch.reset();
+  };
+
   const getActionButton = (
     loan: LoanWithDetails,
     userRole: "lender" | "borrower"
@@ -392,6 +444,15 @@ export default function MyLoansPage() {
     const isCurrentLoan = selectedLoanId === loan.id;
     const isLoading = transactionState.isLoading && isCurrentLoan;
 
+    // Nothing can be signed for a watched account
+    if (isWatchOnly) {
+      return (
+        <Badge variant="outline" className="text-xs">
+          {loan.statusText}
+        </Badge>
+      );
+    }
+
     // Borrower can repay active loans
     if (userRole === "borrower" && loan.status === LoanStatus.Active) {
       return (
@@ -442,7 +503,11 @@ export default function MyLoansPage() {
         <Button
           size="sm"
           onClick={() => handleLiquidateLoan(loan)}
-          disabled={isLoading || (selectedLoanId !== null && !isCurrentLoan)}
+          disabled={
+            isLoading ||
+            (selectedLoanId !== null && !isCurrentLoan) ||
+            loan.priceStaleness.blockedActions.includes("liquidate")
+          }
           variant="destructive"
         >
           {isLoading && actionType === "liquidate" && (
@@ -467,10 +532,11 @@ export default function MyLoansPage() {
     userRole: "lender" | "borrower"
   ) => {
     if (loans.length === 0) {
+      const subject = isWatchOnly ? "This address hasn't" : "You haven't";
       const emptyMessage =
         userRole === "lender"
-          ? "You haven&apos;t created any loan offers yet."
-          : "You haven&apos;t accepted any loan offers yet.";
+          ? `${subject} created any loan offers yet.`
+          : `${subject} accepted any loan offers yet.`;
       const actionLink = userRole === "lender" ? "/create" : "/offers";
       const actionText =
         userRole === "lender"
@@ -499,6 +565,25 @@ export default function MyLoansPage() {
       <Table>
         <TableHeader>
           <TableRow>
+            {userRole === "lender" && !isWatchOnly && (
+              <TableHead className="w-8">
+                <Checkbox
+                  aria-label="Select all pending offers"
+                  checked={
+                    cancellableOffers.length > 0 &&
+                    selectedOffers.length === cancellableOffers.length
+                  }
+                  disabled={cancellableOffers.length === 0}
+                  onCheckedChange={(checked) =>
+                    setSelectedOfferIds(
+                      checked === true
+                        ? new Set(cancellableOffers.map((loan) => loan.id))
+                        : new Set()
+                    )
+                  }
+                />
+              </TableHead>
+            )}
             <TableHead>Loan ID</TableHead>
             <TableHead>Amount</TableHead>
             <TableHead>APR</TableHead>
@@ -517,9 +602,25 @@ export default function MyLoansPage() {
               key={loan.id.toString()}
               className="cursor-pointer hover:bg-primary/5 hover:rounded hover:border hover:border-primary/60 transition-all duration-200 group"
               onClick={() =>
-                (window.location.href = `/my-loans/${loan.id.toString()}`)
+                (window.location.href = withWatchAddress(
+                  `/my-loans/${loan.id.toString()}`,
+                  watchAddress
+                ))
               }
             >
+              {userRole === "lender" && !isWatchOnly && (
+                <TableCell onClick={(e) => e.stopPropagation()}>
+                  {loan.status === LoanStatus.Pending && (
+                    <Checkbox
+                      aria-label={`Select loan ${loan.id.toString()}`}
+                      checked={selectedOfferIds.has(loan.id)}
+                      onCheckedChange={(checked) =>
+                        toggleOfferSelection(loan.id, checked === true)
+                      }
+                    />
+                  )}
+                </TableCell>
+              )}
               <TableCell className="font-medium">
                 <div className="flex items-center space-x-2">
                   <div className="text-primary font-semibold group-hover:text-primary/80 transition-colors">
@@ -647,12 +748,27 @@ export default function MyLoansPage() {
                 >
                   {loan.statusText}
                 </Badge>
+                <LoanConfirmationBadge
+                  confirmation={getLoanConfirmation(loan)}
+                  className="ml-1"
+                />
+                <PriceStalenessNotice
+                  staleness={loan.priceStaleness}
+                  status={loan.status}
+                  compact
+                  className="ml-1"
+                />
               </TableCell>
               <TableCell onClick={(e) => e.stopPropagation()}>
                 {getActionButton(loan, userRole)}
               </TableCell>
               <TableCell onClick={(e) => e.stopPropagation()}>
-                <Link href={`/my-loans/${loan.id.toString()}`}>
+                <Link
+                  href={withWatchAddress(
+                    `/my-loans/${loan.id.toString()}`,
+                    watchAddress
+                  )}
+                >
                   <Button
                     // variant="ghost"
                     size="sm"
@@ -669,23 +785,25 @@ export default function MyLoansPage() {
     );
   };
 
-  if (!isConnected) {
+  if (!account) {
     return (
       <div className="container mx-auto px-4 py-8">
         <Card>
           <CardHeader>
             <CardTitle>My Loans</CardTitle>
             <CardDescription>
-              Connect your wallet to view your loan activity
+              Connect your wallet to view your loan activity, or view any
+              address read-only
             </CardDescription>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
             <Alert>
               <AlertCircle className="h-4 w-4" />
               <AlertDescription>
                 Please connect your wallet to Doma testnet to view your loans.
               </AlertDescription>
             </Alert>
+            <WatchAddressForm onWatch={watch} />
           </CardContent>
         </Card>
       </div>
@@ -701,73 +819,44 @@ export default function MyLoansPage() {
             Manage your lending and borrowing activity on DomaLend
           </p>
           <p className="text-sm text-gray-500 font-mono mt-1">
-            {address?.slice(0, 6)}...{address?.slice(-4)}
+            {account.slice(0, 6)}...{account.slice(-4)}
           </p>
         </div>
-        <Button
-          onClick={refreshAllData}
-          variant="outline"
-          disabled={
-            isLoadingSubgraph ||
+        <div className="flex items-start gap-2">
+          <WatchAddressForm onWatch={watch} />
+          <Button
+            onClick={refreshAllData}
+            variant="outline"
+            disabled={
+              isLoadingSubgraph ||
+              isLoadingLenderPrices ||
+              isLoadingBorrowerPrices
+            }
+            className="btn-premium"
+          >
+            {isLoadingSubgraph ||
             isLoadingLenderPrices ||
-            isLoadingBorrowerPrices
-          }
-          className="btn-premium"
-        >
-          {isLoadingSubgraph ||
-          isLoadingLenderPrices ||
-          isLoadingBorrowerPrices ? (
-            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-          ) : (
-            <RefreshCw className="mr-2 h-4 w-4" />
-          )}
-          Refresh Loans
-        </Button>
+            isLoadingBorrowerPrices ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Refresh Loans
+          </Button>
+        </div>
       </div>
-
-      {/* Transaction Progress */}
-      {transactionState.step !== "idle" && selectedLoanId && (
-        <Card className="mb-6">
-          <CardContent className="pt-6">
-            <h3 className="font-medium mb-3">Transaction Progress</h3>
-            <div className="space-y-2">
-              <div className="flex items-center space-x-2">
-                {transactionState.step === "approving" &&
-                transactionState.isLoading ? (
-                  <Loader2 className="h-4 w-4 animate-spin text-blue-500" />
-                ) : transactionState.step === "approving" &&
-                  transactionState.isSuccess ? (
-                  <CheckCircle className="h-4 w-4 text-green-500" />
-                ) : (
-                  <div className="h-4 w-4 rounded-full border-2 border-gray-300" />
-                )}
-                <span className="text-sm">
-                  {actionType === "repay"
-                    ? "Approve Repayment Tokens"
-                    : "Approve Transaction"}
-                </span>
-              </div>
-              <div className="flex items-center space-x-2">
-                {(transactionState.step === "repaying" ||
-                  transactionState.step === "liquidating") &&
-                transactionState.isLoading ? (
-                  <Loader2 className="h-4 w-4 animate-spin text-blue-500" />
-                ) : transactionState.step === "success" ? (
-                  <CheckCircle className="h-4 w-4 text-green-500" />
-                ) : (
-                  <div className="h-4 w-4 rounded-full border-2 border-gray-300" />
-                )}
-                <span className="text-sm">
-                  {actionType === "repay"
-                    ? "Complete Loan Repayment"
-                    : "Complete Liquidation"}
-                </span>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+      {isWatchOnly && (
+        <WatchOnlyBanner
+          address={account}
+          onExit={() => watch(null)}
+          className="mb-6"
+        />
       )}
-
+      <DegradedModeBanner
+        reason={degradedReason}
+        lagBlocks={indexerLagBlocks}
+        className="mb-6"
+      />
       {/* Error Alert */}
       {(transactionState.isError || subgraphError) && (
         <Alert className="mb-6" variant="destructive">
@@ -779,7 +868,16 @@ export default function MyLoansPage() {
           </AlertDescription>
         </Alert>
       )}
-
+      {/* Pending Alert */}{" "}
+      {transactionState.isPending && (
+        <Alert className="mb-6">
+          <Clock className="h-4 w-4 text-amber-500" />
+          <AlertDescription>
+            {TRANSACTION_ERRORS.TRANSACTION_PENDING.suggestion} Hash:{" "}
+            {transactionState.hash?.slice(0, 10)}...
+          </AlertDescription>
+        </Alert>
+      )}
       {/* Success Alert */}
       {transactionState.isSuccess && (
         <Alert className="mb-6" variant="default">
@@ -790,7 +888,6 @@ export default function MyLoansPage() {
           </AlertDescription>
         </Alert>
       )}
-
       {/* Summary Stats */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
         <Card className="luxury-shadow">
@@ -877,46 +974,6 @@ export default function MyLoansPage() {
           </CardContent>
         </Card>
       </div>
-
-      {/* Stuck Loading Message */}
-      {showStuckMessage &&
-        (isLoadingSubgraph ||
-          isLoadingLenderPrices ||
-          isLoadingBorrowerPrices) && (
-          <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
-            <Card className="w-96 mx-4">
-              <CardContent className="pt-6 text-center">
-                <div className="mb-4">
-                  <Loader2 className="h-12 w-12 text-primary mx-auto mb-4 animate-spin" />
-                  <h3 className="text-lg font-semibold mb-2">
-                    Taking longer than usual...
-                  </h3>
-                  <p className="text-muted-foreground text-sm mb-4">
-                    The page seems to be stuck loading. This might be due to
-                    network issues or the subgraph being slow.
-                  </p>
-                </div>
-                <div className="space-y-2">
-                  <Button
-                    onClick={() => window.location.reload()}
-                    className="w-full"
-                  >
-                    <RefreshCw className="mr-2 h-4 w-4" />
-                    Refresh Page
-                  </Button>
-                  <Button
-                    variant="outline"
-                    onClick={() => setShowStuckMessage(false)}
-                    className="w-full"
-                  >
-                    Continue Waiting
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-        )}
-
       <div className="grid w-full my-4 items-start gap-4 ">
         <Alert variant={"default"}>
           <AlertCircle className="h-4 w-4 " color="red" />
@@ -927,18 +984,31 @@ export default function MyLoansPage() {
           </AlertTitle>
         </Alert>
       </div>
-
       {/* Loans I'm Offering */}
       <Card className="mb-8 luxury-shadow-lg glass">
         <CardHeader className="gradient-bg">
-          <CardTitle className="flex items-center space-x-2">
-            <TrendingUp className="h-5 w-5 text-primary" />
-            <span>Loans I&apos;m Offering</span>
-          </CardTitle>
-          <CardDescription>
-            Loans where you are the lender - monitor repayments and liquidate
-            overdue loans
-          </CardDescription>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center space-x-2">
+                <TrendingUp className="h-5 w-5 text-primary" />
+                <span>Loans I&apos;m Offering</span>
+              </CardTitle>
+              <CardDescription>
+                Loans where you are the lender - monitor repayments and
+                liquidate overdue loans
+              </CardDescription>
+            </div>
+            {selectedOffers.length > 0 && !isWatchOnly && (
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => setIsBatchOpen(true)}
+                disabled={transactionState.isLoading}
+              >
+                Cancel {selectedOffers.length} selected
+              </Button>
+            )}
+          </div>
         </CardHeader>
         <CardContent>
           {isLoadingSubgraph || isLoadingLenderPrices ? (
@@ -958,7 +1028,6 @@ export default function MyLoansPage() {
           )}
         </CardContent>
       </Card>
-
       {/* Loans I've Borrowed */}
       <Card className="luxury-shadow-lg glass">
         <CardHeader className="gradient-bg">
@@ -989,6 +1058,46 @@ export default function MyLoansPage() {
           )}
         </CardContent>
       </Card>
+      <TransactionModal
+        isOpen={transactionState.step !== "idle" && !isBatchOpen}
+        onClose={closeTransaction}
+        transactionState={transactionState}
+        feeEstimate={feeEstimate}
+        onRefreshFees={refreshFeeEstimate}
+        onConfirmFees={confirmFees}
+        onReset={closeTransaction}
+        title="Updating Loan"
+        successTitle="Loan Updated!"
+        successDescription="Your transaction has been confirmed. The loan list refreshes with the change."
+        steps={actionType ? LOAN_ACTION_STEPS[actionType] : undefined}
+      />
+      <BatchActionDialog
+        isOpen={isBatchOpen}
+        onClose={closeBatch}
+        title="Cancel Loan Offers"
+        description="Each offer is cancelled in its own transaction, one after another. The lent tokens return to your wallet."
+        loans={selectedOffers}
+        results={batch.results}
+        isRunning={batch.isRunning}
+        onStart={handleBatchCancel}
+        onStop={batch.stop}
+        startLabel={`Cancel ${selectedOffers.length} offers`}
+        canStart={selectedOffers.length > 0}
+        describe={(loan) =>
+          `${parseFloat(loan.formattedAmount).toFixed(4)} ${
+            loan.tokenInfo?.symbol || "Tokens"
+          } at ${loan.formattedInterestRate.toFixed(2)}% APR`
+        }
+      />
     </div>
   );
 }
+
+// useSearchParams() needs a Suspense boundary for the page to prerender
+export default function MyLoansPage() {
+  return (
+    <Suspense>
+      <MyLoansContent />
+    </Suspense>
+  );
+}
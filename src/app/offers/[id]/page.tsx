@@ -36,6 +36,7 @@ import {
 import { useP2PLending } from "@/hooks/useP2PLending";
 import { useAllLoansWithStatus } from "@/hooks/useSubgraphQuery";
 import { useTokenPrices } from "@/hooks/useTokenPrices";
+import { useLivePriceComparison } from "@/hooks/useLivePriceComparison";
 import {
   getTokenByAddress,
   getAllSupportedTokens,
@@ -44,6 +45,8 @@ import {
 import { DualPriceDisplay } from "@/components/DualPriceDisplay";
 import { DomaRankBadge } from "@/components/DomaRankBadge";
 import { TransactionModal } from "@/components/TransactionModal";
+import { PriceStalenessNotice } from "@/components/PriceStalenessNotice";
+import { LoanPriceHistory } from "@/components/LoanPriceHistory";
 import { ethers } from "ethers";
 import { LoanStatus } from "@/lib/contracts";
 
@@ -76,9 +79,12 @@ export default function LoanDetailPage() {
     cancelLoanOffer,
     transactionState,
     resetTransactionState,
+    feeEstimate,
+    refreshFeeEstimate,
+    confirmFees,
     isConnected,
     address,
-  } = useP2PLending();
+  } = useP2PLending({ reviewFees: true });
 
   const { loans, loading: loansLoading } = useAllLoansWithStatus();
   const { prices, isLoading: pricesLoading } = useTokenPrices(
@@ -92,6 +98,14 @@ export default function LoanDetailPage() {
     return loans.find((l) => l.id.toString() === loanId);
   }, [loans, loanId]);
 
+  // Feed ages against this offer's maxPriceStaleness
+  const {
+    loans: [pricedLoan],
+  } = useLivePriceComparison(loan ? [loan] : [], { refreshInterval: 60000 });
+  const priceStaleness = pricedLoan?.priceStaleness;
+  const isAcceptBlocked =
+    priceStaleness?.blockedActions.includes("accept") ?? false;
+
   const tokenInfo = loan ? getTokenByAddress(loan.tokenAddress) : null;
   const collateralInfo = loan
     ? getTokenByAddress(loan.collateralAddress)
@@ -617,6 +631,8 @@ export default function LoanDetailPage() {
               </CardContent>
             </Card>
           </div>
+
+          <LoanPriceHistory loan={loan} className="luxury-shadow glass" />
         </div>
 
         {/* Sidebar */}
@@ -694,12 +710,18 @@ export default function LoanDetailPage() {
                     </Alert>
                   </div>
 
+                  <PriceStalenessNotice
+                    staleness={priceStaleness}
+                    status={loan.status}
+                  />
+
                   <Button
                     onClick={handleAccept}
                     disabled={
                       transactionState.isLoading ||
                       loan.status !== LoanStatus.Pending ||
-                      !isConnected
+                      !isConnected ||
+                      isAcceptBlocked
                     }
                     className="w-full btn-cyan"
                     size="lg"
@@ -827,6 +849,9 @@ export default function LoanDetailPage() {
         isOpen={transactionState.step !== "idle"}
         onClose={resetTransactionState}
         transactionState={transactionState}
+        feeEstimate={feeEstimate}
+        onRefreshFees={refreshFeeEstimate}
+        onConfirmFees={confirmFees}
         onReset={resetTransactionState}
         onViewLoans={() => {
           resetTransactionState();
@@ -13,6 +13,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Table,
   TableBody,
@@ -23,16 +24,30 @@ import {
 } from "@/components/ui/table";
 import { useP2PLending } from "@/hooks/useP2PLending";
 import { Loan, LoanStatus } from "@/lib/contracts";
-import { DOMA_TESTNET_CONFIG } from "@/lib/contracts";
+import { ACTIVE_CHAIN, DREAMLEND_CONTRACT_ADDRESS } from "@/lib/contracts";
 import {
-  useAllLoansWithStatus,
   ProcessedLoan,
   useProtocolStatsCollection,
 } from "@/hooks/useSubgraphQuery";
+import { useLoans } from "@/hooks/useLoans";
+import { useLivePriceComparison } from "@/hooks/useLivePriceComparison";
 import { useTokenPrices } from "@/hooks/useTokenPrices";
 import { TransactionModal } from "@/components/TransactionModal";
+import { BatchActionDialog } from "@/components/BatchActionDialog";
+import { useBatchExecutor } from "@/hooks/useBatchExecutor";
+import { connectERC20 } from "@/lib/contractBindings";
+import { ACTIVE_NETWORK } from "@/config/networks";
+import { sumCollateralByToken } from "@/lib/batchExecutor";
+import { approvalAmountFor } from "@/lib/approvalMode";
+import { decodeTransactionError } from "@/lib/transactionErrors";
+import { fromBaseUnit } from "@/lib/decimals";
+import { toast } from "sonner";
 import { DualPriceDisplay } from "@/components/DualPriceDisplay";
 import { DomaRankBadge } from "@/components/DomaRankBadge";
+import { DegradedModeBanner } from "@/components/DegradedModeBanner";
+import { LoanConfirmationBadge } from "@/components/LoanConfirmationBadge";
+import { PriceStalenessNotice } from "@/components/PriceStalenessNotice";
+import { useLoanConfirmations } from "@/hooks/useLoanConfirmations";
 import {
   CheckCircle,
   AlertCircle,
@@ -84,17 +99,9 @@ const fetchTokenInfo = async (
 ): Promise<TokenInfo | null> => {
   try {
     const provider = new ethers.JsonRpcProvider(
-      DOMA_TESTNET_CONFIG.rpcUrls.default.http[0]
-    );
-    const tokenContract = new ethers.Contract(
-      tokenAddress,
-      [
-        "function name() view returns (string)",
-        "function symbol() view returns (string)",
-        "function decimals() view returns (uint8)",
-      ],
-      provider
+      ACTIVE_CHAIN.rpcUrls.default.http[0]
     );
+    const tokenContract = connectERC20(tokenAddress, provider);
 
     const [name, symbol, decimals] = await Promise.all([
       tokenContract.name(),
@@ -110,14 +117,23 @@ const fetchTokenInfo = async (
 };
 
 export default function OffersPage() {
+  // The batch dialog is its own confirmation, so batched flows skip the
+  // fee review that single ones get in the TransactionModal
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
   const {
     acceptLoanOffer,
     cancelLoanOffer,
+    approveToken,
+    checkAllowance,
+    checkBalance,
     transactionState,
     resetTransactionState,
+    feeEstimate,
+    refreshFeeEstimate,
+    confirmFees,
     isConnected,
     address,
-  } = useP2PLending();
+  } = useP2PLending({ reviewFees: !isBatchOpen });
 
   const [supportedTokens, setSupportedTokens] = useState<any[]>([]);
   const [isLoadingTokens, setIsLoadingTokens] = useState(true);
@@ -143,12 +159,16 @@ export default function OffersPage() {
       });
   }, []);
 
-  // Use subgraph data instead of RPC calls
+  // Pending offers, processed server-side from the indexer
   const {
     loans: allLoans,
     loading: isLoadingSubgraph,
     error: subgraphError,
-  } = useAllLoansWithStatus();
+    isComplete: isSubgraphComplete,
+    degradedReason,
+    indexerLagBlocks,
+  } = useLoans({ status: [LoanStatus.Pending] });
+  const getLoanConfirmation = useLoanConfirmations();
 
   // Filter for pending loans only AND exclude loans with unavailable domain tokens
   const pendingLoans = React.useMemo(() => {
@@ -195,8 +215,16 @@ export default function OffersPage() {
     refreshPrices,
   } = useTokenPrices(supportedTokens);
 
+  // Feed ages against each offer's own maxPriceStaleness
+  const { loans: pricedLoans } = useLivePriceComparison(pendingLoans, {
+    refreshInterval: 60000,
+  });
+  const stalenessById = React.useMemo(
+    () => new Map(pricedLoans.map((loan) => [loan.id, loan.priceStaleness])),
+    [pricedLoans]
+  );
+
   const [selectedLoanId, setSelectedLoanId] = useState<bigint | null>(null);
-  const [showStuckMessage, setShowStuckMessage] = useState(false);
   const { data: protocolStats, loading: isLoadingProtocolStats } =
     useProtocolStatsCollection();
   const [backendStats, setBackendStats] = useState<{
@@ -208,9 +236,7 @@ export default function OffersPage() {
   React.useEffect(() => {
     const fetchBackendStats = async () => {
       try {
-        const backendUrl =
-          process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
-        const response = await fetch(`${backendUrl}/health`);
+        const response = await fetch(`${ACTIVE_NETWORK.api.backend}/health`);
         if (response.ok) {
           const data = await response.json();
           const totalLoansCreated =
@@ -238,25 +264,6 @@ export default function OffersPage() {
     return () => clearInterval(interval);
   }, []);
 
-  // Show stuck loading message after 10 seconds
-  React.useEffect(() => {
-    let timeoutId: NodeJS.Timeout;
-
-    if (isLoadingSubgraph || isLoadingPrices) {
-      timeoutId = setTimeout(() => {
-        setShowStuckMessage(true);
-      }, 10000); // 10 seconds
-    } else {
-      setShowStuckMessage(false);
-    }
-
-    return () => {
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
-    };
-  }, [isLoadingSubgraph, isLoadingPrices]);
-
   // Format loans with token information for display
   const formattedLoans = React.useMemo(() => {
     // Debug: Log available prices
@@ -376,6 +383,107 @@ export default function OffersPage() {
     }
   };
 
+  // Offers picked for a batch accept, and the collateral they need in total
+  const [selectedOfferIds, setSelectedOfferIds] = useState<Set<bigint>>(
+    new Set()
+  );
+  const [collateralCheck, setCollateralCheck] = useState<
+    | {
+        collateralAddress: string;
+        required: bigint;
+        balance: bigint;
+        allowance: bigint;
+      }[]
+    | null
+  >(null);
+  const [approveUpfront, setApproveUpfront] = useState(true);
+  const [isApprovingUpfront, setIsApprovingUpfront] = useState(false);
+  const batch = useBatchExecutor<LoanOfferWithDetails>();
+
+  const selectedOffers = formattedLoans.filter(
+    (loan) =>
+      selectedOfferIds.has(loan.id) &&
+      loan.status === LoanStatus.Pending &&
+      loan.lender.toLowerCase() !== address?.toLowerCase()
+  );
+  const collateralShortfall = collateralCheck?.some(
+    (check) => check.balance < check.required
+  );
+  const allowanceShortfall = collateralCheck?.filter(
+    (check) => check.allowance < check.required
+  );
+
+  const toggleOfferSelection = (loanId: bigint, selected: boolean) => {
+    setSelectedOfferIds((prev) => {
+      const next = new Set(prev);
+      if (selected) next.add(loanId);
+      else next.delete(loanId);
+      return next;
+    });
+  };
+
+  // Check the wallet holds and has approved enough of every collateral
+  // token before accepting the selected offers
+  const openBatchAccept = async () => {
+    if (!address) return;
+    setIsBatchOpen(true);
+    setCollateralCheck(null);
+    const totals = sumCollateralByToken(selectedOffers);
+    setCollateralCheck(
+      await Promise.all(
+        totals.map(async (total) => ({
+          ...total,
+          balance: await checkBalance(total.collateralAddress, address),
+          allowance: await checkAllowance(
+            total.collateralAddress,
+            address,
+            DREAMLEND_CONTRACT_ADDRESS
+          ),
+        }))
+      )
+    );
+  };
+
+  const handleBatchAccept = async () => {
+    // One approval per collateral token, instead of one per offer
+    if (approveUpfront && allowanceShortfall?.length) {
+      setIsApprovingUpfront(true);
+      try {
+        for (const check of allowanceShortfall) {
+          await approveToken(
+            check.collateralAddress,
+            approvalAmountFor(check.required)
+          );
+        }
+      } catch (error) {
+        const txError = decodeTransactionError(error);
+        if (txError.code !== "USER_REJECTED") {
+          toast.error("Collateral approval failed", {
+            description: txError.message,
+          });
+        }
+        return;
+      } finally {
+        setIsApprovingUpfront(false);
+        resetTransactionState();
+      }
+    }
+
+    await batch.run(selectedOffers, async (loan) => {
+      const hash = await acceptLoanOffer(loan.id, loan);
+      toggleOfferSelection(loan.id, false);
+      return hash;
+    });
+    resetTransactionState();
+    refreshPrices();
+  };
+
+  const closeBatch = () => {
+    setIsBatchOpen(false);
+    setCollateralCheck(null);
+    batch.reset();
+  };
+
   const handleRefresh = () => {
     refreshPrices();
   };
@@ -395,6 +503,21 @@ export default function OffersPage() {
             </p>
           </div>
           <div className="flex items-center space-x-3">
+            {!isLoadingSubgraph && !isSubgraphComplete && (
+              <span className="flex items-center text-xs text-muted-foreground">
+                <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                Loading older offers...
+              </span>
+            )}
+            {selectedOffers.length > 0 && (
+              <Button
+                onClick={openBatchAccept}
+                disabled={transactionState.isLoading}
+                className="btn-premium"
+              >
+                Accept {selectedOffers.length} selected
+              </Button>
+            )}
             <Button
               onClick={handleRefresh}
               variant="outline"
@@ -414,6 +537,12 @@ export default function OffersPage() {
 
       {/* Transaction Progress - Now handled by TransactionModal */}
 
+      <DegradedModeBanner
+        reason={degradedReason}
+        lagBlocks={indexerLagBlocks}
+        className="mb-6"
+      />
+
       {(subgraphError || pricesError) && (
         <Alert className="mb-6" variant="destructive">
           <AlertCircle className="h-4 w-4" />
@@ -425,42 +554,6 @@ export default function OffersPage() {
         </Alert>
       )}
 
-      {/* Stuck Loading Message */}
-      {showStuckMessage && (isLoadingSubgraph || isLoadingPrices) && (
-        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
-          <Card className="w-96 mx-4">
-            <CardContent className="pt-6 text-center">
-              <div className="mb-4">
-                <Loader2 className="h-12 w-12 text-primary mx-auto mb-4 animate-spin" />
-                <h3 className="text-lg font-semibold mb-2">
-                  Taking longer than usual...
-                </h3>
-                <p className="text-muted-foreground text-sm mb-4">
-                  The page seems to be stuck loading. This might be due to
-                  network issues or the subgraph being slow.
-                </p>
-              </div>
-              <div className="space-y-2">
-                <Button
-                  onClick={() => window.location.reload()}
-                  className="w-full"
-                >
-                  <RefreshCw className="mr-2 h-4 w-4" />
-                  Refresh Page
-                </Button>
-                <Button
-                  variant="outline"
-                  onClick={() => setShowStuckMessage(false)}
-                  className="w-full"
-                >
-                  Continue Waiting
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
-      )}
-
       {isLoadingSubgraph || isLoadingPrices || isLoadingTokens ? (
         <Card>
           <CardContent className="pt-6">
@@ -829,6 +922,10 @@ export default function OffersPage() {
                           className="pr-6 py-6"
                         >
                           <div className="flex flex-col gap-2">
+                            <LoanConfirmationBadge
+                              confirmation={getLoanConfirmation(loan)}
+                              className="justify-center"
+                            />
                             {loan.lender.toLowerCase() ===
                             address?.toLowerCase() ? (
                               <>
@@ -861,32 +958,58 @@ export default function OffersPage() {
                                 </Button>
                               </>
                             ) : (
-                              <Button
-                                size="lg"
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  handleAcceptOffer(loan);
-                                }}
-                                disabled={
-                                  transactionState.isLoading ||
-                                  loan.status !== LoanStatus.Pending ||
-                                  (selectedLoanId !== null &&
-                                    selectedLoanId !== loan.id)
-                                }
-                                className="w-full bg-gradient-to-r from-cyan-500 via-blue-600 to-purple-600 hover:from-cyan-600 hover:via-blue-700 hover:to-purple-700 text-white font-bold text-base py-6 shadow-xl hover:shadow-2xl transition-all btn-premium"
-                              >
-                                {transactionState.isLoading &&
-                                  selectedLoanId === loan.id && (
-                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              <>
+                                {isConnected &&
+                                  loan.status === LoanStatus.Pending && (
+                                    <label className="flex items-center justify-center gap-2 text-xs text-muted-foreground cursor-pointer">
+                                      <Checkbox
+                                        checked={selectedOfferIds.has(loan.id)}
+                                        onCheckedChange={(checked) =>
+                                          toggleOfferSelection(
+                                            loan.id,
+                                            checked === true
+                                          )
+                                        }
+                                      />
+                                      Add to batch
+                                    </label>
                                   )}
-                                {transactionState.step === "approving" &&
-                                selectedLoanId === loan.id
-                                  ? "Approving..."
-                                  : transactionState.step === "accepting" &&
-                                      selectedLoanId === loan.id
-                                    ? "Accepting..."
-                                    : "Accept Loan"}
-                              </Button>
+                                <PriceStalenessNotice
+                                  staleness={stalenessById.get(loan.id)}
+                                  status={loan.status}
+                                  compact
+                                  className="self-center"
+                                />
+                                <Button
+                                  size="lg"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleAcceptOffer(loan);
+                                  }}
+                                  disabled={
+                                    transactionState.isLoading ||
+                                    loan.status !== LoanStatus.Pending ||
+                                    (selectedLoanId !== null &&
+                                      selectedLoanId !== loan.id) ||
+                                    !!stalenessById
+                                      .get(loan.id)
+                                      ?.blockedActions.includes("accept")
+                                  }
+                                  className="w-full bg-gradient-to-r from-cyan-500 via-blue-600 to-purple-600 hover:from-cyan-600 hover:via-blue-700 hover:to-purple-700 text-white font-bold text-base py-6 shadow-xl hover:shadow-2xl transition-all btn-premium"
+                                >
+                                  {transactionState.isLoading &&
+                                    selectedLoanId === loan.id && (
+                                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    )}
+                                  {transactionState.step === "approving" &&
+                                  selectedLoanId === loan.id
+                                    ? "Approving..."
+                                    : transactionState.step === "accepting" &&
+                                        selectedLoanId === loan.id
+                                      ? "Accepting..."
+                                      : "Accept Loan"}
+                                </Button>
+                              </>
                             )}
                             <Button
                               size="sm"
@@ -914,9 +1037,12 @@ export default function OffersPage() {
 
       {/* Transaction Modal */}
       <TransactionModal
-        isOpen={transactionState.step !== "idle"}
+        isOpen={transactionState.step !== "idle" && !isBatchOpen}
         onClose={resetTransactionState}
         transactionState={transactionState}
+        feeEstimate={feeEstimate}
+        onRefreshFees={refreshFeeEstimate}
+        onConfirmFees={confirmFees}
         onReset={resetTransactionState}
         onViewLoans={() => {
           resetTransactionState();
@@ -942,6 +1068,101 @@ export default function OffersPage() {
           },
         }}
       />
+
+      <BatchActionDialog
+        isOpen={isBatchOpen}
+        onClose={closeBatch}
+        title="Accept Loan Offers"
+        description="Each offer is accepted in its own transaction, one after another, locking its collateral and sending you the loan."
+        loans={selectedOffers}
+        results={batch.results}
+        isRunning={batch.isRunning || isApprovingUpfront}
+        onStart={handleBatchAccept}
+        onStop={batch.stop}
+        startLabel={`Accept ${selectedOffers.length} offers`}
+        canStart={
+          selectedOffers.length > 0 &&
+          collateralCheck !== null &&
+          !collateralShortfall
+        }
+        describe={(loan) =>
+          `${parseFloat(loan.formattedAmount).toFixed(2)} ${
+            loan.tokenInfo?.symbol || "TOKEN"
+          } for ${parseFloat(loan.formattedCollateralAmount).toFixed(2)} ${
+            loan.collateralInfo?.symbol || "TOKEN"
+          }`
+        }
+      >
+        {collateralCheck === null ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Checking collateral balance and allowance...
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {collateralCheck.map((check) => {
+              const token = getTokenByAddress(check.collateralAddress);
+              const decimals = token?.decimals ?? 18;
+              const symbol = token?.symbol ?? "TOKEN";
+              return (
+                <div
+                  key={check.collateralAddress}
+                  className="rounded-md border px-3 py-2 text-sm"
+                >
+                  <div className="flex justify-between font-medium">
+                    <span>{symbol} collateral needed</span>
+                    <span>{fromBaseUnit(check.required, decimals)}</span>
+                  </div>
+                  <div
+                    className={`flex justify-between text-xs ${
+                      check.balance < check.required
+                        ? "text-red-600 dark:text-red-400"
+                        : "text-muted-foreground"
+                    }`}
+                  >
+                    <span>Balance</span>
+                    <span>{fromBaseUnit(check.balance, decimals)}</span>
+                  </div>
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>Approved for DomaLend</span>
+                    <span>{fromBaseUnit(check.allowance, decimals)}</span>
+                  </div>
+                </div>
+              );
+            })}
+            {collateralShortfall && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Your balance does not cover the collateral for every selected
+                  offer. Deselect some offers to continue.
+                </AlertDescription>
+              </Alert>
+            )}
+            {!collateralShortfall && !!allowanceShortfall?.length && (
+              <label className="flex items-start gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={approveUpfront}
+                  onCheckedChange={(checked) =>
+                    setApproveUpfront(checked === true)
+                  }
+                  className="mt-0.5"
+                />
+                <span>
+                  Approve the total up front, one transaction per collateral
+                  token, so each acceptance skips its own approval
+                </span>
+              </label>
+            )}
+            {isApprovingUpfront && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Approving collateral, confirm in your wallet...
+              </div>
+            )}
+          </div>
+        )}
+      </BatchActionDialog>
     </div>
   );
 }
@@ -0,0 +1,198 @@
+"use client";
+
+import { ReactNode } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  ExternalLink,
+  Loader2,
+  MinusCircle,
+} from "lucide-react";
+import {
+  summarizeBatch,
+  BatchItemResult,
+  BatchItemStatus,
+} from "@/lib/batchExecutor";
+import { Loan } from "@/lib/contracts";
+import { ACTIVE_NETWORK, explorerTxUrl } from "@/config/networks";
+
+interface BatchActionDialogProps<T extends Loan> {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  description: string;
+  // Selected loans, listed as queued until the batch starts
+  loans: T[];
+  results: BatchItemResult<T>[];
+  isRunning: boolean;
+  onStart: () => void;
+  onStop: () => void;
+  startLabel: string;
+  canStart?: boolean;
+  // One-line summary of each loan
+  describe: (loan: T) => string;
+  // Shown above the list before the batch starts, e.g. a pre-check
+  children?: ReactNode;
+}
+
+const StatusIcon = ({ status }: { status: BatchItemStatus }) => {
+  switch (status) {
+    case "running":
+      return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+    case "succeeded":
+      return <CheckCircle className="h-4 w-4 text-emerald-600" />;
+    case "pending":
+      return <Clock className="h-4 w-4 text-amber-600" />;
+    case "failed":
+      return <AlertCircle className="h-4 w-4 text-red-600" />;
+    case "skipped":
+      return <MinusCircle className="h-4 w-4 text-muted-foreground" />;
+    default:
+      return (
+        <div className="h-4 w-4 rounded-full border-2 border-muted-foreground/30" />
+      );
+  }
+};
+
+/**
+ * Review, run and report a batch of loan actions. Each loan gets its own
+ * line with the outcome of its transaction.
+ */
+export function BatchActionDialog<T extends Loan>({
+  isOpen,
+  onClose,
+  title,
+  description,
+  loans,
+  results,
+  isRunning,
+  onStart,
+  onStop,
+  startLabel,
+  canStart = true,
+  describe,
+  children,
+}: BatchActionDialogProps<T>) {
+  const hasStarted = results.length > 0;
+  const rows: BatchItemResult<T>[] = hasStarted
+    ? results
+    : loans.map((loan) => ({
+        item: loan,
+        status: "queued",
+        hash: null,
+        error: null,
+      }));
+  const summary = summarizeBatch(results);
+  const finished = rows.filter(
+    (row) => row.status !== "queued" && row.status !== "running"
+  ).length;
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (!open && !isRunning) onClose();
+      }}
+    >
+      <DialogContent className="sm:max-w-lg" showCloseButton={!isRunning}>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {!hasStarted && children}
+
+        {hasStarted && (
+          <div className="space-y-1">
+            <Progress value={(finished / rows.length) * 100} />
+            <p className="text-xs text-muted-foreground">
+              {finished} of {rows.length} done
+              {isRunning && " · confirm each transaction in your wallet"}
+            </p>
+          </div>
+        )}
+
+        <div className="max-h-72 overflow-y-auto divide-y divide-border/50 rounded-md border">
+          {rows.map(({ item, status, hash, error }) => (
+            <div
+              key={item.id.toString()}
+              className="flex items-start gap-3 px-3 py-2"
+            >
+              <div className="pt-0.5">
+                <StatusIcon status={status} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium">
+                  Loan #{item.id.toString()}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {describe(item)}
+                </p>
+                {error && (
+                  <p
+                    className={`text-xs ${
+                      status === "pending"
+                        ? "text-amber-600 dark:text-amber-400"
+                        : "text-red-600 dark:text-red-400"
+                    }`}
+                  >
+                    {error.message}
+                  </p>
+                )}
+              </div>
+              {hash && ACTIVE_NETWORK.explorer && (
+                <a
+                  href={explorerTxUrl(hash) ?? undefined}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-muted-foreground hover:text-primary"
+                >
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {hasStarted && !isRunning && (
+          <p className="text-sm text-muted-foreground">
+            {summary.succeeded} succeeded
+            {summary.pending > 0 && `, ${summary.pending} still pending`}
+            {summary.failed > 0 && `, ${summary.failed} failed`}
+            {summary.skipped > 0 && `, ${summary.skipped} skipped`}.
+          </p>
+        )}
+
+        <DialogFooter>
+          {isRunning ? (
+            <Button variant="outline" onClick={onStop}>
+              Stop after current
+            </Button>
+          ) : hasStarted ? (
+            <Button onClick={onClose}>Close</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button onClick={onStart} disabled={!canStart}>
+                {startLabel}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
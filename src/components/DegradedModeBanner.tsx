@@ -0,0 +1,44 @@
+"use client";
+
+import { ServerCrash } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { DegradedReason } from "@/hooks/useLoanDataSource";
+
+interface DegradedModeBannerProps {
+  reason: DegradedReason | null;
+  lagBlocks?: number | null;
+  className?: string;
+}
+
+/**
+ * Shown while loan data is read straight from the contract because the
+ * indexer cannot be used
+ */
+export function DegradedModeBanner({
+  reason,
+  lagBlocks,
+  className,
+}: DegradedModeBannerProps) {
+  if (!reason) return null;
+
+  const cause =
+    reason === "stale"
+      ? `The indexer is ${lagBlocks ?? "many"} blocks behind the chain.`
+      : reason === "unreachable"
+        ? "The indexer is unreachable."
+        : "The indexer returned an error.";
+
+  return (
+    <Alert
+      className={`border-amber-500/40 bg-amber-500/10 text-amber-600 dark:text-amber-400 ${className ?? ""}`}
+    >
+      <ServerCrash className="h-4 w-4" />
+      <AlertTitle className="font-semibold">Degraded mode</AlertTitle>
+      <AlertDescription className="text-amber-700/90 dark:text-amber-300/90">
+        {cause} Showing open offers and your own loans read directly from the
+        contract. Loan history and creation-time prices are unavailable until
+        the indexer recovers.
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -15,6 +15,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { DomaRankBadge } from "@/components/DomaRankBadge";
 import { DualPriceDisplay } from "@/components/DualPriceDisplay";
+import { OraclePriceChart } from "@/components/OraclePriceChart";
 import { useTokenPrices } from "@/hooks/useTokenPrices";
 import { useAllDomainTokens } from "@/hooks/useFractionalTokens";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -236,6 +237,14 @@ export function DomaCollateralBrowser({
                           </p>
                         )}
 
+                        {/* Oracle price history */}
+                        {hasOracle && (
+                          <OraclePriceChart
+                            tokenAddress={token.address}
+                            compact={true}
+                          />
+                        )}
+
                         {/* Token Description */}
                         {token.description && (
                           <p className="text-xs text-muted-foreground line-clamp-2 leading-relaxed">
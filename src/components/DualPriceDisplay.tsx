@@ -1,4 +1,5 @@
 import { TokenPrice } from "@/hooks/useTokenPrices";
+import { usePrices } from "@/hooks/usePrices";
 import { Badge } from "@/components/ui/badge";
 import {
   Tooltip,
@@ -10,6 +11,8 @@ import { Info, TrendingUp, Sparkles } from "lucide-react";
 
 interface DualPriceDisplayProps {
   price?: TokenPrice;
+  // Read the price from the shared price store when none is passed
+  tokenAddress?: string;
   showLabel?: boolean;
   className?: string;
 }
@@ -21,10 +24,19 @@ interface DualPriceDisplayProps {
  * For Doma fractional tokens: Shows market price AND DomaRank algorithmic price
  */
 export function DualPriceDisplay({
-  price,
+  price: givenPrice,
+  tokenAddress,
   showLabel = true,
   className = "",
 }: DualPriceDisplayProps) {
+  const { prices } = usePrices(
+    "token",
+    !givenPrice && tokenAddress ? [tokenAddress] : []
+  );
+  const price =
+    givenPrice ??
+    (tokenAddress ? prices.get(tokenAddress.toLowerCase()) : undefined);
+
   if (!price) {
     return (
       <span className="text-sm text-muted-foreground">Price unavailable</span>
@@ -57,70 +69,78 @@ export function DualPriceDisplay({
   // Doma fractional token - show both prices
   return (
     <div className={`space-y-2 ${className}`}>
-      {/* Live Market Price */}
-      <div className="flex items-center gap-2">
-        <TooltipProvider>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <div className="flex items-center gap-2 cursor-help">
-                {showLabel && (
-                  <span className="text-xs text-muted-foreground">Market:</span>
-                )}
-                <span className="text-xs  space-y-1 font-semibold text-foreground">
-                  ${price.liveMarketPrice}
-                </span>
-                <Info className="h-3 w-3 text-muted-foreground" />
-              </div>
-            </TooltipTrigger>
-            <TooltipContent side="top" className="max-w-xs">
-              <div className="space-y-1">
-                <p className="font-medium">Live Market Price</p>
-                <p className="text-xs text-muted-foreground">
-                  Current trading price from Doma Subgraph/DEX. This reflects
-                  real-time supply and demand.
-                </p>
-              </div>
-            </TooltipContent>
-          </Tooltip>
-        </TooltipProvider>
-      </div>
+      {price.spotPrice ? (
+        <PoolPrices price={price} />
+      ) : (
+        <>
+          {/* Live Market Price */}
+          <div className="flex items-center gap-2">
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <div className="flex items-center gap-2 cursor-help">
+                    {showLabel && (
+                      <span className="text-xs text-muted-foreground">
+                        Market:
+                      </span>
+                    )}
+                    <span className="text-xs  space-y-1 font-semibold text-foreground">
+                      ${price.liveMarketPrice}
+                    </span>
+                    <Info className="h-3 w-3 text-muted-foreground" />
+                  </div>
+                </TooltipTrigger>
+                <TooltipContent side="top" className="max-w-xs">
+                  <div className="space-y-1">
+                    <p className="font-medium">Live Market Price</p>
+                    <p className="text-xs text-muted-foreground">
+                      Current trading price from Doma Subgraph/DEX. This
+                      reflects real-time supply and demand.
+                    </p>
+                  </div>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          </div>
 
-      {/* DomaRank Algorithmic Price */}
-      <div className="flex items-center gap-2">
-        <TooltipProvider>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <div className="flex items-center gap-2 cursor-help">
-                {showLabel && (
-                  <span className="text-xs text-muted-foreground">
-                    Collateral:
-                  </span>
-                )}
-                <span className="text-base font-bold text-blue-600">
-                  ${price.domaRankPrice}
-                </span>
-                <Badge
-                  variant="outline"
-                  className="text-xs bg-blue-50 text-blue-700 border-blue-200"
-                >
-                  <Sparkles className="h-3 w-3 mr-1" />
-                  DomaRank
-                </Badge>
-              </div>
-            </TooltipTrigger>
-            <TooltipContent side="top" className="max-w-xs">
-              <div className="space-y-1">
-                <p className="font-medium">DomaRank Collateral Value</p>
-                <p className="text-xs text-muted-foreground">
-                  Risk-adjusted algorithmic valuation. Based on domain age,
-                  keywords, TLD, and market demand. Used for lending
-                  calculations to protect lenders.
-                </p>
-              </div>
-            </TooltipContent>
-          </Tooltip>
-        </TooltipProvider>
-      </div>
+          {/* DomaRank Algorithmic Price */}
+          <div className="flex items-center gap-2">
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <div className="flex items-center gap-2 cursor-help">
+                    {showLabel && (
+                      <span className="text-xs text-muted-foreground">
+                        Collateral:
+                      </span>
+                    )}
+                    <span className="text-base font-bold text-blue-600">
+                      ${price.domaRankPrice}
+                    </span>
+                    <Badge
+                      variant="outline"
+                      className="text-xs bg-blue-50 text-blue-700 border-blue-200"
+                    >
+                      <Sparkles className="h-3 w-3 mr-1" />
+                      DomaRank
+                    </Badge>
+                  </div>
+                </TooltipTrigger>
+                <TooltipContent side="top" className="max-w-xs">
+                  <div className="space-y-1">
+                    <p className="font-medium">DomaRank Collateral Value</p>
+                    <p className="text-xs text-muted-foreground">
+                      Risk-adjusted algorithmic valuation. Based on domain age,
+                      keywords, TLD, and market demand. Used for lending
+                      calculations to protect lenders.
+                    </p>
+                  </div>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          </div>
+        </>
+      )}
 
       {/* Price Difference Indicator */}
       {price.liveMarketPrice && price.domaRankPrice && (
@@ -160,6 +180,86 @@ export function DualPriceDisplay({
   );
 }
 
+const formatWindow = (seconds: number) =>
+  seconds % 3600 === 0 ? `${seconds / 3600}h` : `${Math.round(seconds / 60)}m`;
+
+/**
+ * One labelled price with an explanation on hover
+ */
+function PriceColumn({
+  label,
+  value,
+  title,
+  description,
+  valueClassName = "text-foreground",
+}: {
+  label: string;
+  value?: string;
+  title: string;
+  description: string;
+  valueClassName?: string;
+}) {
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className="space-y-0.5 cursor-help">
+            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+              {label}
+              <Info className="h-3 w-3" />
+            </div>
+            <div className={`text-sm font-semibold ${valueClassName}`}>
+              {value ? `$${value}` : "—"}
+            </div>
+          </div>
+        </TooltipTrigger>
+        <TooltipContent side="top" className="max-w-xs">
+          <div className="space-y-1">
+            <p className="font-medium">{title}</p>
+            <p className="text-xs text-muted-foreground">{description}</p>
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
+
+/**
+ * Spot, TWAP and DomaRank prices side by side, for tokens whose Uniswap
+ * pool could be read
+ */
+function PoolPrices({ price }: { price: TokenPrice }) {
+  const windowLabel = price.twapWindow ? formatWindow(price.twapWindow) : "";
+
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      <PriceColumn
+        label="Spot"
+        value={price.spotPrice}
+        title="Pool Spot Price"
+        description="Current price in the token's Uniswap V3 pool, read on-chain. Moves with every trade."
+      />
+      <PriceColumn
+        label={`TWAP ${windowLabel}`}
+        value={price.twapPrice}
+        title="Time-Weighted Average Price"
+        description={
+          price.twapPrice
+            ? `Average pool price over the last ${windowLabel}. Harder to move with a single trade than the spot price.`
+            : "The pool does not record enough history to average over this window yet."
+        }
+      />
+      <PriceColumn
+        label="DomaRank"
+        value={price.domaRankPrice}
+        title="DomaRank Collateral Value"
+        description="Risk-adjusted algorithmic valuation used for lending calculations to protect lenders."
+        valueClassName="text-blue-600"
+      />
+    </div>
+  );
+}
+
 /**
  * CompactPriceDisplay - Compact version for table cells
  */
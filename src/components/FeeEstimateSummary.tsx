@@ -0,0 +1,81 @@
+"use client";
+
+import { ethers } from "ethers";
+import { AlertTriangle, Fuel, Loader2 } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ACTIVE_CHAIN } from "@/lib/contracts";
+import { PENDING_ACTION_LABELS } from "@/lib/pendingTransactions";
+import type { FeeEstimate } from "@/lib/feeEstimate";
+
+const NATIVE_SYMBOL = ACTIVE_CHAIN.nativeCurrency.symbol;
+
+const formatNative = (wei: bigint) =>
+  `${parseFloat(ethers.formatEther(wei)).toFixed(6)} ${NATIVE_SYMBOL}`;
+
+/**
+ * Gas and native-token cost of the transactions in the current flow, with
+ * a warning when the wallet cannot pay for all of them.
+ */
+export function FeeEstimateSummary({
+  estimate,
+}: {
+  estimate: FeeEstimate | null;
+}) {
+  if (!estimate) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Estimating network fees...
+      </div>
+    );
+  }
+
+  const hasFallback = estimate.steps.some((step) => step.isFallback);
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-lg border border-border/50 bg-muted/30 p-3 text-xs space-y-1">
+        <div className="flex items-center gap-2 font-medium text-foreground mb-1">
+          <Fuel className="h-3 w-3" />
+          Estimated network fee
+        </div>
+        {estimate.steps.map(({ step, gasLimit, isFallback }) => (
+          <div
+            key={step}
+            className="flex justify-between text-muted-foreground"
+          >
+            <span>{PENDING_ACTION_LABELS[step]}</span>
+            <span className="font-mono">
+              {isFallback && "≤ "}
+              {gasLimit.toLocaleString()} gas
+            </span>
+          </div>
+        ))}
+        <div className="flex justify-between text-muted-foreground">
+          <span>Fee per gas</span>
+          <span className="font-mono">
+            {parseFloat(ethers.formatUnits(estimate.feePerGas, "gwei")).toFixed(
+              3
+            )}{" "}
+            gwei
+          </span>
+        </div>
+        <div className="flex justify-between font-medium text-foreground pt-1 border-t border-border/50">
+          <span>Total{hasFallback && " (at most)"}</span>
+          <span className="font-mono">{formatNative(estimate.totalCost)}</span>
+        </div>
+      </div>
+
+      {estimate.isInsufficient && (
+        <Alert className="border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-950/20">
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+          <AlertDescription className="text-amber-800 dark:text-amber-200 text-xs">
+            Your balance of {formatNative(estimate.balance)} may not cover the
+            estimated {formatNative(estimate.totalCost)} in fees for these
+            transactions.
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
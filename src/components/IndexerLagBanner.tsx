@@ -0,0 +1,30 @@
+"use client";
+
+import { Clock } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useIndexerFreshness } from "@/hooks/useIndexerFreshness";
+
+/**
+ * Site-wide warning while the indexer trails the chain head by more than
+ * INDEXER_LAG_WARNING_BLOCKS
+ */
+export function IndexerLagBanner({ className }: { className?: string }) {
+  const { freshness, isStale } = useIndexerFreshness();
+
+  if (!freshness?.reachable || !isStale) return null;
+
+  return (
+    <Alert
+      className={`border-amber-500/40 bg-amber-500/10 text-amber-600 dark:text-amber-400 ${className ?? ""}`}
+    >
+      <Clock className="h-4 w-4" />
+      <AlertTitle className="font-semibold">Loan data may be stale</AlertTitle>
+      <AlertDescription className="text-amber-700/90 dark:text-amber-300/90">
+        The indexer is {freshness.lagBlocks} blocks behind the chain, so recent
+        accepts, repayments and cancellations may not be shown yet. An offer
+        that looks open may already be taken; accepting it would fail and still
+        cost gas.
+      </AlertDescription>
+    </Alert>
+  );
+}
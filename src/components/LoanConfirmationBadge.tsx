@@ -0,0 +1,61 @@
+"use client";
+
+import { AlertTriangle, Hourglass } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import type { LoanConfirmation } from "@/hooks/useLoanConfirmations";
+
+interface LoanConfirmationBadgeProps {
+  confirmation: LoanConfirmation | null;
+  className?: string;
+}
+
+/**
+ * Flags a loan whose latest state is not yet final, or was just changed by a
+ * chain reorg. Renders nothing once the state is confirmed.
+ */
+export function LoanConfirmationBadge({
+  confirmation,
+  className,
+}: LoanConfirmationBadgeProps) {
+  if (!confirmation) return null;
+
+  const { reorged, confirmations, required } = confirmation;
+  const Icon = reorged ? AlertTriangle : Hourglass;
+
+  return (
+    <TooltipProvider>
+      <Tooltip delayDuration={200}>
+        <TooltipTrigger asChild>
+          <Badge
+            variant="outline"
+            className={`cursor-help gap-1 ${
+              reorged
+                ? "border-red-500/40 bg-red-500/10 text-red-600 dark:text-red-400"
+                : "border-amber-500/40 bg-amber-500/10 text-amber-600 dark:text-amber-400"
+            } ${className ?? ""}`}
+          >
+            <Icon className="h-3 w-3" />
+            {reorged ? "Reorged" : "Confirming"} {confirmations}/{required}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent
+          side="top"
+          className="max-w-xs p-3 bg-card border border-border shadow-lg"
+        >
+          <p className="text-xs text-muted-foreground leading-relaxed">
+            {reorged
+              ? "A chain reorg removed an event for this loan, so its state may still change. "
+              : "This loan changed in a recent block that could still be reorged. "}
+            It is final after {required} confirmations.
+          </p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
@@ -8,6 +8,10 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
 import { useP2PLending } from "@/hooks/useP2PLending";
+import {
+  TransactionModal,
+  LOAN_ACTION_STEPS,
+} from "@/components/TransactionModal";
 import { Loan } from "@/lib/contracts";
 import { invalidateSubgraphCache } from "@/hooks/useSubgraphQuery";
 import {
@@ -48,9 +52,13 @@ export function LoanHealthManager({
     getLoanHealthFactor,
     getLoanRepaymentInfo,
     transactionState,
+    resetTransactionState,
+    feeEstimate,
+    refreshFeeEstimate,
+    confirmFees,
     isConnected,
     address,
-  } = useP2PLending();
+  } = useP2PLending({ reviewFees: true });
 
   const [healthData, setHealthData] = useState<{
     currentRatio: bigint;
@@ -67,6 +75,9 @@ export function LoanHealthManager({
   const [addAmount, setAddAmount] = useState("");
   const [removeAmount, setRemoveAmount] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [collateralAction, setCollateralAction] = useState<
+    "addCollateral" | "removeCollateral"
+  >("addCollateral");
 
   // Fetch health data
   const fetchHealthData = async () => {
@@ -97,6 +108,7 @@ export function LoanHealthManager({
     try {
       const decimals = collateralInfo?.decimals || 6;
       const amount = ethers.parseUnits(addAmount, decimals);
+      setCollateralAction("addCollateral");
       await addCollateral(loan.id, amount);
       setAddAmount("");
       // Invalidate cache to force fresh data
@@ -114,6 +126,7 @@ export function LoanHealthManager({
     try {
       const decimals = collateralInfo?.decimals || 6;
       const amount = ethers.parseUnits(removeAmount, decimals);
+      setCollateralAction("removeCollateral");
       await removeCollateral(loan.id, amount);
       setRemoveAmount("");
       // Invalidate cache to force fresh data
@@ -354,20 +367,6 @@ export function LoanHealthManager({
           </div>
         </div>
 
-        {/* Transaction Status */}
-        {transactionState.isLoading && (
-          <div className="flex items-center space-x-2 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
-            <RefreshCw className="h-4 w-4 animate-spin text-blue-600" />
-            <span className="text-sm text-blue-700 dark:text-blue-300">
-              {transactionState.step === "adding_collateral" &&
-                "Adding collateral..."}
-              {transactionState.step === "removing_collateral" &&
-                "Removing collateral..."}
-              {transactionState.step === "approving" && "Approving tokens..."}
-            </span>
-          </div>
-        )}
-
         {transactionState.isSuccess && (
           <div className="flex items-center space-x-2 p-3 bg-green-50 dark:bg-green-900/20 rounded-lg">
             <CheckCircle2 className="h-4 w-4 text-green-600" />
@@ -386,6 +385,20 @@ export function LoanHealthManager({
           </div>
         )}
       </CardContent>
+
+      <TransactionModal
+        isOpen={transactionState.step !== "idle"}
+        onClose={resetTransactionState}
+        transactionState={transactionState}
+        feeEstimate={feeEstimate}
+        onRefreshFees={refreshFeeEstimate}
+        onConfirmFees={confirmFees}
+        onReset={resetTransactionState}
+        title="Updating Collateral"
+        successTitle="Collateral Updated!"
+        successDescription="The collateral change has been confirmed and the loan's health refreshed."
+        steps={LOAN_ACTION_STEPS[collateralAction]}
+      />
     </Card>
   );
 }
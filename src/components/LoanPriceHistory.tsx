@@ -0,0 +1,63 @@
+"use client";
+
+import { LineChart as LineChartIcon } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getTokenByAddress } from "@/config/tokens";
+import { OraclePriceChart } from "@/components/OraclePriceChart";
+
+interface LoanPriceHistoryProps {
+  loan: {
+    tokenAddress: string;
+    collateralAddress: string;
+    createdAt: bigint;
+    startTime: bigint;
+  };
+  className?: string;
+}
+
+/**
+ * Oracle price history of whichever of a loan's tokens the DomaRank oracle
+ * prices, from before the loan was created, with its creation and acceptance
+ * marked. Renders nothing when neither token has an oracle price.
+ */
+export function LoanPriceHistory({ loan, className }: LoanPriceHistoryProps) {
+  const tokens = [
+    { address: loan.collateralAddress, role: "Collateral" },
+    { address: loan.tokenAddress, role: "Loan token" },
+  ].flatMap(({ address, role }) => {
+    const token = getTokenByAddress(address);
+    return token?.hasDomaRankOracle ? [{ address, role, token }] : [];
+  });
+
+  if (tokens.length === 0) return null;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <LineChartIcon className="h-4 w-4 text-primary" />
+          Oracle Price History
+        </CardTitle>
+        <CardDescription>
+          DomaRank oracle updates, with when this loan was created and accepted
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {tokens.map(({ address, role, token }) => (
+          <div key={address} className="space-y-2">
+            <div className="text-xs font-medium text-muted-foreground">
+              {role} ({token.symbol})
+            </div>
+            <OraclePriceChart tokenAddress={address} loan={loan} />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ConnectButton } from "@/components/ConnectButton";
 import { FaucetDropdown } from "@/components/FaucetDropdown";
+import { PendingTransactionsIndicator } from "@/components/PendingTransactionsIndicator";
 import { useP2PLending } from "@/hooks/useP2PLending";
 import {
   Home,
@@ -21,6 +22,7 @@ import {
   X,
   Gift,
   Sparkles,
+  ShieldCheck,
 } from "lucide-react";
 import { useState } from "react";
 
@@ -58,6 +60,11 @@ export function Navigation() {
       label: "My Loans",
       icon: User,
     },
+    {
+      href: "/allowances",
+      label: "Allowances",
+      icon: ShieldCheck,
+    },
     // {
     //   href: "/analytics",
     //   label: "Analytics",
@@ -144,6 +151,9 @@ export function Navigation() {
 
           {/* Right Side Controls */}
           <div className="flex items-center space-x-3">
+            {/* Pending Transactions */}
+            <PendingTransactionsIndicator />
+
             {/* Theme Toggle */}
             <Button
               variant="ghost"
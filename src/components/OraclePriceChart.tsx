@@ -0,0 +1,178 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useOraclePriceHistory } from "@/hooks/useOraclePriceHistory";
+import { loanPriceMarkers } from "@/lib/oraclePriceHistory";
+import { cn } from "@/lib/utils";
+
+const chartConfig = {
+  price: { label: "DomaRank price", color: "var(--chart-1)" },
+} satisfies ChartConfig;
+
+const formatPrice = (price: number) =>
+  price >= 1 ? price.toFixed(2) : price.toPrecision(3);
+
+const formatDate = (ms: number) =>
+  new Date(ms).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+
+const formatDateTime = (ms: number) =>
+  new Date(ms).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+interface OraclePriceChartProps {
+  tokenAddress: string;
+  // Marks when the loan was created and accepted, and reads back far enough
+  // to cover its whole life
+  loan?: { createdAt: bigint; startTime: bigint };
+  // A small sparkline without axes, for lists
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * OraclePriceChart - The DomaRank oracle's price for a token over time, from
+ * its TokenValueUpdated events. The oracle price holds until the next update,
+ * so the line steps and runs on to now.
+ */
+export function OraclePriceChart({
+  tokenAddress,
+  loan,
+  compact = false,
+  className,
+}: OraclePriceChartProps) {
+  const { points, isLoading, error } = useOraclePriceHistory(
+    tokenAddress,
+    loan ? Number(loan.createdAt) : undefined
+  );
+
+  const data = useMemo(() => {
+    if (points.length === 0) return [];
+    const series = points.map((point) => ({
+      time: point.timestamp * 1000,
+      price: point.price,
+    }));
+    return [
+      ...series,
+      { time: Date.now(), price: points[points.length - 1].price },
+    ];
+  }, [points]);
+
+  const markers = useMemo(
+    () => (loan ? loanPriceMarkers(loan, points) : []),
+    [loan?.createdAt, loan?.startTime, points]
+  );
+
+  const height = compact ? "h-16" : "h-48";
+
+  if (isLoading && points.length === 0) {
+    return <Skeleton className={cn("w-full", height, className)} />;
+  }
+
+  if (error || data.length === 0) {
+    return (
+      <p className={cn("text-xs text-muted-foreground", className)}>
+        {error
+          ? "Price history unavailable"
+          : loan
+            ? "No oracle price updates since this loan was created"
+            : "No oracle price updates in recent blocks"}
+      </p>
+    );
+  }
+
+  return (
+    <ChartContainer
+      config={chartConfig}
+      className={cn("aspect-auto w-full", height, className)}
+    >
+      <LineChart
+        data={data}
+        margin={compact ? { top: 4, bottom: 4, left: 4, right: 4 } : undefined}
+      >
+        {!compact && <CartesianGrid vertical={false} />}
+        <XAxis
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={["dataMin", "dataMax"]}
+          tickFormatter={formatDate}
+          tickLine={false}
+          axisLine={false}
+          minTickGap={32}
+          hide={compact}
+        />
+        <YAxis
+          dataKey="price"
+          domain={["auto", "auto"]}
+          tickFormatter={(value: number) => `$${formatPrice(value)}`}
+          tickLine={false}
+          axisLine={false}
+          width={64}
+          hide={compact}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) =>
+                formatDateTime(payload[0]?.payload.time)
+              }
+              formatter={(value) => `$${formatPrice(Number(value))}`}
+            />
+          }
+        />
+        <Line
+          dataKey="price"
+          type="stepAfter"
+          stroke="var(--color-price)"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+        {markers.map((marker) => (
+          <ReferenceLine
+            key={marker.label}
+            x={marker.timestamp * 1000}
+            stroke="var(--muted-foreground)"
+            strokeDasharray="4 4"
+            ifOverflow="extendDomain"
+            label={
+              compact
+                ? undefined
+                : {
+                    value:
+                      marker.price === null
+                        ? marker.label
+                        : `${marker.label} $${formatPrice(marker.price)}`,
+                    position: "insideTopLeft",
+                    fontSize: 10,
+                    fill: "var(--muted-foreground)",
+                  }
+            }
+          />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  );
+}
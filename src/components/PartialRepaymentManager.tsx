@@ -8,6 +8,10 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
 import { useP2PLending } from "@/hooks/useP2PLending";
+import {
+  TransactionModal,
+  LOAN_ACTION_STEPS,
+} from "@/components/TransactionModal";
 import { Loan } from "@/lib/contracts";
 import { invalidateSubgraphCache } from "@/hooks/useSubgraphQuery";
 import {
@@ -31,20 +35,28 @@ interface PartialRepaymentManagerProps {
   loan: Loan;
   tokenInfo?: TokenInfo;
   onUpdate?: () => void;
+  // Watch-only: show the repayment figures with the write controls disabled.
+  // The caller has already checked that the watched account is the borrower.
+  readOnly?: boolean;
 }
 
 export function PartialRepaymentManager({
   loan,
   tokenInfo,
   onUpdate,
+  readOnly = false,
 }: PartialRepaymentManagerProps) {
   const {
     makePartialRepayment,
     getLoanRepaymentInfo,
     transactionState,
+    resetTransactionState,
+    feeEstimate,
+    refreshFeeEstimate,
+    confirmFees,
     isConnected,
     address,
-  } = useP2PLending();
+  } = useP2PLending({ reviewFees: true });
 
   const [repaymentInfo, setRepaymentInfo] = useState<{
     totalOwed: bigint;
@@ -76,7 +88,7 @@ export function PartialRepaymentManager({
   }, [loan.id, loan.status]);
 
   const handlePartialRepayment = async () => {
-    if (!repaymentAmount || !isConnected || !repaymentInfo) return;
+    if (readOnly || !repaymentAmount || !isConnected || !repaymentInfo) return;
 
     try {
       const decimals = tokenInfo?.decimals || 6;
@@ -102,8 +114,8 @@ export function PartialRepaymentManager({
   // Only show for active loans and if user is the borrower
   if (
     loan.status !== 1 ||
-    !address ||
-    loan.borrower.toLowerCase() !== address.toLowerCase()
+    (!readOnly &&
+      (!address || loan.borrower.toLowerCase() !== address.toLowerCase()))
   ) {
     return null;
   }
@@ -229,11 +241,13 @@ export function PartialRepaymentManager({
                 placeholder="0.0"
                 value={repaymentAmount}
                 onChange={(e) => setRepaymentAmount(e.target.value)}
+                disabled={readOnly}
                 className="flex-1"
               />
               <Button
                 onClick={handlePartialRepayment}
                 disabled={
+                  readOnly ||
                   !repaymentAmount ||
                   transactionState.isLoading ||
                   !repaymentInfo
@@ -256,6 +270,7 @@ export function PartialRepaymentManager({
                     onClick={() =>
                       setRepaymentAmount(getQuickAmount(percentage))
                     }
+                    disabled={readOnly}
                     className="text-xs border-primary/20 text-primary hover:bg-primary/5 hover:border-primary/30 transition-all duration-200"
                   >
                     {percentage}%
@@ -265,7 +280,9 @@ export function PartialRepaymentManager({
             )}
 
             <div className="text-xs text-muted-foreground">
-              Partial repayments reduce your total debt and interest burden
+              {readOnly
+                ? "Watch-only: connect the borrower's wallet to repay"
+                : "Partial repayments reduce your total debt and interest burden"}
             </div>
           </div>
         </div>
@@ -288,18 +305,6 @@ export function PartialRepaymentManager({
           </div>
         </div>
 
-        {/* Transaction Status */}
-        {transactionState.isLoading && (
-          <div className="flex items-center space-x-2 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
-            <RefreshCw className="h-4 w-4 animate-spin text-blue-600" />
-            <span className="text-sm text-blue-700 dark:text-blue-300">
-              {transactionState.step === "partial_repaying" &&
-                "Processing partial repayment..."}
-              {transactionState.step === "approving" && "Approving tokens..."}
-            </span>
-          </div>
-        )}
-
         {transactionState.isSuccess && (
           <div className="flex items-center space-x-2 p-3 bg-green-50 dark:bg-green-900/20 rounded-lg">
             <CheckCircle2 className="h-4 w-4 text-green-600" />
@@ -318,6 +323,20 @@ export function PartialRepaymentManager({
           </div>
         )}
       </CardContent>
+
+      <TransactionModal
+        isOpen={transactionState.step !== "idle"}
+        onClose={resetTransactionState}
+        transactionState={transactionState}
+        feeEstimate={feeEstimate}
+        onRefreshFees={refreshFeeEstimate}
+        onConfirmFees={confirmFees}
+        onReset={resetTransactionState}
+        title="Partial Repayment"
+        successTitle="Repayment Made!"
+        successDescription="Your partial repayment has been confirmed and the outstanding balance reduced."
+        steps={LOAN_ACTION_STEPS.partialRepay}
+      />
     </Card>
   );
 }
@@ -0,0 +1,73 @@
+"use client";
+
+import { ExternalLink, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { usePendingTransactions } from "@/hooks/usePendingTransactions";
+import { PENDING_ACTION_LABELS } from "@/lib/pendingTransactions";
+import { explorerTxUrl } from "@/config/networks";
+
+const formatAge = (submittedAt: number) => {
+  const minutes = Math.floor((Date.now() - submittedAt) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.floor(minutes / 60)}h ago`;
+};
+
+/**
+ * Spinner with the number of submitted transactions that have not settled
+ * yet, listing each with a link to the explorer. Hidden when there are none.
+ */
+export function PendingTransactionsIndicator() {
+  const pending = usePendingTransactions();
+  if (pending.length === 0) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-9 px-3 rounded-xl gap-2 text-amber-600 dark:text-amber-400 hover:bg-accent"
+        >
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span className="text-sm font-medium">{pending.length}</span>
+          <span className="sr-only">pending transactions</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel>Pending transactions</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {pending.map((tx) => (
+          <DropdownMenuItem key={tx.hash} asChild>
+            <a
+              href={explorerTxUrl(tx.hash) ?? undefined}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center justify-between gap-3 cursor-pointer"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {PENDING_ACTION_LABELS[tx.action]}
+                  {tx.loanId && ` #${tx.loanId}`}
+                </p>
+                <p className="text-xs text-muted-foreground font-mono">
+                  {tx.hash.slice(0, 10)}...{tx.hash.slice(-6)} ·{" "}
+                  {formatAge(tx.submittedAt)}
+                </p>
+              </div>
+              <ExternalLink className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { Clock, TimerOff } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { getTokenByAddress } from "@/config/tokens";
+import {
+  LoanPriceStaleness,
+  STALENESS_GATED_ACTION_LABELS,
+  StalenessGatedAction,
+  stalenessGatedActions,
+} from "@/lib/priceStaleness";
+
+const formatSpan = (seconds: number) => {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+const listActions = (actions: StalenessGatedAction[]) =>
+  actions.map((action) => STALENESS_GATED_ACTION_LABELS[action]).join(" and ");
+
+interface PriceStalenessNoticeProps {
+  staleness?: LoanPriceStaleness;
+  status: number;
+  // A badge for table rows instead of the full explanation
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * Which actions the contract refuses on a loan because its prices are older
+ * than its maxPriceStaleness, and until when the prices stay fresh otherwise
+ */
+export function PriceStalenessNotice({
+  staleness,
+  status,
+  compact = false,
+  className,
+}: PriceStalenessNoticeProps) {
+  if (!staleness?.isEnforced || staleness.staleAt === null) return null;
+  if (stalenessGatedActions(status).length === 0) return null;
+
+  const now = Math.floor(Date.now() / 1000);
+
+  if (!staleness.isStale) {
+    if (compact) return null;
+    return (
+      <p className={`text-xs text-muted-foreground ${className ?? ""}`}>
+        <Clock className="inline h-3 w-3 mr-1 -mt-0.5" />
+        Prices stay within this loan&apos;s limit for another{" "}
+        {formatSpan(staleness.staleAt - now)} unless the feeds update; after
+        that, {listActions(stalenessGatedActions(status))} will be refused.
+      </p>
+    );
+  }
+
+  const symbols = staleness.staleTokens
+    .map((token) => getTokenByAddress(token)?.symbol ?? token.slice(0, 8))
+    .join(" and ");
+  const actions = listActions(staleness.blockedActions);
+
+  if (compact) {
+    return (
+      <Badge
+        variant="outline"
+        className={`text-xs border-amber-500/40 text-amber-600 ${className ?? ""}`}
+        title={`Stale ${symbols} price: ${actions} is unavailable until the feed updates`}
+      >
+        <TimerOff className="h-3 w-3 mr-1" />
+        Stale price
+      </Badge>
+    );
+  }
+
+  return (
+    <Alert
+      className={`border-amber-500/40 bg-amber-500/10 text-amber-600 dark:text-amber-400 ${className ?? ""}`}
+    >
+      <TimerOff className="h-4 w-4" />
+      <AlertTitle className="font-semibold">Prices too old</AlertTitle>
+      <AlertDescription className="text-amber-700/90 dark:text-amber-300/90">
+        The {symbols} price feed went past this loan&apos;s{" "}
+        {formatSpan(staleness.staleAt - (staleness.updatedAt ?? 0))} limit{" "}
+        {formatSpan(now - staleness.staleAt)} ago. The contract refuses{" "}
+        {actions} until the feed publishes a new price.
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -9,31 +9,25 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { CheckCircle, AlertCircle, Loader2, ArrowRight } from "lucide-react";
+import {
+  CheckCircle,
+  AlertCircle,
+  Loader2,
+  ArrowRight,
+  Clock,
+  Fuel,
+} from "lucide-react";
 import { toast } from "sonner";
-
-interface TransactionState {
-  step:
-    | "idle"
-    | "approving"
-    | "approved"
-    | "creating"
-    | "accepting"
-    | "repaying"
-    | "liquidating"
-    | "cancelling"
-    | "adding_collateral"
-    | "removing_collateral"
-    | "partial_repaying"
-    | "success"
-    | "error";
-  isLoading: boolean;
-  isSuccess: boolean;
-  isError: boolean;
-  error: string | null;
-  hash: string | null;
-}
+import { TRANSACTION_ERRORS } from "@/lib/transactionErrors";
+import { FEE_REFRESH_INTERVAL, FeeEstimate } from "@/lib/feeEstimate";
+import { FeeEstimateSummary } from "@/components/FeeEstimateSummary";
+import type {
+  ApprovalMethod,
+  TransactionHistoryEntry,
+  TransactionState,
+} from "@/lib/transactionMachine";
 
 interface TransactionModalProps {
   isOpen: boolean;
@@ -45,8 +39,15 @@ interface TransactionModalProps {
   title?: string;
   successTitle?: string;
   successDescription?: string;
+  // Network fee of the flow's remaining transactions, re-estimated through
+  // onRefreshFees while they are waiting to be sent
+  feeEstimate?: FeeEstimate | null;
+  onRefreshFees?: () => void;
+  // Goes ahead with a flow waiting on its fee review (isReviewing)
+  onConfirmFees?: () => void;
+  // Flows that send a single transaction leave out the approval step
   steps?: {
-    approval: {
+    approval?: {
       title: string;
       description: string;
       loadingText: string;
@@ -80,6 +81,90 @@ const defaultSteps = {
   },
 };
 
+// Steps of the actions on an existing loan, keyed by action
+export const LOAN_ACTION_STEPS = {
+  repay: {
+    approval: {
+      title: "Approve Repayment Tokens",
+      description: "Allow the contract to collect your repayment",
+      loadingText: "Waiting for wallet confirmation...",
+      successText: "Repayment tokens approved successfully",
+      errorText: "Failed to approve repayment tokens",
+    },
+    transaction: {
+      title: "Repay Loan",
+      description: "Repay the loan and release your collateral",
+      loadingText: "Processing repayment...",
+      successText: "Loan repaid successfully!",
+      errorText: "Failed to repay loan",
+    },
+  },
+  partialRepay: {
+    approval: {
+      title: "Approve Repayment Tokens",
+      description: "Allow the contract to collect your repayment",
+      loadingText: "Waiting for wallet confirmation...",
+      successText: "Repayment tokens approved successfully",
+      errorText: "Failed to approve repayment tokens",
+    },
+    transaction: {
+      title: "Make Partial Repayment",
+      description: "Pay down part of the loan",
+      loadingText: "Processing partial repayment...",
+      successText: "Partial repayment made successfully!",
+      errorText: "Failed to make partial repayment",
+    },
+  },
+  liquidate: {
+    transaction: {
+      title: "Liquidate Loan",
+      description: "Claim the collateral of the defaulted loan",
+      loadingText: "Processing liquidation...",
+      successText: "Loan liquidated successfully!",
+      errorText: "Failed to liquidate loan",
+    },
+  },
+  cancel: {
+    transaction: {
+      title: "Cancel Loan Offer",
+      description: "Withdraw the offer and return the lent tokens",
+      loadingText: "Cancelling loan offer...",
+      successText: "Loan offer cancelled successfully!",
+      errorText: "Failed to cancel loan offer",
+    },
+  },
+  addCollateral: {
+    transaction: {
+      title: "Add Collateral",
+      description: "Lock more collateral against the loan",
+      loadingText: "Adding collateral...",
+      successText: "Collateral added successfully!",
+      errorText: "Failed to add collateral",
+    },
+  },
+  removeCollateral: {
+    transaction: {
+      title: "Remove Collateral",
+      description: "Withdraw collateral above the required ratio",
+      loadingText: "Removing collateral...",
+      successText: "Collateral removed successfully!",
+      errorText: "Failed to remove collateral",
+    },
+  },
+};
+
+const APPROVAL_METHOD_LABELS: Record<ApprovalMethod, string> = {
+  approve: "via approve",
+  permit: "via permit",
+  allowance: "already approved",
+};
+
+const APPROVAL_SUCCESS_TEXT: Record<ApprovalMethod, string | null> = {
+  approve: null,
+  permit: "Approved by a signed permit for the exact amount",
+  allowance: "Your existing allowance covers this, no approval needed",
+};
+
 export function TransactionModal({
   isOpen,
   onClose,
@@ -91,7 +176,16 @@ export function TransactionModal({
   successTitle = "Transaction Complete!",
   successDescription = "Your transaction has been completed successfully!",
   steps = defaultSteps,
+  feeEstimate,
+  onRefreshFees,
+  onConfirmFees,
 }: TransactionModalProps) {
+  // Title and suggested fix, when the cause of a failure is known
+  const errorInfo =
+    transactionState.errorCode && transactionState.errorCode !== "UNKNOWN"
+      ? TRANSACTION_ERRORS[transactionState.errorCode]
+      : null;
+
   // Track if we've already shown a toast for this error to prevent duplicates
   const [shownErrorHash, setShownErrorHash] = React.useState<string | null>(
     null
@@ -108,7 +202,9 @@ export function TransactionModal({
 
         // Extract just the error title/type, not the full message
         let errorTitle = "Transaction Failed";
-        if (transactionState.error.includes("User rejected")) {
+        if (errorInfo) {
+          errorTitle = errorInfo.title;
+        } else if (transactionState.error.includes("User rejected")) {
           errorTitle = "Transaction Cancelled";
         } else if (transactionState.error.includes("insufficient funds")) {
           errorTitle = "Insufficient Funds";
@@ -121,7 +217,8 @@ export function TransactionModal({
         }
 
         toast.error(errorTitle, {
-          description: "Check your wallet or try again",
+          description:
+            errorInfo?.suggestion ?? "Check your wallet or try again",
           duration: 6000, // Show for 6 seconds
           action: {
             label: "Try Again",
@@ -137,6 +234,7 @@ export function TransactionModal({
     transactionState.isError,
     transactionState.error,
     transactionState.step,
+    errorInfo,
     shownErrorHash,
     onClose,
   ]);
@@ -147,26 +245,46 @@ export function TransactionModal({
       setShownErrorHash(null);
     }
   }, [transactionState.isError]);
+
+  // Keep the fee estimate current while it is reviewed and while the flow
+  // is still sending
+  const showsFees = transactionState.isReviewing || transactionState.isLoading;
+  const isEstimating = isOpen && showsFees;
+  useEffect(() => {
+    if (!isEstimating || !onRefreshFees) return;
+    const interval = setInterval(onRefreshFees, FEE_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isEstimating, onRefreshFees]);
+
+  // A balance that may not cover the fees has to be acknowledged before
+  // anything is sent, once per review
+  const [acceptsShortfall, setAcceptsShortfall] = React.useState(false);
+  useEffect(() => {
+    if (transactionState.isReviewing) setAcceptsShortfall(false);
+  }, [transactionState.isReviewing]);
+  const isShortOnFees = feeEstimate?.isInsufficient === true;
+  const canConfirmFees = !isShortOnFees || acceptsShortfall;
+
+  // Latest history entry of the approval, or of the call that follows it
+  const latestEntry = (step: "approving" | "creating") =>
+    transactionState.history.findLast(
+      (entry: TransactionHistoryEntry) =>
+        (entry.step === "approving") === (step === "approving")
+    );
+
   const getStepStatus = (step: "approving" | "creating") => {
-    if (transactionState.step === step && transactionState.isLoading) {
-      return "loading";
-    }
-    if (transactionState.step === step && transactionState.isError) {
-      return "error";
-    }
-    // Approval is successful when we move to creating step or beyond
+    const entry = latestEntry(step);
+    if (!entry || transactionState.isReviewing) return "idle";
     if (
-      step === "approving" &&
-      (transactionState.step === "creating" ||
-        transactionState.step === "success")
+      entry.status === "confirmed" ||
+      entry.status === "signed" ||
+      entry.status === "skipped"
     ) {
       return "success";
     }
-    // Creating is only successful when we reach the final success step
-    if (step === "creating" && transactionState.step === "success") {
-      return "success";
-    }
-    return "idle";
+    if (entry.status === "failed") return "error";
+    if (entry.status === "timed_out") return "pending";
+    return "loading";
   };
 
   const getModalTitle = () => {
@@ -174,7 +292,13 @@ export function TransactionModal({
       return successTitle;
     }
     if (transactionState.isError) {
-      return "Transaction Failed";
+      return errorInfo?.title ?? "Transaction Failed";
+    }
+    if (transactionState.isPending) {
+      return TRANSACTION_ERRORS.TRANSACTION_PENDING.title;
+    }
+    if (transactionState.isReviewing) {
+      return "Review Network Fees";
     }
     if (transactionState.step === "approving") {
       return "Approving Token Spending";
@@ -192,8 +316,14 @@ export function TransactionModal({
     if (transactionState.isError) {
       return "There was an issue with your transaction. Please try again.";
     }
+    if (transactionState.isPending) {
+      return TRANSACTION_ERRORS.TRANSACTION_PENDING.suggestion;
+    }
+    if (transactionState.isReviewing) {
+      return "Nothing has been sent yet. Check the estimated fees, then confirm to continue in your wallet.";
+    }
     if (transactionState.step === "approving") {
-      return "Please confirm the token approval in your wallet.";
+      return "Please sign or confirm the token approval in your wallet.";
     }
     if (transactionState.step === "creating") {
       return "Please confirm the transaction in your wallet and wait for it to complete.";
@@ -221,6 +351,12 @@ export function TransactionModal({
             <AlertCircle className="h-5 w-5 text-red-600" />
           </div>
         );
+      case "pending":
+        return (
+          <div className="w-8 h-8 rounded-full bg-amber-100 dark:bg-amber-900/20 flex items-center justify-center">
+            <Clock className="h-5 w-5 text-amber-600" />
+          </div>
+        );
       default:
         return (
           <div className="w-8 h-8 rounded-full border-2 border-muted-foreground/30 flex items-center justify-center">
@@ -231,13 +367,30 @@ export function TransactionModal({
   };
 
   const getStepText = (step: "approving" | "creating", status: string) => {
-    const stepConfig = steps[step === "approving" ? "approval" : "transaction"];
+    const stepConfig =
+      (step === "approving" && steps.approval) || steps.transaction;
 
     switch (status) {
-      case "loading":
-        return stepConfig.loadingText;
+      case "loading": {
+        // Once sent, count confirmations instead of waiting on the wallet
+        const entry = latestEntry(step);
+        if (entry?.status !== "submitted" && entry?.status !== "replaced") {
+          return stepConfig.loadingText;
+        }
+        const progress = `${transactionState.confirmations}/${transactionState.requiredConfirmations}`;
+        return entry.status === "replaced"
+          ? `Sped up in your wallet, waiting for confirmations (${progress})...`
+          : `Waiting for confirmations (${progress})...`;
+      }
+      case "pending":
+        return "Not confirmed yet, still watching for it...";
       case "success":
-        return stepConfig.successText;
+        return (
+          (step === "approving" &&
+            transactionState.approvalMethod &&
+            APPROVAL_SUCCESS_TEXT[transactionState.approvalMethod]) ||
+          stepConfig.successText
+        );
       case "error":
         return stepConfig.errorText;
       default:
@@ -253,6 +406,8 @@ export function TransactionModal({
         return "text-red-600 dark:text-red-400";
       case "loading":
         return "text-primary";
+      case "pending":
+        return "text-amber-600 dark:text-amber-400";
       default:
         return "text-muted-foreground";
     }
@@ -262,15 +417,15 @@ export function TransactionModal({
     <Dialog
       open={isOpen}
       onOpenChange={(open) => {
-        // Only allow closing if transaction is complete (success or error)
-        if (!open && (transactionState.isSuccess || transactionState.isError)) {
+        // Only allow closing once nothing is waiting on the wallet
+        if (!open && !transactionState.isLoading) {
           onClose();
         }
       }}
     >
       <DialogContent
         className="sm:max-w-md"
-        showCloseButton={transactionState.isSuccess || transactionState.isError}
+        showCloseButton={!transactionState.isLoading}
       >
         <DialogHeader className="text-center">
           <DialogTitle className="text-xl flex items-center justify-center gap-3">
@@ -282,6 +437,14 @@ export function TransactionModal({
               <div className="w-8 h-8 rounded-full bg-red-100 dark:bg-red-900/20 flex items-center justify-center">
                 <AlertCircle className="h-5 w-5 text-red-600" />
               </div>
+            ) : transactionState.isReviewing ? (
+              <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
+                <Fuel className="h-5 w-5 text-primary" />
+              </div>
+            ) : transactionState.isPending ? (
+              <div className="w-8 h-8 rounded-full bg-amber-100 dark:bg-amber-900/20 flex items-center justify-center">
+                <Clock className="h-5 w-5 text-amber-600" />
+              </div>
             ) : (
               <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
                 <Loader2 className="h-5 w-5 animate-spin text-primary" />
@@ -297,33 +460,46 @@ export function TransactionModal({
         <div className="space-y-6 py-6">
           {/* Progress Steps */}
           <div className="space-y-4">
-            {/* Step 1: Approval */}
-            <div className="flex items-center space-x-4">
-              <div className="flex-shrink-0">
-                <StepIcon status={getStepStatus("approving")} />
-              </div>
-              <div className="flex-1">
-                <h3
-                  className={`font-semibold ${getStepTextColor(getStepStatus("approving"))}`}
-                >
-                  {steps.approval.title}
-                </h3>
-                <p className="text-sm text-muted-foreground">
-                  {getStepText("approving", getStepStatus("approving"))}
-                </p>
-              </div>
-            </div>
+            {steps.approval && (
+              <>
+                {/* Step 1: Approval */}
+                <div className="flex items-center space-x-4">
+                  <div className="flex-shrink-0">
+                    <StepIcon status={getStepStatus("approving")} />
+                  </div>
+                  <div className="flex-1">
+                    <h3
+                      className={`font-semibold ${getStepTextColor(getStepStatus("approving"))}`}
+                    >
+                      {steps.approval.title}
+                      {transactionState.approvalMethod && (
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">
+                          {
+                            APPROVAL_METHOD_LABELS[
+                              transactionState.approvalMethod
+                            ]
+                          }
+                        </span>
+                      )}
+                    </h3>
+                    <p className="text-sm text-muted-foreground">
+                      {getStepText("approving", getStepStatus("approving"))}
+                    </p>
+                  </div>
+                </div>
 
-            {/* Connector Line */}
-            <div className="flex justify-center">
-              <div
-                className={`w-0.5 h-8 transition-colors duration-300 ${
-                  getStepStatus("approving") === "success"
-                    ? "bg-emerald-500"
-                    : "bg-muted-foreground/30"
-                }`}
-              />
-            </div>
+                {/* Connector Line */}
+                <div className="flex justify-center">
+                  <div
+                    className={`w-0.5 h-8 transition-colors duration-300 ${
+                      getStepStatus("approving") === "success"
+                        ? "bg-emerald-500"
+                        : "bg-muted-foreground/30"
+                    }`}
+                  />
+                </div>
+              </>
+            )}
 
             {/* Step 2: Transaction */}
             <div className="flex items-center space-x-4">
@@ -343,6 +519,27 @@ export function TransactionModal({
             </div>
           </div>
 
+          {/* Network fee of the transactions still to be sent */}
+          {showsFees && feeEstimate !== undefined && (
+            <FeeEstimateSummary estimate={feeEstimate} />
+          )}
+
+          {transactionState.isReviewing && isShortOnFees && (
+            <label className="flex items-start gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={acceptsShortfall}
+                onCheckedChange={(checked) =>
+                  setAcceptsShortfall(checked === true)
+                }
+                className="mt-0.5"
+              />
+              <span>
+                Send anyway. I understand the transactions may fail for lack of
+                gas.
+              </span>
+            </label>
+          )}
+
           {/* Success Message - Only show when both transactions are complete */}
           {transactionState.isSuccess &&
             transactionState.step === "success" && (
@@ -362,8 +559,43 @@ export function TransactionModal({
               </Alert>
             )}
 
+          {/* Failure cause and suggested fix */}
+          {transactionState.isError && errorInfo && (
+            <Alert className="border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950">
+              <AlertCircle className="h-4 w-4 text-red-600" />
+              <AlertDescription className="text-red-800 dark:text-red-200">
+                <div className="space-y-1">
+                  <p className="font-medium">{errorInfo.suggestion}</p>
+                  {transactionState.error !== errorInfo.title && (
+                    <p className="text-xs opacity-80">
+                      {transactionState.error}
+                    </p>
+                  )}
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Action Buttons */}
           <div className="flex gap-3 pt-4">
+            {transactionState.isReviewing && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={onClose}
+                  className="flex-1 border-primary/20 text-primary hover:bg-primary/5 hover:border-primary/30 transition-all duration-200"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={onConfirmFees}
+                  disabled={!onConfirmFees || !canConfirmFees}
+                  className="flex-1 bg-gradient-to-r from-primary to-primary/90 hover:from-primary/90 hover:to-primary/80 text-white shadow-lg hover:shadow-xl transition-all duration-200"
+                >
+                  Confirm and Send
+                </Button>
+              </>
+            )}
             {transactionState.isSuccess &&
               transactionState.step === "success" && (
                 <>
@@ -412,6 +644,20 @@ export function TransactionModal({
                 Please check your wallet for pending transactions...
               </div>
             )}
+            {transactionState.isPending && (
+              <div className="w-full text-center text-sm text-muted-foreground space-y-1">
+                <p>
+                  You can close this window. It stays listed in the navigation
+                  bar until it settles.
+                </p>
+                {transactionState.hash && (
+                  <p className="text-xs font-mono">
+                    Transaction: {transactionState.hash.slice(0, 10)}...
+                    {transactionState.hash.slice(-8)}
+                  </p>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </DialogContent>
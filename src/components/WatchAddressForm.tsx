@@ -0,0 +1,55 @@
+"use client";
+
+import { useState } from "react";
+import { Eye } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { parseWatchAddress } from "@/lib/watchAddress";
+
+interface WatchAddressFormProps {
+  onWatch: (address: string) => void;
+  className?: string;
+}
+
+/**
+ * An address input that opens the watch-only view of that account's loans
+ */
+export function WatchAddressForm({
+  onWatch,
+  className,
+}: WatchAddressFormProps) {
+  const [value, setValue] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const address = parseWatchAddress(value);
+    if (!address) {
+      setError("Enter a valid 0x address");
+      return;
+    }
+    setError(null);
+    setValue("");
+    onWatch(address);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={className}>
+      <div className="flex gap-2">
+        <Input
+          value={value}
+          onChange={(event) => setValue(event.target.value)}
+          placeholder="View as address (0x...)"
+          aria-label="Address to view"
+          aria-invalid={!!error}
+          className="font-mono"
+        />
+        <Button type="submit" variant="outline">
+          <Eye className="mr-2 h-4 w-4" />
+          View
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive mt-1">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { Eye, X } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+
+interface WatchOnlyBannerProps {
+  address: string;
+  onExit: () => void;
+  className?: string;
+}
+
+/**
+ * Shown while a page displays someone else's account read-only
+ */
+export function WatchOnlyBanner({
+  address,
+  onExit,
+  className,
+}: WatchOnlyBannerProps) {
+  return (
+    <Alert
+      className={`border-sky-500/40 bg-sky-500/10 text-sky-700 dark:text-sky-300 ${className ?? ""}`}
+    >
+      <Eye className="h-4 w-4" />
+      <AlertTitle className="font-semibold">Watch-only</AlertTitle>
+      <AlertDescription className="flex flex-wrap items-center justify-between gap-2 text-sky-800/90 dark:text-sky-200/90">
+        <span>
+          Viewing the loans of <span className="font-mono">{address}</span>.
+          Actions are disabled because this is not your connected wallet.
+        </span>
+        <Button size="sm" variant="outline" onClick={onExit}>
+          <X className="mr-2 h-3 w-3" />
+          Stop watching
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -1,6 +1,6 @@
 import { EthersAdapter } from "@reown/appkit-adapter-ethers";
 import type { AppKitNetwork } from "@reown/appkit/networks";
-import { DOMA_TESTNET_CONFIG } from "@/lib/contracts";
+import { ACTIVE_CHAIN } from "@/lib/contracts";
 
 // Get projectId from https://cloud.reown.com
 export const projectId =
@@ -10,16 +10,16 @@ if (!projectId) {
   throw new Error("Project ID is not defined");
 }
 
-// Define Doma Testnet for AppKit
-const domaTestnet: AppKitNetwork = {
-  id: DOMA_TESTNET_CONFIG.id,
-  name: DOMA_TESTNET_CONFIG.name,
-  nativeCurrency: DOMA_TESTNET_CONFIG.nativeCurrency,
-  rpcUrls: DOMA_TESTNET_CONFIG.rpcUrls,
-  blockExplorers: DOMA_TESTNET_CONFIG.blockExplorers,
-  testnet: DOMA_TESTNET_CONFIG.testnet,
+// The active network (see config/networks.ts) for AppKit
+const activeNetwork: AppKitNetwork = {
+  id: ACTIVE_CHAIN.id,
+  name: ACTIVE_CHAIN.name,
+  nativeCurrency: ACTIVE_CHAIN.nativeCurrency,
+  rpcUrls: ACTIVE_CHAIN.rpcUrls,
+  blockExplorers: ACTIVE_CHAIN.blockExplorers,
+  testnet: ACTIVE_CHAIN.testnet,
 };
 
-export const networks = [domaTestnet] as [AppKitNetwork, ...AppKitNetwork[]];
+export const networks = [activeNetwork] as [AppKitNetwork, ...AppKitNetwork[]];
 
 export const ethersAdapter = new EthersAdapter();
@@ -0,0 +1,224 @@
+// Network registry
+// Everything that differs between deployments, keyed by chain id: contract
+// addresses, the RPC, block explorer links and the API endpoints.
+// NEXT_PUBLIC_CHAIN_ID picks the profile, Doma Testnet unless set; 31337
+// points the app at a local Anvil node running contracts/script/Deploy.s.sol.
+// The NEXT_PUBLIC_* overrides below apply on top of the chosen profile, and
+// the result is validated when this module loads so a bad configuration
+// fails at startup instead of on the first request.
+
+import { ethers } from "ethers";
+
+export interface NetworkConfig {
+  chainId: number;
+  name: string;
+  // Short identifier, e.g. for viem's `network`
+  network: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  rpcUrl: string;
+  // Link templates with {hash} / {address} placeholders; null when the
+  // chain has no explorer
+  explorer: {
+    name: string;
+    url: string;
+    txUrl: string;
+    addressUrl: string;
+  } | null;
+  contracts: {
+    domaLend: string;
+    domaRankOracle: string;
+  };
+  api: {
+    // Doma's GraphQL API: domain names and fractional tokens
+    domaGraphql: string;
+    // DomaLend indexer
+    subgraph: string;
+    // DomaRank scores and the oracle service
+    backend: string;
+  };
+  testnet: boolean;
+}
+
+export const DOMA_TESTNET_CHAIN_ID = 97476;
+export const ANVIL_CHAIN_ID = 31337;
+
+const DOMA_EXPLORER_URL = "https://explorer.testnet.doma.xyz";
+const DOMA_GRAPHQL_URL = "https://api-testnet.doma.xyz/graphql";
+const LOCAL_INDEXER_URL = "http://localhost:3001";
+
+export const NETWORKS: Record<number, NetworkConfig> = {
+  [DOMA_TESTNET_CHAIN_ID]: {
+    chainId: DOMA_TESTNET_CHAIN_ID,
+    name: "Doma Testnet",
+    network: "doma-testnet",
+    nativeCurrency: { name: "Doma", symbol: "ETH", decimals: 18 },
+    rpcUrl: "https://rpc-testnet.doma.xyz",
+    explorer: {
+      name: "Doma Explorer",
+      url: DOMA_EXPLORER_URL,
+      txUrl: `${DOMA_EXPLORER_URL}/tx/{hash}`,
+      addressUrl: `${DOMA_EXPLORER_URL}/address/{address}`,
+    },
+    contracts: {
+      domaLend: "0x9F1694E8a8aC038d4ab3e2217AC0E79111948FD9",
+      domaRankOracle: "0xccC7F3bD5aB3E0A3f1e54D29a4F3D3430Cde06De",
+    },
+    api: {
+      domaGraphql: DOMA_GRAPHQL_URL,
+      subgraph: `${LOCAL_INDEXER_URL}/graphql`,
+      backend: LOCAL_INDEXER_URL,
+    },
+    testnet: true,
+  },
+  [ANVIL_CHAIN_ID]: {
+    chainId: ANVIL_CHAIN_ID,
+    name: "Anvil (local)",
+    network: "anvil",
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrl: "http://127.0.0.1:8545",
+    explorer: null,
+    // Where Deploy.s.sol lands from Anvil's first default account on a
+    // fresh node: the oracle at nonce 0, DomaLend at nonce 1
+    contracts: {
+      domaLend: "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512",
+      domaRankOracle: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+    },
+    api: {
+      // Domain data only exists on Doma's hosted API
+      domaGraphql: DOMA_GRAPHQL_URL,
+      subgraph: `${LOCAL_INDEXER_URL}/graphql`,
+      backend: LOCAL_INDEXER_URL,
+    },
+    testnet: true,
+  },
+};
+
+// A registry entry is missing or does not hold together
+export class NetworkConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NetworkConfigError";
+  }
+}
+
+export interface NetworkOverrides {
+  rpcUrl?: string;
+  domaLend?: string;
+  domaRankOracle?: string;
+  subgraph?: string;
+  backend?: string;
+}
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Everything wrong with a network profile, or an empty list when it is
+ * usable.
+ */
+export const validateNetworkConfig = (config: NetworkConfig): string[] => {
+  const problems: string[] = [];
+
+  if (!Number.isInteger(config.chainId) || config.chainId <= 0) {
+    problems.push(`chain id ${config.chainId} is not a positive integer`);
+  }
+  if (!isHttpUrl(config.rpcUrl)) {
+    problems.push(`RPC URL "${config.rpcUrl}" is not an http(s) URL`);
+  }
+  for (const [name, address] of Object.entries(config.contracts)) {
+    if (!ethers.isAddress(address)) {
+      problems.push(`${name} address "${address}" is not an address`);
+    }
+  }
+  // The oracle may be left at the zero address to run without DomaRank
+  if (config.contracts.domaLend === ethers.ZeroAddress) {
+    problems.push("domaLend address is the zero address");
+  }
+  for (const [name, url] of Object.entries(config.api)) {
+    if (!isHttpUrl(url)) {
+      problems.push(`${name} endpoint "${url}" is not an http(s) URL`);
+    }
+  }
+  if (config.explorer) {
+    if (!isHttpUrl(config.explorer.url)) {
+      problems.push(
+        `explorer URL "${config.explorer.url}" is not an http(s) URL`
+      );
+    }
+    if (!config.explorer.txUrl.includes("{hash}")) {
+      problems.push("explorer transaction template has no {hash}");
+    }
+    if (!config.explorer.addressUrl.includes("{address}")) {
+      problems.push("explorer address template has no {address}");
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * The profile for `chainId` with `overrides` applied. Throws a
+ * NetworkConfigError when the chain is unknown or the result is invalid.
+ */
+export const resolveNetwork = (
+  chainId: number,
+  overrides: NetworkOverrides = {}
+): NetworkConfig => {
+  const profile = NETWORKS[chainId];
+  if (!profile) {
+    throw new NetworkConfigError(
+      `No network profile for chain id ${chainId}. Known chain ids: ${Object.keys(NETWORKS).join(", ")}`
+    );
+  }
+
+  const config: NetworkConfig = {
+    ...profile,
+    rpcUrl: overrides.rpcUrl || profile.rpcUrl,
+    contracts: {
+      domaLend: overrides.domaLend || profile.contracts.domaLend,
+      domaRankOracle:
+        overrides.domaRankOracle || profile.contracts.domaRankOracle,
+    },
+    api: {
+      ...profile.api,
+      subgraph: overrides.subgraph || profile.api.subgraph,
+      backend: overrides.backend || profile.api.backend,
+    },
+  };
+
+  const problems = validateNetworkConfig(config);
+  if (problems.length > 0) {
+    throw new NetworkConfigError(
+      `Invalid configuration for ${config.name}: ${problems.join("; ")}`
+    );
+  }
+  return config;
+};
+
+// Each variable is spelled out so Next.js inlines it into client bundles
+export const ACTIVE_NETWORK = resolveNetwork(
+  Number(process.env.NEXT_PUBLIC_CHAIN_ID) || DOMA_TESTNET_CHAIN_ID,
+  {
+    rpcUrl: process.env.NEXT_PUBLIC_RPC_URL,
+    domaLend: process.env.NEXT_PUBLIC_DREAMLEND_CONTRACT_ADDRESS,
+    domaRankOracle: process.env.NEXT_PUBLIC_DOMA_RANK_ORACLE_ADDRESS,
+    subgraph: process.env.NEXT_PUBLIC_SUBGRAPH_URL,
+    backend: process.env.NEXT_PUBLIC_BACKEND_URL,
+  }
+);
+
+// Block explorer link for a transaction, or null without an explorer
+export const explorerTxUrl = (
+  hash: string,
+  network: NetworkConfig = ACTIVE_NETWORK
+) => network.explorer?.txUrl.replace("{hash}", hash) ?? null;
+
+export const explorerAddressUrl = (
+  address: string,
+  network: NetworkConfig = ACTIVE_NETWORK
+) => network.explorer?.addressUrl.replace("{address}", address) ?? null;
@@ -1,6 +1,7 @@
 // Doma Testnet - Supported Tokens Configuration
 import { FRACTIONAL_TOKENS_QUERY } from "@/lib/graphql/queries";
 import { FractionalTokensResponse } from "@/lib/graphql/types";
+import { ACTIVE_NETWORK } from "@/config/networks";
 
 export interface TokenInfo {
   address: string;
@@ -126,7 +127,7 @@ const CACHE_DURATION = 60000; // 1 minute
 async function fetchDomainTokens(): Promise<TokenInfo[]> {
   try {
     console.log("[fetchDomainTokens] Starting fetch from GraphQL API...");
-    const response = await fetch("https://api-testnet.doma.xyz/graphql", {
+    const response = await fetch(ACTIVE_NETWORK.api.domaGraphql, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
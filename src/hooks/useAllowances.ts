@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useState } from "react";
+import { multicall } from "@/lib/multicall";
+import { getAllSupportedTokensAsync, TokenInfo } from "@/config/tokens";
+import {
+  readApprovalMode,
+  subscribeApprovalMode,
+  writeApprovalMode,
+  ApprovalMode,
+} from "@/lib/approvalMode";
+
+export interface TokenAllowance {
+  token: TokenInfo;
+  // Null when the token could not be read
+  allowance: bigint | null;
+  balance: bigint | null;
+}
+
+/**
+ * The connected wallet's allowance to DomaLend and balance for every
+ * supported token, including fractional domain tokens.
+ */
+export const useAllowances = (owner: string | undefined) => {
+  const [allowances, setAllowances] = useState<TokenAllowance[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAllowances = useCallback(async () => {
+    if (!owner) {
+      setAllowances([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const tokens = await getAllSupportedTokensAsync();
+
+      // Every allowance and balance in one batch
+      const queries = tokens.map((token) => ({
+        tokenAddress: token.address,
+        owner,
+      }));
+      const [allowanceResults, balanceResults] = await Promise.all([
+        multicall.batchFetchAllowances(queries),
+        multicall.batchFetchBalances(queries),
+      ]);
+
+      const results = tokens.map((token, i): TokenAllowance => {
+        const allowance = allowanceResults[i];
+        const balance = balanceResults[i];
+        if (!allowance.success) {
+          console.error(
+            `Failed to read allowance for ${token.symbol}:`,
+            allowance.error
+          );
+        }
+        if (!balance.success) {
+          console.error(
+            `Failed to read balance for ${token.symbol}:`,
+            balance.error
+          );
+        }
+        return {
+          token,
+          allowance: allowance.success ? allowance.value : null,
+          balance: balance.success ? balance.value : null,
+        };
+      });
+      setAllowances(results);
+    } catch (err) {
+      console.error("Failed to fetch allowances:", err);
+      setError(err instanceof Error ? err.message : "Failed to load tokens");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [owner]);
+
+  useEffect(() => {
+    fetchAllowances();
+  }, [fetchAllowances]);
+
+  return {
+    allowances,
+    isLoading,
+    error,
+    refetch: fetchAllowances,
+  };
+};
+
+/**
+ * How future flows approve tokens: the exact amount, or unlimited.
+ */
+export const useApprovalMode = () => {
+  // Starts at the default so the first client render matches the server
+  const [mode, setMode] = useState<ApprovalMode>("exact");
+
+  useEffect(() => {
+    setMode(readApprovalMode());
+    return subscribeApprovalMode(() => setMode(readApprovalMode()));
+  }, []);
+
+  return [mode, writeApprovalMode] as const;
+};
@@ -0,0 +1,40 @@
+import { useCallback, useRef, useState } from "react";
+import { runBatch, BatchItemResult } from "@/lib/batchExecutor";
+
+/**
+ * State for running a write over several items one at a time, with
+ * per-item results and a way to stop before the next item starts. Call
+ * reset() before reusing it for another batch.
+ */
+export const useBatchExecutor = <T>() => {
+  const [results, setResults] = useState<BatchItemResult<T>[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const stopRequested = useRef(false);
+
+  const run = useCallback(
+    async (items: T[], execute: (item: T) => Promise<string>) => {
+      setIsRunning(true);
+      try {
+        return await runBatch(items, execute, {
+          onUpdate: setResults,
+          shouldStop: () => stopRequested.current,
+        });
+      } finally {
+        setIsRunning(false);
+      }
+    },
+    []
+  );
+
+  // Also honoured when requested before run(), e.g. during a preparation step
+  const stop = useCallback(() => {
+    stopRequested.current = true;
+  }, []);
+
+  const reset = useCallback(() => {
+    stopRequested.current = false;
+    setResults([]);
+  }, []);
+
+  return { results, isRunning, run, stop, reset };
+};
@@ -3,12 +3,9 @@ import { ethers } from "ethers";
 import { FractionalTokensResponse, FractionalToken } from "@/lib/graphql/types";
 import { FRACTIONAL_TOKENS_QUERY } from "@/lib/graphql/queries";
 import { TokenInfo } from "@/config/tokens";
-import {
-  DOMA_RANK_ORACLE_ABI,
-  DOMA_RANK_ORACLE_ADDRESS,
-} from "@/lib/contracts";
-
-const GRAPHQL_ENDPOINT = "https://api-testnet.doma.xyz/graphql";
+import { DOMA_RANK_ORACLE_ADDRESS } from "@/lib/contracts";
+import { connectDomaRankOracle } from "@/lib/contractBindings";
+import { ACTIVE_NETWORK } from "@/config/networks";
 
 /**
  * Check if a token has oracle price support by querying the oracle contract
@@ -23,12 +20,8 @@ async function checkOracleSupport(tokenAddress: string): Promise<boolean> {
   }
 
   try {
-    const provider = new ethers.JsonRpcProvider("https://rpc-testnet.doma.xyz");
-    const oracleContract = new ethers.Contract(
-      DOMA_RANK_ORACLE_ADDRESS,
-      DOMA_RANK_ORACLE_ABI,
-      provider
-    );
+    const provider = new ethers.JsonRpcProvider(ACTIVE_NETWORK.rpcUrl);
+    const oracleContract = connectDomaRankOracle(provider);
 
     // Try to get the token price
     const price = await oracleContract.getTokenValue(tokenAddress);
@@ -65,11 +58,11 @@ export function useFractionalTokens() {
         setError(null);
 
         console.log("🔍 Fetching fractional tokens from Doma API...");
-        console.log("📍 Endpoint:", GRAPHQL_ENDPOINT);
+        console.log("📍 Endpoint:", ACTIVE_NETWORK.api.domaGraphql);
         console.log("🔑 API Key present:", !!API_KEY);
         console.log("🔑 API Key length:", API_KEY?.length || 0);
 
-        const response = await fetch(GRAPHQL_ENDPOINT, {
+        const response = await fetch(ACTIVE_NETWORK.api.domaGraphql, {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import type { IndexerFreshness } from "@/lib/indexerFreshness";
+
+// =================================================================
+// Indexer freshness, shared across the tab
+// =================================================================
+// Every /api/subgraph response carries the indexer's lag behind the chain
+// head; postSubgraphQuery reports it here. Queries are mostly served from
+// cache, so while anything is subscribed the status endpoint is also polled.
+
+export type { IndexerFreshness };
+
+const STATUS_URL = "/api/subgraph/status";
+const POLL_INTERVAL = 30 * 1000; // 30 seconds
+
+// Warn once the indexer is this many blocks behind the head
+export const INDEXER_LAG_WARNING_BLOCKS =
+  Number(process.env.NEXT_PUBLIC_INDEXER_LAG_WARNING_BLOCKS) || 20;
+
+// Read loans from the contract instead once it is this many blocks behind
+export const INDEXER_LAG_DEGRADED_BLOCKS =
+  Number(process.env.NEXT_PUBLIC_INDEXER_LAG_DEGRADED_BLOCKS) || 100;
+
+const listeners = new Set<(freshness: IndexerFreshness) => void>();
+
+let latest: IndexerFreshness | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+// Record a measurement; older ones arriving late are ignored
+export const reportIndexerFreshness = (freshness: IndexerFreshness) => {
+  if (latest && freshness.checkedAt <= latest.checkedAt) return;
+  latest = freshness;
+  listeners.forEach((listener) => listener(freshness));
+};
+
+const poll = async () => {
+  try {
+    const response = await fetch(STATUS_URL, { cache: "no-store" });
+    if (!response.ok) throw new Error(`Status ${response.status}`);
+    const data = await response.json();
+    if (data.indexer) reportIndexerFreshness(data.indexer);
+  } catch (err) {
+    // The proxy itself is down, so the indexer is out of reach too
+    console.warn("Failed to read indexer freshness:", err);
+    reportIndexerFreshness({
+      reachable: false,
+      lastProcessedBlock: null,
+      headBlock: null,
+      lagBlocks: null,
+      checkedAt: Date.now(),
+    });
+  }
+};
+
+const subscribe = (listener: (freshness: IndexerFreshness) => void) => {
+  listeners.add(listener);
+  if (!pollTimer) {
+    poll();
+    pollTimer = setInterval(poll, POLL_INTERVAL);
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  };
+};
+
+/**
+ * Latest known indexer freshness, or null until the first measurement.
+ * `isStale` is true once the lag passes INDEXER_LAG_WARNING_BLOCKS.
+ */
+export function useIndexerFreshness(): {
+  freshness: IndexerFreshness | null;
+  isStale: boolean;
+} {
+  // Starts empty so the first client render matches the server
+  const [freshness, setFreshness] = useState<IndexerFreshness | null>(null);
+
+  useEffect(() => {
+    if (latest) setFreshness(latest);
+    return subscribe(setFreshness);
+  }, []);
+
+  return {
+    freshness,
+    isStale:
+      freshness?.lagBlocks != null &&
+      freshness.lagBlocks > INDEXER_LAG_WARNING_BLOCKS,
+  };
+}
@@ -4,10 +4,15 @@
  * @author harshmittal.dev
  */
 
-import React, { useState, useCallback, useMemo, useRef } from "react";
+import { useCallback, useMemo } from "react";
 import { ProcessedLoan } from "./useSubgraphQuery";
-import { getTokenByAddress, getPriceFeedAddress } from "@/config/tokens";
-import { multicall, MulticallUtil, PriceData } from "@/lib/multicall";
+import { usePrices } from "./usePrices";
+import { getTokenByAddress } from "@/config/tokens";
+import { MulticallUtil, PriceData } from "@/lib/multicall";
+import {
+  getLoanPriceStaleness,
+  LoanPriceStaleness,
+} from "@/lib/priceStaleness";
 
 // Enhanced loan data with price comparison
 export interface LoanWithPriceComparison extends ProcessedLoan {
@@ -35,28 +40,21 @@ export interface LoanWithPriceComparison extends ProcessedLoan {
   pricesLastUpdated: number;
   hasPriceErrors: boolean;
   isStalePrice: boolean;
-}
-
-// Hook state interface
-interface UseLivePriceComparisonState {
-  loans: LoanWithPriceComparison[];
-  loading: boolean;
-  error: string | null;
-  lastUpdated: number | null;
-  priceMap: Map<string, PriceData>;
+  // Against this loan's maxPriceStaleness, as the contract checks it
+  priceStaleness: LoanPriceStaleness;
 }
 
 // Hook options
 interface UseLivePriceComparisonOptions {
   refreshInterval?: number; // Auto-refresh interval in ms (0 to disable)
   enableAutoRefresh?: boolean;
-  stalePriceThreshold?: number; // Seconds after which price is considered stale
   significantChangeThreshold?: number; // Percentage threshold for significant price changes
 }
 
 /**
  * Custom React hook for comparing historical vs live prices for loans
- * Uses multicall to batch all price feed calls into a single RPC request
+ * Feed prices come from the shared price store, which batches every feed on
+ * the page into one multicall
  */
 export function useLivePriceComparison(
   loans: ProcessedLoan[],
@@ -65,44 +63,30 @@ export function useLivePriceComparison(
   const {
     refreshInterval = 30000, // 30 seconds default
     enableAutoRefresh = true,
-    stalePriceThreshold = 3600, // 1 hour
     significantChangeThreshold = 5, // 5%
   } = options;
 
-  // State
-  const [state, setState] = useState<UseLivePriceComparisonState>({
-    loans: [],
-    loading: false,
-    error: null,
-    lastUpdated: null,
-    priceMap: new Map(),
-  });
-
-  // Ref to store the current timeout for cleanup
-  const refreshTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-
-  // Ref to store current loans to avoid dependency issues
-  const loansRef = useRef(loans);
-  loansRef.current = loans;
-
-  // Memoized unique tokens that need price fetching
-  const uniquePriceFeeds = useMemo(() => {
-    const tokenAddresses = new Set<string>();
+  // Every token on either side of the loans
+  const tokenAddresses = loans.flatMap((loan) => [
+    loan.tokenAddress,
+    loan.collateralAddress,
+  ]);
 
-    // Collect all unique token addresses from loans
-    loans.forEach((loan) => {
-      tokenAddresses.add(loan.tokenAddress.toLowerCase());
-      tokenAddresses.add(loan.collateralAddress.toLowerCase());
-    });
+  const {
+    prices: feedPrices,
+    isLoading,
+    error,
+    lastUpdated,
+    refresh,
+  } = usePrices("feed", tokenAddresses, {
+    refreshInterval: enableAutoRefresh ? refreshInterval : 0,
+  });
 
-    // Map to price feed calls
-    return MulticallUtil.getUniquePriceFeeds(
-      Array.from(tokenAddresses),
-      (tokenAddress: string) => {
-        return getPriceFeedAddress(tokenAddress);
-      }
-    );
-  }, [loans.map((l) => `${l.tokenAddress}-${l.collateralAddress}`).join(",")]);
+  // Keyed by both token and feed address, as callers look up either
+  const priceMap = useMemo(
+    () => MulticallUtil.createPriceMap([...feedPrices.values()]),
+    [feedPrices]
+  );
 
   /**
    * Calculate price change percentage and direction
@@ -137,175 +121,107 @@ export function useLivePriceComparison(
   );
 
   /**
-   * Main function to fetch current prices and compare with historical data
+   * Loans with current price data and historical comparison
    */
-  const fetchLivePrices = useCallback(async () => {
-    if (uniquePriceFeeds.length === 0) {
-      setState((prev) => ({
-        ...prev,
-        loans: loansRef.current.map((loan) => ({
-          ...loan,
-          currentLoanValueUSD: "0.00",
-          currentCollateralValueUSD: "0.00",
-          loanTokenPriceChange: 0,
-          loanTokenPriceDirection: "unchanged" as const,
-          historicalLoanValueUSD: loan.historicalAmountUSD || "0.00",
-          priceChangeIndicator: {
-            percentage: "0.00%",
-            isPositive: false,
-            isSignificant: false,
-          },
-          pricesLastUpdated: Date.now(),
-          hasPriceErrors: true,
-          isStalePrice: true,
-        })),
-        loading: false,
-        error: null,
-        lastUpdated: Date.now(),
-      }));
-      return;
-    }
-
-    setState((prev) => ({ ...prev, loading: true, error: null }));
-
-    try {
-      // Fetch all prices in a single multicall
-      const priceDataList =
-        await multicall.batchFetchPriceFeeds(uniquePriceFeeds);
-      const priceMap = MulticallUtil.createPriceMap(priceDataList);
-
-      // Process loans with current price data and historical comparison
-      const enhancedLoans: LoanWithPriceComparison[] = loansRef.current.map(
-        (loan) => {
-          const currentTokenPrice = priceMap.get(
-            loan.tokenAddress.toLowerCase()
-          );
-          const currentCollateralPrice = priceMap.get(
-            loan.collateralAddress.toLowerCase()
+  const enhancedLoans = useMemo(
+    (): LoanWithPriceComparison[] =>
+      loans.map((loan) => {
+        const currentTokenPrice = priceMap.get(loan.tokenAddress.toLowerCase());
+        const currentCollateralPrice = priceMap.get(
+          loan.collateralAddress.toLowerCase()
+        );
+
+        // Get token info for decimals
+        const loanTokenInfo = getTokenByAddress(loan.tokenAddress);
+        const collateralTokenInfo = getTokenByAddress(loan.collateralAddress);
+
+        let currentLoanValueUSD = "0.00";
+        let currentCollateralValueUSD = "0.00";
+        let loanTokenPriceChange = 0;
+        let loanTokenPriceDirection: "up" | "down" | "unchanged" = "unchanged";
+        let priceChangeIndicator = {
+          percentage: "0.00%",
+          isPositive: false,
+          isSignificant: false,
+        };
+
+        if (currentTokenPrice && loanTokenInfo) {
+          // Calculate current USD value of loan amount
+          currentLoanValueUSD = MulticallUtil.calculateUSDValue(
+            loan.amount,
+            loanTokenInfo.decimals,
+            currentTokenPrice
           );
 
-          // Get token info for decimals
-          const loanTokenInfo = getTokenByAddress(loan.tokenAddress);
-          const collateralTokenInfo = getTokenByAddress(loan.collateralAddress);
-
-          let currentLoanValueUSD = "0.00";
-          let currentCollateralValueUSD = "0.00";
-          let loanTokenPriceChange = 0;
-          let loanTokenPriceDirection: "up" | "down" | "unchanged" =
-            "unchanged";
-          let priceChangeIndicator = {
-            percentage: "0.00%",
-            isPositive: false,
-            isSignificant: false,
-          };
-
-          if (currentTokenPrice && loanTokenInfo) {
-            // Calculate current USD value of loan amount
-            currentLoanValueUSD = MulticallUtil.calculateUSDValue(
-              loan.amount,
-              loanTokenInfo.decimals,
-              currentTokenPrice
+          // Compare with historical price if available
+          if (loan.historicalPriceUSD) {
+            const priceChange = calculatePriceChange(
+              loan.historicalPriceUSD,
+              currentTokenPrice.priceUSD
             );
 
-            // Compare with historical price if available
-            if (loan.historicalPriceUSD) {
-              const priceChange = calculatePriceChange(
-                loan.historicalPriceUSD,
-                currentTokenPrice.priceUSD
-              );
-
-              loanTokenPriceChange = priceChange.percentage;
-              loanTokenPriceDirection = priceChange.direction;
-
-              priceChangeIndicator = {
-                percentage: `${priceChange.percentage >= 0 ? "+" : ""}${priceChange.percentage.toFixed(2)}%`,
-                isPositive: priceChange.percentage > 0,
-                isSignificant: priceChange.isSignificant,
-              };
-            }
-          }
+            loanTokenPriceChange = priceChange.percentage;
+            loanTokenPriceDirection = priceChange.direction;
 
-          if (currentCollateralPrice && collateralTokenInfo) {
-            // Calculate current USD value of collateral amount
-            currentCollateralValueUSD = MulticallUtil.calculateUSDValue(
-              loan.collateralAmount,
-              collateralTokenInfo.decimals,
-              currentCollateralPrice
-            );
+            priceChangeIndicator = {
+              percentage: `${priceChange.percentage >= 0 ? "+" : ""}${priceChange.percentage.toFixed(2)}%`,
+              isPositive: priceChange.percentage > 0,
+              isSignificant: priceChange.isSignificant,
+            };
           }
-
-          const hasPriceErrors =
-            !currentTokenPrice?.success || !currentCollateralPrice?.success;
-          const isStalePrice =
-            currentTokenPrice?.isStale ||
-            currentCollateralPrice?.isStale ||
-            false;
-
-          return {
-            ...loan,
-            currentTokenPrice,
-            currentCollateralPrice,
-            currentLoanValueUSD,
-            currentCollateralValueUSD,
-            loanTokenPriceChange,
-            loanTokenPriceDirection,
-            historicalLoanValueUSD: loan.historicalAmountUSD || "0.00",
-            priceChangeIndicator,
-            pricesLastUpdated: Date.now(),
-            hasPriceErrors,
-            isStalePrice,
-          };
         }
-      );
-
-      setState({
-        loans: enhancedLoans,
-        loading: false,
-        error: null,
-        lastUpdated: Date.now(),
-        priceMap,
-      });
-
-      // Setup auto-refresh if enabled
-      if (enableAutoRefresh && refreshInterval > 0) {
-        if (refreshTimeoutRef.current) {
-          clearTimeout(refreshTimeoutRef.current);
+
+        if (currentCollateralPrice && collateralTokenInfo) {
+          // Calculate current USD value of collateral amount
+          currentCollateralValueUSD = MulticallUtil.calculateUSDValue(
+            loan.collateralAmount,
+            collateralTokenInfo.decimals,
+            currentCollateralPrice
+          );
         }
-        refreshTimeoutRef.current = setTimeout(() => {
-          fetchLivePrices();
-        }, refreshInterval);
-      }
-    } catch (error) {
-      console.error("Failed to fetch live prices:", error);
-      setState((prev) => ({
-        ...prev,
-        loading: false,
-        error:
-          error instanceof Error ? error.message : "Unknown error occurred",
-      }));
-    }
-  }, [
-    uniquePriceFeeds,
-    calculatePriceChange,
-    enableAutoRefresh,
-    refreshInterval,
-  ]);
+
+        const hasPriceErrors =
+          !currentTokenPrice?.success || !currentCollateralPrice?.success;
+        const priceStaleness = getLoanPriceStaleness(
+          loan,
+          currentTokenPrice,
+          currentCollateralPrice
+        );
+
+        return {
+          ...loan,
+          currentTokenPrice,
+          currentCollateralPrice,
+          currentLoanValueUSD,
+          currentCollateralValueUSD,
+          loanTokenPriceChange,
+          loanTokenPriceDirection,
+          historicalLoanValueUSD: loan.historicalAmountUSD || "0.00",
+          priceChangeIndicator,
+          pricesLastUpdated: lastUpdated ?? Date.now(),
+          hasPriceErrors,
+          isStalePrice: priceStaleness.isStale,
+          priceStaleness,
+        };
+      }),
+    [loans, priceMap, lastUpdated, calculatePriceChange]
+  );
 
   /**
    * Manual refresh function
    */
   const refreshPrices = useCallback(() => {
-    fetchLivePrices();
-  }, [fetchLivePrices]);
+    refresh();
+  }, [refresh]);
 
   /**
    * Get price data for a specific token
    */
   const getPriceForToken = useCallback(
     (tokenAddress: string): PriceData | undefined => {
-      return state.priceMap.get(tokenAddress.toLowerCase());
+      return priceMap.get(tokenAddress.toLowerCase());
     },
-    [state.priceMap]
+    [priceMap]
   );
 
   /**
@@ -313,7 +229,7 @@ export function useLivePriceComparison(
    */
   const getPriceChangeStats = useMemo(() => {
     const stats = {
-      totalLoans: state.loans.length,
+      totalLoans: enhancedLoans.length,
       pricesUp: 0,
       pricesDown: 0,
       pricesUnchanged: 0,
@@ -321,11 +237,11 @@ export function useLivePriceComparison(
       averageChange: 0,
     };
 
-    if (state.loans.length === 0) return stats;
+    if (enhancedLoans.length === 0) return stats;
 
     let totalChange = 0;
 
-    state.loans.forEach((loan) => {
+    enhancedLoans.forEach((loan) => {
       switch (loan.loanTokenPriceDirection) {
         case "up":
           stats.pricesUp++;
@@ -344,35 +260,19 @@ export function useLivePriceComparison(
       totalChange += loan.loanTokenPriceChange;
     });
 
-    stats.averageChange = totalChange / state.loans.length;
+    stats.averageChange = totalChange / enhancedLoans.length;
 
     return stats;
-  }, [state.loans]);
-
-  // Cleanup timeout on unmount
-  React.useEffect(() => {
-    return () => {
-      if (refreshTimeoutRef.current) {
-        clearTimeout(refreshTimeoutRef.current);
-      }
-    };
-  }, []);
-
-  // Initial fetch when loans change
-  React.useEffect(() => {
-    if (loansRef.current.length > 0) {
-      fetchLivePrices();
-    }
-  }, [fetchLivePrices, loans.length]);
+  }, [enhancedLoans]);
 
   return {
     // Enhanced loan data with price comparison
-    loans: state.loans,
+    loans: enhancedLoans,
 
     // State
-    loading: state.loading,
-    error: state.error,
-    lastUpdated: state.lastUpdated,
+    loading: isLoading,
+    error,
+    lastUpdated,
 
     // Utility functions
     refreshPrices,
@@ -382,6 +282,6 @@ export function useLivePriceComparison(
     priceChangeStats: getPriceChangeStats,
 
     // Raw price data
-    priceMap: state.priceMap,
+    priceMap: priceMap,
   };
 }
@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useState } from "react";
+import type { ProcessedLoan } from "@/hooks/useSubgraphQuery";
+import type { LoggedEvent } from "@/lib/loanEvents";
+import { useIndexerFreshness } from "@/hooks/useIndexerFreshness";
+
+// =================================================================
+// Loan confirmations and reorgs
+// =================================================================
+// A loan's state is only final once the block of its latest event is
+// CONFIRMATION_DEPTH blocks deep. When a refresh shows that the indexer
+// dropped events after a reorg, the affected loans are recorded here and
+// stay flagged until the reorged block is buried just as deep.
+
+// Blocks on top of a loan's latest event before its state counts as final
+export const CONFIRMATION_DEPTH =
+  Number(process.env.NEXT_PUBLIC_CONFIRMATION_DEPTH) || 12;
+
+export interface LoanConfirmation {
+  // State changed by a reorg and has not settled yet
+  reorged: boolean;
+  confirmations: number;
+  required: number;
+}
+
+// Loan id -> highest block at which one of its events was reorged out
+const reorgedLoans = new Map<string, bigint>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const reportReorgedLoans = (
+  reorgs: { loanId: string; block: bigint }[]
+) => {
+  let changed = false;
+  for (const { loanId, block } of reorgs) {
+    const known = reorgedLoans.get(loanId);
+    if (known === undefined || block > known) {
+      reorgedLoans.set(loanId, block);
+      changed = true;
+    }
+  }
+  if (changed) notify();
+};
+
+// Flag the loans of events that a refreshed collection no longer contains
+export const reportDroppedEvents = (dropped: LoggedEvent[]) => {
+  const reorgs = dropped.flatMap((event) =>
+    event.loanId
+      ? [{ loanId: event.loanId, block: BigInt(event.blockNumber ?? 0) }]
+      : []
+  );
+  if (reorgs.length === 0) return;
+  console.warn(
+    `Indexer dropped ${dropped.length} event(s) after a reorg; affected loans:`,
+    reorgs.map((reorg) => reorg.loanId)
+  );
+  reportReorgedLoans(reorgs);
+};
+
+/**
+ * Returns a lookup giving each loan's confirmation progress, or null once its
+ * state is final. Loans without a known event block (read on-chain) and any
+ * loan before the chain head is known count as final.
+ */
+export function useLoanConfirmations(): (
+  loan: ProcessedLoan
+) => LoanConfirmation | null {
+  const { freshness } = useIndexerFreshness();
+  const headBlock = freshness?.headBlock ?? null;
+  const [reorgs, setReorgs] = useState<Map<string, bigint>>(new Map());
+
+  useEffect(() => {
+    const listener = () => setReorgs(new Map(reorgedLoans));
+    listener();
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
+  return useCallback(
+    (loan: ProcessedLoan) => {
+      if (headBlock === null) return null;
+      const confirmationsOf = (block: bigint) =>
+        BigInt(headBlock) >= block ? Number(BigInt(headBlock) - block) + 1 : 0;
+
+      const reorgBlock = reorgs.get(loan.id.toString());
+      const reorged =
+        reorgBlock !== undefined &&
+        confirmationsOf(reorgBlock) < CONFIRMATION_DEPTH;
+      const eventBlock = loan.lastEventBlock;
+      if (
+        !reorged &&
+        (eventBlock === BigInt(0) ||
+          confirmationsOf(eventBlock) >= CONFIRMATION_DEPTH)
+      ) {
+        return null;
+      }
+
+      // A reorged loan settles once both the reorg and its latest event do
+      const settlingBlock =
+        reorged && reorgBlock > eventBlock ? reorgBlock : eventBlock;
+      return {
+        reorged,
+        confirmations: Math.min(
+          confirmationsOf(settlingBlock),
+          CONFIRMATION_DEPTH
+        ),
+        required: CONFIRMATION_DEPTH,
+      };
+    },
+    [headBlock, reorgs]
+  );
+}
@@ -0,0 +1,101 @@
+import { useState, useEffect } from "react";
+import type { ProcessedLoan } from "@/hooks/useSubgraphQuery";
+import { fetchOnChainLoans } from "@/lib/onChainLoans";
+import {
+  INDEXER_LAG_DEGRADED_BLOCKS,
+  useIndexerFreshness,
+} from "@/hooks/useIndexerFreshness";
+
+// =================================================================
+// Loan data source selection
+// =================================================================
+// Loans normally come from the indexer. When it is down, erroring or too
+// far behind the chain, useAllLoansWithStatus and useLoans switch to batched
+// RPC reads and report the switch so pages can show a degraded-mode indicator.
+
+export type LoanDataSource = "indexer" | "onchain";
+
+export type DegradedReason = "unreachable" | "stale" | "error";
+
+const ONCHAIN_REFRESH_INTERVAL = 30 * 1000; // 30 seconds
+
+export interface IndexerHealth {
+  // null until the first check has finished
+  status: "ok" | "unreachable" | "stale" | null;
+  lagBlocks: number | null;
+}
+
+// Why loans should be read from the contract instead, or null if they shouldn't
+export const getDegradedReason = (
+  health: IndexerHealth,
+  error: string | null
+): DegradedReason | null =>
+  health.status === "unreachable" || health.status === "stale"
+    ? health.status
+    : error
+      ? "error"
+      : null;
+
+export function useIndexerHealth(): IndexerHealth {
+  const { freshness } = useIndexerFreshness();
+
+  if (!freshness) return { status: null, lagBlocks: null };
+  if (!freshness.reachable) return { status: "unreachable", lagBlocks: null };
+  // Without a head to compare against, trust the indexer
+  return {
+    status:
+      freshness.lagBlocks !== null &&
+      freshness.lagBlocks > INDEXER_LAG_DEGRADED_BLOCKS
+        ? "stale"
+        : "ok",
+    lagBlocks: freshness.lagBlocks,
+  };
+}
+
+/**
+ * Active offers, plus the account's own loans when given, read straight from
+ * the contract. Idle until enabled.
+ */
+export function useOnChainLoans(options: {
+  enabled: boolean;
+  account?: string;
+}): { loans: ProcessedLoan[]; loading: boolean; error: string | null } {
+  const { enabled, account } = options;
+  const [state, setState] = useState<{
+    loans: ProcessedLoan[];
+    loading: boolean;
+    error: string | null;
+  }>({ loans: [], loading: false, error: null });
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    const load = async (isBackground: boolean) => {
+      if (!isBackground) {
+        setState((prev) => ({ ...prev, loading: true, error: null }));
+      }
+      try {
+        const loans = await fetchOnChainLoans(account);
+        if (!cancelled) setState({ loans, loading: false, error: null });
+      } catch (err: unknown) {
+        if (cancelled) return;
+        console.error("Failed to read loans on-chain:", err);
+        setState((prev) => ({
+          ...prev,
+          loading: false,
+          error: err instanceof Error ? err.message : String(err),
+        }));
+      }
+    };
+
+    load(false);
+    const interval = setInterval(() => load(true), ONCHAIN_REFRESH_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [enabled, account]);
+
+  return state;
+}
@@ -0,0 +1,163 @@
+import { useEffect, useRef, useState } from "react";
+import type { LoanEventCollections } from "@/lib/loanEvents";
+
+// =================================================================
+// Live loan events over Server-Sent Events
+// =================================================================
+// One EventSource per tab, shared by every subscriber. The stream sends
+// each newly indexed event as a message named after its collection, with
+// the block number as the message id. That id is kept as a cursor, so a
+// reconnect resumes from the last block seen instead of dropping events.
+
+export type LoanEventCollection = keyof LoanEventCollections;
+
+export type LiveLoanEvent = {
+  [K in LoanEventCollection]: {
+    collection: K;
+    event: NonNullable<LoanEventCollections[K]>[number];
+  };
+}[LoanEventCollection];
+
+type LiveLoanEventListener = (event: LiveLoanEvent) => void;
+
+const STREAM_URL = "/api/subgraph/stream";
+const RECONNECT_BASE_DELAY = 1000; // 1 second
+const RECONNECT_MAX_DELAY = 30 * 1000; // 30 seconds
+
+const COLLECTIONS: LoanEventCollection[] = [
+  "loanCreateds",
+  "loanAccepteds",
+  "loanRepaids",
+  "loanLiquidateds",
+  "loanOfferCancelleds",
+  "loanOfferRemoveds",
+  "partialRepayments",
+  "collateralAddeds",
+  "collateralRemoveds",
+];
+
+const subscribers = new Set<LiveLoanEventListener>();
+const statusListeners = new Set<(connected: boolean) => void>();
+
+let source: EventSource | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectAttempts = 0;
+let connected = false;
+// Block to resume from; events from this block onwards are (re)sent
+let cursor: string | null = null;
+
+const setConnected = (value: boolean) => {
+  if (connected === value) return;
+  connected = value;
+  statusListeners.forEach((listener) => listener(value));
+};
+
+const advanceCursor = (id: string) => {
+  if (/^\d+$/.test(id) && (cursor === null || BigInt(id) > BigInt(cursor))) {
+    cursor = id;
+  }
+};
+
+const disconnect = () => {
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+  source?.close();
+  source = null;
+  setConnected(false);
+};
+
+const connect = () => {
+  const url = cursor ? `${STREAM_URL}?fromBlock=${cursor}` : STREAM_URL;
+  const stream = new EventSource(url);
+  source = stream;
+
+  stream.onopen = () => {
+    reconnectAttempts = 0;
+    setConnected(true);
+  };
+
+  for (const collection of COLLECTIONS) {
+    stream.addEventListener(collection, (message: MessageEvent<string>) => {
+      try {
+        const liveEvent = {
+          collection,
+          event: JSON.parse(message.data),
+        } as LiveLoanEvent;
+        advanceCursor(message.lastEventId);
+        subscribers.forEach((listener) => listener(liveEvent));
+      } catch (err) {
+        console.error(`Failed to parse streamed ${collection} event:`, err);
+      }
+    });
+  }
+
+  stream.addEventListener("checkpoint", (message: MessageEvent<string>) =>
+    advanceCursor(message.lastEventId)
+  );
+
+  // Reconnect ourselves with backoff, so the resume cursor is always used
+  stream.onerror = () => {
+    stream.close();
+    if (source !== stream) return;
+    source = null;
+    setConnected(false);
+
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY * 2 ** reconnectAttempts,
+      RECONNECT_MAX_DELAY
+    );
+    reconnectAttempts++;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      if (subscribers.size > 0) connect();
+    }, delay);
+  };
+};
+
+const subscribe = (listener: LiveLoanEventListener, fromBlock?: string) => {
+  subscribers.add(listener);
+  if (fromBlock) advanceCursor(fromBlock);
+  if (!source && !reconnectTimer) connect();
+
+  return () => {
+    subscribers.delete(listener);
+    if (subscribers.size === 0) disconnect();
+  };
+};
+
+/**
+ * Subscribe to loan events as the indexer picks them up. `fromBlock` is only
+ * used when no stream is open yet: pass the newest block already loaded so
+ * events indexed in between are replayed.
+ */
+export function useLoanEventStream(
+  onEvent: LiveLoanEventListener,
+  options: { enabled?: boolean; fromBlock?: string } = {}
+): { connected: boolean } {
+  const { enabled = true, fromBlock } = options;
+  const [isConnected, setIsConnected] = useState(connected);
+
+  // Latest values without resubscribing on every render
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const fromBlockRef = useRef(fromBlock);
+  fromBlockRef.current = fromBlock;
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === "undefined") return;
+
+    statusListeners.add(setIsConnected);
+    setIsConnected(connected);
+    const unsubscribe = subscribe(
+      (event) => onEventRef.current(event),
+      fromBlockRef.current
+    );
+
+    return () => {
+      statusListeners.delete(setIsConnected);
+      unsubscribe();
+    };
+  }, [enabled]);
+
+  return { connected: enabled && isConnected };
+}
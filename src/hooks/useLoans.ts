@@ -0,0 +1,281 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import {
+  applyLoanQuery,
+  deserializeLoan,
+  parseLoanQuery,
+  toApiLoans,
+  toLoanSearchParams,
+  LoanQuery,
+  LoansResponse,
+  SerializedLoan,
+  MAX_LOAN_LIMIT,
+} from "@/lib/loanQuery";
+import {
+  getDegradedReason,
+  useIndexerHealth,
+  useOnChainLoans,
+  LoanDataSource,
+} from "@/hooks/useLoanDataSource";
+import { useLoanEventStream } from "@/hooks/useLoanEventStream";
+import { reportReorgedLoans } from "@/hooks/useLoanConfirmations";
+import {
+  getCacheEntry,
+  restoreCacheEntry,
+  setCacheEntry,
+  subscribeToCacheEntry,
+  CacheEntry,
+} from "@/lib/graphql/subgraphCache";
+import { getAllSupportedTokensSync } from "@/config/tokens";
+
+// =================================================================
+// Processed loans from /api/loans
+// =================================================================
+// The server replays the indexer's events and answers with finished loans,
+// so the browser no longer downloads every raw event collection. Responses
+// are cached per query and refetched shortly after the event stream reports
+// a change.
+
+interface LoansCacheData {
+  loans: SerializedLoan[];
+  total: number;
+}
+
+const LOANS_CACHE_DURATION = 60 * 1000; // 1 minute
+// Events tend to arrive in bursts; wait for the burst to end before refetching
+const REFETCH_DEBOUNCE = 1000; // 1 second
+// A total that changes mid-scan means earlier pages may have shifted; start
+// over this many times before settling for a list marked incomplete
+const MAX_SCAN_RESTARTS = 2;
+
+const fetchLoansPage = async (
+  params: string,
+  limit: number,
+  offset: number
+): Promise<LoansResponse> => {
+  const search = new URLSearchParams(params);
+  search.set("limit", String(limit));
+  search.set("offset", String(offset));
+
+  const response = await fetch(`${window.location.origin}/api/loans?${search}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(
+      errorData.details || errorData.error || "Network response was not ok"
+    );
+  }
+  return response.json();
+};
+
+// A loan whose latest event moved to an earlier block lost that event to a
+// reorg; the server replays whatever the indexer has now
+const reportRegressedLoans = (
+  previous: SerializedLoan[],
+  current: SerializedLoan[]
+) => {
+  const seen = new Map(
+    previous.map((loan) => [loan.id, BigInt(loan.lastEventBlock)])
+  );
+  reportReorgedLoans(
+    current.flatMap((loan) => {
+      const block = seen.get(loan.id);
+      return block !== undefined && block > BigInt(loan.lastEventBlock)
+        ? [{ loanId: loan.id, block }]
+        : [];
+    })
+  );
+};
+
+/**
+ * Every loan matching `query`, newest first unless a sort is given. Pages
+ * through the endpoint and renders the first page while the rest load.
+ * Falls back to reading the contract when the endpoint or indexer is down.
+ */
+export function useLoans(
+  query: Partial<Omit<LoanQuery, "limit" | "offset">> = {},
+  options: { enabled?: boolean; pageSize?: number } = {}
+) {
+  const { enabled = true, pageSize = MAX_LOAN_LIMIT } = options;
+  // Serialised so callers can pass inline objects without refetch loops
+  const params = toLoanSearchParams(query).toString();
+  const cacheKey = `loans:${params}`;
+
+  const [entry, setEntry] = useState<CacheEntry<LoansCacheData> | null>(null);
+  const [loading, setLoading] = useState(enabled);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+  // Set by the event stream so the next load skips a still-fresh cache entry
+  const forceRefreshRef = useRef(false);
+
+  useEffect(() => {
+    if (!enabled) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+
+    const cached = restoreCacheEntry<LoansCacheData>(cacheKey);
+    if (cached) setEntry(cached);
+    if (
+      cached &&
+      cached.complete !== false &&
+      Date.now() < cached.expiresAt &&
+      !forceRefreshRef.current
+    ) {
+      setLoading(false);
+      return;
+    }
+    forceRefreshRef.current = false;
+
+    const load = async () => {
+      // Keep showing cached loans during a background refresh
+      if (!cached) setLoading(true);
+      try {
+        // Keyed by id so a loan that shifts across a page boundary is kept once
+        const byId = new Map<string, SerializedLoan>();
+        let offset = 0;
+        let total = Infinity;
+        let restarts = 0;
+        let drifted = false;
+
+        while (offset < total) {
+          const page = await fetchLoansPage(params, pageSize, offset);
+          if (cancelled) return;
+          if (offset > 0 && page.total !== total) {
+            if (restarts < MAX_SCAN_RESTARTS) {
+              restarts += 1;
+              byId.clear();
+              offset = 0;
+              total = Infinity;
+              continue;
+            }
+            drifted = true;
+          }
+          for (const loan of page.loans) byId.set(loan.id, loan);
+          offset += page.loans.length;
+          total = page.loans.length === 0 ? offset : page.total;
+
+          const loans = [...byId.values()];
+          const now = Date.now();
+          const next: CacheEntry<LoansCacheData> = {
+            data: { loans, total },
+            timestamp: now,
+            expiresAt: now + LOANS_CACHE_DURATION,
+            complete: !drifted && offset >= total,
+          };
+          // Only a finished list replaces a cached one; partial pages are
+          // shown locally unless there is nothing better to show
+          if (next.complete) {
+            const previous = getCacheEntry<LoansCacheData>(cacheKey);
+            if (previous) reportRegressedLoans(previous.data.loans, loans);
+            setCacheEntry(cacheKey, next, { persist: true });
+            setEntry(next);
+          } else if (!cached) {
+            setEntry(next);
+          }
+          setLoading(false);
+          if (drifted) break;
+        }
+        setError(null);
+      } catch (err: unknown) {
+        if (cancelled) return;
+        setLoading(false);
+        setError(err instanceof Error ? err.message : String(err));
+        console.error("Failed to fetch loans:", err);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, cacheKey, params, pageSize, refreshCount]);
+
+  // Pick up the same query refreshed in another tab
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribeToCacheEntry<LoansCacheData>(cacheKey, (next) => {
+      if (next.complete !== false) setEntry(next);
+    });
+  }, [enabled, cacheKey]);
+
+  // While on-chain reads stand in after a failure, keep retrying the endpoint
+  useEffect(() => {
+    if (!error) return;
+    const timer = setTimeout(() => {
+      forceRefreshRef.current = true;
+      setRefreshCount((count) => count + 1);
+    }, LOANS_CACHE_DURATION);
+    return () => clearTimeout(timer);
+  }, [error]);
+
+  const indexerHealth = useIndexerHealth();
+  const degradedReason = getDegradedReason(indexerHealth, error);
+
+  // Refetch once a burst of newly indexed events has settled
+  const refetchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const { connected: isLive } = useLoanEventStream(
+    () => {
+      if (refetchTimerRef.current) clearTimeout(refetchTimerRef.current);
+      refetchTimerRef.current = setTimeout(() => {
+        refetchTimerRef.current = null;
+        forceRefreshRef.current = true;
+        setRefreshCount((count) => count + 1);
+      }, REFETCH_DEBOUNCE);
+    },
+    { enabled: enabled && degradedReason === null }
+  );
+  useEffect(
+    () => () => {
+      if (refetchTimerRef.current) clearTimeout(refetchTimerRef.current);
+    },
+    []
+  );
+
+  const onChain = useOnChainLoans({
+    enabled: enabled && degradedReason !== null,
+    account: query.account ?? query.lender ?? query.borrower,
+  });
+
+  const loans = useMemo(
+    () => entry?.data.loans.map(deserializeLoan) ?? [],
+    [entry]
+  );
+
+  // Answer the query locally, the same way the endpoint would
+  const onChainLoans = useMemo(() => {
+    if (degradedReason === null) return [];
+    const domainTokens = getAllSupportedTokensSync()
+      .filter((token) => token.isDomainToken)
+      .map((token) => token.address);
+    return applyLoanQuery(toApiLoans(onChain.loans, domainTokens), {
+      ...parseLoanQuery(new URLSearchParams(params)),
+      limit: Infinity,
+    }).loans;
+  }, [degradedReason, onChain.loans, params]);
+
+  if (degradedReason) {
+    return {
+      loans: onChainLoans,
+      total: onChainLoans.length,
+      loading: onChain.loading,
+      error: onChain.error,
+      isComplete: !onChain.loading,
+      isLive: false,
+      source: "onchain" as LoanDataSource,
+      degradedReason,
+      indexerLagBlocks: indexerHealth.lagBlocks,
+    };
+  }
+
+  return {
+    loans,
+    total: entry?.data.total ?? 0,
+    loading,
+    error,
+    isComplete: !loading && entry?.complete !== false,
+    isLive,
+    source: "indexer" as LoanDataSource,
+    degradedReason,
+    indexerLagBlocks: indexerHealth.lagBlocks,
+  };
+}
@@ -2,14 +2,39 @@ import { useState, useCallback } from "react";
 import { ethers } from "ethers";
 import { getAllSupportedTokens } from "@/config/tokens";
 import { toBaseUnit } from "@/lib/decimals";
+import { connectContract } from "@/lib/contractBindings";
 
 // Mock ERC20 ABI - just the functions we need
 const MOCK_TOKEN_ABI = [
-  "function mintToSelf(uint256 amount) external",
-  "function balanceOf(address account) external view returns (uint256)",
-  "function symbol() external view returns (string)",
-  "function decimals() external view returns (uint8)",
-];
+  {
+    type: "function",
+    name: "mintToSelf",
+    inputs: [{ name: "amount", type: "uint256" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "balanceOf",
+    inputs: [{ name: "account", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "symbol",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "decimals",
+    inputs: [],
+    outputs: [{ name: "", type: "uint8" }],
+    stateMutability: "view",
+  },
+] as const;
 
 interface MintResult {
   success: boolean;
@@ -50,11 +75,7 @@ export function useMintTokens() {
         const amountInBaseUnits = toBaseUnit(amount, token.decimals);
 
         // Create contract instance
-        const contract = new ethers.Contract(
-          token.address,
-          MOCK_TOKEN_ABI,
-          signer
-        );
+        const contract = connectContract(token.address, MOCK_TOKEN_ABI, signer);
 
         // Call mintToSelf function
         console.log(
@@ -66,11 +87,11 @@ export function useMintTokens() {
 
         // Wait for confirmation
         const receipt = await tx.wait();
-        console.log(`Mint transaction confirmed: ${receipt.transactionHash}`);
+        console.log(`Mint transaction confirmed: ${receipt?.hash}`);
 
         return {
           success: true,
-          txHash: receipt.transactionHash,
+          txHash: receipt?.hash ?? tx.hash,
         };
       } catch (error: unknown) {
         console.error("Minting failed:", error);
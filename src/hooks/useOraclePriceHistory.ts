@@ -0,0 +1,51 @@
+import { useEffect, useState } from "react";
+import {
+  fetchOraclePriceHistory,
+  OraclePricePoint,
+} from "@/lib/oraclePriceHistory";
+
+/**
+ * The DomaRank oracle's price updates for `tokenAddress`, oldest first,
+ * reaching back at least to `since` (unix seconds) when given. Charts
+ * mounted together share one log read.
+ */
+export const useOraclePriceHistory = (
+  tokenAddress: string | undefined,
+  since?: number
+) => {
+  const [points, setPoints] = useState<OraclePricePoint[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!tokenAddress) {
+      setPoints([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetchOraclePriceHistory([tokenAddress], { since })
+      .then((history) => {
+        if (cancelled) return;
+        setPoints(history.get(tokenAddress.toLowerCase()) ?? []);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Failed to read oracle price history:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to read price history"
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenAddress, since]);
+
+  return { points, isLoading, error };
+};
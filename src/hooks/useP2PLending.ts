@@ -1,43 +1,128 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useReducer, useRef } from "react";
 import { Eip1193Provider, ethers } from "ethers";
 import { useAppKitAccount, useAppKitProvider } from "@reown/appkit/react";
 import {
   DREAMLEND_CONTRACT_ADDRESS,
-  DREAMLEND_ABI,
-  ERC20_ABI,
   Loan,
   LoanStatus,
-  DOMA_TESTNET_CONFIG,
+  ACTIVE_CHAIN,
 } from "@/lib/contracts";
+import {
+  connectContract,
+  connectDomaLend,
+  connectERC20,
+  decodeLoan,
+  DomaLendAbi,
+  FunctionArgs,
+} from "@/lib/contractBindings";
 import {
   getAllSupportedTokensSync,
   getAllSupportedTokensAsync,
 } from "@/config/tokens";
-
-export interface TransactionState {
-  isLoading: boolean;
-  isSuccess: boolean;
-  isError: boolean;
-  error: string | null;
-  hash: string | null;
-  step:
-    | "idle"
-    | "approving"
-    | "approved"
-    | "creating"
-    | "accepting"
-    | "repaying"
-    | "liquidating"
-    | "cancelling"
-    | "adding_collateral"
-    | "removing_collateral"
-    | "partial_repaying"
-    | "success"
-    | "error";
+import {
+  decodeTransactionError,
+  TransactionError,
+  TRANSACTION_ERRORS,
+} from "@/lib/transactionErrors";
+import {
+  addPendingTransaction,
+  replacePendingTransaction,
+  PendingTransactionIntent,
+} from "@/lib/pendingTransactions";
+import { settlePendingTransaction } from "@/hooks/usePendingTransactions";
+import { approvalAmountFor } from "@/lib/approvalMode";
+import { multicall } from "@/lib/multicall";
+import {
+  estimateFees,
+  FeeEstimate,
+  FeeEstimateRequest,
+} from "@/lib/feeEstimate";
+import {
+  detectPermitSupport,
+  signPermit,
+  PermitSignature,
+  PERMIT_ABI,
+} from "@/lib/permit";
+import {
+  initialTransactionState,
+  transactionReducer,
+  waitForTransaction,
+  TransactionState,
+} from "@/lib/transactionMachine";
+
+export type { TransactionState, FeeEstimate };
+
+// DomaLend functions that send a transaction
+type DomaLendWrite =
+  | "createLoanOffer"
+  | "acceptLoanOffer"
+  | "repayLoan"
+  | "makePartialRepayment"
+  | "liquidateLoan"
+  | "cancelLoanOffer"
+  | "addCollateral"
+  | "removeCollateral";
+
+// Argument list of any of them, checked against the ABI
+type WriteArgs<M extends DomaLendWrite = DomaLendWrite> = FunctionArgs<
+  DomaLendAbi,
+  M
+>;
+
+// Thrown into a flow whose fee review was closed instead of confirmed. That
+// is the user's choice rather than a failure, so it is not recorded as one.
+const REVIEW_DECLINED = new TransactionError(
+  "USER_REJECTED",
+  "Closed before anything was sent"
+);
+
+interface LoanHealthFactor {
+  currentRatio: bigint;
+  priceStale: boolean;
 }
 
+// Health factor reads waiting for the next batch
+let queuedHealthReads: {
+  loanId: bigint;
+  resolve: (health: LoanHealthFactor) => void;
+  reject: (error: Error) => void;
+}[] = [];
+
+// Reads requested in the same tick, e.g. by every loan a page renders, go
+// out together through batchFetchHealthFactors in one round trip
+const readLoanHealthFactor = (loanId: bigint) =>
+  new Promise<LoanHealthFactor>((resolve, reject) => {
+    queuedHealthReads.push({ loanId, resolve, reject });
+    if (queuedHealthReads.length > 1) return;
+
+    setTimeout(async () => {
+      const reads = queuedHealthReads;
+      queuedHealthReads = [];
+      try {
+        const results = await multicall.batchFetchHealthFactors(
+          reads.map((read) => read.loanId)
+        );
+        reads.forEach((read, i) => {
+          const result = results[i];
+          if (result.success) {
+            read.resolve({
+              currentRatio: result.value[0],
+              priceStale: result.value[1],
+            });
+          } else {
+            read.reject(new Error(result.error));
+          }
+        });
+      } catch (error: unknown) {
+        const failure =
+          error instanceof Error ? error : new Error(String(error));
+        reads.forEach((read) => read.reject(failure));
+      }
+    }, 0);
+  });
+
 export interface LoanOfferFormData {
   tokenAddress: string;
   amount: string;
@@ -47,19 +132,34 @@ export interface LoanOfferFormData {
   collateralAmount: string;
 }
 
-export const useP2PLending = () => {
+/**
+ * DomaLend reads and writes for the connected wallet. With `reviewFees`,
+ * every write first waits in the `isReviewing` state until the user goes
+ * ahead with the estimated fees through `confirmFees`; turn it on only where
+ * a TransactionModal shows that review.
+ */
+export const useP2PLending = ({
+  reviewFees = false,
+}: { reviewFees?: boolean } = {}) => {
   const { address, isConnected } = useAppKitAccount();
   const { walletProvider } = useAppKitProvider<Eip1193Provider>("eip155");
 
   // State management
-  const [transactionState, setTransactionState] = useState<TransactionState>({
-    isLoading: false,
-    isSuccess: false,
-    isError: false,
-    error: null,
-    hash: null,
-    step: "idle",
-  });
+  const [transactionState, dispatch] = useReducer(
+    transactionReducer,
+    initialTransactionState
+  );
+
+  // Cost of the current flow's transactions, re-estimated on refresh
+  const [feeEstimate, setFeeEstimate] = useState<FeeEstimate | null>(null);
+  const feeRequests = useRef<FeeEstimateRequest[] | null>(null);
+  const reviewFeesRef = useRef(reviewFees);
+  reviewFeesRef.current = reviewFees;
+  // Settles the flow waiting on the fee review, if one is
+  const feeReview = useRef<{
+    resolve: () => void;
+    reject: (error: unknown) => void;
+  } | null>(null);
 
   const [activeLoanOfferIds, setActiveLoanOfferIds] = useState<bigint[]>();
   const [lenderLoans, setLenderLoans] = useState<bigint[]>();
@@ -70,9 +170,7 @@ export const useP2PLending = () => {
 
   // Create ethers provider and signer
   const getProvider = useCallback(() => {
-    return new ethers.JsonRpcProvider(
-      DOMA_TESTNET_CONFIG.rpcUrls.default.http[0]
-    );
+    return new ethers.JsonRpcProvider(ACTIVE_CHAIN.rpcUrls.default.http[0]);
   }, []);
 
   const getSigner = useCallback(async () => {
@@ -83,31 +181,19 @@ export const useP2PLending = () => {
 
   // Create contract instances
   const getReadContract = useCallback(() => {
-    const provider = getProvider();
-    return new ethers.Contract(
-      DREAMLEND_CONTRACT_ADDRESS,
-      DREAMLEND_ABI,
-      provider
-    );
+    return connectDomaLend(getProvider());
   }, [getProvider]);
 
   const getWriteContract = useCallback(async () => {
-    const signer = await getSigner();
-    return new ethers.Contract(
-      DREAMLEND_CONTRACT_ADDRESS,
-      DREAMLEND_ABI,
-      signer
-    );
+    return connectDomaLend(await getSigner());
   }, [getSigner]);
 
   const getERC20Contract = useCallback(
     async (tokenAddress: string, needsSigner = false) => {
       if (needsSigner) {
-        const signer = await getSigner();
-        return new ethers.Contract(tokenAddress, ERC20_ABI, signer);
+        return connectERC20(tokenAddress, await getSigner());
       } else {
-        const provider = getProvider();
-        return new ethers.Contract(tokenAddress, ERC20_ABI, provider);
+        return connectERC20(tokenAddress, getProvider());
       }
     },
     [getSigner, getProvider]
@@ -115,14 +201,11 @@ export const useP2PLending = () => {
 
   // Reset transaction state
   const resetTransactionState = useCallback(() => {
-    setTransactionState({
-      isLoading: false,
-      isSuccess: false,
-      isError: false,
-      error: null,
-      hash: null,
-      step: "idle",
-    });
+    feeReview.current?.reject(REVIEW_DECLINED);
+    feeReview.current = null;
+    dispatch({ type: "RESET" });
+    feeRequests.current = null;
+    setFeeEstimate(null);
   }, []);
 
   // ============ READ FUNCTIONS ============
@@ -132,9 +215,7 @@ export const useP2PLending = () => {
       setIsLoadingOffers(true);
       const contract = getReadContract();
       const offers = await contract.getActiveLoanOffers();
-      setActiveLoanOfferIds(
-        offers.map((id: ethers.BigNumberish) => BigInt(id.toString()))
-      );
+      setActiveLoanOfferIds([...offers]);
     } catch (error) {
       console.error("Error fetching active loan offers:", error);
     } finally {
@@ -148,9 +229,7 @@ export const useP2PLending = () => {
       setIsLoadingLenderLoans(true);
       const contract = getReadContract();
       const loans = await contract.getLenderLoans(address);
-      setLenderLoans(
-        loans.map((id: ethers.BigNumberish) => BigInt(id.toString()))
-      );
+      setLenderLoans([...loans]);
     } catch (error) {
       console.error("Error fetching lender loans:", error);
     } finally {
@@ -164,9 +243,7 @@ export const useP2PLending = () => {
       setIsLoadingBorrowerLoans(true);
       const contract = getReadContract();
       const loans = await contract.getBorrowerLoans(address);
-      setBorrowerLoans(
-        loans.map((id: ethers.BigNumberish) => BigInt(id.toString()))
-      );
+      setBorrowerLoans([...loans]);
     } catch (error) {
       console.error("Error fetching borrower loans:", error);
     } finally {
@@ -179,28 +256,7 @@ export const useP2PLending = () => {
     async (loanId: bigint): Promise<Loan | null> => {
       try {
         const contract = getReadContract();
-        const loan = await contract.getLoan(loanId);
-        return {
-          id: BigInt(loan.id.toString()),
-          lender: loan.lender,
-          borrower: loan.borrower,
-          tokenAddress: loan.tokenAddress,
-          amount: BigInt(loan.amount.toString()),
-          interestRate: BigInt(loan.interestRate.toString()),
-          duration: BigInt(loan.duration.toString()),
-          collateralAddress: loan.collateralAddress,
-          collateralAmount: BigInt(loan.collateralAmount.toString()),
-          startTime: BigInt(loan.startTime.toString()),
-          status: loan.status,
-          minCollateralRatioBPS: BigInt(
-            loan.minCollateralRatioBPS?.toString() || "0"
-          ),
-          liquidationThresholdBPS: BigInt(
-            loan.liquidationThresholdBPS?.toString() || "0"
-          ),
-          maxPriceStaleness: BigInt(loan.maxPriceStaleness?.toString() || "0"),
-          repaidAmount: BigInt(loan.repaidAmount?.toString() || "0"),
-        };
+        return decodeLoan(await contract.getLoan(loanId));
       } catch (error) {
         console.error("Error fetching loan details:", error);
         return null;
@@ -218,8 +274,7 @@ export const useP2PLending = () => {
     ): Promise<bigint> => {
       try {
         const contract = await getERC20Contract(tokenAddress, false);
-        const allowance = await contract.allowance(owner, spender);
-        return BigInt(allowance.toString());
+        return await contract.allowance(owner, spender);
       } catch (error) {
         console.error("Error checking allowance:", error);
         return BigInt(0);
@@ -233,8 +288,7 @@ export const useP2PLending = () => {
     async (tokenAddress: string, account: string): Promise<bigint> => {
       try {
         const contract = await getERC20Contract(tokenAddress, false);
-        const balance = await contract.balanceOf(account);
-        return BigInt(balance.toString());
+        return await contract.balanceOf(account);
       } catch (error) {
         console.error("Error checking balance:", error);
         return BigInt(0);
@@ -243,51 +297,326 @@ export const useP2PLending = () => {
     [getERC20Contract]
   );
 
+  // ============ FEE ESTIMATES ============
+
+  // Re-estimate the current flow's transactions at the latest fee
+  const refreshFeeEstimate = useCallback(async () => {
+    const requests = feeRequests.current;
+    if (!requests || !address) return;
+    try {
+      const estimate = await estimateFees(getProvider(), address, requests);
+      // Drop results for a flow that has since been reset or replaced
+      if (feeRequests.current === requests) setFeeEstimate(estimate);
+    } catch (error) {
+      console.warn("Failed to estimate transaction fees:", error);
+    }
+  }, [address, getProvider]);
+
+  // Estimate the transactions a flow is about to send. With reviewFees the
+  // flow then waits for confirmFees, or rejects when the review is closed.
+  // Either way a failed estimate does not stop the flow.
+  const planFees = useCallback(
+    async (requests: FeeEstimateRequest[]) => {
+      feeRequests.current = requests;
+      setFeeEstimate(null);
+      if (!reviewFeesRef.current) {
+        await refreshFeeEstimate();
+        return;
+      }
+
+      const reviewed = new Promise<void>((resolve, reject) => {
+        feeReview.current = { resolve, reject };
+      });
+      dispatch({ type: "AWAIT_REVIEW" });
+      void refreshFeeEstimate();
+      await reviewed;
+    },
+    [refreshFeeEstimate]
+  );
+
+  // Go ahead with the flow waiting on its fee review
+  const confirmFees = useCallback(() => {
+    const review = feeReview.current;
+    if (!review) return;
+    feeReview.current = null;
+    dispatch({ type: "REVIEWED" });
+    review.resolve();
+  }, []);
+
+  const writeFee = useCallback(
+    (
+      step: FeeEstimateRequest["step"],
+      method: DomaLendWrite,
+      args: WriteArgs
+    ): FeeEstimateRequest => ({
+      step,
+      estimateGas: () =>
+        getReadContract()
+          .getFunction(method)
+          .estimateGas(...args, { from: address }),
+    }),
+    [address, getReadContract]
+  );
+
+  // The approval's fee, or none when the allowance already covers `amount`
+  const approvalFees = useCallback(
+    async (
+      tokenAddress: string,
+      amount: bigint
+    ): Promise<FeeEstimateRequest[]> => {
+      if (!address) return [];
+      const allowance = await checkAllowance(
+        tokenAddress,
+        address,
+        DREAMLEND_CONTRACT_ADDRESS
+      );
+      if (allowance >= amount) return [];
+
+      const token = await getERC20Contract(tokenAddress, false);
+      return [
+        {
+          step: "approving",
+          estimateGas: () =>
+            token
+              .getFunction("approve")
+              .estimateGas(
+                DREAMLEND_CONTRACT_ADDRESS,
+                approvalAmountFor(amount),
+                { from: address }
+              ),
+        },
+      ];
+    },
+    [address, checkAllowance, getERC20Contract]
+  );
+
   // ============ WRITE FUNCTIONS ============
 
+  // Run a write as an eth_call from the connected account first, so a revert
+  // is reported with its reason before the user pays gas for it. Writes that
+  // pull tokens pass ignoreAllowance: before the approval the transfer is
+  // bound to fail, and right after it the public RPC may not have seen it.
+  const simulateWrite = useCallback(
+    async (
+      method: DomaLendWrite,
+      args: WriteArgs,
+      options: { ignoreAllowance?: boolean } = {}
+    ) => {
+      try {
+        await getReadContract()
+          .getFunction(method)
+          .staticCall(...args, { from: address });
+      } catch (error: unknown) {
+        const txError = decodeTransactionError(
+          error,
+          `Simulating ${method} failed`,
+          { simulated: true }
+        );
+        if (
+          options.ignoreAllowance &&
+          (txError.code === "INSUFFICIENT_ALLOWANCE" ||
+            txError.code === "TOKEN_TRANSFER_FAILED")
+        ) {
+          return;
+        }
+        throw txError;
+      }
+    },
+    [address, getReadContract]
+  );
+
+  // Send a transaction and wait for TRANSACTION_CONFIRMATIONS. It is stored
+  // as pending until it settles, so a reload can recover it. One that is
+  // still unconfirmed after TRANSACTION_TIMEOUT leaves the state pending and
+  // keeps being watched, while the caller gets a TRANSACTION_PENDING error.
+  const sendTransaction = useCallback(
+    async (
+      send: () => Promise<ethers.TransactionResponse>,
+      intent: PendingTransactionIntent
+    ) => {
+      const confirmedStep =
+        intent.action === "approving" ? "approved" : "success";
+      let tx = await send();
+      addPendingTransaction(tx, intent);
+      dispatch({ type: "SUBMITTED", hash: tx.hash });
+
+      const followReplacement = (replacement: ethers.TransactionResponse) => {
+        replacePendingTransaction(tx.hash, replacement.hash);
+        tx = replacement;
+      };
+
+      try {
+        const receipt = await waitForTransaction(tx, {
+          onReplaced: (replacement) => {
+            followReplacement(replacement);
+            dispatch({ type: "REPLACED", hash: replacement.hash });
+          },
+          onConfirmation: (confirmations) =>
+            dispatch({ type: "CONFIRMATION", confirmations }),
+        });
+        settlePendingTransaction(tx.hash);
+        dispatch({ type: "CONFIRMED", step: confirmedStep });
+        return receipt;
+      } catch (error: unknown) {
+        if (!ethers.isError(error, "TIMEOUT")) {
+          settlePendingTransaction(tx.hash);
+          throw error;
+        }
+
+        dispatch({ type: "TIMEOUT" });
+        const pendingHash = tx.hash;
+        waitForTransaction(tx, { timeout: 0, onReplaced: followReplacement })
+          .then(() =>
+            dispatch({
+              type: "CONFIRMED",
+              step: confirmedStep,
+              hash: pendingHash,
+            })
+          )
+          .catch((watchError: unknown) =>
+            dispatch({
+              type: "FAILED",
+              error: decodeTransactionError(watchError),
+              hash: pendingHash,
+            })
+          )
+          .finally(() => settlePendingTransaction(tx.hash));
+        throw new TransactionError(
+          "TRANSACTION_PENDING",
+          TRANSACTION_ERRORS.TRANSACTION_PENDING.title
+        );
+      }
+    },
+    []
+  );
+
+  // Record a failed write and return it as a TransactionError to rethrow. A
+  // pending transaction has not failed, and neither has a flow closed at its
+  // fee review, so their state is left as it is.
+  const failTransaction = useCallback(
+    (error: unknown, fallbackMessage: string) => {
+      const txError = decodeTransactionError(error, fallbackMessage);
+      if (
+        txError.code !== "TRANSACTION_PENDING" &&
+        txError !== REVIEW_DECLINED
+      ) {
+        dispatch({ type: "FAILED", error: txError });
+      }
+      return txError;
+    },
+    []
+  );
+
+  // Approval step shared by the flows that pull tokens
+  const sendApproval = useCallback(
+    async (tokenAddress: string, amount: bigint) => {
+      const contract = await getERC20Contract(tokenAddress, true);
+      return sendTransaction(
+        () => contract.approve(DREAMLEND_CONTRACT_ADDRESS, amount),
+        { action: "approving", tokenAddress, amounts: { amount } }
+      );
+    },
+    [getERC20Contract, sendTransaction]
+  );
+
+  // Approval step of a flow: nothing when the allowance already covers it,
+  // a signed permit for the exact amount, submitted to the token, when the
+  // token supports EIP-2612, otherwise an approve transaction sized by the
+  // approval mode
+  const authorizeSpend = useCallback(
+    async (tokenAddress: string, amount: bigint): Promise<void> => {
+      if (!address) throw new Error("Wallet not connected");
+      const allowance = await checkAllowance(
+        tokenAddress,
+        address,
+        DREAMLEND_CONTRACT_ADDRESS
+      );
+      if (allowance >= amount) {
+        dispatch({ type: "ALLOWANCE_SUFFICIENT" });
+        return;
+      }
+
+      const provider = getProvider();
+      const domain = await detectPermitSupport(tokenAddress, provider);
+
+      if (domain) {
+        let permit: PermitSignature | null = null;
+        const signer = await getSigner();
+        try {
+          const token = connectContract(tokenAddress, PERMIT_ABI, provider);
+          permit = await signPermit(signer, domain, {
+            spender: DREAMLEND_CONTRACT_ADDRESS,
+            value: amount,
+            nonce: await token.nonces(address),
+          });
+        } catch (error: unknown) {
+          if (decodeTransactionError(error).code === "USER_REJECTED") {
+            throw error;
+          }
+          // e.g. a wallet without eth_signTypedData_v4
+          console.warn("Permit signature failed, approving instead:", error);
+        }
+
+        if (permit) {
+          const { value, deadline, v, r, s } = permit;
+          dispatch({ type: "PERMIT_SIGNED" });
+          const token = connectContract(tokenAddress, PERMIT_ABI, signer);
+          await sendTransaction(
+            () =>
+              token.permit(
+                address,
+                DREAMLEND_CONTRACT_ADDRESS,
+                value,
+                deadline,
+                v,
+                r,
+                s
+              ),
+            { action: "approving", tokenAddress, amounts: { amount } }
+          );
+          return;
+        }
+      }
+
+      await sendApproval(tokenAddress, approvalAmountFor(amount));
+    },
+    [
+      address,
+      checkAllowance,
+      getProvider,
+      getSigner,
+      sendApproval,
+      sendTransaction,
+    ]
+  );
+
   // Approve ERC20 tokens
   const approveToken = useCallback(
     async (tokenAddress: string, amount: bigint) => {
       if (!address) throw new Error("Wallet not connected");
 
-      setTransactionState({
-        isLoading: true,
-        isSuccess: false,
-        isError: false,
-        error: null,
-        hash: null,
-        step: "approving",
-      });
+      dispatch({ type: "START", step: "approving" });
 
       try {
-        const contract = await getERC20Contract(tokenAddress, true);
-        const tx = await contract.approve(DREAMLEND_CONTRACT_ADDRESS, amount);
-        await tx.wait();
-
-        setTransactionState((prev) => ({
-          ...prev,
-          hash: tx.hash,
-          step: "approved",
-          isLoading: false,
-          isSuccess: true,
-        }));
-
-        return tx.hash;
+        const token = await getERC20Contract(tokenAddress, false);
+        await planFees([
+          {
+            step: "approving",
+            estimateGas: () =>
+              token
+                .getFunction("approve")
+                .estimateGas(DREAMLEND_CONTRACT_ADDRESS, amount, {
+                  from: address,
+                }),
+          },
+        ]);
+        const receipt = await sendApproval(tokenAddress, amount);
+        return receipt.hash;
       } catch (error: unknown) {
-        const errorMessage =
-          error instanceof Error ? error.message : "Failed to approve tokens";
-        setTransactionState({
-          isLoading: false,
-          isSuccess: false,
-          isError: true,
-          error: errorMessage,
-          hash: null,
-          step: "error",
-        });
-        throw error;
+        throw failTransaction(error, "Failed to approve tokens");
       }
     },
-    [address, getERC20Contract]
+    [address, getERC20Contract, planFees, sendApproval, failTransaction]
   );
 
   // Create loan offer with two-step process
@@ -392,72 +721,62 @@ export const useP2PLending = () => {
           },
         });
 
+        const createArgs: WriteArgs<"createLoanOffer"> = [
+          formData.tokenAddress,
+          amount,
+          interestRate,
+          duration,
+          formData.collateralAddress,
+          collateralAmount,
+        ];
+
         // Step 1: Approve tokens
-        setTransactionState({
-          isLoading: true,
-          isSuccess: false,
-          isError: false,
-          error: null,
-          hash: null,
-          step: "approving",
+        dispatch({ type: "START", step: "approving" });
+        await planFees([
+          ...(await approvalFees(formData.tokenAddress, amount)),
+          writeFee("creating", "createLoanOffer", createArgs),
+        ]);
+
+        await simulateWrite("createLoanOffer", createArgs, {
+          ignoreAllowance: true,
         });
-
-        await approveToken(formData.tokenAddress, amount);
-
-        // Wait a bit for the approval to be processed
-        await new Promise((resolve) => setTimeout(resolve, 2000));
+        await authorizeSpend(formData.tokenAddress, amount);
 
         // Step 2: Create loan offer
-        setTransactionState((prev) => ({
-          ...prev,
-          step: "creating",
-        }));
+        dispatch({ type: "NEXT_STEP", step: "creating" });
 
+        await simulateWrite("createLoanOffer", createArgs, {
+          ignoreAllowance: true,
+        });
         const contract = await getWriteContract();
-        const tx = await contract.createLoanOffer(
-          formData.tokenAddress,
-          amount,
-          interestRate,
-          duration,
-          formData.collateralAddress,
-          collateralAmount
+        const receipt = await sendTransaction(
+          () => contract.createLoanOffer(...createArgs),
+          {
+            action: "creating",
+            tokenAddress: formData.tokenAddress,
+            amounts: { amount, collateralAmount },
+          }
         );
-        await tx.wait();
-
-        setTransactionState({
-          isLoading: false,
-          isSuccess: true,
-          isError: false,
-          error: null,
-          hash: tx.hash,
-          step: "success",
-        });
 
         // Refetch data
         await fetchActiveLoanOffers();
         await fetchLenderLoans();
 
-        return tx.hash;
+        return receipt.hash;
       } catch (error: unknown) {
-        const errorMessage =
-          error instanceof Error
-            ? error.message
-            : "Failed to create loan offer";
-        setTransactionState({
-          isLoading: false,
-          isSuccess: false,
-          isError: true,
-          error: errorMessage,
-          hash: null,
-          step: "error",
-        });
-        throw error;
+        throw failTransaction(error, "Failed to create loan offer");
       }
     },
     [
       address,
       getWriteContract,
-      approveToken,
+      simulateWrite,
+      planFees,
+      writeFee,
+      sendTransaction,
+      failTransaction,
+      authorizeSpend,
+      approvalFees,
       fetchActiveLoanOffers,
       fetchLenderLoans,
     ]
@@ -470,64 +789,56 @@ export const useP2PLending = () => {
 
       try {
         // Step 1: Approve collateral tokens
-        setTransactionState({
-          isLoading: true,
-          isSuccess: false,
-          isError: false,
-          error: null,
-          hash: null,
-          step: "approving",
+        dispatch({ type: "START", step: "approving" });
+        await planFees([
+          ...(await approvalFees(
+            loan.collateralAddress,
+            loan.collateralAmount
+          )),
+          writeFee("accepting", "acceptLoanOffer", [loanId]),
+        ]);
+
+        await simulateWrite("acceptLoanOffer", [loanId], {
+          ignoreAllowance: true,
         });
-
-        await approveToken(loan.collateralAddress, loan.collateralAmount);
-
-        // Wait a bit for the approval to be processed
-        await new Promise((resolve) => setTimeout(resolve, 2000));
+        await authorizeSpend(loan.collateralAddress, loan.collateralAmount);
 
         // Step 2: Accept loan offer
-        setTransactionState((prev) => ({
-          ...prev,
-          step: "accepting",
-        }));
+        dispatch({ type: "NEXT_STEP", step: "accepting" });
 
-        const contract = await getWriteContract();
-        const tx = await contract.acceptLoanOffer(loanId);
-        await tx.wait();
-
-        setTransactionState({
-          isLoading: false,
-          isSuccess: true,
-          isError: false,
-          error: null,
-          hash: tx.hash,
-          step: "success",
+        await simulateWrite("acceptLoanOffer", [loanId], {
+          ignoreAllowance: true,
         });
+        const contract = await getWriteContract();
+        const receipt = await sendTransaction(
+          () => contract.acceptLoanOffer(loanId),
+          {
+            action: "accepting",
+            loanId,
+            tokenAddress: loan.collateralAddress,
+            amounts: { collateralAmount: loan.collateralAmount },
+          }
+        );
 
         // Refetch data
         await fetchActiveLoanOffers();
         await fetchBorrowerLoans();
 
-        return tx.hash;
+        return receipt.hash;
       } catch (error: unknown) {
-        const errorMessage =
-          error instanceof Error
-            ? error.message
-            : "Failed to accept loan offer";
-        setTransactionState({
-          isLoading: false,
-          isSuccess: false,
-          isError: true,
-          error: errorMessage,
-          hash: null,
-          step: "error",
-        });
-        throw error;
+        throw failTransaction(error, "Failed to accept loan offer");
       }
     },
     [
       address,
       getWriteContract,
-      approveToken,
+      simulateWrite,
+      planFees,
+      writeFee,
+      sendTransaction,
+      failTransaction,
+      authorizeSpend,
+      approvalFees,
       fetchActiveLoanOffers,
       fetchBorrowerLoans,
     ]
@@ -548,62 +859,49 @@ export const useP2PLending = () => {
         const totalRepayment = loan.amount + interest;
 
         // Step 1: Approve repayment tokens
-        setTransactionState({
-          isLoading: true,
-          isSuccess: false,
-          isError: false,
-          error: null,
-          hash: null,
-          step: "approving",
-        });
+        dispatch({ type: "START", step: "approving" });
+        await planFees([
+          ...(await approvalFees(loan.tokenAddress, totalRepayment)),
+          writeFee("repaying", "repayLoan", [loanId]),
+        ]);
 
-        await approveToken(loan.tokenAddress, totalRepayment);
-
-        // Wait a bit for the approval to be processed
-        await new Promise((resolve) => setTimeout(resolve, 2000));
+        await simulateWrite("repayLoan", [loanId], { ignoreAllowance: true });
+        await authorizeSpend(loan.tokenAddress, totalRepayment);
 
         // Step 2: Repay loan
-        setTransactionState((prev) => ({
-          ...prev,
-          step: "repaying",
-        }));
+        dispatch({ type: "NEXT_STEP", step: "repaying" });
 
+        await simulateWrite("repayLoan", [loanId], { ignoreAllowance: true });
         const contract = await getWriteContract();
-        const tx = await contract.repayLoan(loanId);
-        await tx.wait();
-
-        setTransactionState({
-          isLoading: false,
-          isSuccess: true,
-          isError: false,
-          error: null,
-          hash: tx.hash,
-          step: "success",
-        });
+        const receipt = await sendTransaction(
+          () => contract.repayLoan(loanId),
+          {
+            action: "repaying",
+            loanId,
+            tokenAddress: loan.tokenAddress,
+            amounts: { totalRepayment },
+          }
+        );
 
         // Refetch data
         await fetchBorrowerLoans();
         await fetchLenderLoans();
 
-        return tx.hash;
+        return receipt.hash;
       } catch (error: unknown) {
-        const errorMessage =
-          error instanceof Error ? error.message : "Failed to repay loan";
-        setTransactionState({
-          isLoading: false,
-          isSuccess: false,
-          isError: true,
-          error: errorMessage,
-          hash: null,
-          step: "error",
-        });
-        throw error;
+        throw failTransaction(error, "Failed to repay loan");
       }
     },
     [
       address,
       getWriteContract,
-      approveToken,
+      simulateWrite,
+      planFees,
+      writeFee,
+      sendTransaction,
+      failTransaction,
+      authorizeSpend,
+      approvalFees,
       fetchBorrowerLoans,
       fetchLenderLoans,
     ]
@@ -615,47 +913,34 @@ export const useP2PLending = () => {
       if (!address) throw new Error("Wallet not connected");
 
       try {
-        setTransactionState({
-          isLoading: true,
-          isSuccess: false,
-          isError: false,
-          error: null,
-          hash: null,
-          step: "liquidating",
-        });
+        dispatch({ type: "START", step: "liquidating" });
+        await planFees([writeFee("liquidating", "liquidateLoan", [loanId])]);
 
+        await simulateWrite("liquidateLoan", [loanId]);
         const contract = await getWriteContract();
-        const tx = await contract.liquidateLoan(loanId);
-        await tx.wait();
-
-        setTransactionState({
-          isLoading: false,
-          isSuccess: true,
-          isError: false,
-          error: null,
-          hash: tx.hash,
-          step: "success",
-        });
+        const receipt = await sendTransaction(
+          () => contract.liquidateLoan(loanId),
+          { action: "liquidating", loanId }
+        );
 
         // Refetch data
         await fetchLenderLoans();
 
-        return tx.hash;
+        return receipt.hash;
       } catch (error: unknown) {
-        const errorMessage =
-          error instanceof Error ? error.message : "Failed to liquidate loan";
-        setTransactionState({
-          isLoading: false,
-          isSuccess: false,
-          isError: true,
-          error: errorMessage,
-          hash: null,
-          step: "error",
-        });
-        throw error;
+        throw failTransaction(error, "Failed to liquidate loan");
       }
     },
-    [address, getWriteContract, fetchLenderLoans]
+    [
+      address,
+      getWriteContract,
+      simulateWrite,
+      planFees,
+      writeFee,
+      sendTransaction,
+      failTransaction,
+      fetchLenderLoans,
+    ]
   );
 
   // Cancel loan offer
@@ -664,50 +949,36 @@ export const useP2PLending = () => {
       if (!address) throw new Error("Wallet not connected");
 
       try {
-        setTransactionState({
-          isLoading: true,
-          isSuccess: false,
-          isError: false,
-          error: null,
-          hash: null,
-          step: "cancelling",
-        });
+        dispatch({ type: "START", step: "cancelling" });
+        await planFees([writeFee("cancelling", "cancelLoanOffer", [loanId])]);
 
+        await simulateWrite("cancelLoanOffer", [loanId]);
         const contract = await getWriteContract();
-        const tx = await contract.cancelLoanOffer(loanId);
-        await tx.wait();
-
-        setTransactionState({
-          isLoading: false,
-          isSuccess: true,
-          isError: false,
-          error: null,
-          hash: tx.hash,
-          step: "success",
-        });
+        const receipt = await sendTransaction(
+          () => contract.cancelLoanOffer(loanId),
+          { action: "cancelling", loanId }
+        );
 
         // Refetch data
         await fetchActiveLoanOffers();
         await fetchLenderLoans();
 
-        return tx.hash;
+        return receipt.hash;
       } catch (error: unknown) {
-        const errorMessage =
-          error instanceof Error
-            ? error.message
-            : "Failed to cancel loan offer";
-        setTransactionState({
-          isLoading: false,
-          isSuccess: false,
-          isError: true,
-          error: errorMessage,
-          hash: null,
-          step: "error",
-        });
-        throw error;
+        throw failTransaction(error, "Failed to cancel loan offer");
       }
     },
-    [address, getWriteContract, fetchActiveLoanOffers, fetchLenderLoans]
+    [
+      address,
+      getWriteContract,
+      simulateWrite,
+      planFees,
+      writeFee,
+      sendTransaction,
+      failTransaction,
+      fetchActiveLoanOffers,
+      fetchLenderLoans,
+    ]
   );
 
   // ============ UTILITY FUNCTIONS ============
@@ -805,48 +1076,45 @@ export const useP2PLending = () => {
       if (!address) throw new Error("Wallet not connected");
 
       try {
-        setTransactionState({
-          isLoading: true,
-          isSuccess: false,
-          isError: false,
-          error: null,
-          hash: null,
-          step: "adding_collateral",
-        });
-
+        dispatch({ type: "START", step: "adding_collateral" });
+        await planFees([
+          writeFee("adding_collateral", "addCollateral", [
+            loanId,
+            additionalAmount,
+          ]),
+        ]);
+
+        await simulateWrite("addCollateral", [loanId, additionalAmount]);
         const contract = await getWriteContract();
-        const tx = await contract.addCollateral(loanId, additionalAmount);
-        await tx.wait();
-
-        setTransactionState({
-          isLoading: false,
-          isSuccess: true,
-          isError: false,
-          error: null,
-          hash: tx.hash,
-          step: "success",
-        });
+        const receipt = await sendTransaction(
+          () => contract.addCollateral(loanId, additionalAmount),
+          {
+            action: "adding_collateral",
+            loanId,
+            amounts: { amount: additionalAmount },
+          }
+        );
 
         // Refetch data
         await fetchBorrowerLoans();
         await fetchLenderLoans();
 
-        return tx.hash;
+        return receipt.hash;
       } catch (error: unknown) {
-        const errorMessage =
-          error instanceof Error ? error.message : "Failed to add collateral";
-        setTransactionState({
-          isLoading: false,
-          isSuccess: false,
-          isError: true,
-          error: errorMessage,
-          hash: null,
-          step: "error",
-        });
-        throw error;
+        throw failTransaction(error, "Failed to add collateral");
       }
     },
-    [address, getWriteContract, fetchBorrowerLoans, fetchLenderLoans]
+    [
+      address,
+      getWriteContract,
+      simulateWrite,
+      planFees,
+      writeFee,
+      sendTransaction,
+      failTransaction,
+      fetchBorrowerLoans,
+      fetchLenderLoans,
+    ]
   );
 
   // Remove collateral from loan
@@ -855,50 +1123,45 @@ export const useP2PLending = () => {
       if (!address) throw new Error("Wallet not connected");
 
       try {
-        setTransactionState({
-          isLoading: true,
-          isSuccess: false,
-          isError: false,
-          error: null,
-          hash: null,
-          step: "removing_collateral",
-        });
-
+        dispatch({ type: "START", step: "removing_collateral" });
+        await planFees([
+          writeFee("removing_collateral", "removeCollateral", [
+            loanId,
+            removeAmount,
+          ]),
+        ]);
+
+        await simulateWrite("removeCollateral", [loanId, removeAmount]);
         const contract = await getWriteContract();
-        const tx = await contract.removeCollateral(loanId, removeAmount);
-        await tx.wait();
-
-        setTransactionState({
-          isLoading: false,
-          isSuccess: true,
-          isError: false,
-          error: null,
-          hash: tx.hash,
-          step: "success",
-        });
+        const receipt = await sendTransaction(
+          () => contract.removeCollateral(loanId, removeAmount),
+          {
+            action: "removing_collateral",
+            loanId,
+            amounts: { amount: removeAmount },
+          }
+        );
 
         // Refetch data
         await fetchBorrowerLoans();
         await fetchLenderLoans();
 
-        return tx.hash;
+        return receipt.hash;
       } catch (error: unknown) {
-        const errorMessage =
-          error instanceof Error
-            ? error.message
-            : "Failed to remove collateral";
-        setTransactionState({
-          isLoading: false,
-          isSuccess: false,
-          isError: true,
-          error: errorMessage,
-          hash: null,
-          step: "error",
-        });
-        throw error;
+        throw failTransaction(error, "Failed to remove collateral");
       }
     },
-    [address, getWriteContract, fetchBorrowerLoans, fetchLenderLoans]
+    [
+      address,
+      getWriteContract,
+      simulateWrite,
+      planFees,
+      writeFee,
+      sendTransaction,
+      failTransaction,
+      fetchBorrowerLoans,
+      fetchLenderLoans,
+    ]
   );
 
   // Make partial repayment
@@ -908,64 +1171,56 @@ export const useP2PLending = () => {
 
       try {
         // Step 1: Approve repayment tokens
-        setTransactionState({
-          isLoading: true,
-          isSuccess: false,
-          isError: false,
-          error: null,
-          hash: null,
-          step: "approving",
+        dispatch({ type: "START", step: "approving" });
+        await planFees([
+          ...(await approvalFees(loan.tokenAddress, repaymentAmount)),
+          writeFee("partial_repaying", "makePartialRepayment", [
+            loanId,
+            repaymentAmount,
+          ]),
+        ]);
+
+        await simulateWrite("makePartialRepayment", [loanId, repaymentAmount], {
+          ignoreAllowance: true,
         });
-
-        await approveToken(loan.tokenAddress, repaymentAmount);
-
-        // Wait a bit for the approval to be processed
-        await new Promise((resolve) => setTimeout(resolve, 2000));
+        await authorizeSpend(loan.tokenAddress, repaymentAmount);
 
         // Step 2: Make partial repayment
-        setTransactionState((prev) => ({
-          ...prev,
-          step: "partial_repaying",
-        }));
+        dispatch({ type: "NEXT_STEP", step: "partial_repaying" });
 
-        const contract = await getWriteContract();
-        const tx = await contract.makePartialRepayment(loanId, repaymentAmount);
-        await tx.wait();
-
-        setTransactionState({
-          isLoading: false,
-          isSuccess: true,
-          isError: false,
-          error: null,
-          hash: tx.hash,
-          step: "success",
+        await simulateWrite("makePartialRepayment", [loanId, repaymentAmount], {
+          ignoreAllowance: true,
         });
+        const contract = await getWriteContract();
+        const receipt = await sendTransaction(
+          () => contract.makePartialRepayment(loanId, repaymentAmount),
+          {
+            action: "partial_repaying",
+            loanId,
+            tokenAddress: loan.tokenAddress,
+            amounts: { amount: repaymentAmount },
+          }
+        );
 
         // Refetch data
         await fetchBorrowerLoans();
         await fetchLenderLoans();
 
-        return tx.hash;
+        return receipt.hash;
       } catch (error: unknown) {
-        const errorMessage =
-          error instanceof Error
-            ? error.message
-            : "Failed to make partial repayment";
-        setTransactionState({
-          isLoading: false,
-          isSuccess: false,
-          isError: true,
-          error: errorMessage,
-          hash: null,
-          step: "error",
-        });
-        throw error;
+        throw failTransaction(error, "Failed to make partial repayment");
       }
     },
     [
       address,
       getWriteContract,
-      approveToken,
+      simulateWrite,
+      planFees,
+      writeFee,
+      sendTransaction,
+      failTransaction,
+      authorizeSpend,
+      approvalFees,
       fetchBorrowerLoans,
       fetchLenderLoans,
     ]
@@ -992,26 +1247,21 @@ export const useP2PLending = () => {
   );
 
   // Get loan health factor
-  const getLoanHealthFactor = useCallback(
-    async (loanId: bigint) => {
-      try {
-        const contract = await getReadContract();
-        const result = await contract.getLoanHealthFactor(loanId);
-        return {
-          currentRatio: result[0],
-          priceStale: result[1],
-        };
-      } catch (error) {
-        console.error("Failed to get loan health factor:", error);
-        throw error;
-      }
-    },
-    [getReadContract]
-  );
+  const getLoanHealthFactor = useCallback(async (loanId: bigint) => {
+    try {
+      return await readLoanHealthFactor(loanId);
+    } catch (error) {
+      console.error("Failed to get loan health factor:", error);
+      throw error;
+    }
+  }, []);
 
   return {
     // State
     transactionState,
+    feeEstimate,
+    refreshFeeEstimate,
+    confirmFees,
 
     // Account info
     address,
@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  isOwnPendingTransaction,
+  readPendingTransactions,
+  removePendingTransaction,
+  subscribePendingTransactions,
+  PendingTransaction,
+  PENDING_ACTION_LABELS,
+} from "@/lib/pendingTransactions";
+import type { TransactionActionStep } from "@/lib/transactionMachine";
+import type { LoanEventCollection } from "@/hooks/useLoanEventStream";
+import { invalidateLoanEventCaches } from "@/hooks/useSubgraphQuery";
+import { getOnChainProvider } from "@/lib/onChainLoans";
+
+// =================================================================
+// Pending transaction recovery
+// =================================================================
+// Transactions left pending by an earlier page load, or by another tab, are
+// polled here until their receipt shows up. The cached event collections
+// they change are then invalidated so the next read includes them.
+
+export type { PendingTransaction };
+
+const POLL_INTERVAL = 15 * 1000; // 15 seconds
+
+// Forget a hash the chain never saw after this long
+const MAX_PENDING_AGE = 24 * 60 * 60 * 1000; // 24 hours
+
+// Event collections each action adds to
+const ACTION_COLLECTIONS: Record<TransactionActionStep, LoanEventCollection[]> =
+  {
+    approving: [],
+    creating: ["loanCreateds"],
+    accepting: ["loanAccepteds", "loanOfferRemoveds"],
+    repaying: ["loanRepaids"],
+    liquidating: ["loanLiquidateds"],
+    cancelling: ["loanOfferCancelleds", "loanOfferRemoveds"],
+    adding_collateral: ["collateralAddeds"],
+    removing_collateral: ["collateralRemoveds"],
+    partial_repaying: ["partialRepayments"],
+  };
+
+const listeners = new Set<(pending: PendingTransaction[]) => void>();
+
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let polling = false;
+let stopWatchingStorage: (() => void) | null = null;
+
+/**
+ * Stop tracking a transaction that has been mined, reverted or replaced, and
+ * invalidate the caches it affects. Safe to call more than once.
+ */
+export const settlePendingTransaction = (hash: string) => {
+  const settled = removePendingTransaction(hash);
+  if (settled) invalidateLoanEventCaches(ACTION_COLLECTIONS[settled.action]);
+  return settled;
+};
+
+const labelOf = (pending: PendingTransaction) =>
+  pending.loanId
+    ? `${PENDING_ACTION_LABELS[pending.action]} #${pending.loanId}`
+    : PENDING_ACTION_LABELS[pending.action];
+
+const recover = async (pending: PendingTransaction) => {
+  const provider = getOnChainProvider();
+  const receipt = await provider.getTransactionReceipt(pending.hash);
+  if (receipt) {
+    settlePendingTransaction(pending.hash);
+    if (receipt.status === 1) {
+      toast.success(`${labelOf(pending)} confirmed`);
+    } else {
+      toast.error(`${labelOf(pending)} failed`, {
+        description: "The transaction reverted on-chain.",
+      });
+    }
+    return;
+  }
+
+  // No receipt, but the nonce is used: something else took its place
+  const nonce = await provider.getTransactionCount(pending.from, "latest");
+  if (nonce > pending.nonce) {
+    settlePendingTransaction(pending.hash);
+    toast.info(`${labelOf(pending)} was replaced`, {
+      description: "Your wallet sent a different transaction in its place.",
+    });
+  } else if (Date.now() - pending.submittedAt > MAX_PENDING_AGE) {
+    removePendingTransaction(pending.hash);
+  }
+};
+
+const poll = async () => {
+  if (polling) return;
+  polling = true;
+  try {
+    // Transactions sent from this tab are followed by whoever sent them
+    const orphaned = readPendingTransactions().filter(
+      (pending) => !isOwnPendingTransaction(pending.hash)
+    );
+    for (const pending of orphaned) {
+      try {
+        await recover(pending);
+      } catch (err) {
+        console.warn(`Failed to check transaction ${pending.hash}:`, err);
+      }
+    }
+  } finally {
+    polling = false;
+  }
+};
+
+const notify = () => {
+  const pending = readPendingTransactions();
+  listeners.forEach((listener) => listener(pending));
+};
+
+const subscribe = (listener: (pending: PendingTransaction[]) => void) => {
+  listeners.add(listener);
+  if (!pollTimer) {
+    stopWatchingStorage = subscribePendingTransactions(notify);
+    poll();
+    pollTimer = setInterval(poll, POLL_INTERVAL);
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+      stopWatchingStorage?.();
+      stopWatchingStorage = null;
+    }
+  };
+};
+
+/**
+ * Transactions that were submitted but have not been seen to settle yet.
+ * While anything is subscribed, ones left over from earlier page loads are
+ * polled until their receipt arrives.
+ */
+export function usePendingTransactions(): PendingTransaction[] {
+  // Starts empty so the first client render matches the server
+  const [pending, setPending] = useState<PendingTransaction[]>([]);
+
+  useEffect(() => {
+    setPending(readPendingTransactions());
+    return subscribe(setPending);
+  }, []);
+
+  return pending;
+}
@@ -0,0 +1,38 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import {
+  DEFAULT_REFRESH_INTERVAL,
+  PriceKind,
+  priceStore,
+} from "@/lib/priceStore";
+
+/**
+ * Prices of `kind` for `addresses` from the shared price store, keyed by
+ * lowercased address. The addresses are polled while the component is
+ * mounted, at least every `refreshInterval` ms (0 reads them once), and it
+ * re-renders when they are read, not when unrelated prices change.
+ */
+export const usePrices = <K extends PriceKind>(
+  kind: K,
+  addresses: string[],
+  { refreshInterval = DEFAULT_REFRESH_INTERVAL } = {}
+) => {
+  // Callers often build the list on every render
+  const key = [...new Set(addresses.map((address) => address.toLowerCase()))]
+    .sort()
+    .join(",");
+
+  const { subscribe, getSnapshot } = useMemo(() => {
+    const held = key ? key.split(",") : [];
+    return {
+      subscribe: (listener: () => void) =>
+        priceStore.subscribe(kind, held, listener, refreshInterval),
+      getSnapshot: priceStore.selector(kind, held),
+    };
+  }, [kind, key, refreshInterval]);
+
+  const selection = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const refresh = useCallback(() => priceStore.refresh(), []);
+
+  return { ...selection, refresh };
+};
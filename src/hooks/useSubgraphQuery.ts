@@ -1,69 +1,89 @@
 import { useState, useEffect, useCallback } from "react";
 import React from "react";
+import {
+  eventKey,
+  processLoanEvents,
+  reconcileEvents,
+  LoanEventCollections,
+  LoggedEvent,
+} from "@/lib/loanEvents";
+import {
+  useLoanEventStream,
+  LiveLoanEvent,
+  LoanEventCollection,
+} from "@/hooks/useLoanEventStream";
+import {
+  useIndexerHealth,
+  useOnChainLoans,
+  LoanDataSource,
+  getDegradedReason,
+} from "@/hooks/useLoanDataSource";
+import {
+  reportIndexerFreshness,
+  IndexerFreshness,
+} from "@/hooks/useIndexerFreshness";
+import { reportDroppedEvents } from "@/hooks/useLoanConfirmations";
+import {
+  buildPersistedQueryBody,
+  GraphQLVariables,
+} from "@/lib/graphql/persistedQueries";
+import {
+  LOAN_CREATEDS_PAGE_QUERY,
+  LOAN_ACCEPTEDS_PAGE_QUERY,
+  LOAN_REPAIDS_PAGE_QUERY,
+  LOAN_LIQUIDATEDS_PAGE_QUERY,
+  LOAN_OFFER_CANCELLEDS_PAGE_QUERY,
+  LOAN_OFFER_REMOVEDS_PAGE_QUERY,
+  PARTIAL_REPAYMENTS_PAGE_QUERY,
+  COLLATERAL_ADDEDS_PAGE_QUERY,
+  COLLATERAL_REMOVEDS_PAGE_QUERY,
+  PROTOCOL_STATS_QUERY,
+  EVENT_LOG_POSITION,
+} from "@/lib/graphql/queries";
+import {
+  CacheEntry,
+  getCacheEntry,
+  restoreCacheEntry,
+  setCacheEntry,
+  invalidateCacheEntries,
+  subscribeToCacheEntry,
+} from "@/lib/graphql/subgraphCache";
+import type {
+  DataOf,
+  EntityOf,
+  PageVariables,
+  ResultOf,
+  TypedDocument,
+} from "@/lib/graphql/document";
 
 // =================================================================
 // 1. Type Definitions for Subgraph Entities
 // =================================================================
-// These types should match the schema of your subgraph entities.
-
-export interface LoanCreatedEvent {
-  amount: string;
-  blockNumber: string;
-  blockTimestamp: string;
-  collateralAddress: string;
-  collateralAmount: string;
-  duration: string;
-  id: string;
-  interestRate: string;
-  lender: string;
-  liquidationThresholdBPS: string;
-  loanId: string;
-  maxPriceStaleness: string;
-  minCollateralRatioBPS: string;
-  tokenAddress: string;
-  transactionHash: string;
-  // Historical price data from when loan was created
-  priceUSD: string; // Price of loan token at creation time
-  amountUSD: string; // USD value of loan amount at creation time
-}
-
-export interface LoanAcceptedEvent {
-  id: string;
-  loanId: string;
-  borrower: string;
-  timestamp: string;
-  initialCollateralRatio: string;
-}
-
-export interface LoanRepaidEvent {
-  id: string;
-  loanId: string;
-  borrower: string;
-  repaymentAmount: string;
-  timestamp: string;
-}
-
-export interface LoanLiquidatedEvent {
-  id: string;
-  loanId: string;
-  liquidator: string;
-  collateralClaimedByLender: string;
-  liquidatorReward: string;
-  timestamp: string;
-}
-
-export interface LoanOfferCancelledEvent {
-  id: string;
-  loanId: string;
-  lender: string;
-  timestamp: string;
-}
-
-export interface LoanOfferRemovedEvent {
-  id: string;
-  loanId: string;
-  reason: string;
-}
+// Derived from the selection sets in queries.ts, so a hook always returns
+// exactly the fields its document asks for.
+
+export type EventLogPosition = ResultOf<typeof EVENT_LOG_POSITION>;
+
+export type LoanCreatedEvent = EntityOf<typeof LOAN_CREATEDS_PAGE_QUERY>;
+export type LoanAcceptedEvent = EntityOf<typeof LOAN_ACCEPTEDS_PAGE_QUERY>;
+export type LoanRepaidEvent = EntityOf<typeof LOAN_REPAIDS_PAGE_QUERY>;
+export type LoanLiquidatedEvent = EntityOf<typeof LOAN_LIQUIDATEDS_PAGE_QUERY>;
+export type LoanOfferCancelledEvent = EntityOf<
+  typeof LOAN_OFFER_CANCELLEDS_PAGE_QUERY
+>;
+export type LoanOfferRemovedEvent = EntityOf<
+  typeof LOAN_OFFER_REMOVEDS_PAGE_QUERY
+>;
+export type PartialRepaymentEvent = EntityOf<
+  typeof PARTIAL_REPAYMENTS_PAGE_QUERY
+>;
+export type CollateralAddedEvent = EntityOf<
+  typeof COLLATERAL_ADDEDS_PAGE_QUERY
+>;
+export type CollateralRemovedEvent = EntityOf<
+  typeof COLLATERAL_REMOVEDS_PAGE_QUERY
+>;
+export type ProtocolStatsCollection = EntityOf<typeof PROTOCOL_STATS_QUERY>;
 
 export interface OwnershipTransferredEvent {
   id: string;
@@ -88,26 +108,83 @@ interface UseSubgraphQueryState<T> {
   error: string | null;
 }
 
-// Cache implementation
-interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-  expiresAt: number;
-}
-
-const queryCache = new Map<string, CacheEntry<any>>();
+// Cache implementation (see lib/graphql/subgraphCache.ts). Entries written
+// with `persist` survive reloads; every write reaches the other open tabs.
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 const STALE_WHILE_REVALIDATE_DURATION = 2 * 60 * 1000; // 2 minutes
+// A failed scan is retried in the background on this interval until it
+// succeeds, which also ends the degraded mode its error switched on
+const ERROR_RETRY_INTERVAL = 30 * 1000; // 30 seconds
+
+// POST a persisted query through the /api/subgraph proxy and unwrap the
+// GraphQL envelope, along with the indexer freshness the proxy measured for
+// it. The document must be one of SUBGRAPH_QUERY_ALLOWLIST.
+async function fetchSubgraphResult<TRoot extends string, TEntity, TVariables>(
+  document: TypedDocument<TRoot, TEntity, TVariables>,
+  variables?: TVariables
+): Promise<{
+  data: DataOf<typeof document>;
+  indexer: IndexerFreshness | null;
+}> {
+  const apiUrl = `${window.location.origin}/api/subgraph`;
+  const response = await fetch(apiUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(
+      await buildPersistedQueryBody(
+        document.query,
+        variables as GraphQLVariables | undefined
+      )
+    ),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Network response was not ok");
+  }
+
+  const result = await response.json();
+  if (result.extensions?.indexer) {
+    reportIndexerFreshness(result.extensions.indexer);
+  }
+  if (result.errors) {
+    throw new Error(result.errors.map((e: Error) => e.message).join("\n"));
+  }
+
+  return { data: result.data, indexer: result.extensions?.indexer ?? null };
+}
 
-export function useSubgraphQuery<T>(
-  query: string,
-  options: { cacheKey?: string; cacheDuration?: number } = {}
-): UseSubgraphQueryState<T> {
-  const { cacheKey = query, cacheDuration = CACHE_DURATION } = options;
+async function postSubgraphQuery<TRoot extends string, TEntity, TVariables>(
+  document: TypedDocument<TRoot, TEntity, TVariables>,
+  variables?: TVariables
+): Promise<DataOf<typeof document>> {
+  return (await fetchSubgraphResult(document, variables)).data;
+}
+
+export function useSubgraphQuery<TRoot extends string, TEntity, TVariables>(
+  document: TypedDocument<TRoot, TEntity, TVariables>,
+  options: {
+    cacheKey?: string;
+    cacheDuration?: number;
+    variables?: TVariables;
+    // Keep the entry in localStorage across reloads
+    persist?: boolean;
+  } = {}
+): UseSubgraphQueryState<DataOf<typeof document>> {
+  type T = DataOf<typeof document>;
+  const { query } = document;
+  const { variables } = options;
+  // Serialised so callers can pass inline objects without refetch loops
+  const variablesKey = variables ? JSON.stringify(variables) : "";
+  const {
+    cacheKey = variablesKey ? `${query}:${variablesKey}` : query,
+    cacheDuration = CACHE_DURATION,
+    persist = false,
+  } = options;
 
   const [state, setState] = useState<UseSubgraphQueryState<T>>(() => {
     // Check cache on initial render
-    const cached = queryCache.get(cacheKey);
+    const cached = getCacheEntry<T>(cacheKey);
     if (cached && cached.expiresAt > Date.now()) {
       return {
         data: cached.data,
@@ -129,34 +206,20 @@ export function useSubgraphQuery<T>(
       }
 
       try {
-        const apiUrl = `${window.location.origin}/api/subgraph`;
-        const response = await fetch(apiUrl, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ query }),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || "Network response was not ok");
-        }
-
-        const result = await response.json();
-        if (result.errors) {
-          throw new Error(
-            result.errors.map((e: Error) => e.message).join("\n")
-          );
-        }
+        const data: T = await postSubgraphQuery(
+          document,
+          variablesKey ? JSON.parse(variablesKey) : undefined
+        );
 
         // Update cache
         const now = Date.now();
-        queryCache.set(cacheKey, {
-          data: result.data,
-          timestamp: now,
-          expiresAt: now + cacheDuration,
-        });
+        setCacheEntry(
+          cacheKey,
+          { data, timestamp: now, expiresAt: now + cacheDuration },
+          { persist }
+        );
 
-        setState({ data: result.data, loading: false, error: null });
+        setState({ data, loading: false, error: null });
       } catch (err: unknown) {
         setState((prev) => ({
           ...prev,
@@ -166,13 +229,24 @@ export function useSubgraphQuery<T>(
         console.error("Failed to fetch from subgraph proxy:", err);
       }
     },
-    [query, cacheKey, cacheDuration]
+    [document, variablesKey, cacheKey, cacheDuration, persist]
+  );
+
+  // Pick up results fetched by other hooks or tabs
+  useEffect(
+    () =>
+      subscribeToCacheEntry<T>(cacheKey, (entry) =>
+        setState({ data: entry.data, loading: false, error: null })
+      ),
+    [cacheKey]
   );
 
   useEffect(() => {
     if (!query) return;
 
-    const cached = queryCache.get(cacheKey);
+    const cached = persist
+      ? restoreCacheEntry<T>(cacheKey)
+      : getCacheEntry<T>(cacheKey);
     const now = Date.now();
 
     if (cached) {
@@ -194,149 +268,403 @@ export function useSubgraphQuery<T>(
 
     // No cache or cache is too old, fetch normally
     fetchData(false);
-  }, [query, cacheKey, fetchData]);
+  }, [query, cacheKey, persist, fetchData]);
 
   return state;
 }
 
-// Function to invalidate cache entries
-export function invalidateSubgraphCache(pattern?: string) {
-  if (pattern) {
-    // Invalidate entries matching pattern
-    for (const [key] of queryCache) {
-      if (key.includes(pattern)) {
-        queryCache.delete(key);
+// =================================================================
+// 2b. Paginated Fetch Hook
+// =================================================================
+// Pulls a single entity collection page by page with first/skip and merges
+// the pages into the cache. Only page documents (see definePageQuery) are
+// accepted. The first page is rendered as soon as it arrives; later pages
+// stream in behind it.
+
+const DEFAULT_PAGE_SIZE = 100;
+// Safety net for indexers that ignore `skip` and keep returning page one
+const MAX_PAGES = 100;
+
+interface UseSubgraphPaginatedQueryState<T> extends UseSubgraphQueryState<T> {
+  // True once every page has been fetched
+  isComplete: boolean;
+}
+
+export interface PaginatedQueryOptions {
+  cacheKey: string;
+  cacheDuration?: number;
+  pageSize?: number;
+  // Keep the collection in localStorage across reloads
+  persist?: boolean;
+}
+
+// Merge a page into the items seen so far, keyed by (transactionHash,
+// logIndex). Pages are ordered newest first, so events indexed mid-scan can
+// shift an item onto the next page; keying by log drops those repeats.
+const mergePage = <TItem extends LoggedEvent>(
+  items: TItem[],
+  page: TItem[]
+): { items: TItem[]; added: number } => {
+  const seen = new Set(items.map(eventKey));
+  const fresh = page.filter((item) => !seen.has(eventKey(item)));
+  return { items: [...items, ...fresh], added: fresh.length };
+};
+
+// The last complete list of each collection, which the next full scan is
+// reconciled against. Kept apart from the cache because a foreground scan
+// overwrites the cached entry with its first page, and a confirmed
+// transaction invalidates it, well before that scan completes.
+const reconcileBaselines = new Map<string, LoggedEvent[]>();
+
+export function useSubgraphPaginatedQuery<
+  TEntity extends string,
+  TItem extends LoggedEvent,
+>(
+  document: TypedDocument<TEntity, TItem, PageVariables>,
+  options: PaginatedQueryOptions
+): UseSubgraphPaginatedQueryState<Record<TEntity, TItem[]>> {
+  const { root: entity } = document;
+  const {
+    cacheKey,
+    cacheDuration = CACHE_DURATION,
+    pageSize = DEFAULT_PAGE_SIZE,
+    persist = false,
+  } = options;
+
+  type Data = Record<TEntity, TItem[]>;
+
+  const [state, setState] = useState<UseSubgraphPaginatedQueryState<Data>>(
+    () => {
+      const cached = getCacheEntry<Data>(cacheKey);
+      const isComplete = cached?.complete !== false;
+      if (cached && cached.expiresAt > Date.now() && isComplete) {
+        return { data: cached.data, loading: false, error: null, isComplete };
       }
+      return {
+        data: cached?.data || null, // Use stale data if available
+        loading: !cached,
+        error: null,
+        isComplete: false,
+      };
     }
-  } else {
-    // Clear all cache
-    queryCache.clear();
-  }
+  );
+
+  const fetchPages = useCallback(
+    async (isBackground: boolean, isCancelled: () => boolean) => {
+      if (!isBackground) {
+        setState((prev) => ({
+          ...prev,
+          loading: prev.data === null,
+          error: null,
+          isComplete: false,
+        }));
+      }
+
+      const cached = getCacheEntry<Data>(cacheKey);
+      if (cached && cached.complete !== false) {
+        reconcileBaselines.set(cacheKey, cached.data[entity] || []);
+      }
+
+      let items: TItem[] = [];
+      let complete = false;
+      // The indexer's last processed block as the scan started
+      let headBlock: bigint | null = null;
+
+      try {
+        for (let page = 0; page < MAX_PAGES; page++) {
+          const { data: result, indexer } = await fetchSubgraphResult(
+            document,
+            { first: pageSize, skip: page * pageSize }
+          );
+          if (isCancelled()) return;
+          if (page === 0 && indexer?.lastProcessedBlock != null) {
+            headBlock = BigInt(indexer.lastProcessedBlock);
+          }
+
+          const pageItems = result?.[entity] || [];
+          const merged = mergePage(items, pageItems);
+          items = merged.items;
+          complete = pageItems.length < pageSize || merged.added === 0;
+
+          // A full scan replaces the last complete list; anything it no
+          // longer contains was reorged out of the chain
+          const baseline = reconcileBaselines.get(cacheKey) as
+            TItem[] | undefined;
+          if (complete && baseline) {
+            const reconciled = reconcileEvents(baseline, items, headBlock);
+            items = reconciled.items;
+            reportDroppedEvents(reconciled.dropped);
+          }
+          if (complete) reconcileBaselines.set(cacheKey, items);
+
+          // A background refresh keeps serving the previous, complete list
+          // until the new one has caught up with it
+          if (!isBackground || complete) {
+            const data = { [entity]: items } as Data;
+            const now = Date.now();
+            setCacheEntry(
+              cacheKey,
+              {
+                data,
+                timestamp: now,
+                expiresAt: now + cacheDuration,
+                complete,
+              },
+              { persist }
+            );
+            setState({
+              data,
+              loading: false,
+              error: null,
+              isComplete: complete,
+            });
+          }
+
+          if (complete) break;
+        }
+      } catch (err: unknown) {
+        if (isCancelled()) return;
+        setState((prev) => ({
+          ...prev,
+          loading: false,
+          error: err instanceof Error ? err.message : String(err),
+        }));
+        console.error(
+          `Failed to fetch ${entity} page from subgraph proxy:`,
+          err
+        );
+        return;
+      }
+
+      if (!complete && !isCancelled()) {
+        console.warn(`Stopped paging ${entity} after ${MAX_PAGES} pages`);
+        setState((prev) => ({ ...prev, isComplete: true }));
+      }
+    },
+    [entity, document, pageSize, cacheKey, cacheDuration, persist]
+  );
+
+  // Adopt a complete collection written by other hooks or tabs. Partial
+  // scans are ignored so this hook never drops back to fewer items.
+  useEffect(
+    () =>
+      subscribeToCacheEntry<Data>(cacheKey, (entry) => {
+        if (entry.complete === false) return;
+        setState({
+          data: entry.data,
+          loading: false,
+          error: null,
+          isComplete: true,
+        });
+      }),
+    [cacheKey]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    const isCancelled = () => cancelled;
+
+    const cached: CacheEntry<Data> | undefined = persist
+      ? restoreCacheEntry<Data>(cacheKey)
+      : getCacheEntry<Data>(cacheKey);
+    const now = Date.now();
+
+    if (cached && cached.complete !== false) {
+      if (cached.expiresAt > now) {
+        // Cache is fresh, use it
+        setState({
+          data: cached.data,
+          loading: false,
+          error: null,
+          isComplete: true,
+        });
+        return;
+      } else if (
+        cached.timestamp + cacheDuration + STALE_WHILE_REVALIDATE_DURATION >
+        now
+      ) {
+        // Cache is stale but within stale-while-revalidate window
+        setState({
+          data: cached.data,
+          loading: false,
+          error: null,
+          isComplete: true,
+        });
+        fetchPages(true, isCancelled);
+        return () => {
+          cancelled = true;
+        };
+      }
+    }
+
+    // No cache, a partial scan or cache is too old: page through from the start
+    fetchPages(false, isCancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, [cacheKey, cacheDuration, persist, fetchPages]);
+
+  // Keep retrying after a failure, serving what was loaded meanwhile
+  const hasError = state.error !== null;
+  useEffect(() => {
+    if (!hasError) return;
+    let cancelled = false;
+    const interval = setInterval(
+      () => fetchPages(true, () => cancelled),
+      ERROR_RETRY_INTERVAL
+    );
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [hasError, fetchPages]);
+
+  return state;
+}
+
+// Function to invalidate cache entries, in this tab and every other open tab.
+// Without a pattern the whole cache is cleared.
+export function invalidateSubgraphCache(pattern?: string) {
+  invalidateCacheEntries({ pattern });
 }
 
 // Function to manually refresh a specific query
 export function refreshSubgraphQuery(cacheKey: string) {
-  queryCache.delete(cacheKey);
+  invalidateCacheEntries({ key: cacheKey });
 }
 
 // =================================================================
 // 3. Specific Hooks for Each Event (The API for your components)
 // =================================================================
 // These hooks are what your components will actually use. They provide
-// the correct query and type to the generic hook.
+// the correct query and type to the generic hook. Event collections are
+// paged so large histories do not block the first render.
+
+const EVENT_CACHE_DURATION = 3 * 60 * 1000; // 3 minutes for loan events
+
+// Cache key of each event collection, shared with the live event stream
+const EVENT_CACHE_KEYS: Record<LoanEventCollection, string> = {
+  loanCreateds: "loanCreatedEvents",
+  loanAccepteds: "loanAcceptedEvents",
+  loanRepaids: "loanRepaidEvents",
+  loanLiquidateds: "loanLiquidatedEvents",
+  loanOfferCancelleds: "loanOfferCancelledEvents",
+  loanOfferRemoveds: "loanOfferRemovedEvents",
+  partialRepayments: "partialRepaymentEvents",
+  collateralAddeds: "collateralAddedEvents",
+  collateralRemoveds: "collateralRemovedEvents",
+};
+
+// Drop the cached collections a confirmed transaction wrote to, along with
+// the /api/loans pages built from them
+export function invalidateLoanEventCaches(collections: LoanEventCollection[]) {
+  collections.forEach((collection) =>
+    invalidateCacheEntries({ key: EVENT_CACHE_KEYS[collection] })
+  );
+  invalidateCacheEntries({ pattern: "loans:" });
+}
+
+// Prepend a streamed event to its cached collection. Mounted hooks pick it
+// up through the cache subscription; collections that were never fetched
+// are left alone and will include the event when they are.
+export function applyLiveLoanEvent({ collection, event }: LiveLoanEvent) {
+  const cacheKey = EVENT_CACHE_KEYS[collection];
+  const key = eventKey(event);
+
+  // A scan under way is reconciled against the baseline, which has to hold
+  // the event for the scan to keep it when it was indexed too late to be seen
+  const baseline = reconcileBaselines.get(cacheKey);
+  if (baseline && !baseline.some((item) => eventKey(item) === key)) {
+    reconcileBaselines.set(cacheKey, [event, ...baseline]);
+  }
 
-const defaultQueryOptions = `(first: 100, orderBy: blockTimestamp, orderDirection: desc)`;
+  const cached = getCacheEntry<Record<string, LoggedEvent[]>>(cacheKey);
+  if (!cached) return;
+
+  const items = cached.data[collection] || [];
+  if (items.some((item) => eventKey(item) === key)) return;
+
+  setCacheEntry(
+    cacheKey,
+    { ...cached, data: { ...cached.data, [collection]: [event, ...items] } },
+    { persist: true }
+  );
+}
 
 // Hook to get LoanCreated events
-export const useLoanCreatedEvents = () => {
-  const query = `query GetLoanCreateds {
-    loanCreateds${defaultQueryOptions} {
-      amount
-      blockNumber
-      blockTimestamp
-      collateralAddress
-      collateralAmount
-      duration
-      id
-      interestRate
-      lender
-      liquidationThresholdBPS
-      loanId
-      maxPriceStaleness
-      minCollateralRatioBPS
-      tokenAddress
-      transactionHash
-      priceUSD
-      amountUSD
-    }
-  }`;
-  return useSubgraphQuery<{ loanCreateds: LoanCreatedEvent[] }>(query, {
-    cacheKey: "loanCreatedEvents",
-    cacheDuration: 3 * 60 * 1000, // 3 minutes for loan events
+export const useLoanCreatedEvents = () =>
+  useSubgraphPaginatedQuery(LOAN_CREATEDS_PAGE_QUERY, {
+    cacheKey: EVENT_CACHE_KEYS.loanCreateds,
+    cacheDuration: EVENT_CACHE_DURATION,
+    persist: true,
   });
-};
 
-export interface ProtocolStatsCollection {
-  totalLoansCreated: string;
-  totalLoanVolumeUSD: string;
-  totalLoanVolume: string;
-  id: string;
-}
+export const useProtocolStatsCollection = () =>
+  useSubgraphQuery(PROTOCOL_STATS_QUERY, { persist: true });
 
-export const useProtocolStatsCollection = () => {
-  const query = `query protocolStatsCollection{
-  protocolStats_collection {
-    totalLoansCreated
-    totalLoanVolumeUSD
-    totalLoanVolume
-    id
-  }
-  
-}`;
-  return useSubgraphQuery<{
-    protocolStats_collection: ProtocolStatsCollection[];
-  }>(query);
-};
 // Hook to get LoanAccepted events
-export const useLoanAcceptedEvents = () => {
-  const query = `{
-    loanAccepteds${defaultQueryOptions} { id loanId borrower timestamp initialCollateralRatio }
-  }`;
-  return useSubgraphQuery<{ loanAccepteds: LoanAcceptedEvent[] }>(query, {
-    cacheKey: "loanAcceptedEvents",
-    cacheDuration: 3 * 60 * 1000,
+export const useLoanAcceptedEvents = () =>
+  useSubgraphPaginatedQuery(LOAN_ACCEPTEDS_PAGE_QUERY, {
+    cacheKey: EVENT_CACHE_KEYS.loanAccepteds,
+    cacheDuration: EVENT_CACHE_DURATION,
+    persist: true,
   });
-};
 
 // Hook to get LoanRepaid events
-export const useLoanRepaidEvents = () => {
-  const query = `{
-      loanRepaids${defaultQueryOptions} { id loanId borrower repaymentAmount timestamp }
-    }`;
-  return useSubgraphQuery<{ loanRepaids: LoanRepaidEvent[] }>(query, {
-    cacheKey: "loanRepaidEvents",
-    cacheDuration: 3 * 60 * 1000,
+export const useLoanRepaidEvents = () =>
+  useSubgraphPaginatedQuery(LOAN_REPAIDS_PAGE_QUERY, {
+    cacheKey: EVENT_CACHE_KEYS.loanRepaids,
+    cacheDuration: EVENT_CACHE_DURATION,
+    persist: true,
   });
-};
 
 // Hook to get LoanLiquidated events
-export const useLoanLiquidatedEvents = () => {
-  const query = `{
-      loanLiquidateds${defaultQueryOptions} { id loanId liquidator collateralClaimedByLender liquidatorReward timestamp }
-    }`;
-  return useSubgraphQuery<{ loanLiquidateds: LoanLiquidatedEvent[] }>(query, {
-    cacheKey: "loanLiquidatedEvents",
-    cacheDuration: 3 * 60 * 1000,
+export const useLoanLiquidatedEvents = () =>
+  useSubgraphPaginatedQuery(LOAN_LIQUIDATEDS_PAGE_QUERY, {
+    cacheKey: EVENT_CACHE_KEYS.loanLiquidateds,
+    cacheDuration: EVENT_CACHE_DURATION,
+    persist: true,
   });
-};
 
 // Hook to get LoanOfferCancelled events
-export const useLoanOfferCancelledEvents = () => {
-  const query = `{
-    loanOfferCancelleds${defaultQueryOptions} { id loanId lender timestamp }
-  }`;
-  return useSubgraphQuery<{ loanOfferCancelleds: LoanOfferCancelledEvent[] }>(
-    query,
-    {
-      cacheKey: "loanOfferCancelledEvents",
-      cacheDuration: 3 * 60 * 1000,
-    }
-  );
-};
+export const useLoanOfferCancelledEvents = () =>
+  useSubgraphPaginatedQuery(LOAN_OFFER_CANCELLEDS_PAGE_QUERY, {
+    cacheKey: EVENT_CACHE_KEYS.loanOfferCancelleds,
+    cacheDuration: EVENT_CACHE_DURATION,
+    persist: true,
+  });
 
 // Hook to get LoanOfferRemoved events
-export const useLoanOfferRemovedEvents = () => {
-  const query = `{
-    loanOfferRemoveds${defaultQueryOptions} { id loanId reason }
-  }`;
-  return useSubgraphQuery<{ loanOfferRemoveds: LoanOfferRemovedEvent[] }>(
-    query,
-    {
-      cacheKey: "loanOfferRemovedEvents",
-      cacheDuration: 3 * 60 * 1000,
-    }
-  );
-};
+export const useLoanOfferRemovedEvents = () =>
+  useSubgraphPaginatedQuery(LOAN_OFFER_REMOVEDS_PAGE_QUERY, {
+    cacheKey: EVENT_CACHE_KEYS.loanOfferRemoveds,
+    cacheDuration: EVENT_CACHE_DURATION,
+    persist: true,
+  });
+
+// Hook to get PartialRepayment events
+export const usePartialRepaymentEvents = () =>
+  useSubgraphPaginatedQuery(PARTIAL_REPAYMENTS_PAGE_QUERY, {
+    cacheKey: EVENT_CACHE_KEYS.partialRepayments,
+    cacheDuration: EVENT_CACHE_DURATION,
+    persist: true,
+  });
+
+// Hook to get CollateralAdded events
+export const useCollateralAddedEvents = () =>
+  useSubgraphPaginatedQuery(COLLATERAL_ADDEDS_PAGE_QUERY, {
+    cacheKey: EVENT_CACHE_KEYS.collateralAddeds,
+    cacheDuration: EVENT_CACHE_DURATION,
+    persist: true,
+  });
+
+// Hook to get CollateralRemoved events
+export const useCollateralRemovedEvents = () =>
+  useSubgraphPaginatedQuery(COLLATERAL_REMOVEDS_PAGE_QUERY, {
+    cacheKey: EVENT_CACHE_KEYS.collateralRemoveds,
+    cacheDuration: EVENT_CACHE_DURATION,
+    persist: true,
+  });
 
 // =================================================================
 // 4. Utility Functions for Processing Loan Data
@@ -364,124 +692,73 @@ export interface ProcessedLoan {
   liquidationThresholdBPS: bigint;
   maxPriceStaleness: bigint;
   repaidAmount: bigint;
+  // Block of the latest event that changed this loan; 0 when unknown
+  lastEventBlock: bigint;
 }
 
-// Determine loan status based on events
-export const determineLoanStatus = (
-  loanId: string,
-  acceptedEvents: LoanAcceptedEvent[],
-  repaidEvents: LoanRepaidEvent[],
-  liquidatedEvents: LoanLiquidatedEvent[],
-  cancelledEvents: LoanOfferCancelledEvent[],
-  removedEvents: LoanOfferRemovedEvent[]
-): number => {
-  // Check if repaid first (final state)
-  if (repaidEvents.some((e) => e.loanId === loanId)) return 2; // Repaid
-
-  // Check if liquidated (final state)
-  if (liquidatedEvents.some((e) => e.loanId === loanId)) return 3; // Defaulted
-
-  // Check if accepted (active state)
-  if (acceptedEvents.some((e) => e.loanId === loanId)) return 1; // Active
-
-  // Check if explicitly cancelled by lender
-  if (cancelledEvents.some((e) => e.loanId === loanId)) return 4; // Cancelled
-
-  // LoanOfferRemoved can happen for both accepted and cancelled loans
-  // Only treat as cancelled if there's no accepted event
-  if (removedEvents.some((e) => e.loanId === loanId)) {
-    // If there was no accepted event, it was likely cancelled
-    return 4; // Cancelled
-  }
-
-  // Otherwise it's pending
-  return 0; // Pending
-};
-
-// Process loan created events into our loan format
+// Process loan events into our loan format by replaying them in chain order
 export const processLoansFromSubgraph = (
-  loanCreatedEvents: LoanCreatedEvent[],
-  acceptedEvents: LoanAcceptedEvent[],
-  repaidEvents: LoanRepaidEvent[],
-  liquidatedEvents: LoanLiquidatedEvent[],
-  cancelledEvents: LoanOfferCancelledEvent[],
-  removedEvents: LoanOfferRemovedEvent[]
-): ProcessedLoan[] => {
-  return loanCreatedEvents.map((loan) => {
-    const status = determineLoanStatus(
-      loan.loanId,
-      acceptedEvents,
-      repaidEvents,
-      liquidatedEvents,
-      cancelledEvents,
-      removedEvents
-    );
-
-    // Find borrower from accepted events
-    const acceptedEvent = acceptedEvents.find((e) => e.loanId === loan.loanId);
-    const borrower =
-      acceptedEvent?.borrower || "0x0000000000000000000000000000000000000000";
+  collections: LoanEventCollections
+): ProcessedLoan[] => processLoanEvents(collections);
 
-    // Find start time from accepted events
-    const startTime = acceptedEvent?.timestamp || "0";
-
-    return {
-      id: BigInt(loan.loanId),
-      lender: loan.lender,
-      borrower,
-      tokenAddress: loan.tokenAddress,
-      amount: BigInt(loan.amount),
-      interestRate: BigInt(loan.interestRate),
-      duration: BigInt(loan.duration),
-      collateralAddress: loan.collateralAddress,
-      collateralAmount: BigInt(loan.collateralAmount),
-      startTime: BigInt(startTime),
-      createdAt: BigInt(loan.blockTimestamp),
-      status,
-      // Include historical price data
-      historicalPriceUSD: loan.priceUSD,
-      historicalAmountUSD: loan.amountUSD,
-      // Add new fields with defaults (subgraph may not have these yet)
-      minCollateralRatioBPS: BigInt(loan.minCollateralRatioBPS || "15000"),
-      liquidationThresholdBPS: BigInt(loan.liquidationThresholdBPS || "12000"),
-      maxPriceStaleness: BigInt(loan.maxPriceStaleness || "3600"),
-      repaidAmount: BigInt("0"), // Will be updated from repayment events later
-    };
-  });
-};
-
-// Hook to get all loan data with computed status
-export const useAllLoansWithStatus = () => {
+// Hook to get all loan data with computed status. Falls back to reading the
+// contract when the indexer is unreachable, failing or stale; pass the
+// connected account so its own loans are included in that mode.
+export const useAllLoansWithStatus = (options: { account?: string } = {}) => {
   const {
     data: loanCreatedData,
     loading: loadingCreated,
+    isComplete: completeCreated,
     error: errorCreated,
   } = useLoanCreatedEvents();
   const {
     data: loanAcceptedData,
     loading: loadingAccepted,
+    isComplete: completeAccepted,
     error: errorAccepted,
   } = useLoanAcceptedEvents();
   const {
     data: loanRepaidData,
     loading: loadingRepaid,
+    isComplete: completeRepaid,
     error: errorRepaid,
   } = useLoanRepaidEvents();
   const {
     data: loanLiquidatedData,
     loading: loadingLiquidated,
+    isComplete: completeLiquidated,
     error: errorLiquidated,
   } = useLoanLiquidatedEvents();
   const {
     data: loanCancelledData,
     loading: loadingCancelled,
+    isComplete: completeCancelled,
     error: errorCancelled,
   } = useLoanOfferCancelledEvents();
   const {
     data: loanRemovedData,
     loading: loadingRemoved,
+    isComplete: completeRemoved,
     error: errorRemoved,
   } = useLoanOfferRemovedEvents();
+  const {
+    data: partialRepaymentData,
+    loading: loadingPartialRepayments,
+    isComplete: completePartialRepayments,
+    error: errorPartialRepayments,
+  } = usePartialRepaymentEvents();
+  const {
+    data: collateralAddedData,
+    loading: loadingCollateralAdded,
+    isComplete: completeCollateralAdded,
+    error: errorCollateralAdded,
+  } = useCollateralAddedEvents();
+  const {
+    data: collateralRemovedData,
+    loading: loadingCollateralRemoved,
+    isComplete: completeCollateralRemoved,
+    error: errorCollateralRemoved,
+  } = useCollateralRemovedEvents();
 
   const loading =
     loadingCreated ||
@@ -489,26 +766,61 @@ export const useAllLoansWithStatus = () => {
     loadingRepaid ||
     loadingLiquidated ||
     loadingCancelled ||
-    loadingRemoved;
+    loadingRemoved ||
+    loadingPartialRepayments ||
+    loadingCollateralAdded ||
+    loadingCollateralRemoved;
   const error =
     errorCreated ||
     errorAccepted ||
     errorRepaid ||
     errorLiquidated ||
     errorCancelled ||
-    errorRemoved;
+    errorRemoved ||
+    errorPartialRepayments ||
+    errorCollateralAdded ||
+    errorCollateralRemoved;
+  // First pages are in and rendered; older pages may still be streaming
+  const isComplete =
+    completeCreated &&
+    completeAccepted &&
+    completeRepaid &&
+    completeLiquidated &&
+    completeCancelled &&
+    completeRemoved &&
+    completePartialRepayments &&
+    completeCollateralAdded &&
+    completeCollateralRemoved;
+
+  // Newest block already loaded; the stream replays anything after it
+  const latestBlock = loanCreatedData?.loanCreateds.reduce<string | undefined>(
+    (latest, event) =>
+      latest === undefined || BigInt(event.blockNumber) > BigInt(latest)
+        ? event.blockNumber
+        : latest,
+    undefined
+  );
+
+  // Push newly indexed events into the collections above as they happen
+  const { connected: isLive } = useLoanEventStream(applyLiveLoanEvent, {
+    enabled: !!loanCreatedData,
+    fromBlock: latestBlock,
+  });
 
   const processedLoans = React.useMemo(() => {
     if (!loanCreatedData?.loanCreateds) return [];
 
-    return processLoansFromSubgraph(
-      loanCreatedData.loanCreateds,
-      loanAcceptedData?.loanAccepteds || [],
-      loanRepaidData?.loanRepaids || [],
-      loanLiquidatedData?.loanLiquidateds || [],
-      loanCancelledData?.loanOfferCancelleds || [],
-      loanRemovedData?.loanOfferRemoveds || []
-    );
+    return processLoansFromSubgraph({
+      loanCreateds: loanCreatedData.loanCreateds,
+      loanAccepteds: loanAcceptedData?.loanAccepteds || [],
+      partialRepayments: partialRepaymentData?.partialRepayments || [],
+      collateralAddeds: collateralAddedData?.collateralAddeds || [],
+      collateralRemoveds: collateralRemovedData?.collateralRemoveds || [],
+      loanRepaids: loanRepaidData?.loanRepaids || [],
+      loanLiquidateds: loanLiquidatedData?.loanLiquidateds || [],
+      loanOfferCancelleds: loanCancelledData?.loanOfferCancelleds || [],
+      loanOfferRemoveds: loanRemovedData?.loanOfferRemoveds || [],
+    });
   }, [
     loanCreatedData,
     loanAcceptedData,
@@ -516,11 +828,39 @@ export const useAllLoansWithStatus = () => {
     loanLiquidatedData,
     loanCancelledData,
     loanRemovedData,
+    partialRepaymentData,
+    collateralAddedData,
+    collateralRemovedData,
   ]);
 
+  const indexerHealth = useIndexerHealth();
+  const degradedReason = getDegradedReason(indexerHealth, error);
+  const onChain = useOnChainLoans({
+    enabled: degradedReason !== null,
+    account: options.account,
+  });
+
+  if (degradedReason) {
+    return {
+      loans: onChain.loans,
+      loading: onChain.loading,
+      error: onChain.error,
+      isComplete: !onChain.loading,
+      isLive: false,
+      source: "onchain" as LoanDataSource,
+      degradedReason,
+      indexerLagBlocks: indexerHealth.lagBlocks,
+    };
+  }
+
   return {
     loans: processedLoans,
     loading,
     error,
+    isComplete,
+    isLive,
+    source: "indexer" as LoanDataSource,
+    degradedReason,
+    indexerLagBlocks: indexerHealth.lagBlocks,
   };
 };
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { ethers } from "ethers";
-import { DOMA_TESTNET_CONFIG } from "@/lib/contracts";
+import { ACTIVE_CHAIN } from "@/lib/contracts";
+import { connectERC20 } from "@/lib/contractBindings";
 
 interface TokenBalance {
   balance: string;
@@ -59,7 +60,7 @@ export const useTokenBalance = (
 
     try {
       const provider = new ethers.JsonRpcProvider(
-        DOMA_TESTNET_CONFIG.rpcUrls.default.http[0]
+        ACTIVE_CHAIN.rpcUrls.default.http[0]
       );
 
       // Test provider connection
@@ -88,15 +89,7 @@ export const useTokenBalance = (
         console.log(
           `[useTokenBalance] Fetching ERC20 token balance for contract ${tokenAddress}, user ${userAddress}`
         );
-        const tokenContract = new ethers.Contract(
-          tokenAddress,
-          [
-            "function balanceOf(address owner) view returns (uint256)",
-            "function decimals() view returns (uint8)",
-            "function symbol() view returns (string)",
-          ],
-          provider
-        );
+        const tokenContract = connectERC20(tokenAddress, provider);
 
         // Test if contract exists
         try {
@@ -247,7 +240,7 @@ export const useMultipleTokenBalances = (
 
     try {
       const provider = new ethers.JsonRpcProvider(
-        DOMA_TESTNET_CONFIG.rpcUrls.default.http[0]
+        ACTIVE_CHAIN.rpcUrls.default.http[0]
       );
 
       const balancePromises = tokens.map(async (token) => {
@@ -264,11 +257,7 @@ export const useMultipleTokenBalances = (
             balance = await provider.getBalance(userAddress);
           } else {
             // ERC20 token
-            const tokenContract = new ethers.Contract(
-              token.address,
-              ["function balanceOf(address owner) view returns (uint256)"],
-              provider
-            );
+            const tokenContract = connectERC20(token.address, provider);
             balance = await tokenContract.balanceOf(userAddress);
           }
 
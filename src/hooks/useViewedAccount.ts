@@ -0,0 +1,40 @@
+import { useCallback } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import {
+  WATCH_ADDRESS_PARAM,
+  isWatchingOther,
+  parseWatchAddress,
+} from "@/lib/watchAddress";
+
+/**
+ * The account a loan page shows: the ?address= being watched, else the
+ * connected wallet. `isWatchOnly` is set while that is someone else's
+ * account, and pages must not offer write actions then. `watch` moves the
+ * page to another address, or back to the connected wallet with null.
+ */
+export const useViewedAccount = (connected: string | undefined) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const watchAddress = parseWatchAddress(searchParams.get(WATCH_ADDRESS_PARAM));
+  const isWatchOnly = isWatchingOther(watchAddress, connected);
+
+  const watch = useCallback(
+    (address: string | null) => {
+      const params = new URLSearchParams(searchParams.toString());
+      if (address) params.set(WATCH_ADDRESS_PARAM, address);
+      else params.delete(WATCH_ADDRESS_PARAM);
+      const query = params.toString();
+      router.replace(query ? `${pathname}?${query}` : pathname);
+    },
+    [router, pathname, searchParams]
+  );
+
+  return {
+    account: watchAddress ?? connected,
+    watchAddress,
+    isWatchOnly,
+    watch,
+  };
+};
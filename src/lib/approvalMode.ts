@@ -0,0 +1,54 @@
+// Approval mode
+// Whether flows that pull tokens approve exactly what the call needs or an
+// unlimited amount, so later calls with the same token skip the approval.
+// Chosen on the allowances page and kept in localStorage.
+
+import { ethers } from "ethers";
+
+export type ApprovalMode = "exact" | "unlimited";
+
+const STORAGE_KEY = "domalend:approval-mode";
+
+const listeners = new Set<() => void>();
+
+export const readApprovalMode = (): ApprovalMode => {
+  try {
+    return typeof window !== "undefined" &&
+      window.localStorage.getItem(STORAGE_KEY) === "unlimited"
+      ? "unlimited"
+      : "exact";
+  } catch {
+    return "exact";
+  }
+};
+
+export const writeApprovalMode = (mode: ApprovalMode) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, mode);
+  } catch (err) {
+    console.warn("Failed to persist approval mode:", err);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeApprovalMode = (listener: () => void) => {
+  listeners.add(listener);
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+  window.addEventListener("storage", onStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+};
+
+// Amount to approve for a call that needs `amount`
+export const approvalAmountFor = (amount: bigint) =>
+  readApprovalMode() === "unlimited" ? ethers.MaxUint256 : amount;
+
+// Allowances this large are shown as unlimited; some tokens count an
+// unlimited allowance down as it is spent
+export const isUnlimitedAllowance = (allowance: bigint) =>
+  allowance >= ethers.MaxUint256 / BigInt(2);
@@ -0,0 +1,117 @@
+// Batch executor
+// Runs one DomaLend write per item, strictly one after another, since each
+// needs its own wallet prompt and nonce. A failed item does not stop the
+// rest; rejecting a prompt in the wallet does, leaving the remaining items
+// skipped.
+
+import {
+  decodeTransactionError,
+  TransactionError,
+} from "@/lib/transactionErrors";
+
+export type BatchItemStatus =
+  | "queued"
+  | "running"
+  | "succeeded"
+  // Submitted but not confirmed within the timeout; still being watched
+  | "pending"
+  | "failed"
+  | "skipped";
+
+export interface BatchItemResult<T> {
+  item: T;
+  status: BatchItemStatus;
+  hash: string | null;
+  error: TransactionError | null;
+}
+
+export interface BatchSummary {
+  succeeded: number;
+  pending: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Run `execute` for each item in order, reporting every status change
+ * through `onUpdate`. `execute` resolves with the transaction hash.
+ * `shouldStop` is checked before each item so the caller can stop early.
+ */
+export const runBatch = async <T>(
+  items: T[],
+  execute: (item: T) => Promise<string>,
+  options: {
+    onUpdate?: (results: BatchItemResult<T>[]) => void;
+    shouldStop?: () => boolean;
+  } = {}
+): Promise<BatchItemResult<T>[]> => {
+  let results: BatchItemResult<T>[] = items.map((item) => ({
+    item,
+    status: "queued",
+    hash: null,
+    error: null,
+  }));
+  const update = (index: number, patch: Partial<BatchItemResult<T>>) => {
+    results = results.map((result, i) =>
+      i === index ? { ...result, ...patch } : result
+    );
+    options.onUpdate?.(results);
+  };
+
+  let stopped = false;
+  for (let index = 0; index < items.length; index++) {
+    if (stopped || options.shouldStop?.()) {
+      update(index, { status: "skipped" });
+      continue;
+    }
+
+    update(index, { status: "running" });
+    try {
+      const hash = await execute(items[index]);
+      update(index, { status: "succeeded", hash });
+    } catch (error: unknown) {
+      const txError = decodeTransactionError(error);
+      if (txError.code === "TRANSACTION_PENDING") {
+        update(index, { status: "pending", error: txError });
+        continue;
+      }
+      update(index, { status: "failed", error: txError });
+      if (txError.code === "USER_REJECTED") stopped = true;
+    }
+  }
+
+  return results;
+};
+
+export const summarizeBatch = <T>(
+  results: BatchItemResult<T>[]
+): BatchSummary => ({
+  succeeded: results.filter((result) => result.status === "succeeded").length,
+  pending: results.filter((result) => result.status === "pending").length,
+  failed: results.filter((result) => result.status === "failed").length,
+  skipped: results.filter((result) => result.status === "skipped").length,
+});
+
+// Collateral a set of offers needs in total, per collateral token, so a
+// batch accept can check balance and allowance up front
+export const sumCollateralByToken = (
+  loans: { collateralAddress: string; collateralAmount: bigint }[]
+): { collateralAddress: string; required: bigint }[] => {
+  const totals = new Map<
+    string,
+    { collateralAddress: string; required: bigint }
+  >();
+  for (const loan of loans) {
+    const key = loan.collateralAddress.toLowerCase();
+    const total = totals.get(key);
+    if (total) {
+      total.required += loan.collateralAmount;
+    } else {
+      totals.set(key, {
+        collateralAddress: loan.collateralAddress,
+        required: loan.collateralAmount,
+      });
+    }
+  }
+  return Array.from(totals.values());
+};
@@ -0,0 +1,228 @@
+// Typed contract bindings
+// ethers Contract types derived from the `as const` ABIs in contracts.ts, so
+// every call is checked against the ABI it was built from: arguments and
+// return values per function, event filters by their indexed arguments and
+// the decoded args of queried logs. Only the types are generated; at runtime
+// these are plain ethers Contracts.
+
+import { ethers } from "ethers";
+import {
+  DREAMLEND_ABI,
+  DREAMLEND_CONTRACT_ADDRESS,
+  DOMA_RANK_ORACLE_ABI,
+  DOMA_RANK_ORACLE_ADDRESS,
+  ERC20_ABI,
+  Loan,
+  LoanStatus,
+} from "@/lib/contracts";
+
+interface AbiParameter {
+  readonly name: string;
+  readonly type: string;
+  readonly indexed?: boolean;
+  readonly components?: readonly AbiParameter[];
+}
+
+interface AbiItem {
+  readonly type: string;
+  readonly name?: string;
+  readonly inputs?: readonly AbiParameter[];
+  readonly outputs?: readonly AbiParameter[];
+  readonly stateMutability?: string;
+}
+
+export type Abi = readonly AbiItem[];
+
+// Arguments take what ethers accepts, return values are what it decodes to
+type Direction = "in" | "out";
+
+type SolidityType<
+  T extends string,
+  C extends readonly AbiParameter[] | undefined,
+  D extends Direction,
+> = T extends `${infer Element}[${string}]`
+  ? SolidityType<Element, C, D>[]
+  : T extends "tuple"
+    ? C extends readonly AbiParameter[]
+      ? NamedValues<C, D>
+      : never
+    : T extends `uint${string}` | `int${string}`
+      ? D extends "in"
+        ? ethers.BigNumberish
+        : bigint
+      : T extends "bool"
+        ? boolean
+        : T extends `bytes${string}`
+          ? D extends "in"
+            ? ethers.BytesLike
+            : string
+          : // address and string
+            string;
+
+type ParameterType<P extends AbiParameter, D extends Direction> = SolidityType<
+  P["type"],
+  P["components"],
+  D
+>;
+
+type NamedValues<Ps extends readonly AbiParameter[], D extends Direction> = {
+  [P in Ps[number] as P["name"] extends "" ? never : P["name"]]: ParameterType<
+    P,
+    D
+  >;
+};
+
+type PositionalValues<
+  Ps extends readonly AbiParameter[],
+  D extends Direction,
+> = {
+  -readonly [I in keyof Ps]: Ps[I] extends AbiParameter
+    ? ParameterType<Ps[I], D>
+    : never;
+};
+
+type AbiFunction<A extends Abi> = Extract<
+  A[number],
+  { type: "function"; name: string }
+>;
+
+export type FunctionName<A extends Abi> = AbiFunction<A>["name"];
+
+type FunctionItem<A extends Abi, N extends FunctionName<A>> = Extract<
+  AbiFunction<A>,
+  { name: N }
+>;
+
+// A union of names gives a union of argument lists
+export type FunctionArgs<
+  A extends Abi,
+  N extends FunctionName<A>,
+> = PositionalValues<NonNullable<FunctionItem<A, N>["inputs"]>, "in">;
+
+// ethers dereferences a single return value and returns a Result, which is
+// both positional and named, for several
+type ReturnValue<Ps extends readonly AbiParameter[]> = Ps extends readonly []
+  ? void
+  : Ps extends readonly [infer Only extends AbiParameter]
+    ? ParameterType<Only, "out">
+    : PositionalValues<Ps, "out"> & NamedValues<Ps, "out">;
+
+export type FunctionReturn<
+  A extends Abi,
+  N extends FunctionName<A>,
+> = ReturnValue<NonNullable<FunctionItem<A, N>["outputs"]>>;
+
+type TypedMethod<A extends Abi, N extends FunctionName<A>> = [
+  FunctionItem<A, N>["stateMutability"],
+] extends ["view" | "pure"]
+  ? ethers.ConstantContractMethod<FunctionArgs<A, N>, FunctionReturn<A, N>>
+  : ethers.ContractMethod<
+      FunctionArgs<A, N>,
+      FunctionReturn<A, N>,
+      ethers.ContractTransactionResponse
+    >;
+
+type AbiEvent<A extends Abi> = Extract<
+  A[number],
+  { type: "event"; name: string }
+>;
+
+export type EventName<A extends Abi> = AbiEvent<A>["name"];
+
+type EventInputs<A extends Abi, N extends EventName<A>> = NonNullable<
+  Extract<AbiEvent<A>, { name: N }>["inputs"]
+>;
+
+// Only indexed arguments can narrow a filter, in declaration order
+type IndexedArgs<Ps extends readonly AbiParameter[]> = Ps extends readonly [
+  infer First extends AbiParameter,
+  ...infer Rest extends readonly AbiParameter[],
+]
+  ? First["indexed"] extends true
+    ? [ParameterType<First, "in">, ...IndexedArgs<Rest>]
+    : IndexedArgs<Rest>
+  : [];
+
+// Carries the event name so queryFilter knows how its logs decode
+export interface TypedEventFilter<A extends Abi, N extends EventName<A>>
+  extends ethers.DeferredTopicFilter {
+  readonly __event?: { abi: A; name: N };
+}
+
+export type TypedEventLog<A extends Abi, N extends EventName<A>> = Omit<
+  ethers.EventLog,
+  "args"
+> & {
+  args: PositionalValues<EventInputs<A, N>, "out"> &
+    NamedValues<EventInputs<A, N>, "out">;
+};
+
+export type TypedContract<A extends Abi> = Omit<
+  ethers.BaseContract,
+  "getFunction" | "filters" | "queryFilter"
+> & {
+  [N in FunctionName<A>]: TypedMethod<A, N>;
+} & {
+  getFunction<N extends FunctionName<A>>(name: N): TypedMethod<A, N>;
+  filters: {
+    [N in EventName<A>]: (
+      ...args: ethers.ContractEventArgs<IndexedArgs<EventInputs<A, N>>>
+    ) => TypedEventFilter<A, N>;
+  };
+  queryFilter<N extends EventName<A>>(
+    event: TypedEventFilter<A, N>,
+    fromBlock?: ethers.BlockTag,
+    toBlock?: ethers.BlockTag
+  ): Promise<TypedEventLog<A, N>[]>;
+};
+
+/**
+ * An ethers Contract typed by its `as const` ABI.
+ */
+export const connectContract = <A extends Abi>(
+  address: string,
+  abi: A,
+  runner: ethers.ContractRunner | null
+) =>
+  new ethers.Contract(
+    address,
+    abi as unknown as ethers.InterfaceAbi,
+    runner
+  ) as unknown as TypedContract<A>;
+
+export type DomaLendAbi = typeof DREAMLEND_ABI;
+export type DomaLendContract = TypedContract<DomaLendAbi>;
+export type ERC20Contract = TypedContract<typeof ERC20_ABI>;
+export type DomaRankOracleContract = TypedContract<typeof DOMA_RANK_ORACLE_ABI>;
+
+export const connectDomaLend = (runner: ethers.ContractRunner | null) =>
+  connectContract(DREAMLEND_CONTRACT_ADDRESS, DREAMLEND_ABI, runner);
+
+export const connectERC20 = (
+  tokenAddress: string,
+  runner: ethers.ContractRunner | null
+) => connectContract(tokenAddress, ERC20_ABI, runner);
+
+export const connectDomaRankOracle = (runner: ethers.ContractRunner | null) =>
+  connectContract(DOMA_RANK_ORACLE_ADDRESS, DOMA_RANK_ORACLE_ABI, runner);
+
+// The Loan struct as getLoan() decodes it
+export type LoanStruct = FunctionReturn<DomaLendAbi, "getLoan">;
+
+export const decodeLoan = (loan: LoanStruct): Loan => ({
+  id: loan.id,
+  lender: loan.lender,
+  borrower: loan.borrower,
+  tokenAddress: loan.tokenAddress,
+  amount: loan.amount,
+  interestRate: loan.interestRate,
+  duration: loan.duration,
+  collateralAddress: loan.collateralAddress,
+  collateralAmount: loan.collateralAmount,
+  startTime: loan.startTime,
+  status: Number(loan.status) as LoanStatus,
+  minCollateralRatioBPS: loan.minCollateralRatioBPS,
+  liquidationThresholdBPS: loan.liquidationThresholdBPS,
+  maxPriceStaleness: loan.maxPriceStaleness,
+  repaidAmount: loan.repaidAmount,
+});
@@ -1,18 +1,15 @@
-// DomaLend Contract Configuration for Doma Testnet
-// Read contract address from environment (preferred for client: NEXT_PUBLIC_*, otherwise server-side)
+// DomaLend Contract Configuration
+// Addresses and chain details come from the active network profile in
+// config/networks.ts
 
 import { defineChain } from "viem";
+import { ACTIVE_NETWORK } from "@/config/networks";
 
-// Falls back to the previous hardcoded address if env not provided.
 export const DREAMLEND_CONTRACT_ADDRESS: string =
-  process.env.NEXT_PUBLIC_DREAMLEND_CONTRACT_ADDRESS ??
-  "0x9F1694E8a8aC038d4ab3e2217AC0E79111948FD9";
-
-// Rewards System Contract Addresses
+  ACTIVE_NETWORK.contracts.domaLend;
 
 export const DOMA_RANK_ORACLE_ADDRESS: string =
-  process.env.NEXT_PUBLIC_DOMA_RANK_ORACLE_ADDRESS ??
-  "0xccC7F3bD5aB3E0A3f1e54D29a4F3D3430Cde06De"; // DomaRank Oracle on Doma Testnet
+  ACTIVE_NETWORK.contracts.domaRankOracle;
 
 export const DREAMLEND_ABI = [
   {
@@ -770,31 +767,29 @@ export const DOMA_RANK_ORACLE_ABI = [
   },
 ] as const;
 
-// Doma Testnet Configuration
-export const DOMA_TESTNET_CONFIG = defineChain({
-  id: 97476, // Doma testnet chain ID
-  name: "Doma Testnet",
-  network: "doma-testnet",
-  nativeCurrency: {
-    decimals: 18,
-    name: "Doma",
-    symbol: "ETH",
-  },
+// Chain definition of the active network
+export const ACTIVE_CHAIN = defineChain({
+  id: ACTIVE_NETWORK.chainId,
+  name: ACTIVE_NETWORK.name,
+  network: ACTIVE_NETWORK.network,
+  nativeCurrency: ACTIVE_NETWORK.nativeCurrency,
   rpcUrls: {
     default: {
-      http: ["https://rpc-testnet.doma.xyz"],
+      http: [ACTIVE_NETWORK.rpcUrl],
     },
     public: {
-      http: ["https://rpc-testnet.doma.xyz"],
+      http: [ACTIVE_NETWORK.rpcUrl],
     },
   },
-  blockExplorers: {
-    default: {
-      name: "Doma Explorer",
-      url: "https://explorer.testnet.doma.xyz",
+  ...(ACTIVE_NETWORK.explorer && {
+    blockExplorers: {
+      default: {
+        name: ACTIVE_NETWORK.explorer.name,
+        url: ACTIVE_NETWORK.explorer.url,
+      },
     },
-  },
-  testnet: true,
+  }),
+  testnet: ACTIVE_NETWORK.testnet,
 });
 
 // Loan Status Enum
@@ -0,0 +1,90 @@
+// Fee estimates
+// Gas and native-token cost of every transaction a flow is about to send,
+// approval included, checked against the wallet's balance. A step the node
+// cannot estimate yet, typically a call that needs the approval before it,
+// is counted at a fixed allowance for its kind instead.
+
+import { ethers } from "ethers";
+import type { TransactionActionStep } from "@/lib/transactionMachine";
+
+// Generous gas limits for steps that cannot be estimated yet
+export const FALLBACK_GAS_LIMITS: Record<TransactionActionStep, bigint> = {
+  approving: BigInt(60_000),
+  creating: BigInt(400_000),
+  accepting: BigInt(350_000),
+  repaying: BigInt(250_000),
+  liquidating: BigInt(300_000),
+  cancelling: BigInt(150_000),
+  adding_collateral: BigInt(150_000),
+  removing_collateral: BigInt(200_000),
+  partial_repaying: BigInt(250_000),
+};
+
+// How often an open confirmation dialog re-estimates
+export const FEE_REFRESH_INTERVAL = 15 * 1000; // 15 seconds
+
+export interface FeeEstimateRequest {
+  step: TransactionActionStep;
+  estimateGas: () => Promise<bigint>;
+}
+
+export interface FeeEstimateStep {
+  step: TransactionActionStep;
+  gasLimit: bigint;
+  // Counted at FALLBACK_GAS_LIMITS because estimateGas failed
+  isFallback: boolean;
+}
+
+export interface FeeEstimate {
+  steps: FeeEstimateStep[];
+  totalGas: bigint;
+  // Max fee per gas on EIP-1559 chains, otherwise the legacy gas price
+  feePerGas: bigint;
+  // Native token, in wei
+  totalCost: bigint;
+  balance: bigint;
+  isInsufficient: boolean;
+  // Milliseconds since epoch
+  updatedAt: number;
+}
+
+/**
+ * Estimate every step in `requests` for `from` at the current fee.
+ */
+export const estimateFees = async (
+  provider: ethers.Provider,
+  from: string,
+  requests: FeeEstimateRequest[]
+): Promise<FeeEstimate> => {
+  const [feeData, balance, steps] = await Promise.all([
+    provider.getFeeData(),
+    provider.getBalance(from),
+    Promise.all(
+      requests.map(async ({ step, estimateGas }): Promise<FeeEstimateStep> => {
+        try {
+          return { step, gasLimit: await estimateGas(), isFallback: false };
+        } catch {
+          return {
+            step,
+            gasLimit: FALLBACK_GAS_LIMITS[step],
+            isFallback: true,
+          };
+        }
+      })
+    ),
+  ]);
+
+  const feePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? BigInt(0);
+  const totalGas = steps.reduce((sum, step) => sum + step.gasLimit, BigInt(0));
+  const totalCost = totalGas * feePerGas;
+
+  return {
+    steps,
+    totalGas,
+    feePerGas,
+    totalCost,
+    balance,
+    isInsufficient: balance < totalCost,
+    updatedAt: Date.now(),
+  };
+};
@@ -0,0 +1,170 @@
+// Typed GraphQL documents
+// A document declares its selection set once; the same declaration prints the
+// GraphQL string and derives the TypeScript shape of the response.
+
+// Subgraph scalars. BigInt, BigDecimal and Bytes arrive as strings.
+export type Scalar =
+  | "ID"
+  | "String"
+  | "Bytes"
+  | "BigInt"
+  | "BigDecimal"
+  | "Int"
+  | "Float"
+  | "Boolean";
+
+// A trailing "?" marks a field that older indexers may omit
+export type FieldType = Scalar | `${Scalar}?` | SelectionSet;
+
+export interface SelectionSet {
+  readonly [field: string]: FieldType;
+}
+
+// Variable definitions, e.g. { first: "Int!", skip: "Int!" }
+export type VariableDefinitions = Record<string, Scalar | `${Scalar}!`>;
+
+type ScalarResult<T extends Scalar> = T extends "Int" | "Float"
+  ? number
+  : T extends "Boolean"
+    ? boolean
+    : string;
+
+type FieldResult<F> = F extends `${infer T extends Scalar}?`
+  ? ScalarResult<T>
+  : F extends Scalar
+    ? ScalarResult<F>
+    : F extends SelectionSet
+      ? ResultOf<F>
+      : never;
+
+type RequiredFields<S> = {
+  [K in keyof S]: S[K] extends `${string}?` ? never : K;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+// Result shape of a selection set
+export type ResultOf<S extends SelectionSet> = Simplify<
+  { [K in RequiredFields<S>]: FieldResult<S[K]> } & {
+    [K in Exclude<keyof S, RequiredFields<S>>]?: FieldResult<S[K]>;
+  }
+>;
+
+type RequiredVariables<V> = {
+  [K in keyof V]: V[K] extends `${string}!` ? K : never;
+}[keyof V];
+
+type VariableResult<T> = T extends `${infer S extends Scalar}!`
+  ? ScalarResult<S>
+  : T extends Scalar
+    ? ScalarResult<T>
+    : never;
+
+export type VariablesOf<V extends VariableDefinitions> = Simplify<
+  { [K in RequiredVariables<V>]: VariableResult<V[K]> } & {
+    [K in Exclude<keyof V, RequiredVariables<V>>]?: VariableResult<V[K]>;
+  }
+>;
+
+export interface TypedDocument<
+  TRoot extends string,
+  TEntity,
+  TVariables = Record<string, never>,
+> {
+  query: string;
+  operationName: string;
+  // Top-level collection the document selects
+  root: TRoot;
+  // Phantom fields that carry the types; never set at runtime
+  readonly __entity?: TEntity;
+  readonly __variables?: TVariables;
+}
+
+// Response data of a document
+export type DataOf<D> =
+  D extends TypedDocument<infer TRoot, infer TEntity, unknown>
+    ? { [K in TRoot]: TEntity[] }
+    : never;
+
+// One item of the document's root collection
+export type EntityOf<D> =
+  D extends TypedDocument<string, infer TEntity, unknown> ? TEntity : never;
+
+export type DocumentVariables<D> =
+  D extends TypedDocument<string, unknown, infer TVariables>
+    ? TVariables
+    : never;
+
+const printSelection = (selection: SelectionSet, indent: string): string =>
+  Object.entries(selection)
+    .map(([field, type]) =>
+      typeof type === "string"
+        ? `${indent}${field}`
+        : `${indent}${field} {\n${printSelection(type, indent + "  ")}\n${indent}}`
+    )
+    .join("\n");
+
+const printArguments = (args: Record<string, string>) => {
+  const entries = Object.entries(args);
+  if (entries.length === 0) return "";
+  return `(${entries.map(([name, value]) => `${name}: ${value}`).join(", ")})`;
+};
+
+/**
+ * Define a query over one top-level collection. `args` are printed verbatim,
+ * so reference variables as "$name" rather than interpolating values.
+ */
+export function defineCollectionQuery<
+  const TRoot extends string,
+  const TSelection extends SelectionSet,
+  const TVariables extends VariableDefinitions = Record<string, never>,
+>(config: {
+  operationName: string;
+  root: TRoot;
+  selection: TSelection;
+  variables?: TVariables;
+  args?: Record<string, string>;
+}): TypedDocument<TRoot, ResultOf<TSelection>, VariablesOf<TVariables>> {
+  const variableDefinitions = Object.entries(config.variables ?? {})
+    .map(([name, type]) => `$${name}: ${type}`)
+    .join(", ");
+
+  const query = `query ${config.operationName}${
+    variableDefinitions ? `(${variableDefinitions})` : ""
+  } {
+  ${config.root}${printArguments(config.args ?? {})} {
+${printSelection(config.selection, "    ")}
+  }
+}`;
+
+  return { query, operationName: config.operationName, root: config.root };
+}
+
+// Variables shared by every page query
+export const PAGE_VARIABLES = { first: "Int!", skip: "Int!" } as const;
+export type PageVariables = VariablesOf<typeof PAGE_VARIABLES>;
+
+/**
+ * Define a first/skip page over a collection, newest first
+ */
+export const definePageQuery = <
+  const TRoot extends string,
+  const TSelection extends SelectionSet,
+>(config: {
+  operationName: string;
+  root: TRoot;
+  selection: TSelection;
+  orderBy?: string;
+}) =>
+  defineCollectionQuery({
+    operationName: config.operationName,
+    root: config.root,
+    selection: config.selection,
+    variables: PAGE_VARIABLES,
+    args: {
+      first: "$first",
+      skip: "$skip",
+      orderBy: config.orderBy ?? "blockTimestamp",
+      orderDirection: "desc",
+    },
+  });
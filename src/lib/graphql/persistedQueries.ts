@@ -0,0 +1,102 @@
+// Persisted queries for the /api/subgraph proxy
+// Clients send the SHA-256 hash of a known document instead of its text. The
+// proxy resolves the hash against SUBGRAPH_QUERY_ALLOWLIST and refuses
+// anything else, so arbitrary GraphQL never reaches the indexer.
+
+import { SUBGRAPH_QUERY_ALLOWLIST } from "./queries";
+
+export type GraphQLVariables = Record<string, unknown>;
+
+// Request body accepted by /api/subgraph (Apollo APQ compatible)
+export interface SubgraphRequestBody {
+  query?: string;
+  operationName?: string;
+  variables?: GraphQLVariables;
+  extensions?: {
+    persistedQuery?: {
+      version: number;
+      sha256Hash: string;
+    };
+  };
+}
+
+export interface PersistedQuery {
+  query: string;
+  operationName: string | null;
+}
+
+// Error codes returned by /api/subgraph when a request is refused
+export type SubgraphErrorCode =
+  | "BAD_REQUEST"
+  | "PERSISTED_QUERY_NOT_FOUND"
+  | "PERSISTED_QUERY_HASH_MISMATCH"
+  | "QUERY_NOT_ALLOWLISTED"
+  | "OPERATION_NAME_MISMATCH"
+  | "VARIABLE_OUT_OF_RANGE";
+
+export const PERSISTED_QUERY_VERSION = 1;
+
+// Largest page a client may request through the `first` variable
+export const MAX_PAGE_SIZE = 1000;
+
+// Largest offset a client may request through the `skip` variable, enough
+// for the paginated hooks' 100 pages of 100
+export const MAX_SKIP = 10_000;
+
+export const getOperationName = (query: string): string | null =>
+  /^\s*(?:query|mutation|subscription)\s+(\w+)/.exec(query)?.[1] ?? null;
+
+// SHA-256 of the document, hex encoded. Uses Web Crypto, which is available
+// both in the browser (secure contexts) and in the Node.js route runtime.
+export const hashQuery = async (query: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(query);
+  const digest = await globalThis.crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+let allowlistPromise: Promise<Map<string, PersistedQuery>> | null = null;
+
+// Hash -> document map for every allowlisted query, computed once
+export const getPersistedQueryAllowlist = (): Promise<
+  Map<string, PersistedQuery>
+> => {
+  if (!allowlistPromise) {
+    allowlistPromise = Promise.all(
+      SUBGRAPH_QUERY_ALLOWLIST.map(
+        async (query) =>
+          [
+            await hashQuery(query),
+            { query, operationName: getOperationName(query) },
+          ] as const
+      )
+    ).then((entries) => new Map(entries));
+  }
+  return allowlistPromise;
+};
+
+// Build the request body for a persisted query. Falls back to sending the
+// full document when Web Crypto is unavailable (e.g. plain-http origins);
+// the proxy still checks that text against the allowlist.
+export const buildPersistedQueryBody = async (
+  query: string,
+  variables?: GraphQLVariables
+): Promise<SubgraphRequestBody> => {
+  const operationName = getOperationName(query) ?? undefined;
+
+  if (!globalThis.crypto?.subtle) {
+    return { query, operationName, variables };
+  }
+
+  return {
+    operationName,
+    variables,
+    extensions: {
+      persistedQuery: {
+        version: PERSISTED_QUERY_VERSION,
+        sha256Hash: await hashQuery(query),
+      },
+    },
+  };
+};
@@ -1,3 +1,5 @@
+import { defineCollectionQuery, definePageQuery } from "./document";
+
 export const FRACTIONAL_TOKENS_QUERY = `
   query FractionalTokens {
     fractionalTokens {
@@ -73,3 +75,176 @@ export const FRACTIONAL_TOKENS_QUERY = `
     }
   }
 `;
+
+// =================================================================
+// Loan subgraph queries (served by the DomaLend indexer via /api/subgraph)
+// =================================================================
+// Every document here is allowlisted by the proxy. Values are passed as
+// variables, never interpolated, so each document hashes to a stable id.
+// Entity types are derived from these selections in useSubgraphQuery.ts.
+
+// Position of the log on-chain, used to replay events in order.
+// Older indexer deployments may omit these fields.
+export const EVENT_LOG_POSITION = {
+  blockNumber: "BigInt?",
+  logIndex: "BigInt?",
+  transactionHash: "Bytes?",
+} as const;
+
+export const LOAN_CREATEDS_PAGE_QUERY = definePageQuery({
+  operationName: "LoanCreatedsPage",
+  root: "loanCreateds",
+  selection: {
+    amount: "BigInt",
+    blockNumber: "BigInt",
+    blockTimestamp: "BigInt",
+    collateralAddress: "Bytes",
+    collateralAmount: "BigInt",
+    duration: "BigInt",
+    id: "ID",
+    interestRate: "BigInt",
+    lender: "Bytes",
+    liquidationThresholdBPS: "BigInt",
+    loanId: "BigInt",
+    logIndex: "BigInt?",
+    maxPriceStaleness: "BigInt",
+    minCollateralRatioBPS: "BigInt",
+    tokenAddress: "Bytes",
+    transactionHash: "Bytes",
+    // Historical price data from when loan was created
+    priceUSD: "BigDecimal",
+    amountUSD: "BigDecimal",
+  },
+});
+
+export const LOAN_ACCEPTEDS_PAGE_QUERY = definePageQuery({
+  operationName: "LoanAcceptedsPage",
+  root: "loanAccepteds",
+  selection: {
+    id: "ID",
+    loanId: "BigInt",
+    borrower: "Bytes",
+    timestamp: "BigInt",
+    initialCollateralRatio: "BigInt",
+    ...EVENT_LOG_POSITION,
+  },
+});
+
+export const LOAN_REPAIDS_PAGE_QUERY = definePageQuery({
+  operationName: "LoanRepaidsPage",
+  root: "loanRepaids",
+  selection: {
+    id: "ID",
+    loanId: "BigInt",
+    borrower: "Bytes",
+    repaymentAmount: "BigInt",
+    timestamp: "BigInt",
+    ...EVENT_LOG_POSITION,
+  },
+});
+
+export const LOAN_LIQUIDATEDS_PAGE_QUERY = definePageQuery({
+  operationName: "LoanLiquidatedsPage",
+  root: "loanLiquidateds",
+  selection: {
+    id: "ID",
+    loanId: "BigInt",
+    liquidator: "Bytes",
+    collateralClaimedByLender: "BigInt",
+    liquidatorReward: "BigInt",
+    timestamp: "BigInt",
+    ...EVENT_LOG_POSITION,
+  },
+});
+
+export const LOAN_OFFER_CANCELLEDS_PAGE_QUERY = definePageQuery({
+  operationName: "LoanOfferCancelledsPage",
+  root: "loanOfferCancelleds",
+  selection: {
+    id: "ID",
+    loanId: "BigInt",
+    lender: "Bytes",
+    timestamp: "BigInt",
+    ...EVENT_LOG_POSITION,
+  },
+});
+
+export const LOAN_OFFER_REMOVEDS_PAGE_QUERY = definePageQuery({
+  operationName: "LoanOfferRemovedsPage",
+  root: "loanOfferRemoveds",
+  selection: {
+    id: "ID",
+    loanId: "BigInt",
+    reason: "String",
+    timestamp: "BigInt?",
+    ...EVENT_LOG_POSITION,
+  },
+});
+
+export const PARTIAL_REPAYMENTS_PAGE_QUERY = definePageQuery({
+  operationName: "PartialRepaymentsPage",
+  root: "partialRepayments",
+  selection: {
+    id: "ID",
+    loanId: "BigInt",
+    borrower: "Bytes",
+    repaymentAmount: "BigInt",
+    totalRepaidAmount: "BigInt",
+    remainingAmount: "BigInt",
+    timestamp: "BigInt",
+    ...EVENT_LOG_POSITION,
+  },
+});
+
+export const COLLATERAL_ADDEDS_PAGE_QUERY = definePageQuery({
+  operationName: "CollateralAddedsPage",
+  root: "collateralAddeds",
+  selection: {
+    id: "ID",
+    loanId: "BigInt",
+    borrower: "Bytes",
+    amount: "BigInt",
+    newCollateralRatio: "BigInt",
+    timestamp: "BigInt",
+    ...EVENT_LOG_POSITION,
+  },
+});
+
+export const COLLATERAL_REMOVEDS_PAGE_QUERY = definePageQuery({
+  operationName: "CollateralRemovedsPage",
+  root: "collateralRemoveds",
+  selection: {
+    id: "ID",
+    loanId: "BigInt",
+    borrower: "Bytes",
+    amount: "BigInt",
+    newCollateralRatio: "BigInt",
+    timestamp: "BigInt",
+    ...EVENT_LOG_POSITION,
+  },
+});
+
+export const PROTOCOL_STATS_QUERY = defineCollectionQuery({
+  operationName: "ProtocolStatsCollection",
+  root: "protocolStats_collection",
+  selection: {
+    totalLoansCreated: "BigInt",
+    totalLoanVolumeUSD: "BigDecimal",
+    totalLoanVolume: "BigInt",
+    id: "ID",
+  },
+});
+
+// The only documents /api/subgraph will forward to the indexer
+export const SUBGRAPH_QUERY_ALLOWLIST: string[] = [
+  LOAN_CREATEDS_PAGE_QUERY,
+  LOAN_ACCEPTEDS_PAGE_QUERY,
+  LOAN_REPAIDS_PAGE_QUERY,
+  LOAN_LIQUIDATEDS_PAGE_QUERY,
+  LOAN_OFFER_CANCELLEDS_PAGE_QUERY,
+  LOAN_OFFER_REMOVEDS_PAGE_QUERY,
+  PARTIAL_REPAYMENTS_PAGE_QUERY,
+  COLLATERAL_ADDEDS_PAGE_QUERY,
+  COLLATERAL_REMOVEDS_PAGE_QUERY,
+  PROTOCOL_STATS_QUERY,
+].map((document) => document.query);
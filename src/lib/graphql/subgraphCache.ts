@@ -0,0 +1,167 @@
+// Subgraph query cache
+// In-memory entries backed by an optional localStorage copy, so data
+// survives reloads and is shared by every open tab. Writes and invalidations
+// are broadcast to other tabs over a BroadcastChannel.
+
+export interface CacheEntry<T> {
+  data: T;
+  timestamp: number;
+  expiresAt: number;
+  // False while a paginated collection is still streaming in
+  complete?: boolean;
+}
+
+type CacheMessage =
+  | { type: "set"; key: string; entry: CacheEntry<unknown> }
+  | { type: "invalidate"; key?: string; pattern?: string };
+
+type CacheListener = (entry: CacheEntry<unknown>) => void;
+
+const STORAGE_PREFIX = "domalend:subgraph-cache:";
+const CHANNEL_NAME = "domalend-subgraph-cache";
+
+const memoryCache = new Map<string, CacheEntry<unknown>>();
+const listeners = new Map<string, Set<CacheListener>>();
+
+let channel: BroadcastChannel | null | undefined;
+
+const getStorage = (): Storage | null => {
+  try {
+    return typeof window !== "undefined" ? window.localStorage : null;
+  } catch {
+    // Access throws when storage is disabled (e.g. some private modes)
+    return null;
+  }
+};
+
+const notify = (key: string, entry: CacheEntry<unknown>) => {
+  listeners.get(key)?.forEach((listener) => listener(entry));
+};
+
+const matches = (key: string, message: { key?: string; pattern?: string }) =>
+  message.key !== undefined
+    ? key === message.key
+    : message.pattern === undefined || key.includes(message.pattern);
+
+const removeLocal = (message: { key?: string; pattern?: string }) => {
+  for (const key of [...memoryCache.keys()]) {
+    if (matches(key, message)) memoryCache.delete(key);
+  }
+
+  const storage = getStorage();
+  if (!storage) return;
+  for (let i = storage.length - 1; i >= 0; i--) {
+    const storageKey = storage.key(i);
+    if (
+      storageKey?.startsWith(STORAGE_PREFIX) &&
+      matches(storageKey.slice(STORAGE_PREFIX.length), message)
+    ) {
+      storage.removeItem(storageKey);
+    }
+  }
+};
+
+const handleMessage = (message: CacheMessage) => {
+  if (message.type === "set") {
+    // The sending tab already persisted the entry
+    memoryCache.set(message.key, message.entry);
+    notify(message.key, message.entry);
+  } else {
+    removeLocal(message);
+  }
+};
+
+// Created lazily so server renders and tests never open a channel
+const getChannel = (): BroadcastChannel | null => {
+  if (channel !== undefined) return channel;
+  if (typeof window === "undefined" || !("BroadcastChannel" in window)) {
+    channel = null;
+    return channel;
+  }
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<CacheMessage>) =>
+    handleMessage(event.data);
+  return channel;
+};
+
+const broadcast = (message: CacheMessage) => {
+  try {
+    getChannel()?.postMessage(message);
+  } catch (err) {
+    console.warn("Failed to broadcast subgraph cache update:", err);
+  }
+};
+
+export const getCacheEntry = <T>(key: string): CacheEntry<T> | undefined =>
+  memoryCache.get(key) as CacheEntry<T> | undefined;
+
+/**
+ * Look up an entry, falling back to the persisted copy. Only call this after
+ * mount: reading storage during render would make the first client render
+ * differ from the server one.
+ */
+export const restoreCacheEntry = <T>(
+  key: string
+): CacheEntry<T> | undefined => {
+  const cached = getCacheEntry<T>(key);
+  if (cached) return cached;
+
+  const raw = getStorage()?.getItem(STORAGE_PREFIX + key);
+  if (!raw) return undefined;
+
+  try {
+    const entry: CacheEntry<T> = JSON.parse(raw);
+    memoryCache.set(key, entry);
+    return entry;
+  } catch {
+    getStorage()?.removeItem(STORAGE_PREFIX + key);
+    return undefined;
+  }
+};
+
+export const setCacheEntry = <T>(
+  key: string,
+  entry: CacheEntry<T>,
+  options: { persist?: boolean } = {}
+) => {
+  memoryCache.set(key, entry);
+
+  if (options.persist) {
+    try {
+      getStorage()?.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+    } catch (err) {
+      // Quota exceeded: the in-memory copy still serves this tab
+      console.warn(`Failed to persist subgraph cache entry ${key}:`, err);
+    }
+  }
+
+  notify(key, entry);
+  broadcast({ type: "set", key, entry });
+};
+
+/**
+ * Drop entries in this tab, in storage and in every other open tab. Without
+ * a key or pattern, the whole cache is cleared.
+ */
+export const invalidateCacheEntries = (
+  match: { key?: string; pattern?: string } = {}
+) => {
+  removeLocal(match);
+  broadcast({ type: "invalidate", ...match });
+};
+
+// Get notified whenever `key` is written, by this tab or another one
+export const subscribeToCacheEntry = <T>(
+  key: string,
+  listener: (entry: CacheEntry<T>) => void
+): (() => void) => {
+  getChannel();
+  const keyListeners = listeners.get(key) ?? new Set<CacheListener>();
+  keyListeners.add(listener as CacheListener);
+  listeners.set(key, keyListeners);
+
+  return () => {
+    keyListeners.delete(listener as CacheListener);
+    if (keyListeners.size === 0) listeners.delete(key);
+  };
+};
@@ -0,0 +1,118 @@
+// Indexer freshness
+// How far the indexer's last processed block trails the chain head. The
+// subgraph proxy measures it on the server and attaches it to every response
+// under `extensions.indexer`; /api/subgraph/status returns it on its own.
+// The block comes from the GraphQL endpoint's `_meta`, or from the indexer's
+// /health endpoint where `_meta` is unavailable.
+
+import { getOnChainProvider } from "@/lib/onChainLoans";
+import { ACTIVE_NETWORK } from "@/config/networks";
+
+export interface IndexerFreshness {
+  // False when neither `_meta` nor /health could be read
+  reachable: boolean;
+  lastProcessedBlock: number | null;
+  headBlock: number | null;
+  // null when either block is unknown
+  lagBlocks: number | null;
+  // Milliseconds since epoch
+  checkedAt: number;
+}
+
+const SUBGRAPH_URL = ACTIVE_NETWORK.api.subgraph;
+
+// Every proxied query reports freshness, so reuse a measurement briefly
+// rather than hitting /health and the RPC on each one
+const FRESHNESS_TTL = 5 * 1000; // 5 seconds
+
+// Each probe gives up after this long and reports its block as unknown, so a
+// slow indexer or RPC never holds up the query the measurement rides along with
+const PROBE_TIMEOUT = 2 * 1000; // 2 seconds
+
+let latest: Promise<IndexerFreshness> | null = null;
+let latestAt = 0;
+
+const META_QUERY = "{ _meta { block { number } } }";
+
+const readMetaBlock = async (): Promise<number | null> => {
+  try {
+    const response = await fetch(SUBGRAPH_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query: META_QUERY }),
+      cache: "no-store",
+      signal: AbortSignal.timeout(PROBE_TIMEOUT),
+    });
+    if (!response.ok) return null;
+    const result = await response.json();
+    const block = result.data?._meta?.block?.number;
+    return typeof block === "number" && Number.isFinite(block) ? block : null;
+  } catch {
+    return null;
+  }
+};
+
+const readHealthBlock = async (): Promise<number | null> => {
+  try {
+    const response = await fetch(new URL("/health", SUBGRAPH_URL), {
+      cache: "no-store",
+      signal: AbortSignal.timeout(PROBE_TIMEOUT),
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    const block = Number(data.indexer?.lastProcessedBlock);
+    return Number.isFinite(block) ? block : null;
+  } catch {
+    return null;
+  }
+};
+
+const readLastProcessedBlock = async (): Promise<number | null> =>
+  (await readMetaBlock()) ?? (await readHealthBlock());
+
+const readHeadBlock = async (): Promise<number | null> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      getOnChainProvider().getBlockNumber(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`No chain head after ${PROBE_TIMEOUT}ms`)),
+          PROBE_TIMEOUT
+        );
+      }),
+    ]);
+  } catch (error) {
+    console.warn("⚠️ Failed to read chain head for indexer freshness:", error);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const measureIndexerFreshness = async (): Promise<IndexerFreshness> => {
+  const [lastProcessedBlock, headBlock] = await Promise.all([
+    readLastProcessedBlock(),
+    readHeadBlock(),
+  ]);
+
+  return {
+    reachable: lastProcessedBlock !== null,
+    lastProcessedBlock,
+    headBlock,
+    lagBlocks:
+      lastProcessedBlock !== null && headBlock !== null
+        ? Math.max(headBlock - lastProcessedBlock, 0)
+        : null,
+    checkedAt: Date.now(),
+  };
+};
+
+// Server only: compare the indexer's last processed block with the RPC head
+export const getIndexerFreshness = (): Promise<IndexerFreshness> => {
+  if (!latest || Date.now() - latestAt > FRESHNESS_TTL) {
+    latestAt = Date.now();
+    latest = measureIndexerFreshness();
+  }
+  return latest;
+};
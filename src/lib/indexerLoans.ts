@@ -0,0 +1,137 @@
+// Server-side loan reads from the indexer
+// Pages through every loan event collection and replays them into
+// ProcessedLoans, so route handlers can answer without the browser
+// downloading raw events. Talks to the indexer directly rather than through
+// /api/subgraph.
+
+import { eventKey, processLoanEvents, LoggedEvent } from "@/lib/loanEvents";
+import {
+  LOAN_CREATEDS_PAGE_QUERY,
+  LOAN_ACCEPTEDS_PAGE_QUERY,
+  LOAN_REPAIDS_PAGE_QUERY,
+  LOAN_LIQUIDATEDS_PAGE_QUERY,
+  LOAN_OFFER_CANCELLEDS_PAGE_QUERY,
+  LOAN_OFFER_REMOVEDS_PAGE_QUERY,
+  PARTIAL_REPAYMENTS_PAGE_QUERY,
+  COLLATERAL_ADDEDS_PAGE_QUERY,
+  COLLATERAL_REMOVEDS_PAGE_QUERY,
+} from "@/lib/graphql/queries";
+import type {
+  DataOf,
+  PageVariables,
+  TypedDocument,
+} from "@/lib/graphql/document";
+import { MAX_PAGE_SIZE } from "@/lib/graphql/persistedQueries";
+import type { ProcessedLoan } from "@/hooks/useSubgraphQuery";
+import { ACTIVE_NETWORK } from "@/config/networks";
+
+const SUBGRAPH_URL = ACTIVE_NETWORK.api.subgraph;
+
+// Safety net for indexers that ignore `skip` and keep returning page one
+const MAX_PAGES = 100;
+
+// The indexer could not be reached or answered with an error
+export class IndexerRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IndexerRequestError";
+  }
+}
+
+const queryIndexer = async <TRoot extends string, TEntity, TVariables>(
+  document: TypedDocument<TRoot, TEntity, TVariables>,
+  variables: TVariables
+): Promise<DataOf<typeof document>> => {
+  let response: Response;
+  try {
+    response = await fetch(SUBGRAPH_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: document.query,
+        operationName: document.operationName,
+        variables,
+      }),
+      cache: "no-store",
+    });
+  } catch (error) {
+    throw new IndexerRequestError(
+      `Indexer unreachable: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  if (!response.ok) {
+    throw new IndexerRequestError(
+      `Indexer responded with ${response.status}: ${await response.text()}`
+    );
+  }
+
+  const result = await response.json();
+  if (result.errors) {
+    throw new IndexerRequestError(
+      result.errors.map((e: Error) => e.message).join("\n")
+    );
+  }
+  return result.data;
+};
+
+// Every event of a collection, de-duplicated by log across pages
+export const fetchIndexerCollection = async <
+  TRoot extends string,
+  TItem extends LoggedEvent,
+>(
+  document: TypedDocument<TRoot, TItem, PageVariables>
+): Promise<TItem[]> => {
+  const items = new Map<string, TItem>();
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const data = await queryIndexer(document, {
+      first: MAX_PAGE_SIZE,
+      skip: page * MAX_PAGE_SIZE,
+    });
+    const pageItems = data?.[document.root] || [];
+
+    const before = items.size;
+    for (const item of pageItems) items.set(eventKey(item), item);
+
+    if (pageItems.length < MAX_PAGE_SIZE || items.size === before) break;
+  }
+
+  return [...items.values()];
+};
+
+export const fetchIndexedLoans = async (): Promise<ProcessedLoan[]> => {
+  const [
+    loanCreateds,
+    loanAccepteds,
+    loanRepaids,
+    loanLiquidateds,
+    loanOfferCancelleds,
+    loanOfferRemoveds,
+    partialRepayments,
+    collateralAddeds,
+    collateralRemoveds,
+  ] = await Promise.all([
+    fetchIndexerCollection(LOAN_CREATEDS_PAGE_QUERY),
+    fetchIndexerCollection(LOAN_ACCEPTEDS_PAGE_QUERY),
+    fetchIndexerCollection(LOAN_REPAIDS_PAGE_QUERY),
+    fetchIndexerCollection(LOAN_LIQUIDATEDS_PAGE_QUERY),
+    fetchIndexerCollection(LOAN_OFFER_CANCELLEDS_PAGE_QUERY),
+    fetchIndexerCollection(LOAN_OFFER_REMOVEDS_PAGE_QUERY),
+    fetchIndexerCollection(PARTIAL_REPAYMENTS_PAGE_QUERY),
+    fetchIndexerCollection(COLLATERAL_ADDEDS_PAGE_QUERY),
+    fetchIndexerCollection(COLLATERAL_REMOVEDS_PAGE_QUERY),
+  ]);
+
+  return processLoanEvents({
+    loanCreateds,
+    loanAccepteds,
+    loanRepaids,
+    loanLiquidateds,
+    loanOfferCancelleds,
+    loanOfferRemoveds,
+    partialRepayments,
+    collateralAddeds,
+    collateralRemoveds,
+  });
+};
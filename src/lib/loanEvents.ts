@@ -0,0 +1,355 @@
+// Event-sourced loan state
+// Folds every DomaLend loan event, in chain order, into the same shape that
+// getLoan() returns on-chain. The transitions below mirror DomaLend.sol so a
+// full replay of a loan's events reproduces its stored struct.
+
+import { LoanStatus } from "@/lib/contracts";
+import type {
+  LoanCreatedEvent,
+  LoanAcceptedEvent,
+  LoanRepaidEvent,
+  LoanLiquidatedEvent,
+  LoanOfferCancelledEvent,
+  LoanOfferRemovedEvent,
+  PartialRepaymentEvent,
+  CollateralAddedEvent,
+  CollateralRemovedEvent,
+  ProcessedLoan,
+} from "@/hooks/useSubgraphQuery";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Raw event collections as returned by the indexer
+export interface LoanEventCollections {
+  loanCreateds: LoanCreatedEvent[];
+  loanAccepteds?: LoanAcceptedEvent[];
+  partialRepayments?: PartialRepaymentEvent[];
+  collateralAddeds?: CollateralAddedEvent[];
+  collateralRemoveds?: CollateralRemovedEvent[];
+  loanRepaids?: LoanRepaidEvent[];
+  loanLiquidateds?: LoanLiquidatedEvent[];
+  loanOfferCancelleds?: LoanOfferCancelledEvent[];
+  loanOfferRemoveds?: LoanOfferRemovedEvent[];
+}
+
+export type LoanEvent =
+  | { type: "LoanCreated"; event: LoanCreatedEvent }
+  | { type: "LoanAccepted"; event: LoanAcceptedEvent }
+  | { type: "PartialRepayment"; event: PartialRepaymentEvent }
+  | { type: "CollateralAdded"; event: CollateralAddedEvent }
+  | { type: "CollateralRemoved"; event: CollateralRemovedEvent }
+  | { type: "LoanRepaid"; event: LoanRepaidEvent }
+  | { type: "LoanLiquidated"; event: LoanLiquidatedEvent }
+  | { type: "LoanOfferCancelled"; event: LoanOfferCancelledEvent }
+  | { type: "LoanOfferRemoved"; event: LoanOfferRemovedEvent };
+
+// Last tie-breaker when positions are missing. Follows the order in which a
+// loan's lifecycle can emit them.
+const EVENT_PRECEDENCE: Record<LoanEvent["type"], number> = {
+  LoanCreated: 0,
+  LoanAccepted: 1,
+  CollateralAdded: 2,
+  CollateralRemoved: 2,
+  PartialRepayment: 3,
+  LoanRepaid: 3,
+  LoanLiquidated: 4,
+  LoanOfferCancelled: 5,
+  LoanOfferRemoved: 6,
+};
+
+const toBigIntOrNull = (value?: string | null): bigint | null =>
+  value === undefined || value === null || value === "" ? null : BigInt(value);
+
+// Position fields shared by every indexed event
+export interface LoggedEvent {
+  id: string;
+  loanId?: string;
+  blockNumber?: string;
+  transactionHash?: string;
+  logIndex?: string;
+}
+
+/**
+ * Identity of an event: the log it was emitted by, (transactionHash,
+ * logIndex). Falls back to the indexer id, which has the same shape.
+ */
+export const eventKey = (event: LoggedEvent): string =>
+  event.transactionHash && event.logIndex !== undefined
+    ? `${event.transactionHash.toLowerCase()}-${event.logIndex}`
+    : event.id.toLowerCase();
+
+/**
+ * Reconcile a collection with a refreshed copy from the indexer. `headBlock`
+ * is the last block the indexer had processed when the refresh started.
+ * Events the refresh no longer contains were dropped by a reorg, unless they
+ * are past that block (streamed in after the refresh started); those are
+ * kept in front. With the head unknown, every missing event is dropped.
+ * Lists are newest first.
+ */
+export const reconcileEvents = <TItem extends LoggedEvent>(
+  previous: TItem[],
+  refreshed: TItem[],
+  headBlock: bigint | null
+): { items: TItem[]; dropped: TItem[] } => {
+  const refreshedKeys = new Set(refreshed.map(eventKey));
+
+  const kept: TItem[] = [];
+  const dropped: TItem[] = [];
+  for (const event of previous) {
+    if (refreshedKeys.has(eventKey(event))) continue;
+    const block = toBigIntOrNull(event.blockNumber);
+    if (block !== null && headBlock !== null && block > headBlock) {
+      kept.push(event);
+    } else {
+      dropped.push(event);
+    }
+  }
+
+  return { items: [...kept, ...refreshed], dropped };
+};
+
+// Indexer ids are `${transactionHash}-${logIndex}`
+const logIndexFromId = (id: string): bigint | null => {
+  const suffix = id.split("-").pop();
+  if (!suffix || !/^\d+$/.test(suffix)) return null;
+  return BigInt(suffix);
+};
+
+/**
+ * Sort key for an event: timestamp, block number, log index, then lifecycle
+ * precedence. Timestamps never decrease with block number, so with complete
+ * data this is chain order. Missing parts sort last, which keeps the order
+ * total when an older indexer omits positions.
+ */
+export const getEventSortKey = (loanEvent: LoanEvent): (bigint | null)[] => {
+  const { event } = loanEvent;
+  const timestamp =
+    loanEvent.type === "LoanCreated"
+      ? loanEvent.event.blockTimestamp
+      : loanEvent.event.timestamp;
+
+  return [
+    toBigIntOrNull(timestamp),
+    toBigIntOrNull(event.blockNumber),
+    event.logIndex !== undefined
+      ? BigInt(event.logIndex)
+      : logIndexFromId(event.id),
+    BigInt(EVENT_PRECEDENCE[loanEvent.type]),
+  ];
+};
+
+export const compareLoanEvents = (a: LoanEvent, b: LoanEvent): number => {
+  const keyA = getEventSortKey(a);
+  const keyB = getEventSortKey(b);
+
+  for (let i = 0; i < keyA.length; i++) {
+    const partA = keyA[i];
+    const partB = keyB[i];
+    if (partA === partB) continue;
+    if (partA === null) return 1;
+    if (partB === null) return -1;
+    return partA < partB ? -1 : 1;
+  }
+
+  return 0;
+};
+
+// Flatten every collection into a single, de-duplicated, chain-ordered list
+export const collectLoanEvents = (
+  collections: LoanEventCollections
+): LoanEvent[] => {
+  const events: LoanEvent[] = [
+    ...collections.loanCreateds.map(
+      (event) => ({ type: "LoanCreated", event }) as const
+    ),
+    ...(collections.loanAccepteds || []).map(
+      (event) => ({ type: "LoanAccepted", event }) as const
+    ),
+    ...(collections.partialRepayments || []).map(
+      (event) => ({ type: "PartialRepayment", event }) as const
+    ),
+    ...(collections.collateralAddeds || []).map(
+      (event) => ({ type: "CollateralAdded", event }) as const
+    ),
+    ...(collections.collateralRemoveds || []).map(
+      (event) => ({ type: "CollateralRemoved", event }) as const
+    ),
+    ...(collections.loanRepaids || []).map(
+      (event) => ({ type: "LoanRepaid", event }) as const
+    ),
+    ...(collections.loanLiquidateds || []).map(
+      (event) => ({ type: "LoanLiquidated", event }) as const
+    ),
+    ...(collections.loanOfferCancelleds || []).map(
+      (event) => ({ type: "LoanOfferCancelled", event }) as const
+    ),
+    ...(collections.loanOfferRemoveds || []).map(
+      (event) => ({ type: "LoanOfferRemoved", event }) as const
+    ),
+  ];
+
+  // The same log can show up twice when pages overlap
+  const seen = new Set<string>();
+  const unique = events.filter(({ event }) => {
+    const key = eventKey(event);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return unique.sort(compareLoanEvents);
+};
+
+const createLoanFromEvent = (event: LoanCreatedEvent): ProcessedLoan => ({
+  id: BigInt(event.loanId),
+  lender: event.lender,
+  borrower: ZERO_ADDRESS,
+  tokenAddress: event.tokenAddress,
+  amount: BigInt(event.amount),
+  interestRate: BigInt(event.interestRate),
+  duration: BigInt(event.duration),
+  collateralAddress: event.collateralAddress,
+  collateralAmount: BigInt(event.collateralAmount),
+  startTime: BigInt(0),
+  createdAt: BigInt(event.blockTimestamp),
+  status: LoanStatus.Pending,
+  // Include historical price data
+  historicalPriceUSD: event.priceUSD,
+  historicalAmountUSD: event.amountUSD,
+  // Defaults cover indexers that predate the oracle parameters
+  minCollateralRatioBPS: BigInt(event.minCollateralRatioBPS || "15000"),
+  liquidationThresholdBPS: BigInt(event.liquidationThresholdBPS || "12000"),
+  maxPriceStaleness: BigInt(event.maxPriceStaleness || "3600"),
+  repaidAmount: BigInt(0),
+  lastEventBlock: BigInt(event.blockNumber),
+});
+
+const isSettled = (loan: ProcessedLoan) =>
+  loan.status === LoanStatus.Repaid ||
+  loan.status === LoanStatus.Defaulted ||
+  loan.status === LoanStatus.Cancelled;
+
+/**
+ * Applies a single event to a loan. Returns the same object when the event
+ * does not change anything, so callers can cheaply detect no-ops.
+ */
+export const applyLoanEvent = (
+  loan: ProcessedLoan,
+  loanEvent: LoanEvent
+): ProcessedLoan => {
+  switch (loanEvent.type) {
+    case "LoanCreated":
+      return loan;
+
+    case "LoanAccepted":
+      if (loan.status !== LoanStatus.Pending) return loan;
+      return {
+        ...loan,
+        borrower: loanEvent.event.borrower,
+        startTime: BigInt(loanEvent.event.timestamp),
+        status: LoanStatus.Active,
+      };
+
+    case "CollateralAdded":
+      if (isSettled(loan)) return loan;
+      return {
+        ...loan,
+        collateralAmount:
+          loan.collateralAmount + BigInt(loanEvent.event.amount),
+      };
+
+    case "CollateralRemoved":
+      if (isSettled(loan)) return loan;
+      return {
+        ...loan,
+        collateralAmount:
+          loan.collateralAmount - BigInt(loanEvent.event.amount),
+      };
+
+    case "PartialRepayment": {
+      // totalRepaidAmount is absolute, so replays stay idempotent. A final
+      // partial payment is logged after the LoanRepaid it triggers.
+      const repaidAmount = BigInt(loanEvent.event.totalRepaidAmount);
+      const fullyRepaid = BigInt(loanEvent.event.remainingAmount) === BigInt(0);
+      return {
+        ...loan,
+        repaidAmount,
+        status:
+          fullyRepaid && !isSettled(loan) ? LoanStatus.Repaid : loan.status,
+      };
+    }
+
+    case "LoanRepaid":
+      // repayLoan() settles in one go and leaves repaidAmount untouched on-chain
+      if (isSettled(loan)) return loan;
+      return { ...loan, status: LoanStatus.Repaid };
+
+    case "LoanLiquidated":
+      if (isSettled(loan)) return loan;
+      return { ...loan, status: LoanStatus.Defaulted };
+
+    case "LoanOfferCancelled":
+      if (loan.status !== LoanStatus.Pending) return loan;
+      return { ...loan, status: LoanStatus.Cancelled };
+
+    case "LoanOfferRemoved":
+      // Order-book bookkeeping only. Accepting and cancelling both emit it
+      // first in the same transaction, so it says nothing about the outcome
+      return loan;
+  }
+};
+
+/**
+ * Replays events into a map of loans keyed by loan id. Events for loans whose
+ * LoanCreated has not been seen yet are skipped.
+ */
+export const reduceLoanEvents = (
+  events: LoanEvent[],
+  initial: Map<string, ProcessedLoan> = new Map()
+): Map<string, ProcessedLoan> => {
+  const loans = new Map(initial);
+
+  for (const loanEvent of events) {
+    const loanId = loanEvent.event.loanId;
+
+    if (loanEvent.type === "LoanCreated") {
+      if (!loans.has(loanId)) {
+        loans.set(loanId, createLoanFromEvent(loanEvent.event));
+      }
+      continue;
+    }
+
+    const loan = loans.get(loanId);
+    if (!loan) continue;
+
+    const next = applyLoanEvent(loan, loanEvent);
+    if (next === loan) continue;
+    const block = toBigIntOrNull(loanEvent.event.blockNumber);
+    loans.set(
+      loanId,
+      block !== null && block > next.lastEventBlock
+        ? { ...next, lastEventBlock: block }
+        : next
+    );
+  }
+
+  return loans;
+};
+
+// Build ProcessedLoans, keeping the order of the LoanCreated collection
+export const processLoanEvents = (
+  collections: LoanEventCollections
+): ProcessedLoan[] => {
+  const loans = reduceLoanEvents(collectLoanEvents(collections));
+  const emitted = new Set<string>();
+  const result: ProcessedLoan[] = [];
+
+  for (const event of collections.loanCreateds) {
+    const loan = loans.get(event.loanId);
+    if (!loan || emitted.has(event.loanId)) continue;
+    emitted.add(event.loanId);
+    result.push(loan);
+  }
+
+  return result;
+};
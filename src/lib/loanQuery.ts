@@ -0,0 +1,264 @@
+// Loan queries for /api/loans
+// Filtering, sorting and pagination over processed loans, plus the JSON
+// encoding used on the wire. The route handler and the client's on-chain
+// fallback share this module, so both answer a query the same way.
+//
+// BigInt encoding: every bigint field of a loan (see BIGINT_FIELDS) is sent
+// as a base-10 string with no sign prefix, exponent or separators, e.g.
+// 1500000000000000000n -> "1500000000000000000". Other fields are sent as is.
+
+import { LoanStatus } from "@/lib/contracts";
+import type { ProcessedLoan } from "@/hooks/useSubgraphQuery";
+
+export interface ApiLoan extends ProcessedLoan {
+  // Collateral is a Doma fractional domain token
+  isDomaBacked: boolean;
+}
+
+export const BIGINT_FIELDS = [
+  "id",
+  "amount",
+  "interestRate",
+  "duration",
+  "collateralAmount",
+  "startTime",
+  "createdAt",
+  "minCollateralRatioBPS",
+  "liquidationThresholdBPS",
+  "maxPriceStaleness",
+  "repaidAmount",
+  "lastEventBlock",
+] as const satisfies readonly (keyof ApiLoan)[];
+
+type BigIntField = (typeof BIGINT_FIELDS)[number];
+
+export type SerializedLoan = Omit<ApiLoan, BigIntField> & {
+  [K in BigIntField]: string;
+};
+
+export const LOAN_SORT_FIELDS = [
+  "id",
+  "createdAt",
+  "amount",
+  "interestRate",
+  "duration",
+  "collateralAmount",
+] as const;
+
+export type LoanSortField = (typeof LOAN_SORT_FIELDS)[number];
+
+export interface LoanQuery {
+  status?: LoanStatus[];
+  lender?: string;
+  borrower?: string;
+  // Lender or borrower
+  account?: string;
+  token?: string;
+  collateral?: string;
+  domaBacked?: boolean;
+  sort: LoanSortField;
+  order: "asc" | "desc";
+  limit: number;
+  offset: number;
+}
+
+export interface LoansResponse {
+  loans: SerializedLoan[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export const DEFAULT_LOAN_LIMIT = 100;
+export const MAX_LOAN_LIMIT = 500;
+
+export class LoanQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LoanQueryError";
+  }
+}
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+const parseAddress = (params: URLSearchParams, name: string) => {
+  const value = params.get(name);
+  if (value === null) return undefined;
+  if (!ADDRESS_PATTERN.test(value)) {
+    throw new LoanQueryError(`"${name}" must be an address`);
+  }
+  return value.toLowerCase();
+};
+
+const parseInteger = (
+  params: URLSearchParams,
+  name: string,
+  fallback: number,
+  max: number
+) => {
+  const value = params.get(name);
+  if (value === null) return fallback;
+  if (!/^\d+$/.test(value) || Number(value) > max) {
+    throw new LoanQueryError(
+      `"${name}" must be an integer between 0 and ${max}`
+    );
+  }
+  return Number(value);
+};
+
+// Accepts numbers or names, comma separated: status=0,1 or status=pending
+const parseStatus = (params: URLSearchParams): LoanStatus[] | undefined => {
+  const value = params.get("status");
+  if (value === null) return undefined;
+
+  return value.split(",").map((part) => {
+    const key = part.trim();
+    if (/^\d+$/.test(key) && LoanStatus[Number(key)] !== undefined) {
+      return Number(key) as LoanStatus;
+    }
+    const byName = Object.entries(LoanStatus).find(
+      ([name]) => name.toLowerCase() === key.toLowerCase()
+    );
+    if (byName && typeof byName[1] === "number") return byName[1];
+    throw new LoanQueryError(`Unknown loan status "${key}"`);
+  });
+};
+
+export const parseLoanQuery = (params: URLSearchParams): LoanQuery => {
+  const sort = params.get("sort") ?? "createdAt";
+  if (!(LOAN_SORT_FIELDS as readonly string[]).includes(sort)) {
+    throw new LoanQueryError(
+      `"sort" must be one of ${LOAN_SORT_FIELDS.join(", ")}`
+    );
+  }
+
+  const order = params.get("order") ?? "desc";
+  if (order !== "asc" && order !== "desc") {
+    throw new LoanQueryError(`"order" must be asc or desc`);
+  }
+
+  const domaBacked = params.get("domaBacked");
+  if (domaBacked !== null && domaBacked !== "true" && domaBacked !== "false") {
+    throw new LoanQueryError(`"domaBacked" must be true or false`);
+  }
+
+  return {
+    status: parseStatus(params),
+    lender: parseAddress(params, "lender"),
+    borrower: parseAddress(params, "borrower"),
+    account: parseAddress(params, "account"),
+    token: parseAddress(params, "token"),
+    collateral: parseAddress(params, "collateral"),
+    domaBacked: domaBacked === null ? undefined : domaBacked === "true",
+    sort: sort as LoanSortField,
+    order,
+    limit: parseInteger(params, "limit", DEFAULT_LOAN_LIMIT, MAX_LOAN_LIMIT),
+    offset: parseInteger(params, "offset", 0, Number.MAX_SAFE_INTEGER),
+  };
+};
+
+// Inverse of parseLoanQuery; defaults are left out to keep URLs stable
+export const toLoanSearchParams = (
+  query: Partial<LoanQuery>
+): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (query.status?.length) params.set("status", query.status.join(","));
+  if (query.lender) params.set("lender", query.lender.toLowerCase());
+  if (query.borrower) params.set("borrower", query.borrower.toLowerCase());
+  if (query.account) params.set("account", query.account.toLowerCase());
+  if (query.token) params.set("token", query.token.toLowerCase());
+  if (query.collateral) {
+    params.set("collateral", query.collateral.toLowerCase());
+  }
+  if (query.domaBacked !== undefined) {
+    params.set("domaBacked", String(query.domaBacked));
+  }
+  if (query.sort && query.sort !== "createdAt") params.set("sort", query.sort);
+  if (query.order && query.order !== "desc") params.set("order", query.order);
+  if (query.limit !== undefined) params.set("limit", String(query.limit));
+  if (query.offset) params.set("offset", String(query.offset));
+  return params;
+};
+
+const matchesLoanQuery = (loan: ApiLoan, query: LoanQuery) => {
+  const lender = loan.lender.toLowerCase();
+  const borrower = loan.borrower.toLowerCase();
+
+  if (query.status && !query.status.includes(loan.status)) return false;
+  if (query.lender && lender !== query.lender) return false;
+  if (query.borrower && borrower !== query.borrower) return false;
+  if (query.account && lender !== query.account && borrower !== query.account) {
+    return false;
+  }
+  if (query.token && loan.tokenAddress.toLowerCase() !== query.token) {
+    return false;
+  }
+  if (
+    query.collateral &&
+    loan.collateralAddress.toLowerCase() !== query.collateral
+  ) {
+    return false;
+  }
+  if (
+    query.domaBacked !== undefined &&
+    loan.isDomaBacked !== query.domaBacked
+  ) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Filter, sort and slice loans. Ties are broken by loan id so pages never
+ * overlap or skip a loan.
+ */
+export const applyLoanQuery = (
+  loans: ApiLoan[],
+  query: LoanQuery
+): { loans: ApiLoan[]; total: number } => {
+  const direction = query.order === "asc" ? 1 : -1;
+  const compare = (a: bigint, b: bigint) => (a === b ? 0 : a < b ? -1 : 1);
+
+  const matching = loans
+    .filter((loan) => matchesLoanQuery(loan, query))
+    .sort(
+      (a, b) =>
+        direction *
+        (compare(a[query.sort], b[query.sort]) || compare(a.id, b.id))
+    );
+
+  return {
+    loans: matching.slice(query.offset, query.offset + query.limit),
+    total: matching.length,
+  };
+};
+
+// Flag loans whose collateral is one of the given Doma domain tokens
+export const toApiLoans = (
+  loans: ProcessedLoan[],
+  domainTokenAddresses: Iterable<string>
+): ApiLoan[] => {
+  const domainTokens = new Set(
+    [...domainTokenAddresses].map((address) => address.toLowerCase())
+  );
+  return loans.map((loan) => ({
+    ...loan,
+    isDomaBacked: domainTokens.has(loan.collateralAddress.toLowerCase()),
+  }));
+};
+
+export const serializeLoan = (loan: ApiLoan): SerializedLoan => {
+  const serialized = { ...loan } as Record<string, unknown>;
+  for (const field of BIGINT_FIELDS) {
+    serialized[field] = loan[field].toString(10);
+  }
+  return serialized as SerializedLoan;
+};
+
+export const deserializeLoan = (loan: SerializedLoan): ApiLoan => {
+  const deserialized = { ...loan } as Record<string, unknown>;
+  for (const field of BIGINT_FIELDS) {
+    deserialized[field] = BigInt(loan[field]);
+  }
+  return deserialized as unknown as ApiLoan;
+};
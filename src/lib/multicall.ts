@@ -1,11 +1,26 @@
 /**
  * @file multicall.ts
- * @description Efficient price fetching utility for Doma (no multicall contract needed)
+ * @description Batched contract reads for Doma: Multicall3 aggregate3 where
+ * it is deployed, JSON-RPC batches where it is not
  * @author harshmittal.dev
  */
 
 import { ethers } from "ethers";
-import { DOMA_TESTNET_CONFIG } from "./contracts";
+import {
+  ACTIVE_CHAIN,
+  DREAMLEND_ABI,
+  DREAMLEND_CONTRACT_ADDRESS,
+  DOMA_RANK_ORACLE_ABI,
+  DOMA_RANK_ORACLE_ADDRESS,
+  ERC20_ABI,
+} from "./contracts";
+import {
+  Abi,
+  FunctionArgs,
+  FunctionName,
+  FunctionReturn,
+  connectContract,
+} from "./contractBindings";
 
 // Chainlink Aggregator ABI - only the functions we need
 export const AGGREGATOR_ABI = [
@@ -31,6 +46,45 @@ export const AGGREGATOR_ABI = [
   },
 ] as const;
 
+// Multicall3 lives at the same address on every chain it is deployed to
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+export const MULTICALL3_ABI = [
+  {
+    name: "aggregate3",
+    type: "function",
+    stateMutability: "payable",
+    inputs: [
+      {
+        name: "calls",
+        type: "tuple[]",
+        components: [
+          { name: "target", type: "address" },
+          { name: "allowFailure", type: "bool" },
+          { name: "callData", type: "bytes" },
+        ],
+      },
+    ],
+    outputs: [
+      {
+        name: "returnData",
+        type: "tuple[]",
+        components: [
+          { name: "success", type: "bool" },
+          { name: "returnData", type: "bytes" },
+        ],
+      },
+    ],
+  },
+] as const;
+
+// Calls per aggregate3 eth_call, to stay inside the node's gas and response
+// size limits
+const AGGREGATE3_CHUNK_SIZE = 200;
+
+// Error(string), the revert data of require() and revert("...")
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+
 // Types
 
 export interface PriceFeedCall {
@@ -44,16 +98,107 @@ export interface PriceData {
   price: bigint;
   decimals: number;
   updatedAt: number;
-  isStale: boolean;
   success: boolean;
   priceUSD: string; // Formatted USD price
 }
 
+// One encoded read and how to decode what it returns
+export interface BatchCall<T = unknown> {
+  target: string;
+  callData: string;
+  decode: (returnData: string) => T;
+}
+
+// Every call succeeds or fails on its own
+export type BatchResult<T> =
+  { success: true; value: T } | { success: false; error: string };
+
+export type BatchResults<Calls extends readonly BatchCall[]> = {
+  -readonly [I in keyof Calls]: Calls[I] extends BatchCall<infer T>
+    ? BatchResult<T>
+    : never;
+};
+
+const interfaces = new WeakMap<Abi, ethers.Interface>();
+
+const interfaceFor = (abi: Abi) => {
+  let iface = interfaces.get(abi);
+  if (!iface) {
+    iface = new ethers.Interface(abi as unknown as ethers.InterfaceAbi);
+    interfaces.set(abi, iface);
+  }
+  return iface;
+};
+
 /**
- * Price fetching utility class for Doma (uses Promise.all instead of multicall)
+ * A read of `functionName` on `target`, typed by its `as const` ABI, to
+ * pass to MulticallUtil.aggregate.
+ */
+export const encodeCall = <A extends Abi, N extends FunctionName<A>>(
+  target: string,
+  abi: A,
+  functionName: N,
+  args: FunctionArgs<A, N>
+): BatchCall<FunctionReturn<A, N>> => {
+  const iface = interfaceFor(abi);
+  const fragment = iface.getFunction(functionName);
+  if (!fragment) {
+    throw new Error(`Function ${functionName} is not in the ABI`);
+  }
+
+  return {
+    target,
+    callData: iface.encodeFunctionData(fragment, args as readonly unknown[]),
+    decode: (returnData) => {
+      const result = iface.decodeFunctionResult(fragment, returnData);
+      // A single return value is unwrapped, as ethers Contracts do
+      return (
+        fragment.outputs.length === 1 ? result[0] : result
+      ) as FunctionReturn<A, N>;
+    },
+  };
+};
+
+const revertReason = (data: string) => {
+  if (data.startsWith(ERROR_STRING_SELECTOR)) {
+    try {
+      const [reason] = ethers.AbiCoder.defaultAbiCoder().decode(
+        ["string"],
+        ethers.dataSlice(data, 4)
+      );
+      return `reverted: ${reason}`;
+    } catch {
+      // Fall through to the raw selector
+    }
+  }
+  return data === "0x" ? "reverted" : `reverted with ${data.slice(0, 10)}`;
+};
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error
+    ? ((error as { shortMessage?: string }).shortMessage ?? error.message)
+    : String(error);
+
+const decodeResult = <T>(
+  call: BatchCall<T>,
+  returnData: string
+): BatchResult<T> => {
+  try {
+    return { success: true, value: call.decode(returnData) };
+  } catch (error) {
+    return {
+      success: false,
+      error: `could not decode result: ${errorMessage(error)}`,
+    };
+  }
+};
+
+/**
+ * Batched contract reads for Doma
  */
 export class MulticallUtil {
   private provider: ethers.JsonRpcProvider;
+  private multicall3Available?: Promise<boolean>;
 
   constructor(providerOrRpc?: ethers.JsonRpcProvider | string) {
     // Use provided provider or create new one with Doma testnet RPC
@@ -63,14 +208,113 @@ export class MulticallUtil {
       this.provider = providerOrRpc;
     } else {
       this.provider = new ethers.JsonRpcProvider(
-        DOMA_TESTNET_CONFIG.rpcUrls.default.http[0]
+        ACTIVE_CHAIN.rpcUrls.default.http[0]
       );
     }
   }
 
   /**
-   * Batch fetch price feed data for multiple tokens using Promise.all
-   * This is the main function for fetching current prices efficiently without multicall
+   * Whether Multicall3 is deployed on this chain, checked once per instance.
+   * A failed check is retried on the next batch instead of being remembered.
+   */
+  private hasMulticall3(): Promise<boolean> {
+    this.multicall3Available ??= this.provider
+      .getCode(MULTICALL3_ADDRESS)
+      .then((code) => code !== "0x")
+      .catch((error) => {
+        console.warn("Failed to check for Multicall3:", error);
+        this.multicall3Available = undefined;
+        return false;
+      });
+    return this.multicall3Available;
+  }
+
+  /**
+   * Run every call and return their results in order. A reverting call
+   * fails on its own without affecting the others. Uses Multicall3
+   * aggregate3, one eth_call per AGGREGATE3_CHUNK_SIZE calls, and falls
+   * back to JSON-RPC batches of plain eth_calls where Multicall3 is not
+   * deployed.
+   */
+  async aggregate<const Calls extends readonly BatchCall[]>(
+    calls: Calls
+  ): Promise<BatchResults<Calls>> {
+    if (calls.length === 0) {
+      return [] as unknown as BatchResults<Calls>;
+    }
+
+    const results = (await this.hasMulticall3())
+      ? await this.aggregateWithMulticall3(calls)
+      : await this.aggregateWithRpcBatch(calls);
+    return results as BatchResults<Calls>;
+  }
+
+  private async aggregateWithMulticall3(
+    calls: readonly BatchCall[]
+  ): Promise<BatchResult<unknown>[]> {
+    const multicall3 = connectContract(
+      MULTICALL3_ADDRESS,
+      MULTICALL3_ABI,
+      this.provider
+    );
+
+    const chunks: (readonly BatchCall[])[] = [];
+    for (let i = 0; i < calls.length; i += AGGREGATE3_CHUNK_SIZE) {
+      chunks.push(calls.slice(i, i + AGGREGATE3_CHUNK_SIZE));
+    }
+
+    const chunkResults = await Promise.all(
+      chunks.map(async (chunk): Promise<BatchResult<unknown>[]> => {
+        try {
+          const returnData = await multicall3.aggregate3.staticCall(
+            chunk.map(({ target, callData }) => ({
+              target,
+              allowFailure: true,
+              callData,
+            }))
+          );
+          return chunk.map((call, i) =>
+            returnData[i].success
+              ? decodeResult(call, returnData[i].returnData)
+              : {
+                  success: false,
+                  error: revertReason(returnData[i].returnData),
+                }
+          );
+        } catch (error) {
+          // The aggregate call itself failed, e.g. the RPC is down
+          console.warn("Multicall3 aggregate3 failed:", error);
+          const message = errorMessage(error);
+          return chunk.map(() => ({ success: false, error: message }));
+        }
+      })
+    );
+    return chunkResults.flat();
+  }
+
+  private async aggregateWithRpcBatch(
+    calls: readonly BatchCall[]
+  ): Promise<BatchResult<unknown>[]> {
+    // JsonRpcProvider sends the requests made in the same tick as JSON-RPC
+    // batches of up to batchMaxCount, so these are still a few round trips
+    return Promise.all(
+      calls.map(async (call): Promise<BatchResult<unknown>> => {
+        try {
+          const returnData = await this.provider.call({
+            to: call.target,
+            data: call.callData,
+          });
+          return decodeResult(call, returnData);
+        } catch (error) {
+          return { success: false, error: errorMessage(error) };
+        }
+      })
+    );
+  }
+
+  /**
+   * Batch fetch price feed data for multiple tokens: latestRoundData and
+   * decimals of every feed in one aggregate
    */
   async batchFetchPriceFeeds(
     priceFeedCalls: PriceFeedCall[]
@@ -79,77 +323,128 @@ export class MulticallUtil {
       return [];
     }
 
-    try {
-      // Create promises for all price feed calls
-      const pricePromises = priceFeedCalls.map(
-        async ({ tokenAddress, priceFeedAddress }) => {
-          let priceData: PriceData = {
-            tokenAddress,
-            priceFeedAddress,
-            price: 0n,
-            decimals: 8, // Default to 8 decimals (common for USD price feeds)
-            updatedAt: 0,
-            isStale: true,
-            success: false,
-            priceUSD: "0.00",
-          };
-
-          try {
-            // Create contract instance for this price feed
-            const priceFeedContract = new ethers.Contract(
-              priceFeedAddress,
-              AGGREGATOR_ABI,
-              this.provider
-            );
-
-            // Fetch both latestRoundData and decimals in parallel
-            const [roundData, decimals] = await Promise.all([
-              priceFeedContract.latestRoundData(),
-              priceFeedContract.decimals(),
-            ]);
-
-            const [, answer, , updatedAt] = roundData;
-
-            // Validate price data
-            if (answer > 0 && updatedAt > 0) {
-              const currentTime = Math.floor(Date.now() / 1000);
-              const isStale = currentTime - Number(updatedAt) > 3600; // 1 hour staleness
-
-              const priceUSD = this.formatPriceToUSD(
-                BigInt(answer.toString()),
-                Number(decimals),
-                4 // Show more precision for better UX
-              );
-
-              priceData = {
-                tokenAddress,
-                priceFeedAddress,
-                price: BigInt(answer.toString()),
-                decimals: Number(decimals),
-                updatedAt: Number(updatedAt),
-                isStale,
-                success: true,
-                priceUSD,
-              };
-            }
-          } catch (error) {
-            console.warn(
-              `Failed to fetch price data for token ${tokenAddress} from ${priceFeedAddress}:`,
-              error
-            );
-          }
-
-          return priceData;
-        }
-      );
+    const results = await this.aggregate(
+      priceFeedCalls.flatMap(({ priceFeedAddress }) => [
+        encodeCall(priceFeedAddress, AGGREGATOR_ABI, "latestRoundData", []),
+        encodeCall(priceFeedAddress, AGGREGATOR_ABI, "decimals", []),
+      ])
+    );
+
+    return priceFeedCalls.map(({ tokenAddress, priceFeedAddress }, i) => {
+      const priceData: PriceData = {
+        tokenAddress,
+        priceFeedAddress,
+        price: 0n,
+        decimals: 8, // Default to 8 decimals (common for USD price feeds)
+        updatedAt: 0,
+        success: false,
+        priceUSD: "0.00",
+      };
+
+      const fail = (error: string) => {
+        console.warn(
+          `Failed to fetch price data for token ${tokenAddress} from ${priceFeedAddress}:`,
+          error
+        );
+        return priceData;
+      };
+
+      const roundData = results[2 * i];
+      const decimals = results[2 * i + 1];
+      if (!roundData.success) return fail(roundData.error);
+      if (!decimals.success) return fail(decimals.error);
+
+      // Both calls come from AGGREGATOR_ABI, in this order
+      const { answer, updatedAt } = roundData.value as FunctionReturn<
+        typeof AGGREGATOR_ABI,
+        "latestRoundData"
+      >;
+      const feedDecimals = Number(decimals.value);
+
+      // Validate price data
+      if (answer <= 0n || updatedAt <= 0n) {
+        return priceData;
+      }
 
-      // Wait for all price fetches to complete
-      const priceDataList = await Promise.all(pricePromises);
-      return priceDataList;
-    } catch (error) {
-      console.error("Batch price feed fetch failed:", error);
-      throw error;
-    }
+      // Staleness depends on each loan's maxPriceStaleness, see priceStaleness.ts
+      return {
+        tokenAddress,
+        priceFeedAddress,
+        price: answer,
+        decimals: feedDecimals,
+        updatedAt: Number(updatedAt),
+        success: true,
+        // Show more precision for better UX
+        priceUSD: this.formatPriceToUSD(answer, feedDecimals, 4),
+      };
+    });
+  }
+
+  /**
+   * ERC20 balances, one result per token/owner pair
+   */
+  batchFetchBalances(
+    queries: { tokenAddress: string; owner: string }[]
+  ): Promise<BatchResult<bigint>[]> {
+    return this.aggregate(
+      queries.map(({ tokenAddress, owner }) =>
+        encodeCall(tokenAddress, ERC20_ABI, "balanceOf", [owner])
+      )
+    );
+  }
+
+  /**
+   * ERC20 allowances, to DomaLend unless a spender is given
+   */
+  batchFetchAllowances(
+    queries: { tokenAddress: string; owner: string; spender?: string }[]
+  ): Promise<BatchResult<bigint>[]> {
+    return this.aggregate(
+      queries.map(({ tokenAddress, owner, spender }) =>
+        encodeCall(tokenAddress, ERC20_ABI, "allowance", [
+          owner,
+          spender ?? DREAMLEND_CONTRACT_ADDRESS,
+        ])
+      )
+    );
+  }
+
+  /**
+   * DomaRank oracle values, 18-decimal USD, one result per token
+   */
+  batchFetchTokenValues(
+    tokenAddresses: string[]
+  ): Promise<BatchResult<bigint>[]> {
+    return this.aggregate(
+      tokenAddresses.map((tokenAddress) =>
+        encodeCall(
+          DOMA_RANK_ORACLE_ADDRESS,
+          DOMA_RANK_ORACLE_ABI,
+          "getTokenValue",
+          [tokenAddress]
+        )
+      )
+    );
+  }
+
+  /**
+   * DomaLend getLoanHealthFactor for every loan
+   */
+  batchFetchHealthFactors(
+    loanIds: bigint[]
+  ): Promise<
+    BatchResult<FunctionReturn<typeof DREAMLEND_ABI, "getLoanHealthFactor">>[]
+  > {
+    return this.aggregate(
+      loanIds.map((loanId) =>
+        encodeCall(
+          DREAMLEND_CONTRACT_ADDRESS,
+          DREAMLEND_ABI,
+          "getLoanHealthFactor",
+          [loanId]
+        )
+      )
+    );
   }
 
   /**
@@ -0,0 +1,130 @@
+// On-chain loan reads
+// Fallback data source for when the indexer is unreachable or behind. Loan
+// ids come from the contract's paginated getters and each loan from getLoan();
+// ethers folds calls issued in the same tick into one JSON-RPC batch.
+
+import { ethers } from "ethers";
+import { ACTIVE_CHAIN } from "@/lib/contracts";
+import {
+  connectDomaLend,
+  decodeLoan,
+  LoanStruct,
+} from "@/lib/contractBindings";
+import type { ProcessedLoan } from "@/hooks/useSubgraphQuery";
+
+// Ids requested per paginated getter call
+const ID_PAGE_SIZE = BigInt(100);
+// Calls per JSON-RPC batch
+const RPC_BATCH_SIZE = 50;
+
+let provider: ethers.JsonRpcProvider | null = null;
+
+export const getOnChainProvider = () => {
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(
+      ACTIVE_CHAIN.rpcUrls.default.http[0],
+      undefined,
+      {
+        staticNetwork: ethers.Network.from(ACTIVE_CHAIN.id),
+        batchMaxCount: RPC_BATCH_SIZE,
+      }
+    );
+  }
+  return provider;
+};
+
+const getContract = () => connectDomaLend(getOnChainProvider());
+
+// Convert a getLoan() struct into the shape the indexer produces. Addresses
+// are lowercased to match indexed events.
+const toProcessedLoan = (struct: LoanStruct): ProcessedLoan => {
+  const loan = decodeLoan(struct);
+  return {
+    ...loan,
+    lender: loan.lender.toLowerCase(),
+    borrower: loan.borrower.toLowerCase(),
+    tokenAddress: loan.tokenAddress.toLowerCase(),
+    collateralAddress: loan.collateralAddress.toLowerCase(),
+    // Creation time, historical prices and event blocks only exist in events
+    createdAt: BigInt(0),
+    lastEventBlock: BigInt(0),
+  };
+};
+
+// Read every id behind a count + paginated getter pair, pages in parallel
+const readPaginatedIds = async (
+  count: bigint,
+  readPage: (startIndex: bigint, size: bigint) => Promise<bigint[]>
+): Promise<bigint[]> => {
+  const starts: bigint[] = [];
+  for (let start = BigInt(0); start < count; start += ID_PAGE_SIZE) {
+    starts.push(start);
+  }
+
+  const pages = await Promise.all(
+    starts.map((start) => readPage(start, ID_PAGE_SIZE))
+  );
+  return pages.flat().map((id) => BigInt(id));
+};
+
+export const fetchActiveOfferIds = async (): Promise<bigint[]> => {
+  const contract = getContract();
+  const count = await contract.getActiveLoanOffersCount();
+  return readPaginatedIds(count, (start, size) =>
+    contract.getActiveLoanOffersPaginated(start, size)
+  );
+};
+
+// Loans where the account is either lender or borrower
+export const fetchAccountLoanIds = async (
+  account: string
+): Promise<bigint[]> => {
+  const contract = getContract();
+  const [lenderCount, borrowerCount] = await Promise.all([
+    contract.getLenderLoansCount(account),
+    contract.getBorrowerLoansCount(account),
+  ]);
+
+  const [lenderIds, borrowerIds] = await Promise.all([
+    readPaginatedIds(lenderCount, (start, size) =>
+      contract.getLenderLoansPaginated(account, start, size)
+    ),
+    readPaginatedIds(borrowerCount, (start, size) =>
+      contract.getBorrowerLoansPaginated(account, start, size)
+    ),
+  ]);
+  return [...lenderIds, ...borrowerIds];
+};
+
+export const fetchLoansByIds = async (
+  ids: bigint[]
+): Promise<ProcessedLoan[]> => {
+  const contract = getContract();
+  const loans: ProcessedLoan[] = [];
+
+  for (let i = 0; i < ids.length; i += RPC_BATCH_SIZE) {
+    const batch = ids.slice(i, i + RPC_BATCH_SIZE);
+    const results = await Promise.all(batch.map((id) => contract.getLoan(id)));
+    loans.push(...results.map(toProcessedLoan));
+  }
+
+  return loans;
+};
+
+/**
+ * Active offers plus, when an account is given, every loan it lent or
+ * borrowed. Newest loan first, like the indexer collections.
+ */
+export const fetchOnChainLoans = async (
+  account?: string
+): Promise<ProcessedLoan[]> => {
+  const [offerIds, accountIds] = await Promise.all([
+    fetchActiveOfferIds(),
+    account ? fetchAccountLoanIds(account) : Promise.resolve([]),
+  ]);
+
+  const ids = [...new Set([...offerIds, ...accountIds])].sort((a, b) =>
+    a === b ? 0 : a > b ? -1 : 1
+  );
+  return fetchLoansByIds(ids);
+};
@@ -0,0 +1,261 @@
+// Oracle price history
+// DomaRankOracle keeps only each token's latest price, but emits
+// TokenValueUpdated(tokenAddress, newPrice, timestamp) on every update. This
+// reads those logs straight from the chain, in block ranges the RPC accepts,
+// and turns them into a price series per token. The indexer only follows
+// DomaLend, so the logs are the one place this history lives.
+
+import { ethers } from "ethers";
+import { DOMA_RANK_ORACLE_ADDRESS } from "./contracts";
+import { connectDomaRankOracle } from "./contractBindings";
+import { getOnChainProvider } from "./onChainLoans";
+
+export interface OraclePricePoint {
+  // Unix seconds, as the oracle stamped the update
+  timestamp: number;
+  // USD
+  price: number;
+  priceRaw: bigint;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+// One decoded TokenValueUpdated log
+export interface OraclePriceUpdate {
+  tokenAddress: string;
+  newPrice: bigint;
+  timestamp: bigint;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface PriceMarker {
+  label: string;
+  // Unix seconds
+  timestamp: number;
+  // The oracle price in force then, null before the first update in range
+  price: number | null;
+}
+
+// Oracle prices carry 18 decimals
+const PRICE_DECIMALS = 18;
+
+// How far back to look by default, and the log range asked for per request
+export const DEFAULT_LOOKBACK_BLOCKS = 200_000;
+const LOG_RANGE = 20_000;
+// Ranges the RPC still rejects are split in half down to this size
+const MIN_LOG_RANGE = 500;
+
+// Charts for many tokens open together; they share one read for this long
+const HISTORY_CACHE_MS = 60 * 1000;
+
+// Reading back to a moment goes by the average block time over this many
+// recent blocks, padded so the estimate errs towards reading too far
+const BLOCK_TIME_SAMPLE = 10_000;
+const BLOCK_TIME_MARGIN = 0.1;
+
+export interface BlockStamp {
+  number: number;
+  // Unix seconds
+  timestamp: number;
+}
+
+/**
+ * Price series per lowercased token address, oldest first. A log seen twice,
+ * as happens when ranges overlap, is counted once.
+ */
+export const toPriceSeries = (
+  updates: OraclePriceUpdate[]
+): Map<string, OraclePricePoint[]> => {
+  const seen = new Set<string>();
+  const series = new Map<string, OraclePricePoint[]>();
+
+  const ordered = [...updates].sort(
+    (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+  );
+  for (const update of ordered) {
+    const key = `${update.transactionHash.toLowerCase()}-${update.logIndex}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const token = update.tokenAddress.toLowerCase();
+    const points = series.get(token) ?? [];
+    points.push({
+      timestamp: Number(update.timestamp),
+      price: Number(ethers.formatUnits(update.newPrice, PRICE_DECIMALS)),
+      priceRaw: update.newPrice,
+      blockNumber: update.blockNumber,
+      transactionHash: update.transactionHash,
+      logIndex: update.logIndex,
+    });
+    series.set(token, points);
+  }
+
+  return series;
+};
+
+/**
+ * The price in force at `timestamp`: the last update at or before it, or
+ * null when the series starts later.
+ */
+export const priceAt = (points: OraclePricePoint[], timestamp: number) => {
+  let price: number | null = null;
+  for (const point of points) {
+    if (point.timestamp > timestamp) break;
+    price = point.price;
+  }
+  return price;
+};
+
+/**
+ * Where a loan's creation and acceptance fall on a price series. Either is
+ * left out while unknown (zero), e.g. a pending offer has no acceptance.
+ */
+export const loanPriceMarkers = (
+  loan: { createdAt: bigint; startTime: bigint },
+  points: OraclePricePoint[]
+): PriceMarker[] =>
+  [
+    { label: "Created", timestamp: Number(loan.createdAt) },
+    { label: "Accepted", timestamp: Number(loan.startTime) },
+  ]
+    .filter(({ timestamp }) => timestamp > 0)
+    .map((marker) => ({
+      ...marker,
+      price: priceAt(points, marker.timestamp),
+    }));
+
+/**
+ * Blocks to look back from `latest` to reach `since` (unix seconds), at the
+ * average block time between `reference` and `latest`, plus a margin. Never
+ * more than the chain has.
+ */
+export const blocksSince = (
+  since: number,
+  latest: BlockStamp,
+  reference: BlockStamp
+) => {
+  const blocks = latest.number - reference.number;
+  const seconds = latest.timestamp - reference.timestamp;
+  if (blocks <= 0 || seconds <= 0) return latest.number;
+
+  const elapsed = Math.max(latest.timestamp - since, 0);
+  const estimate = Math.ceil(
+    (elapsed * blocks * (1 + BLOCK_TIME_MARGIN)) / seconds
+  );
+  return Math.min(estimate, latest.number);
+};
+
+const oracle = () => connectDomaRankOracle(getOnChainProvider());
+
+const lookbackSince = async (since: number) => {
+  const provider = getOnChainProvider();
+  const latest = await provider.getBlock("latest");
+  if (!latest) return DEFAULT_LOOKBACK_BLOCKS;
+  const reference = await provider.getBlock(
+    Math.max(latest.number - BLOCK_TIME_SAMPLE, 0)
+  );
+  if (!reference) return DEFAULT_LOOKBACK_BLOCKS;
+  return blocksSince(since, latest, reference);
+};
+
+const queryRange = async (
+  fromBlock: number,
+  toBlock: number
+): Promise<OraclePriceUpdate[]> => {
+  const contract = oracle();
+  try {
+    const logs = await contract.queryFilter(
+      contract.filters.TokenValueUpdated(),
+      fromBlock,
+      toBlock
+    );
+    return logs.map((log) => ({
+      tokenAddress: log.args.tokenAddress,
+      newPrice: log.args.newPrice,
+      timestamp: log.args.timestamp,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+    }));
+  } catch (error) {
+    if (toBlock - fromBlock + 1 <= MIN_LOG_RANGE) throw error;
+    // Most RPCs cap the range or result size of a log query
+    const middle = Math.floor((fromBlock + toBlock) / 2);
+    const [first, second] = await Promise.all([
+      queryRange(fromBlock, middle),
+      queryRange(middle + 1, toBlock),
+    ]);
+    return [...first, ...second];
+  }
+};
+
+const readHistory = async (lookbackBlocks: number) => {
+  const latestBlock = await getOnChainProvider().getBlockNumber();
+  const startBlock = Math.max(0, latestBlock - lookbackBlocks);
+
+  const ranges: [number, number][] = [];
+  for (let from = startBlock; from <= latestBlock; from += LOG_RANGE) {
+    ranges.push([from, Math.min(from + LOG_RANGE - 1, latestBlock)]);
+  }
+  const updates = await Promise.all(
+    ranges.map(([from, to]) => queryRange(from, to))
+  );
+  return toPriceSeries(updates.flat());
+};
+
+let cached: {
+  lookbackBlocks: number;
+  readAt: number;
+  history: Promise<Map<string, OraclePricePoint[]>>;
+} | null = null;
+
+/**
+ * Oracle price series for `tokenAddresses` over the last `lookbackBlocks`
+ * blocks, reaching further back when needed to cover `since` (unix seconds),
+ * keyed by lowercased address. Tokens without updates in range get an empty
+ * series. Every token's updates come from one shared read, which also serves
+ * any shorter lookback.
+ */
+export const fetchOraclePriceHistory = async (
+  tokenAddresses: string[],
+  {
+    lookbackBlocks = DEFAULT_LOOKBACK_BLOCKS,
+    since,
+  }: { lookbackBlocks?: number; since?: number } = {}
+): Promise<Map<string, OraclePricePoint[]>> => {
+  if (
+    !DOMA_RANK_ORACLE_ADDRESS ||
+    DOMA_RANK_ORACLE_ADDRESS === ethers.ZeroAddress
+  ) {
+    return new Map();
+  }
+
+  if (since !== undefined && since > 0) {
+    lookbackBlocks = Math.max(lookbackBlocks, await lookbackSince(since));
+  }
+
+  const now = Date.now();
+  if (
+    !cached ||
+    cached.lookbackBlocks < lookbackBlocks ||
+    now - cached.readAt > HISTORY_CACHE_MS
+  ) {
+    const history = readHistory(lookbackBlocks);
+    cached = { lookbackBlocks, readAt: now, history };
+    // A failed read is retried by the next caller
+    history.catch(() => {
+      if (cached?.history === history) cached = null;
+    });
+  }
+
+  const history = await cached.history;
+  return new Map(
+    tokenAddresses.map((address) => [
+      address.toLowerCase(),
+      history.get(address.toLowerCase()) ?? [],
+    ])
+  );
+};
@@ -0,0 +1,144 @@
+// Pending transactions
+// Every submitted DomaLend transaction is kept in localStorage with what it
+// was meant to do until its receipt is seen, so a reload in the middle of
+// one does not lose it. Other tabs pick up changes through storage events.
+
+import type { TransactionActionStep } from "@/lib/transactionMachine";
+
+export interface PendingTransaction {
+  hash: string;
+  from: string;
+  nonce: number;
+  action: TransactionActionStep;
+  loanId: string | null;
+  tokenAddress: string | null;
+  // Raw token amounts as decimal strings, keyed by what they are for
+  amounts: Record<string, string>;
+  // Milliseconds since epoch
+  submittedAt: number;
+}
+
+// What a write is for, as passed by the code that sends it
+export interface PendingTransactionIntent {
+  action: TransactionActionStep;
+  loanId?: bigint;
+  tokenAddress?: string;
+  amounts?: Record<string, bigint>;
+}
+
+export const PENDING_ACTION_LABELS: Record<TransactionActionStep, string> = {
+  approving: "Token approval",
+  creating: "Create loan offer",
+  accepting: "Accept loan offer",
+  repaying: "Repay loan",
+  liquidating: "Liquidate loan",
+  cancelling: "Cancel loan offer",
+  adding_collateral: "Add collateral",
+  removing_collateral: "Remove collateral",
+  partial_repaying: "Partial repayment",
+};
+
+const STORAGE_KEY = "domalend:pending-transactions";
+
+const listeners = new Set<() => void>();
+
+// Hashes sent from this tab, which follows them itself
+const ownHashes = new Set<string>();
+
+const getStorage = (): Storage | null => {
+  try {
+    return typeof window !== "undefined" ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+export const readPendingTransactions = (): PendingTransaction[] => {
+  const raw = getStorage()?.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const writePendingTransactions = (transactions: PendingTransaction[]) => {
+  try {
+    const storage = getStorage();
+    if (transactions.length === 0) storage?.removeItem(STORAGE_KEY);
+    else storage?.setItem(STORAGE_KEY, JSON.stringify(transactions));
+  } catch (err) {
+    console.warn("Failed to persist pending transactions:", err);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const addPendingTransaction = (
+  tx: { hash: string; from: string; nonce: number },
+  intent: PendingTransactionIntent
+) => {
+  ownHashes.add(tx.hash);
+  const record: PendingTransaction = {
+    hash: tx.hash,
+    from: tx.from,
+    nonce: tx.nonce,
+    action: intent.action,
+    loanId: intent.loanId?.toString() ?? null,
+    tokenAddress: intent.tokenAddress ?? null,
+    amounts: Object.fromEntries(
+      Object.entries(intent.amounts ?? {}).map(([key, value]) => [
+        key,
+        value.toString(),
+      ])
+    ),
+    submittedAt: Date.now(),
+  };
+  writePendingTransactions([
+    ...readPendingTransactions().filter((pending) => pending.hash !== tx.hash),
+    record,
+  ]);
+};
+
+// Follow a sped-up transaction to the hash that replaced it
+export const replacePendingTransaction = (
+  hash: string,
+  replacement: string
+) => {
+  if (ownHashes.delete(hash)) ownHashes.add(replacement);
+  writePendingTransactions(
+    readPendingTransactions().map((pending) =>
+      pending.hash === hash ? { ...pending, hash: replacement } : pending
+    )
+  );
+};
+
+// Forget a transaction, returning its record if it was still pending
+export const removePendingTransaction = (
+  hash: string
+): PendingTransaction | null => {
+  ownHashes.delete(hash);
+  const transactions = readPendingTransactions();
+  const removed = transactions.find((pending) => pending.hash === hash);
+  if (!removed) return null;
+  writePendingTransactions(
+    transactions.filter((pending) => pending.hash !== hash)
+  );
+  return removed;
+};
+
+export const isOwnPendingTransaction = (hash: string) => ownHashes.has(hash);
+
+export const subscribePendingTransactions = (listener: () => void) => {
+  listeners.add(listener);
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+  window.addEventListener("storage", onStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+};
@@ -0,0 +1,172 @@
+// EIP-2612 permits
+// Tokens that implement `permit` take an approval as an EIP-712 signature
+// for the exact amount, which is then handed to the token's own `permit`.
+// DomaLend has no entry points that take a signature, so the permit is its
+// own transaction in place of approve. Support is probed per token through
+// `nonces`/`DOMAIN_SEPARATOR`.
+
+import { ethers } from "ethers";
+import { connectContract } from "@/lib/contractBindings";
+
+export const PERMIT_ABI = [
+  {
+    type: "function",
+    name: "nonces",
+    inputs: [{ name: "owner", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "DOMAIN_SEPARATOR",
+    inputs: [],
+    outputs: [{ name: "", type: "bytes32" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "name",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "version",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "permit",
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+      { name: "v", type: "uint8" },
+      { name: "r", type: "bytes32" },
+      { name: "s", type: "bytes32" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+] as const;
+
+// How long a signed permit stays valid
+export const PERMIT_DEADLINE = 20 * 60; // 20 minutes, in seconds
+
+// Versions to try for tokens without a `version()` getter
+const FALLBACK_VERSIONS = ["1", "2"];
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+// The signed part of a permit, passed to `permit` after owner and spender
+export interface PermitSignature {
+  value: bigint;
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+const domainCache = new Map<string, Promise<ethers.TypedDataDomain | null>>();
+
+/**
+ * The EIP-712 domain among `versions` whose hash equals `domainSeparator`,
+ * or null when none does and a signature would not verify.
+ */
+export const matchPermitDomain = (
+  domainSeparator: string,
+  base: { name: string; chainId: bigint; verifyingContract: string },
+  versions: string[]
+): ethers.TypedDataDomain | null => {
+  for (const version of versions) {
+    const domain = { ...base, version };
+    if (ethers.TypedDataEncoder.hashDomain(domain) === domainSeparator) {
+      return domain;
+    }
+  }
+  return null;
+};
+
+const probePermitDomain = async (
+  tokenAddress: string,
+  provider: ethers.Provider
+): Promise<ethers.TypedDataDomain | null> => {
+  const token = connectContract(tokenAddress, PERMIT_ABI, provider);
+  try {
+    const [domainSeparator, name, { chainId }] = await Promise.all([
+      token.DOMAIN_SEPARATOR(),
+      token.name(),
+      provider.getNetwork(),
+      token.nonces(ethers.ZeroAddress),
+    ]);
+    const version = await token.version().catch(() => null);
+
+    return matchPermitDomain(
+      domainSeparator,
+      { name, chainId, verifyingContract: tokenAddress },
+      version ? [version] : FALLBACK_VERSIONS
+    );
+  } catch {
+    // No nonces or DOMAIN_SEPARATOR: not a permit token
+    return null;
+  }
+};
+
+/**
+ * The token's permit domain if it supports EIP-2612, otherwise null.
+ * Cached per token for the page's lifetime.
+ */
+export const detectPermitSupport = (
+  tokenAddress: string,
+  provider: ethers.Provider
+): Promise<ethers.TypedDataDomain | null> => {
+  const key = tokenAddress.toLowerCase();
+  let domain = domainCache.get(key);
+  if (!domain) {
+    domain = probePermitDomain(tokenAddress, provider);
+    domainCache.set(key, domain);
+  }
+  return domain;
+};
+
+/**
+ * Sign a permit letting `spender` pull `value` of the token from the
+ * signer, valid for PERMIT_DEADLINE.
+ */
+export const signPermit = async (
+  signer: ethers.Signer,
+  domain: ethers.TypedDataDomain,
+  permit: { spender: string; value: bigint; nonce: bigint }
+): Promise<PermitSignature> => {
+  const owner = await signer.getAddress();
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_DEADLINE);
+  const signature = ethers.Signature.from(
+    await signer.signTypedData(domain, PERMIT_TYPES, {
+      owner,
+      spender: permit.spender,
+      value: permit.value,
+      nonce: permit.nonce,
+      deadline,
+    })
+  );
+
+  return {
+    value: permit.value,
+    deadline,
+    v: signature.v,
+    r: signature.r,
+    s: signature.s,
+  };
+};
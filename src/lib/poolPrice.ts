@@ -0,0 +1,246 @@
+// Uniswap V3 pool prices
+// Reads a fractional domain token's price straight from its Uniswap V3 pool
+// (TokenInfo.poolAddress): the spot price from slot0 and a time-weighted
+// average from observe() over a configurable window. Prices are in units of
+// the pool's other token, which for domain tokens is a USD stablecoin.
+
+import { multicall, MulticallUtil, encodeCall } from "./multicall";
+import { ERC20_ABI } from "./contracts";
+
+export const UNISWAP_V3_POOL_ABI = [
+  {
+    name: "slot0",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "sqrtPriceX96", type: "uint160" },
+      { name: "tick", type: "int24" },
+      { name: "observationIndex", type: "uint16" },
+      { name: "observationCardinality", type: "uint16" },
+      { name: "observationCardinalityNext", type: "uint16" },
+      { name: "feeProtocol", type: "uint8" },
+      { name: "unlocked", type: "bool" },
+    ],
+  },
+  {
+    name: "token0",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "token1",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "observe",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "secondsAgos", type: "uint32[]" }],
+    outputs: [
+      { name: "tickCumulatives", type: "int56[]" },
+      { name: "secondsPerLiquidityCumulativeX128s", type: "uint160[]" },
+    ],
+  },
+] as const;
+
+// 30 minutes, long enough that one block's trades barely move it
+export const DEFAULT_TWAP_WINDOW = 30 * 60;
+
+const Q96 = 2 ** 96;
+
+export interface PoolPrice {
+  poolAddress: string;
+  tokenAddress: string;
+  // The pool's other token, which prices are quoted in
+  quoteTokenAddress: string;
+  spotPrice: number;
+  // Null when the pool has too few observations to cover the window
+  twapPrice: number | null;
+  twapWindow: number;
+}
+
+/**
+ * Price of token0 in token1 from slot0's sqrtPriceX96, adjusted for the
+ * decimals of both tokens.
+ */
+export const sqrtPriceX96ToPrice = (
+  sqrtPriceX96: bigint,
+  decimals0: number,
+  decimals1: number
+) => (Number(sqrtPriceX96) / Q96) ** 2 * 10 ** (decimals0 - decimals1);
+
+/**
+ * Price of token0 in token1 at `tick`, adjusted for decimals.
+ */
+export const tickToPrice = (
+  tick: number,
+  decimals0: number,
+  decimals1: number
+) => 1.0001 ** tick * 10 ** (decimals0 - decimals1);
+
+/**
+ * The mean tick between two observe() tick cumulatives `window` seconds
+ * apart, rounded toward negative infinity as Uniswap's OracleLibrary does.
+ */
+export const meanTick = (
+  startCumulative: bigint,
+  endCumulative: bigint,
+  window: number
+) => {
+  const delta = endCumulative - startCumulative;
+  const seconds = BigInt(window);
+  let tick = delta / seconds;
+  if (delta < 0n && delta % seconds !== 0n) tick -= 1n;
+  return Number(tick);
+};
+
+/**
+ * A token0-in-token1 price turned into the price of `tokenAddress` in the
+ * pool's other token, or null when the token is not in the pool.
+ */
+export const orientPrice = (
+  price0In1: number,
+  tokenAddress: string,
+  token0: string,
+  token1: string
+) => {
+  const token = tokenAddress.toLowerCase();
+  if (token === token0.toLowerCase()) return price0In1;
+  if (token === token1.toLowerCase()) return 1 / price0In1;
+  return null;
+};
+
+// Same sanity bound as the backend's pool reader: anything above is an
+// empty or broken pool
+const MAX_PRICE = 1e15;
+
+const isUsablePrice = (price: number | null): price is number =>
+  price !== null && Number.isFinite(price) && price > 0 && price < MAX_PRICE;
+
+/**
+ * Spot and TWAP prices for every token/pool pair, keyed by lowercased token
+ * address. Pools that cannot be read, or do not hold their token, are left
+ * out. Everything is read in two batches however many pools there are.
+ */
+export const readPoolPrices = async (
+  pools: { tokenAddress: string; poolAddress: string }[],
+  {
+    twapWindow = DEFAULT_TWAP_WINDOW,
+    reader = multicall,
+  }: { twapWindow?: number; reader?: MulticallUtil } = {}
+): Promise<Map<string, PoolPrice>> => {
+  const prices = new Map<string, PoolPrice>();
+  if (pools.length === 0) return prices;
+
+  const poolResults = await reader.aggregate(
+    pools.flatMap(({ poolAddress }) => [
+      encodeCall(poolAddress, UNISWAP_V3_POOL_ABI, "slot0", []),
+      encodeCall(poolAddress, UNISWAP_V3_POOL_ABI, "token0", []),
+      encodeCall(poolAddress, UNISWAP_V3_POOL_ABI, "token1", []),
+      encodeCall(poolAddress, UNISWAP_V3_POOL_ABI, "observe", [
+        [twapWindow, 0],
+      ]),
+    ])
+  );
+
+  const readable = pools.flatMap(({ tokenAddress, poolAddress }, i) => {
+    const [slot0, token0, token1, observation] = poolResults.slice(
+      4 * i,
+      4 * i + 4
+    );
+    if (!slot0.success || !token0.success || !token1.success) {
+      console.warn(`Failed to read Uniswap V3 pool ${poolAddress}`);
+      return [];
+    }
+    return [
+      {
+        tokenAddress,
+        poolAddress,
+        // Each result comes from the call at the same position above
+        slot0: slot0.value as { sqrtPriceX96: bigint },
+        token0: token0.value as string,
+        token1: token1.value as string,
+        tickCumulatives: observation.success
+          ? (observation.value as { tickCumulatives: bigint[] }).tickCumulatives
+          : null,
+      },
+    ];
+  });
+
+  // Decimals of every token in those pools, once each
+  const tokens = [
+    ...new Set(
+      readable.flatMap(({ token0, token1 }) => [
+        token0.toLowerCase(),
+        token1.toLowerCase(),
+      ])
+    ),
+  ];
+  const decimalResults = await reader.aggregate(
+    tokens.map((token) => encodeCall(token, ERC20_ABI, "decimals", []))
+  );
+  const decimals = new Map(
+    tokens.flatMap((token, i) => {
+      const result = decimalResults[i];
+      return result.success ? [[token, Number(result.value)] as const] : [];
+    })
+  );
+
+  for (const pool of readable) {
+    const decimals0 = decimals.get(pool.token0.toLowerCase());
+    const decimals1 = decimals.get(pool.token1.toLowerCase());
+    if (decimals0 === undefined || decimals1 === undefined) {
+      console.warn(
+        `Failed to read token decimals for pool ${pool.poolAddress}`
+      );
+      continue;
+    }
+
+    const orient = (price0In1: number) =>
+      orientPrice(price0In1, pool.tokenAddress, pool.token0, pool.token1);
+
+    const spotPrice = orient(
+      sqrtPriceX96ToPrice(pool.slot0.sqrtPriceX96, decimals0, decimals1)
+    );
+    if (!isUsablePrice(spotPrice)) {
+      console.warn(
+        `No usable price for ${pool.tokenAddress} in pool ${pool.poolAddress}`
+      );
+      continue;
+    }
+
+    const twapPrice = pool.tickCumulatives
+      ? orient(
+          tickToPrice(
+            meanTick(
+              pool.tickCumulatives[0],
+              pool.tickCumulatives[1],
+              twapWindow
+            ),
+            decimals0,
+            decimals1
+          )
+        )
+      : null;
+
+    prices.set(pool.tokenAddress.toLowerCase(), {
+      poolAddress: pool.poolAddress,
+      tokenAddress: pool.tokenAddress,
+      quoteTokenAddress:
+        pool.tokenAddress.toLowerCase() === pool.token0.toLowerCase()
+          ? pool.token1
+          : pool.token0,
+      spotPrice,
+      twapPrice: isUsablePrice(twapPrice) ? twapPrice : null,
+      twapWindow,
+    });
+  }
+
+  return prices;
+};
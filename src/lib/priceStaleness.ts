@@ -0,0 +1,98 @@
+// Per-loan price staleness
+// DomaLend refuses to accept, liquidate or remove collateral from a loan
+// while either of its price feeds is older than that loan's own
+// maxPriceStaleness. The check only runs when both tokens have a price feed;
+// collateral valued by the DomaRank oracle skips it. This mirrors that rule
+// so the UI can say up front which actions the contract will refuse, and
+// until when.
+
+import { LoanStatus } from "./contracts";
+import type { PriceData } from "./multicall";
+
+export type StalenessGatedAction = "accept" | "liquidate" | "removeCollateral";
+
+export const STALENESS_GATED_ACTION_LABELS: Record<
+  StalenessGatedAction,
+  string
+> = {
+  accept: "accepting the offer",
+  liquidate: "liquidation",
+  removeCollateral: "removing collateral",
+};
+
+export interface LoanPriceStaleness {
+  // False when a token has no price feed and the contract skips the check
+  isEnforced: boolean;
+  isStale: boolean;
+  // Unix seconds of the older feed update; null when a feed could not be read
+  updatedAt: number | null;
+  // Unix seconds at which the loan's prices go, or went, stale
+  staleAt: number | null;
+  // Tokens whose feed is past the loan's limit
+  staleTokens: string[];
+  // What the contract refuses right now because of stale prices
+  blockedActions: StalenessGatedAction[];
+}
+
+const GATED_ACTIONS: Partial<Record<LoanStatus, StalenessGatedAction[]>> = {
+  [LoanStatus.Pending]: ["accept"],
+  [LoanStatus.Active]: ["liquidate", "removeCollateral"],
+};
+
+/**
+ * The actions a loan in `status` would lose to stale prices.
+ */
+export const stalenessGatedActions = (status: number): StalenessGatedAction[] =>
+  GATED_ACTIONS[status as LoanStatus] ?? [];
+
+/**
+ * Whether `loan`'s prices are too old for the contract to act on, judged by
+ * its own maxPriceStaleness against each feed's updatedAt.
+ */
+export const getLoanPriceStaleness = (
+  loan: {
+    tokenAddress: string;
+    collateralAddress: string;
+    status: number;
+    maxPriceStaleness: bigint;
+  },
+  loanTokenPrice: PriceData | undefined,
+  collateralPrice: PriceData | undefined,
+  now: number = Math.floor(Date.now() / 1000)
+): LoanPriceStaleness => {
+  const notStale = {
+    isStale: false,
+    updatedAt: null,
+    staleAt: null,
+    staleTokens: [],
+    blockedActions: [],
+  };
+
+  if (!loanTokenPrice || !collateralPrice) {
+    return { isEnforced: false, ...notStale };
+  }
+  // Without both readings there is nothing to judge by
+  if (!loanTokenPrice.success || !collateralPrice.success) {
+    return { isEnforced: true, ...notStale };
+  }
+
+  const maxAge = Number(loan.maxPriceStaleness);
+  const feeds = [
+    { token: loan.tokenAddress, updatedAt: loanTokenPrice.updatedAt },
+    { token: loan.collateralAddress, updatedAt: collateralPrice.updatedAt },
+  ];
+  const staleTokens = feeds
+    .filter(({ updatedAt }) => now - updatedAt > maxAge)
+    .map(({ token }) => token);
+  const updatedAt = Math.min(...feeds.map((feed) => feed.updatedAt));
+  const isStale = staleTokens.length > 0;
+
+  return {
+    isEnforced: true,
+    isStale,
+    updatedAt,
+    staleAt: updatedAt + maxAge,
+    staleTokens,
+    blockedActions: isStale ? stalenessGatedActions(loan.status) : [],
+  };
+};
@@ -0,0 +1,339 @@
+// Shared price store
+// One place that reads and polls prices for the whole app, so hooks and
+// components on the same page share each read instead of polling the same
+// oracles side by side. It holds two kinds of price, keyed by lowercased
+// token address:
+//   token - TokenPrice, from pools, the DomaRank oracle and the backend
+//   feed  - PriceData, from the token's Chainlink-style price feed
+// Consumers subscribe to the addresses they show. An address is polled while
+// at least one subscriber holds it, and a single timer refreshes everything
+// held in one batched read per kind. A reading equal to the last one keeps
+// the same object, and a selection only changes when its prices, loading
+// state or read time do, so subscribe and selector plug straight into
+// useSyncExternalStore.
+
+import {
+  getAllSupportedTokensAsync,
+  getPriceFeedAddress,
+} from "@/config/tokens";
+import { multicall, MulticallUtil, PriceData } from "./multicall";
+import { fetchTokenPrices, TokenPrice } from "./tokenPrices";
+
+export interface PriceValues {
+  token: TokenPrice;
+  feed: PriceData;
+}
+
+export type PriceKind = keyof PriceValues;
+
+// Reads the prices of one kind for lowercased addresses. Addresses missing
+// from the result have no price of that kind.
+export type PriceFetchers = {
+  [K in PriceKind]: (
+    addresses: string[]
+  ) => Promise<Map<string, PriceValues[K]>>;
+};
+
+export interface PriceSelection<K extends PriceKind> {
+  // Keyed by lowercased token address
+  prices: Map<string, PriceValues[K]>;
+  // A read is under way and some of these prices have not arrived yet
+  isLoading: boolean;
+  // Why the last read of this kind failed, if it did
+  error: string | null;
+  // When this kind was last read, in ms. Consumers judging prices against
+  // the clock re-run on every read, not just on changes
+  lastUpdated: number | null;
+}
+
+export const DEFAULT_REFRESH_INTERVAL = 30_000;
+
+// Subscriptions made while a page renders land in one read
+const BATCH_DELAY = 50;
+
+const PRICE_KINDS: PriceKind[] = ["token", "feed"];
+
+interface Subscription {
+  kind: PriceKind;
+  addresses: Set<string>;
+  listener: () => void;
+  // 0 to read once without polling
+  interval: number;
+}
+
+type PerKind<T> = { [K in PriceKind]: T };
+
+const perKind = <T>(create: () => T): PerKind<T> => ({
+  token: create(),
+  feed: create(),
+});
+
+// Readings are fresh objects every time; equal fields mean nothing changed
+const shallowEqual = (a: object, b: object) => {
+  const aEntries = Object.entries(a);
+  const bRecord = b as Record<string, unknown>;
+  return (
+    aEntries.length === Object.keys(b).length &&
+    aEntries.every(([key, value]) => Object.is(value, bRecord[key]))
+  );
+};
+
+export class PriceStore {
+  private fetchers: PriceFetchers;
+  // null once read and found to have no price
+  private prices = perKind(() => new Map<string, unknown | null>());
+  private refCounts = perKind(() => new Map<string, number>());
+  private errors: Partial<PerKind<string>> = {};
+  private lastUpdated: Partial<PerKind<number>> = {};
+  private subscriptions = new Set<Subscription>();
+  private loading = false;
+  private inFlight: Promise<void> | null = null;
+  private queued: Promise<void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private timerDue = 0;
+
+  constructor(fetchers: PriceFetchers) {
+    this.fetchers = fetchers;
+  }
+
+  /**
+   * Hold `addresses` of `kind` and call `listener` whenever their prices or
+   * loading state change. Newly held addresses are read straight away, and
+   * everything held is refreshed every `interval` ms, the shortest any
+   * subscriber asked for. Returns the unsubscribe function.
+   */
+  subscribe(
+    kind: PriceKind,
+    addresses: string[],
+    listener: () => void,
+    interval: number = DEFAULT_REFRESH_INTERVAL
+  ): () => void {
+    const subscription: Subscription = {
+      kind,
+      addresses: new Set(addresses.map((address) => address.toLowerCase())),
+      listener,
+      interval,
+    };
+    this.subscriptions.add(subscription);
+
+    const refCounts = this.refCounts[kind];
+    let added = false;
+    for (const address of subscription.addresses) {
+      const count = refCounts.get(address) ?? 0;
+      refCounts.set(address, count + 1);
+      if (count === 0) added = true;
+    }
+    if (added) this.schedule(BATCH_DELAY);
+    else this.schedulePoll();
+
+    return () => {
+      if (!this.subscriptions.delete(subscription)) return;
+      for (const address of subscription.addresses) {
+        const count = (refCounts.get(address) ?? 1) - 1;
+        if (count > 0) refCounts.set(address, count);
+        else refCounts.delete(address);
+      }
+      if (this.subscriptions.size === 0) this.clearTimer();
+    };
+  }
+
+  /**
+   * A getSnapshot for `addresses` of `kind`: each call returns the previous
+   * selection unless one of those prices, the loading state, the error or
+   * the read time changed.
+   */
+  selector<K extends PriceKind>(
+    kind: K,
+    addresses: string[]
+  ): () => PriceSelection<K> {
+    const keys = [
+      ...new Set(addresses.map((address) => address.toLowerCase())),
+    ];
+    let last: PriceSelection<K> | null = null;
+    let lastValues: unknown[] = [];
+
+    return () => {
+      const values = keys.map((key) => this.prices[kind].get(key));
+      const isLoading =
+        this.loading && values.some((value) => value === undefined);
+      const error = this.errors[kind] ?? null;
+      const lastUpdated = this.lastUpdated[kind] ?? null;
+      if (
+        last &&
+        last.isLoading === isLoading &&
+        last.error === error &&
+        last.lastUpdated === lastUpdated &&
+        values.every((value, i) => value === lastValues[i])
+      ) {
+        return last;
+      }
+
+      const prices = new Map<string, PriceValues[K]>();
+      keys.forEach((key, i) => {
+        if (values[i]) prices.set(key, values[i] as PriceValues[K]);
+      });
+      lastValues = values;
+      last = { prices, isLoading, error, lastUpdated };
+      return last;
+    };
+  }
+
+  /**
+   * Read everything held now. Calls made while a read is under way share
+   * one follow-up read, which starts once the current one finishes.
+   */
+  refresh(): Promise<void> {
+    if (this.inFlight) {
+      this.queued ??= this.inFlight.then(() => {
+        this.queued = null;
+        return this.refresh();
+      });
+      return this.queued;
+    }
+
+    this.clearTimer();
+    this.inFlight = this.read().finally(() => {
+      this.inFlight = null;
+      this.schedulePoll();
+    });
+    return this.inFlight;
+  }
+
+  private async read() {
+    const held = PRICE_KINDS.flatMap((kind) => {
+      const addresses = [...this.refCounts[kind].keys()];
+      return addresses.length > 0 ? [{ kind, addresses }] : [];
+    });
+    if (held.length === 0) return;
+
+    // Only subscribers still waiting on a first reading see loading change
+    const waiting = new Set(
+      [...this.subscriptions].filter((subscription) =>
+        this.isUnread(subscription)
+      )
+    );
+    this.loading = true;
+    this.notify((subscription) => waiting.has(subscription));
+
+    await Promise.all(
+      held.map(async ({ kind, addresses }) => {
+        try {
+          const readings: Map<string, unknown> =
+            await this.fetchers[kind](addresses);
+          const prices = this.prices[kind];
+          for (const address of addresses) {
+            const previous = prices.get(address);
+            const next = readings.get(address) ?? null;
+            const same =
+              previous === next ||
+              (!!previous &&
+                !!next &&
+                shallowEqual(previous as object, next as object));
+            if (!same) prices.set(address, next);
+          }
+          delete this.errors[kind];
+          this.lastUpdated[kind] = Date.now();
+        } catch (error) {
+          console.error(`Failed to read ${kind} prices:`, error);
+          this.errors[kind] =
+            error instanceof Error
+              ? error.message
+              : `Failed to read ${kind} prices`;
+        }
+      })
+    );
+
+    this.loading = false;
+    const readKinds = new Set(held.map(({ kind }) => kind));
+    this.notify(
+      (subscription) =>
+        readKinds.has(subscription.kind) ||
+        waiting.has(subscription) ||
+        this.isUnread(subscription)
+    );
+  }
+
+  private isUnread({ kind, addresses }: Subscription) {
+    return [...addresses].some((address) => !this.prices[kind].has(address));
+  }
+
+  private notify(affects: (subscription: Subscription) => boolean) {
+    for (const subscription of [...this.subscriptions]) {
+      if (affects(subscription)) subscription.listener();
+    }
+  }
+
+  // The shortest interval any subscriber wants, 0 when none polls
+  private pollInterval() {
+    let interval = 0;
+    for (const subscription of this.subscriptions) {
+      if (
+        subscription.interval > 0 &&
+        (interval === 0 || subscription.interval < interval)
+      ) {
+        interval = subscription.interval;
+      }
+    }
+    return interval;
+  }
+
+  private schedulePoll() {
+    const interval = this.pollInterval();
+    if (interval > 0) this.schedule(interval);
+  }
+
+  // Keeps whichever of the current and requested reads comes first
+  private schedule(delay: number) {
+    const due = Date.now() + delay;
+    if (this.timer && this.timerDue <= due) return;
+    this.clearTimer();
+    this.timerDue = due;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.refresh();
+    }, delay);
+  }
+
+  private clearTimer() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
+
+// Feed readings for each token, sharing one read between tokens on the same
+// feed
+const readFeedPrices = async (addresses: string[]) => {
+  const feeds = MulticallUtil.getUniquePriceFeeds(
+    addresses,
+    getPriceFeedAddress
+  );
+  const byFeed = new Map(
+    (await multicall.batchFetchPriceFeeds(feeds)).map((data) => [
+      data.priceFeedAddress.toLowerCase(),
+      data,
+    ])
+  );
+  return new Map(
+    addresses.flatMap((address) => {
+      const data = byFeed.get(
+        getPriceFeedAddress(address)?.toLowerCase() ?? ""
+      );
+      return data
+        ? [[address, { ...data, tokenAddress: address }] as const]
+        : [];
+    })
+  );
+};
+
+const readTokenPrices = async (addresses: string[]) => {
+  const wanted = new Set(addresses);
+  const tokens = await getAllSupportedTokensAsync();
+  return fetchTokenPrices(
+    tokens.filter((token) => wanted.has(token.address.toLowerCase()))
+  );
+};
+
+export const priceStore = new PriceStore({
+  token: readTokenPrices,
+  feed: readFeedPrices,
+});
@@ -0,0 +1,337 @@
+// Token prices
+// Everything the app knows about a token's USD price, gathered in one pass:
+// the on-chain Uniswap V3 pool price, the backend's DomaRank scores and pool
+// prices, Doma's market prices and the DomaRank oracle. Which source wins is
+// decided per token below. Components get these through the shared price
+// store (priceStore.ts) rather than calling this directly.
+
+import { ethers } from "ethers";
+import { TokenInfo } from "@/config/tokens";
+import { fromBaseUnit } from "./decimals";
+import { DOMA_RANK_ORACLE_ADDRESS } from "./contracts";
+import { multicall } from "./multicall";
+import { readPoolPrices } from "./poolPrice";
+import { ACTIVE_NETWORK } from "@/config/networks";
+
+export interface TokenPrice {
+  address: string;
+  symbol: string;
+  priceUSD: string; // Human-readable price in USD (e.g., "2000.50")
+  priceRaw: bigint; // Raw price from oracle in base units (normalized to 18 decimals)
+  oracleDecimals: number; // Oracle decimals (from price feed)
+  tokenDecimals: number; // Token decimals (from ERC20)
+  updatedAt: number; // Timestamp
+  isStale: boolean;
+  // Doma-specific fields
+  domaRankPrice?: string; // DomaRank oracle price (AI-adjusted)
+  domaRankPriceRaw?: bigint; // DomaRank oracle price (raw)
+  liveMarketPrice?: string; // Live market price from Doma Subgraph
+  spotPrice?: string; // Uniswap V3 pool spot price, read on-chain
+  twapPrice?: string; // Uniswap V3 pool TWAP over twapWindow seconds
+  twapWindow?: number;
+  hasDomaRankOracle?: boolean; // Whether this token uses DomaRank oracle
+  domaRankScore?: number; // DomaRank score (0-100) for domain tokens
+}
+
+/**
+ * Prices for `tokens`, keyed by lowercased token address. A token whose
+ * price cannot be worked out is left out.
+ */
+export async function fetchTokenPrices(
+  tokens: TokenInfo[]
+): Promise<Map<string, TokenPrice>> {
+  if (tokens.length === 0) return new Map();
+
+  const newPrices = new Map<string, TokenPrice>();
+
+  // Fetch DomaRank scores and pool prices from backend
+  const backendPrices = new Map<
+    string,
+    { score?: number; poolPrice?: number; valuationUSD?: number }
+  >();
+  try {
+    const response = await fetch(
+      `${ACTIVE_NETWORK.api.backend}/api/domarank/scores`
+    );
+    if (response.ok) {
+      const data = await response.json();
+      console.log("🔍 Backend API Response:", data);
+      if (data.success && data.scores) {
+        Object.entries(data.scores).forEach(
+          ([address, scoreData]: [string, any]) => {
+            const addressLower = address.toLowerCase();
+            backendPrices.set(addressLower, {
+              score: scoreData.score,
+              poolPrice: scoreData.poolPrice,
+              valuationUSD: scoreData.valuationUSD,
+            });
+            console.log(`🏊 Backend data for ${addressLower}:`, {
+              poolPrice: scoreData.poolPrice,
+              score: scoreData.score,
+              valuationUSD: scoreData.valuationUSD,
+            });
+          }
+        );
+        console.log(`✅ Fetched ${backendPrices.size} prices from backend`);
+      } else {
+        console.warn("⚠️ Backend response missing success or scores:", data);
+      }
+    } else {
+      console.warn(`⚠️ Backend API returned status ${response.status}`);
+    }
+  } catch (error) {
+    console.warn("Failed to fetch backend prices:", error);
+  }
+
+  // Fetch Doma market prices from GraphQL for domain tokens
+  const domaMarketPrices = new Map<string, number>();
+  try {
+    const domaResponse = await fetch(ACTIVE_NETWORK.api.domaGraphql, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "API-KEY": process.env.NEXT_PUBLIC_DOMA_API_KEY || "",
+      },
+      body: JSON.stringify({
+        query: `query FractionalTokens {
+            fractionalTokens {
+              items {
+                address
+                params {
+                  initialValuation
+                  totalSupply
+                  decimals
+                }
+              }
+            }
+          }`,
+      }),
+    });
+
+    if (domaResponse.ok) {
+      const domaData = await domaResponse.json();
+      const items = domaData?.data?.fractionalTokens?.items || [];
+      items.forEach((item: any) => {
+        if (item.currentPrice && item.address) {
+          // IMPORTANT: Doma currentPrice is ALWAYS in 8 decimals (not token decimals!)
+          // Token decimals (6) are for token amounts, price is always 8 decimals
+          const priceInUSD = parseFloat(item.currentPrice) / Math.pow(10, 8);
+          const addressLower = item.address.toLowerCase();
+          domaMarketPrices.set(addressLower, priceInUSD);
+          console.log(
+            `💰 Doma market: ${addressLower} = $${priceInUSD.toFixed(2)}`
+          );
+        }
+      });
+      console.log(
+        "✅ Total initial prices available:",
+        domaMarketPrices.size,
+        "tokens"
+      );
+    }
+  } catch (error) {
+    console.warn("Failed to fetch Doma market prices:", error);
+  }
+
+  // DomaRank oracle values for every token that has one, in one batch
+  const oracleTokens =
+    DOMA_RANK_ORACLE_ADDRESS &&
+    DOMA_RANK_ORACLE_ADDRESS !== "0x0000000000000000000000000000000000000000"
+      ? tokens.filter((token) => token.hasDomaRankOracle)
+      : [];
+  const oracleResults = await multicall.batchFetchTokenValues(
+    oracleTokens.map((token) => token.address)
+  );
+  const oracleValues = new Map(
+    oracleTokens.map((token, i) => [
+      token.address.toLowerCase(),
+      oracleResults[i],
+    ])
+  );
+
+  // Spot and TWAP prices straight from each domain token's Uniswap pool
+  const poolPrices = await readPoolPrices(
+    tokens.flatMap((token) =>
+      token.poolAddress && token.poolAddress !== ethers.ZeroAddress
+        ? [{ tokenAddress: token.address, poolAddress: token.poolAddress }]
+        : []
+    )
+  );
+
+  // Fetch prices for all tokens in parallel
+  const pricePromises = tokens.map(async (token) => {
+    console.log(
+      `🎯 Frontend looking for token: ${token.symbol} at ${token.address.toLowerCase()}`
+    );
+    try {
+      let priceRaw: bigint = 0n;
+      let priceUSD: string = "0";
+      let oracleDecimals: number = 18;
+      let updatedAt: number = Math.floor(Date.now() / 1000);
+      let isStale: boolean = false;
+
+      // NOTE: Chainlink price feeds don't exist on Doma testnet
+      // We use Doma GraphQL API for market prices instead
+
+      // Check if we have a Doma market price for this token
+      const domaMarketPrice = domaMarketPrices.get(token.address.toLowerCase());
+
+      // Get backend data for this token (pool price + DomaRank score)
+      const backendData = backendPrices.get(token.address.toLowerCase());
+      const poolPrice = poolPrices.get(token.address.toLowerCase());
+
+      console.log(
+        `🔍 Processing ${token.symbol} (${token.address.toLowerCase()}):`,
+        {
+          hasBackendData: !!backendData,
+          backendPoolPrice: backendData?.poolPrice,
+          backendScore: backendData?.score,
+          domaMarketPrice,
+        }
+      );
+
+      if (poolPrice) {
+        // Read from the Uniswap V3 pool on-chain (highest priority)
+        priceUSD = poolPrice.spotPrice.toFixed(6);
+        priceRaw = ethers.parseUnits(priceUSD, 18);
+        console.log(
+          `🏊 Using on-chain pool price for ${token.symbol}: $${priceUSD}`
+        );
+      } else if (backendData?.poolPrice) {
+        // Use the backend's copy of the Uniswap V3 pool price
+        priceUSD = backendData.poolPrice.toFixed(6);
+        priceRaw = ethers.parseUnits(priceUSD, 18);
+        console.log(`🏊 Using pool price for ${token.symbol}: $${priceUSD}`);
+      } else if (domaMarketPrice) {
+        // Use live market price from Doma
+        priceUSD = domaMarketPrice.toFixed(4);
+        priceRaw = ethers.parseUnits(priceUSD, 18);
+        console.log(`📊 Using initial price for ${token.symbol}: $${priceUSD}`);
+      } else {
+        // Default price for mock tokens (stablecoins = $1, others = $100)
+        priceUSD = token.symbol.includes("USD") ? "1.00" : "100.00";
+        priceRaw = ethers.parseUnits(priceUSD, 18);
+        console.log(
+          `⚠️ Using default price for ${token.symbol}: $${priceUSD} (no data available)`
+        );
+      }
+
+      // Check if DomaRank oracle has a price for this token
+      let domaRankPrice: string | undefined;
+      let domaRankPriceRaw: bigint | undefined;
+      let hasDomaRankOracle = false;
+
+      // Query DomaRank Oracle for all tokens that have oracle support enabled
+      if (
+        token.hasDomaRankOracle &&
+        DOMA_RANK_ORACLE_ADDRESS &&
+        DOMA_RANK_ORACLE_ADDRESS !==
+          "0x0000000000000000000000000000000000000000"
+      ) {
+        try {
+          console.log(
+            `🔮 Fetching price for ${token.symbol} from DomaRank Oracle at ${DOMA_RANK_ORACLE_ADDRESS}`
+          );
+          const oracleResult = oracleValues.get(token.address.toLowerCase());
+          if (!oracleResult?.success) {
+            throw new Error(oracleResult?.error ?? "not queried");
+          }
+          const oraclePrice = oracleResult.value;
+          console.log(
+            `🔮 Oracle returned: ${oraclePrice.toString()} Wei for ${token.symbol}`
+          );
+
+          if (oraclePrice && oraclePrice > 0n) {
+            domaRankPriceRaw = oraclePrice;
+            domaRankPrice = fromBaseUnit(oraclePrice, 18, 4);
+            hasDomaRankOracle = true;
+
+            // For crypto tokens, use oracle as primary price (overrides defaults)
+            if (!token.isDomainToken) {
+              priceUSD = domaRankPrice;
+              priceRaw = oraclePrice;
+            }
+
+            console.log(
+              `✅ Oracle price for ${token.symbol}: $${domaRankPrice}`
+            );
+          } else {
+            console.log(
+              `⊘ Oracle price is 0 for ${token.symbol}, using fallback`
+            );
+          }
+        } catch (domaErr: any) {
+          // Oracle might not have this token yet, use fallback
+          console.log(
+            `⚠️ No oracle price for ${token.symbol}, using fallback:`,
+            domaErr.message
+          );
+        }
+      } else if (token.hasDomaRankOracle) {
+        console.log(
+          `⚠️ Token ${token.symbol} has oracle support but oracle not configured`
+        );
+      }
+
+      return {
+        token,
+        tokenPrice: {
+          address: token.address,
+          symbol: token.symbol,
+          // Use DomaRank oracle price as main price if available (more conservative for collateral)
+          priceUSD:
+            hasDomaRankOracle && domaRankPrice ? domaRankPrice : priceUSD,
+          priceRaw:
+            hasDomaRankOracle && domaRankPriceRaw ? domaRankPriceRaw : priceRaw,
+          oracleDecimals,
+          tokenDecimals: token.decimals,
+          updatedAt: Number(updatedAt),
+          isStale,
+          domaRankPrice,
+          domaRankPriceRaw,
+          // liveMarketPrice is the REAL pool price from Uniswap V3
+          // Priority: on-chain pool price > backend pool price > doma market price > oracle price > default
+          liveMarketPrice: poolPrice
+            ? poolPrice.spotPrice.toFixed(6)
+            : backendData?.poolPrice
+              ? backendData.poolPrice.toFixed(6)
+              : domaMarketPrice
+                ? domaMarketPrice.toFixed(4)
+                : domaRankPrice
+                  ? domaRankPrice
+                  : priceUSD,
+          spotPrice: poolPrice?.spotPrice.toFixed(6),
+          twapPrice: poolPrice?.twapPrice?.toFixed(6),
+          twapWindow: poolPrice?.twapWindow,
+          hasDomaRankOracle,
+          domaRankScore: backendData?.score, // DomaRank AI score from backend
+        },
+      };
+    } catch (err) {
+      console.error(`Failed to fetch price for ${token.symbol}:`, err);
+      return null;
+    }
+  });
+
+  const results = await Promise.all(pricePromises);
+
+  // Process results
+  results.forEach((result) => {
+    if (result) {
+      const addressLower = result.token.address.toLowerCase();
+      newPrices.set(addressLower, result.tokenPrice);
+      console.log(
+        `📦 Stored price for ${result.token.symbol} (${addressLower}):`,
+        {
+          priceUSD: result.tokenPrice.priceUSD,
+          liveMarketPrice: result.tokenPrice.liveMarketPrice,
+          domaRankPrice: result.tokenPrice.domaRankPrice,
+          domaRankScore: result.tokenPrice.domaRankScore,
+        }
+      );
+    }
+  });
+
+  console.log(`✅ Total prices stored: ${newPrices.size}`);
+  return newPrices;
+}
@@ -0,0 +1,339 @@
+// Transaction errors
+// Turns wallet, RPC and contract failures into typed error codes with a
+// user-facing title and suggested fix. Revert reasons are matched against
+// the `require` messages in contracts/src/DomaLend.sol; OpenZeppelin custom
+// errors raised by the tokens it transfers are decoded from revert data.
+
+import { ethers } from "ethers";
+import { DREAMLEND_ABI } from "@/lib/contracts";
+
+export type TransactionErrorCode =
+  | "USER_REJECTED"
+  | "INSUFFICIENT_GAS_FUNDS"
+  | "LOAN_NOT_FOUND"
+  | "LOAN_NOT_PENDING"
+  | "LOAN_NOT_ACTIVE"
+  | "OWN_LOAN"
+  | "NOT_LENDER"
+  | "NOT_BORROWER"
+  | "STALE_PRICES"
+  | "INVALID_ORACLE_PRICE"
+  | "PRICE_FEED_MISSING"
+  | "INSUFFICIENT_COLLATERAL"
+  | "COLLATERAL_RATIO_VIOLATION"
+  | "EXCEEDS_COLLATERAL"
+  | "EXCEEDS_DEBT"
+  | "NOT_DEFAULTED"
+  | "INVALID_AMOUNT"
+  | "INVALID_INTEREST_RATE"
+  | "INVALID_DURATION"
+  | "INVALID_ADDRESS"
+  | "INVALID_RISK_PARAMETERS"
+  | "INSUFFICIENT_ALLOWANCE"
+  | "INSUFFICIENT_BALANCE"
+  | "TOKEN_TRANSFER_FAILED"
+  | "TRANSACTION_REPLACED"
+  | "TRANSACTION_PENDING"
+  | "UNKNOWN";
+
+export interface TransactionErrorInfo {
+  title: string;
+  suggestion: string;
+}
+
+export const TRANSACTION_ERRORS: Record<
+  TransactionErrorCode,
+  TransactionErrorInfo
+> = {
+  USER_REJECTED: {
+    title: "Transaction Cancelled",
+    suggestion:
+      "You rejected the request in your wallet. Try again when ready.",
+  },
+  INSUFFICIENT_GAS_FUNDS: {
+    title: "Insufficient Funds for Gas",
+    suggestion: "Top up your wallet with native tokens to pay for gas.",
+  },
+  LOAN_NOT_FOUND: {
+    title: "Loan Not Found",
+    suggestion: "The loan id does not exist. Refresh the page and try again.",
+  },
+  LOAN_NOT_PENDING: {
+    title: "Offer No Longer Available",
+    suggestion:
+      "This offer was already accepted or cancelled. Refresh to see current offers.",
+  },
+  LOAN_NOT_ACTIVE: {
+    title: "Loan Not Active",
+    suggestion:
+      "This loan was already repaid or liquidated. Refresh to see its current state.",
+  },
+  OWN_LOAN: {
+    title: "Cannot Accept Your Own Offer",
+    suggestion: "Switch to a different wallet to borrow from this offer.",
+  },
+  NOT_LENDER: {
+    title: "Only the Lender Can Do This",
+    suggestion: "Connect the wallet that created this offer.",
+  },
+  NOT_BORROWER: {
+    title: "Only the Borrower Can Do This",
+    suggestion: "Connect the wallet that accepted this loan.",
+  },
+  STALE_PRICES: {
+    title: "Oracle Prices Are Stale",
+    suggestion:
+      "The price oracle has not updated recently. Wait for the next price update and try again.",
+  },
+  INVALID_ORACLE_PRICE: {
+    title: "Invalid Oracle Price",
+    suggestion:
+      "The price oracle returned an unusable price. Try again later or pick another token.",
+  },
+  PRICE_FEED_MISSING: {
+    title: "Token Not Priced",
+    suggestion:
+      "One of the tokens has no price feed configured. Pick a different loan or collateral token.",
+  },
+  INSUFFICIENT_COLLATERAL: {
+    title: "Insufficient Collateral",
+    suggestion:
+      "At current prices the collateral does not cover the minimum ratio. Increase the collateral amount.",
+  },
+  COLLATERAL_RATIO_VIOLATION: {
+    title: "Collateral Ratio Too Low",
+    suggestion:
+      "Removing this much would drop the loan below its minimum ratio. Remove a smaller amount.",
+  },
+  EXCEEDS_COLLATERAL: {
+    title: "Not Enough Collateral",
+    suggestion: "You cannot remove more collateral than the loan holds.",
+  },
+  EXCEEDS_DEBT: {
+    title: "Repayment Too Large",
+    suggestion: "Enter an amount no larger than the remaining debt.",
+  },
+  NOT_DEFAULTED: {
+    title: "Loan Not Liquidatable",
+    suggestion:
+      "The loan is neither overdue nor under-collateralised yet. Check again later.",
+  },
+  INVALID_AMOUNT: {
+    title: "Invalid Amount",
+    suggestion: "Enter an amount greater than zero.",
+  },
+  INVALID_INTEREST_RATE: {
+    title: "Invalid Interest Rate",
+    suggestion: "Set an interest rate above 0% and at most 100% APR.",
+  },
+  INVALID_DURATION: {
+    title: "Invalid Duration",
+    suggestion: "Choose a duration between 1 day and 1 year.",
+  },
+  INVALID_ADDRESS: {
+    title: "Invalid Token",
+    suggestion: "Select a supported loan and collateral token.",
+  },
+  INVALID_RISK_PARAMETERS: {
+    title: "Invalid Risk Parameters",
+    suggestion:
+      "The liquidation threshold must exceed 100% and stay at or below the minimum collateral ratio.",
+  },
+  INSUFFICIENT_ALLOWANCE: {
+    title: "Token Approval Required",
+    suggestion:
+      "The contract is not allowed to move enough of your tokens. Approve a higher amount and try again.",
+  },
+  INSUFFICIENT_BALANCE: {
+    title: "Insufficient Token Balance",
+    suggestion:
+      "Your wallet does not hold enough of the token. Get more tokens or lower the amount.",
+  },
+  TOKEN_TRANSFER_FAILED: {
+    title: "Token Transfer Failed",
+    suggestion:
+      "The token rejected the transfer. Check your balance and approval, then try again.",
+  },
+  TRANSACTION_REPLACED: {
+    title: "Transaction Replaced",
+    suggestion:
+      "Your wallet replaced or cancelled this transaction. Check its activity, then try again if needed.",
+  },
+  TRANSACTION_PENDING: {
+    title: "Still Waiting for Confirmation",
+    suggestion:
+      "The transaction has not confirmed yet but may still go through. It is being watched in the background.",
+  },
+  UNKNOWN: {
+    title: "Transaction Failed",
+    suggestion: "Check your wallet or try again.",
+  },
+};
+
+// `require` messages from DomaLend.sol
+export const REVERT_REASON_CODES: Record<string, TransactionErrorCode> = {
+  "Loan does not exist": "LOAN_NOT_FOUND",
+  "Loan is not pending": "LOAN_NOT_PENDING",
+  "Loan is not active": "LOAN_NOT_ACTIVE",
+  "Lender cannot accept own loan": "OWN_LOAN",
+  "Only lender can cancel": "NOT_LENDER",
+  "Only borrower can repay": "NOT_BORROWER",
+  "Only borrower can make repayment": "NOT_BORROWER",
+  "Only borrower can add collateral": "NOT_BORROWER",
+  "Only borrower can remove collateral": "NOT_BORROWER",
+  "Oracle prices are too stale": "STALE_PRICES",
+  "Oracle prices are too stale to accept loan": "STALE_PRICES",
+  "Oracle prices are too stale to liquidate": "STALE_PRICES",
+  "Invalid price from oracle": "INVALID_ORACLE_PRICE",
+  "Invalid timestamp from oracle": "INVALID_ORACLE_PRICE",
+  "Price feed not set for loan token": "PRICE_FEED_MISSING",
+  "Price feed not set for collateral token": "PRICE_FEED_MISSING",
+  "Insufficient collateral based on current prices": "INSUFFICIENT_COLLATERAL",
+  "Removal would violate minimum collateral ratio":
+    "COLLATERAL_RATIO_VIOLATION",
+  "Cannot remove more than available collateral": "EXCEEDS_COLLATERAL",
+  "Repayment amount exceeds remaining debt": "EXCEEDS_DEBT",
+  "Loan has not defaulted yet (time or price)": "NOT_DEFAULTED",
+  "Amount must be greater than 0": "INVALID_AMOUNT",
+  "Collateral amount must be greater than 0": "INVALID_AMOUNT",
+  "Additional amount must be greater than 0": "INVALID_AMOUNT",
+  "Remove amount must be greater than 0": "INVALID_AMOUNT",
+  "Repayment amount must be greater than 0": "INVALID_AMOUNT",
+  "Interest rate must be greater than 0": "INVALID_INTEREST_RATE",
+  "Interest rate cannot exceed 100%": "INVALID_INTEREST_RATE",
+  "Duration must be greater than 0": "INVALID_DURATION",
+  "Duration cannot exceed 1 year": "INVALID_DURATION",
+  "Invalid token address": "INVALID_ADDRESS",
+  "Invalid collateral address": "INVALID_ADDRESS",
+  "Min ratio must be >= liquidation threshold": "INVALID_RISK_PARAMETERS",
+  "Liquidation threshold must be > 100%": "INVALID_RISK_PARAMETERS",
+  "Max price staleness must be set": "INVALID_RISK_PARAMETERS",
+  // Pre-v5 OpenZeppelin ERC20 messages
+  "ERC20: insufficient allowance": "INSUFFICIENT_ALLOWANCE",
+  "ERC20: transfer amount exceeds balance": "INSUFFICIENT_BALANCE",
+};
+
+// Custom errors of DomaLend and of the OpenZeppelin v5 tokens it transfers
+const CUSTOM_ERROR_CODES: Record<string, TransactionErrorCode> = {
+  ERC20InsufficientAllowance: "INSUFFICIENT_ALLOWANCE",
+  ERC20InsufficientBalance: "INSUFFICIENT_BALANCE",
+  SafeERC20FailedOperation: "TOKEN_TRANSFER_FAILED",
+};
+
+const errorInterface = new ethers.Interface([
+  ...DREAMLEND_ABI.filter((fragment) => fragment.type === "error"),
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+]);
+
+export class TransactionError extends Error {
+  readonly code: TransactionErrorCode;
+  // Raw revert reason or custom error name, when the contract gave one
+  readonly reason: string | null;
+  // Caught by the pre-flight eth_call, before anything was sent
+  readonly simulated: boolean;
+
+  constructor(
+    code: TransactionErrorCode,
+    message: string,
+    options: { reason?: string | null; simulated?: boolean } = {}
+  ) {
+    super(message);
+    this.name = "TransactionError";
+    this.code = code;
+    this.reason = options.reason ?? null;
+    this.simulated = options.simulated ?? false;
+  }
+
+  get title() {
+    return TRANSACTION_ERRORS[this.code].title;
+  }
+
+  get suggestion() {
+    return TRANSACTION_ERRORS[this.code].suggestion;
+  }
+}
+
+// Revert data can sit at different depths depending on the wallet and RPC
+const findRevertData = (error: unknown, depth = 0): string | null => {
+  if (!error || typeof error !== "object" || depth > 4) return null;
+  const {
+    data,
+    error: inner,
+    info,
+  } = error as {
+    data?: unknown;
+    error?: unknown;
+    info?: unknown;
+  };
+  if (typeof data === "string" && /^0x[0-9a-fA-F]{8}/.test(data)) return data;
+  return (
+    findRevertData(data, depth + 1) ??
+    findRevertData(inner, depth + 1) ??
+    findRevertData(info, depth + 1)
+  );
+};
+
+const decodeCustomError = (data: string | null) => {
+  if (!data) return null;
+  try {
+    return errorInterface.parseError(data);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Classify any error thrown while simulating, sending or waiting for a
+ * transaction. Errors that are already TransactionErrors pass through.
+ */
+export const decodeTransactionError = (
+  error: unknown,
+  fallbackMessage = "Transaction failed",
+  options: { simulated?: boolean } = {}
+): TransactionError => {
+  if (error instanceof TransactionError) return error;
+
+  const { simulated } = options;
+  // ethers keeps a one-line summary next to its long diagnostic message
+  const summary =
+    (error as { shortMessage?: string } | null)?.shortMessage ||
+    (error instanceof Error ? error.message : fallbackMessage);
+  const build = (code: TransactionErrorCode, reason: string | null = null) =>
+    new TransactionError(
+      code,
+      reason ?? (code === "UNKNOWN" ? summary : TRANSACTION_ERRORS[code].title),
+      { reason, simulated }
+    );
+
+  if (ethers.isError(error, "ACTION_REJECTED")) return build("USER_REJECTED");
+  if (ethers.isError(error, "INSUFFICIENT_FUNDS")) {
+    return build("INSUFFICIENT_GAS_FUNDS");
+  }
+  if (ethers.isError(error, "TRANSACTION_REPLACED")) {
+    return build("TRANSACTION_REPLACED");
+  }
+
+  const reason = ethers.isError(error, "CALL_EXCEPTION") ? error.reason : null;
+  if (reason && REVERT_REASON_CODES[reason]) {
+    return build(REVERT_REASON_CODES[reason], reason);
+  }
+
+  const customError = decodeCustomError(findRevertData(error));
+  if (customError && CUSTOM_ERROR_CODES[customError.name]) {
+    return build(CUSTOM_ERROR_CODES[customError.name], customError.name);
+  }
+
+  // Some wallets only surface the reason inside their own message. Longer
+  // reasons go first so the most specific one wins.
+  const message = error instanceof Error ? error.message : String(error);
+  if (/user (rejected|denied)/i.test(message)) return build("USER_REJECTED");
+  const knownReason = Object.keys(REVERT_REASON_CODES)
+    .sort((a, b) => b.length - a.length)
+    .find((known) => message.includes(known));
+  if (knownReason) {
+    return build(REVERT_REASON_CODES[knownReason], knownReason);
+  }
+
+  return build("UNKNOWN", reason ?? customError?.name ?? null);
+};
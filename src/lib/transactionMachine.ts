@@ -0,0 +1,293 @@
+// Transaction state machine
+// Every DomaLend write moves through the same steps: an optional review of
+// the estimated fees before anything is sent, a wallet prompt, a submitted
+// hash, receipts until enough confirmations, then success or a typed
+// failure. Token approvals are either their own transaction or a
+// permit signature sent along with the call. Transactions the wallet speeds
+// up are followed to their replacement, and one that outlives the timeout
+// drops into a pending state that unlocks the UI while it is still being
+// watched.
+
+import { ethers } from "ethers";
+import {
+  TransactionError,
+  TransactionErrorCode,
+} from "@/lib/transactionErrors";
+
+// Confirmations a receipt needs before a transaction counts as done
+export const TRANSACTION_CONFIRMATIONS =
+  Number(process.env.NEXT_PUBLIC_TX_CONFIRMATIONS) || 2;
+
+// How long to wait for those confirmations before reporting it as pending
+export const TRANSACTION_TIMEOUT = 3 * 60 * 1000; // 3 minutes
+
+export type TransactionStep =
+  | "idle"
+  | "approving"
+  | "approved"
+  | "creating"
+  | "accepting"
+  | "repaying"
+  | "liquidating"
+  | "cancelling"
+  | "adding_collateral"
+  | "removing_collateral"
+  | "partial_repaying"
+  | "success"
+  | "error";
+
+// Steps that send a transaction
+export type TransactionActionStep = Exclude<
+  TransactionStep,
+  "idle" | "approved" | "success" | "error"
+>;
+
+export interface TransactionHistoryEntry {
+  step: TransactionActionStep;
+  status:
+    | "started"
+    | "signed"
+    | "skipped"
+    | "submitted"
+    | "replaced"
+    | "confirmed"
+    | "timed_out"
+    | "failed";
+  hash: string | null;
+  // Milliseconds since epoch
+  at: number;
+}
+
+// How a flow's token approval was given: an approve transaction, a signed
+// EIP-2612 permit sent to the token, or an allowance already large enough
+export type ApprovalMethod = "approve" | "permit" | "allowance";
+
+export interface TransactionState {
+  isLoading: boolean;
+  // Fees are estimated and the flow waits for the user to go ahead; nothing
+  // has been sent or signed yet
+  isReviewing: boolean;
+  isSuccess: boolean;
+  isError: boolean;
+  // Timed out waiting for confirmations; may still confirm later
+  isPending: boolean;
+  error: string | null;
+  // Typed cause of the failure, for a tailored message and suggested fix
+  errorCode?: TransactionErrorCode | null;
+  hash: string | null;
+  step: TransactionStep;
+  confirmations: number;
+  requiredConfirmations: number;
+  // Every step of the current flow, oldest first
+  history: TransactionHistoryEntry[];
+  approvalMethod: ApprovalMethod | null;
+}
+
+export type TransactionEvent =
+  | { type: "START"; step: TransactionActionStep }
+  | { type: "NEXT_STEP"; step: TransactionActionStep }
+  | { type: "AWAIT_REVIEW" }
+  | { type: "REVIEWED" }
+  // The approval was signed as a permit; the permit itself is sent next
+  | { type: "PERMIT_SIGNED" }
+  // The existing allowance covers the call, so nothing was sent
+  | { type: "ALLOWANCE_SUFFICIENT" }
+  | { type: "SUBMITTED"; hash: string }
+  | { type: "REPLACED"; hash: string }
+  | { type: "CONFIRMATION"; confirmations: number }
+  | { type: "TIMEOUT" }
+  // `hash` marks events from a background watch, which only apply while
+  // that transaction is still the current one
+  | { type: "CONFIRMED"; step: "approved" | "success"; hash?: string }
+  | { type: "FAILED"; error: TransactionError; hash?: string }
+  | { type: "RESET" };
+
+export const initialTransactionState: TransactionState = {
+  isLoading: false,
+  isReviewing: false,
+  isSuccess: false,
+  isError: false,
+  isPending: false,
+  error: null,
+  errorCode: null,
+  hash: null,
+  step: "idle",
+  confirmations: 0,
+  requiredConfirmations: TRANSACTION_CONFIRMATIONS,
+  history: [],
+  approvalMethod: null,
+};
+
+// The step a flow is currently sending, if any
+const activeStep = (state: TransactionState) =>
+  state.history[state.history.length - 1]?.step ?? null;
+
+const record = (
+  state: TransactionState,
+  status: TransactionHistoryEntry["status"],
+  hash: string | null = state.hash
+): TransactionHistoryEntry[] => {
+  const step = activeStep(state);
+  return step
+    ? [...state.history, { step, status, hash, at: Date.now() }]
+    : state.history;
+};
+
+export const transactionReducer = (
+  state: TransactionState,
+  event: TransactionEvent
+): TransactionState => {
+  if (
+    (event.type === "CONFIRMED" || event.type === "FAILED") &&
+    event.hash &&
+    event.hash !== state.hash
+  ) {
+    return state;
+  }
+
+  switch (event.type) {
+    case "START":
+      return {
+        ...initialTransactionState,
+        isLoading: true,
+        step: event.step,
+        history: [
+          { step: event.step, status: "started", hash: null, at: Date.now() },
+        ],
+      };
+    case "NEXT_STEP":
+      return {
+        ...state,
+        isLoading: true,
+        isSuccess: false,
+        isPending: false,
+        hash: null,
+        step: event.step,
+        confirmations: 0,
+        history: [
+          ...state.history,
+          { step: event.step, status: "started", hash: null, at: Date.now() },
+        ],
+      };
+    case "AWAIT_REVIEW":
+      return { ...state, isLoading: false, isReviewing: true };
+    case "REVIEWED":
+      return { ...state, isLoading: true, isReviewing: false };
+    case "PERMIT_SIGNED":
+      return {
+        ...state,
+        approvalMethod: "permit",
+        history: record(state, "signed", null),
+      };
+    case "ALLOWANCE_SUFFICIENT":
+      return {
+        ...state,
+        step: "approved",
+        approvalMethod: "allowance",
+        history: record(state, "skipped", null),
+      };
+    case "SUBMITTED":
+      return {
+        ...state,
+        hash: event.hash,
+        history: record(state, "submitted", event.hash),
+      };
+    case "REPLACED":
+      return {
+        ...state,
+        hash: event.hash,
+        confirmations: 0,
+        history: record(state, "replaced", event.hash),
+      };
+    case "CONFIRMATION":
+      return { ...state, confirmations: event.confirmations };
+    case "TIMEOUT":
+      return {
+        ...state,
+        isLoading: false,
+        isPending: true,
+        history: record(state, "timed_out"),
+      };
+    case "CONFIRMED":
+      return {
+        ...state,
+        isLoading: false,
+        isSuccess: true,
+        isPending: false,
+        step: event.step,
+        approvalMethod:
+          event.step === "approved"
+            ? (state.approvalMethod ?? "approve")
+            : state.approvalMethod,
+        confirmations: state.requiredConfirmations,
+        history: record(state, "confirmed"),
+      };
+    case "FAILED":
+      return {
+        ...state,
+        isLoading: false,
+        isReviewing: false,
+        isSuccess: false,
+        isError: true,
+        isPending: false,
+        error: event.error.message,
+        errorCode: event.error.code,
+        step: "error",
+        history: record(state, "failed"),
+      };
+    case "RESET":
+      return initialTransactionState;
+  }
+};
+
+/**
+ * Wait until `tx` has `confirmations` confirmations, reporting each one.
+ * A sped-up transaction is followed to its replacement; one that was
+ * cancelled or replaced by a different call rejects with
+ * TRANSACTION_REPLACED. Rejects with ethers' TIMEOUT error once `timeout`
+ * milliseconds pass (0 waits indefinitely).
+ */
+export const waitForTransaction = async (
+  tx: ethers.TransactionResponse,
+  options: {
+    confirmations?: number;
+    timeout?: number;
+    onConfirmation?: (confirmations: number) => void;
+    onReplaced?: (replacement: ethers.TransactionResponse) => void;
+  } = {}
+): Promise<ethers.TransactionReceipt> => {
+  const required = options.confirmations ?? TRANSACTION_CONFIRMATIONS;
+  const timeout = options.timeout ?? TRANSACTION_TIMEOUT;
+  const deadline = timeout > 0 ? Date.now() + timeout : null;
+
+  let current = tx;
+  let confirmations = 0;
+  for (;;) {
+    const remaining = deadline === null ? 0 : deadline - Date.now();
+    if (deadline !== null && remaining <= 0) {
+      throw ethers.makeError("wait for transaction timeout", "TIMEOUT");
+    }
+
+    let receipt: ethers.TransactionReceipt | null;
+    try {
+      receipt = await current.wait(confirmations + 1, remaining);
+    } catch (error: unknown) {
+      // Same call at a higher fee: keep waiting on the one that landed
+      if (
+        ethers.isError(error, "TRANSACTION_REPLACED") &&
+        error.reason === "repriced"
+      ) {
+        current = error.replacement;
+        confirmations = 0;
+        options.onReplaced?.(current);
+        continue;
+      }
+      throw error;
+    }
+    if (!receipt) continue;
+
+    confirmations = await receipt.confirmations();
+    options.onConfirmation?.(Math.min(confirmations, required));
+    if (confirmations >= required) return receipt;
+  }
+};
@@ -0,0 +1,37 @@
+// Watch-only mode
+// The loan pages can show any account's loans read-only, named by an
+// ?address= search parameter, so positions can be checked without
+// connecting that account's wallet. The parameter is carried from the loan
+// list to the loan pages so the whole view stays on the watched account.
+
+import { ethers } from "ethers";
+
+export const WATCH_ADDRESS_PARAM = "address";
+
+/**
+ * The checksummed address in `value`, or null when it is missing or not an
+ * address.
+ */
+export const parseWatchAddress = (value: string | null | undefined) => {
+  const trimmed = value?.trim();
+  if (!trimmed || !ethers.isAddress(trimmed)) return null;
+  return ethers.getAddress(trimmed);
+};
+
+/**
+ * Whether the page is watching someone else's account: a watched address
+ * that is not the connected wallet. Watching your own address is the normal
+ * view.
+ */
+export const isWatchingOther = (
+  watched: string | null,
+  connected: string | undefined
+) => !!watched && watched.toLowerCase() !== connected?.toLowerCase();
+
+/**
+ * `path` with the watched address carried along, unchanged without one.
+ */
+export const withWatchAddress = (path: string, watched: string | null) =>
+  watched
+    ? `${path}${path.includes("?") ? "&" : "?"}${WATCH_ADDRESS_PARAM}=${watched}`
+    : path;